@@ -18,11 +18,45 @@ import whatsAppApp from './routes/whatsapp.js'
 import welcomeDisplayApp from './routes/welcome-display.js'
 import realtimeGuestsApp from './routes/realtime-guests.js'
 import uploadApp from './routes/upload.js'
-import type { Bindings, Vars } from '@shared/types'
+import auditApp from './routes/audit.js'
+import stationsApp from './routes/stations.js'
+import partiesApp from './routes/parties.js'
+import segmentsApp from './routes/segments.js'
+import rsvpApp from './routes/rsvp.js'
+import checkInsApp from './routes/checkins.js'
+import type { Bindings, ContextUser, Vars } from '@shared/types'
 import { createNodeWebSocket } from '@hono/node-ws'
 import { connectDb, db } from './db.js'
+import { ensureSessionIndexes, readToken, verifySessionToken } from './utils/session.js'
+import { ensureAccountScope } from './utils/account-scope.js'
+import { ensureLoginAttemptIndexes } from './utils/login-throttle.js'
+import { ensureAuditIndexes } from './utils/audit.js'
+import { ensureGuestIndexes } from './utils/guest-query.js'
+import { ensureGuestCodeIndex } from './utils/guest-codes.js'
+import { ensureDuplicateIndexes } from './utils/guest-duplicates.js'
+import { ensurePartyIndexes } from './utils/parties.js'
+import { ensureSegmentIndexes } from './utils/segments.js'
+import { ensureTrashIndexes } from './utils/guest-trash.js'
+import { migrateGuestLimits } from './utils/guest-limit.js'
+import { ensureCheckInIndexes } from './utils/checkins.js'
+import { migrateInvitationStages } from './utils/invitation-stage.js'
+import { ensureStationIndexes, loadStationUser, parseStationSessionUserId } from './utils/stations.js'
 
 await connectDb(process.env.MONGO_URI ?? 'mongodb://mongo:27017/app', process.env.MONGO_DB ?? 'app');
+await ensureSessionIndexes();
+await ensureAccountScope();
+await ensureLoginAttemptIndexes();
+await ensureAuditIndexes();
+await ensureStationIndexes();
+await ensureGuestIndexes();
+await ensureGuestCodeIndex();
+await ensureDuplicateIndexes();
+await ensurePartyIndexes();
+await ensureSegmentIndexes();
+await ensureTrashIndexes();
+await migrateGuestLimits();
+await ensureCheckInIndexes();
+await migrateInvitationStages();
 
 const rootApp = new Hono<{ Bindings: Bindings; Variables: Vars }>()
 
@@ -59,53 +93,46 @@ rootApp.use('*', async (c, next) => {
     '/api/accounts/current',
     '/api/guests/recent-checkins',
     '/api/health',
-    '/api/welcome-display',
+    '/api/rsvp',
   ]
 
+  const token = readToken(c)
+
+  // Public routes still pick up the session when one is sent (e.g. GET /api/upload/test)
   if (
-    publicRoutes.some((route) => path.startsWith(route)) ||
-    (path.startsWith('/api/upload') && c.req.method === 'GET')
+    !token &&
+    (publicRoutes.some((route) => path.startsWith(route)) ||
+      (path.startsWith('/api/upload') && c.req.method === 'GET'))
   ) {
     console.log(`[auth] Skipping auth for public route: ${path} ${c.req.method}`)
     return next()
   }
 
-  const upgrade = c.req.header('upgrade')
-  if (upgrade && upgrade.toLowerCase() === 'websocket') {
-    return await next()
-  }
-
-  const authHeader = c.req.header('Authorization')
-  const userIdHeader = c.req.header('user-id')
-
-  let userId: string | null = null
-  let user: any = null
-
-  if (userIdHeader) {
-    userId = userIdHeader
+  let user: ContextUser | null = null
 
+  if (token) {
     try {
-      user = await findUserFlexible(userId)
-    } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error)
-      console.error('[auth] Error finding user by user-id header:', msg)
-    }
-  }
-
-  if (!user && authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7)
-
-    try {
-      const tokenParts = token.split('_')
-      console.log(`[auth] Token parts:`, tokenParts)
-      userId = tokenParts[2] 
-
-      console.log(`[auth] Extracted userId: ${userId}`)
-
-      if (userId) {
-        user = await findUserFlexible(userId)
+      const session = await verifySessionToken(token)
+      if (session) {
+        const stationId = parseStationSessionUserId(session.userId)
+        if (stationId) {
+          // Revoked / expired stations lose access immediately
+          user = await loadStationUser(stationId)
+        } else {
+          const doc: any = await findUserFlexible(session.userId)
+          if (doc) {
+            user = {
+              id: String(doc._id),
+              username: doc.username,
+              accountId: doc.accountId,
+              role: doc.role || 'user',
+              permissions: Array.isArray(doc.permissions) ? doc.permissions : [],
+            }
+          }
+        }
+        if (user) c.set('sessionId', session.sessionId)
       } else {
-        console.log(`[auth] Invalid token format - no userId extracted`)
+        console.log(`[auth] Invalid or expired session token`)
       }
     } catch (error: unknown) {
       const msg = error instanceof Error ? error.message : String(error)
@@ -115,12 +142,7 @@ rootApp.use('*', async (c, next) => {
 
   // Set user and account info in context if user found
   if (user) {
-    c.set('user', {
-      id: String(user._id),
-      username: user.username,
-      accountId: user.accountId,
-      role: user.role || 'user',
-    })
+    c.set('user', user)
     c.set('accountId', user.accountId)
   } else {
     console.log(`[auth] No valid authentication found`)
@@ -171,8 +193,14 @@ rootApp.route('/api/intro-text', introTextApp)
 rootApp.route('/api/bulk-import', bulkImportApp)
 rootApp.route('/api/whatsapp', whatsAppApp({ upgradeWebSocket }))
 rootApp.route('/api/welcome-display', welcomeDisplayApp)
-rootApp.route('/api/realtime-guests', realtimeGuestsApp)
+rootApp.route('/api/realtime-guests', realtimeGuestsApp({ upgradeWebSocket }))
 rootApp.route('/api/upload', uploadApp)
+rootApp.route('/api/audit', auditApp)
+rootApp.route('/api/stations', stationsApp)
+rootApp.route('/api/parties', partiesApp)
+rootApp.route('/api/segments', segmentsApp)
+rootApp.route('/api/rsvp', rsvpApp)
+rootApp.route('/api/checkins', checkInsApp)
 
 // Global error handler
 rootApp.onError((err: unknown, c) => {
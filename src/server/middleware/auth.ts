@@ -0,0 +1,117 @@
+// src/server/middleware/auth.ts
+/**
+ * Shared auth/authorization middleware
+ * The root middleware in index.ts turns the session token into c.get('user');
+ * the guards below decide what that user may do, so every router answers
+ * 401/403 with the same rules and the same error body.
+ */
+import type { Context, MiddlewareHandler } from 'hono'
+import type { AppEnv, ContextUser, PermissionKey } from '@shared/types'
+
+export type AuthUser = ContextUser & { accountId: string }
+
+function currentUser(c: Context<AppEnv>): AuthUser | null {
+  const u = c.get('user')
+  if (!u || typeof u !== 'object' || !u.id || !u.accountId) return null
+  return u as AuthUser
+}
+
+/**
+ * Authenticated user of the request. Only call this behind requireUser.
+ */
+export function getUser(c: Context<AppEnv>): AuthUser {
+  const user = currentUser(c)
+  if (!user) throw new Error('getUser() called on a route without requireUser')
+  return user
+}
+
+/**
+ * Platform operator: the only role that may read or change other accounts' data.
+ */
+export function isOperator(user: ContextUser | null | undefined): boolean {
+  return !!user && user.role === 'operator'
+}
+
+/**
+ * Admin of the user's own account (operators count as admin everywhere).
+ */
+export function isAdmin(user: ContextUser | null | undefined): boolean {
+  return !!user && (user.role === 'admin' || user.role === 'operator')
+}
+
+/**
+ * Mongo filter limiting a query to the user's account.
+ * Operators are unrestricted unless they narrow it with ?accountId=.
+ */
+export function accountScope<T extends Record<string, any>>(
+  user: AuthUser,
+  base: T = {} as T,
+  operatorAccountId?: string,
+): T & { accountId?: string } {
+  if (isOperator(user)) return operatorAccountId ? { ...base, accountId: operatorAccountId } : { ...base }
+  return { ...base, accountId: user.accountId }
+}
+
+/**
+ * True when the user may touch data belonging to accountId.
+ */
+export function canAccessAccount(user: AuthUser, accountId: unknown): boolean {
+  return isOperator(user) || (!!accountId && String(accountId) === user.accountId)
+}
+
+export function hasPermission(user: ContextUser | null | undefined, page: string): boolean {
+  if (!user) return false
+  if (isAdmin(user)) return true
+  return !!user.permissions?.some((p) => p.page === page && p.canAccess)
+}
+
+export const requireUser: MiddlewareHandler<AppEnv> = async (c, next) => {
+  if (!currentUser(c)) {
+    return c.json({ success: false, error: 'No token provided' }, 401)
+  }
+  await next()
+}
+
+export const requireAdmin: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const user = currentUser(c)
+  if (!user) {
+    return c.json({ success: false, error: 'No token provided' }, 401)
+  }
+  if (!isAdmin(user)) {
+    return c.json({ success: false, error: 'Admin access required' }, 403)
+  }
+  await next()
+}
+
+export function hasAnyPermission(user: ContextUser | null | undefined, pages: readonly PermissionKey[]): boolean {
+  return pages.some((page) => hasPermission(user, page))
+}
+
+/**
+ * 403 body shared by requirePermission and handlers doing finer checks.
+ */
+export function permissionDenied(c: Context<AppEnv>, pages: readonly PermissionKey[]) {
+  return c.json(
+    {
+      success: false,
+      error: 'You do not have permission to perform this action',
+      code: 'PERMISSION_DENIED',
+      requiredPermissions: pages,
+    },
+    403,
+  )
+}
+
+/**
+ * Passes when the user holds any of the given page permissions.
+ */
+export function requirePermission(...pages: PermissionKey[]): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const user = currentUser(c)
+    if (!user) {
+      return c.json({ success: false, error: 'No token provided' }, 401)
+    }
+    if (!hasAnyPermission(user, pages)) return permissionDenied(c, pages)
+    await next()
+  }
+}
@@ -0,0 +1,75 @@
+// src/server/routes/account-scope.test.ts
+/**
+ * Account isolation: queries are pinned to the caller's account, only
+ * platform operators reach across accounts, and routes naming another
+ * account refuse before the database is read.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv, ContextUser } from '@shared/types'
+import { accountScope, canAccessAccount, type AuthUser } from '../middleware/auth.js'
+import authApp from './auth.js'
+import usersApp from './users.js'
+
+const admin: AuthUser = { id: 'user-1', username: 'admin', role: 'admin', accountId: 'account-1' }
+const staff: AuthUser = { id: 'user-2', username: 'staff', role: 'user', accountId: 'account-1', permissions: [] }
+const operator: AuthUser = { id: 'user-9', username: 'operator', role: 'operator', accountId: 'account-0' }
+
+function api(user: ContextUser) {
+  const app = new Hono<AppEnv>()
+  app.use('*', async (c, next) => {
+    c.set('user', user)
+    await next()
+  })
+  app.route('/api/auth', authApp)
+  app.route('/api/users', usersApp)
+  return app
+}
+
+test('accountScope pins admins and staff to their own account', () => {
+  // Admin sebuah akun bukan lagi "melihat semuanya"
+  assert.deepEqual(accountScope(admin), { accountId: 'account-1' })
+  assert.deepEqual(accountScope(staff, { status: 'Confirmed' }), { status: 'Confirmed', accountId: 'account-1' })
+  // ?accountId= hanya berlaku untuk operator
+  assert.deepEqual(accountScope(admin, {}, 'account-2'), { accountId: 'account-1' })
+  assert.deepEqual(accountScope({ ...admin, accountId: 'account-2' }, { accountId: 'account-1' }), { accountId: 'account-2' })
+})
+
+test('operators query across accounts unless they narrow to one', () => {
+  assert.deepEqual(accountScope(operator, { status: 'Confirmed' }), { status: 'Confirmed' })
+  assert.deepEqual(accountScope(operator, {}, 'account-2'), { accountId: 'account-2' })
+})
+
+test('canAccessAccount allows only the own account, or any for operators', () => {
+  assert.equal(canAccessAccount(admin, 'account-1'), true)
+  assert.equal(canAccessAccount(staff, 'account-1'), true)
+  assert.equal(canAccessAccount(admin, 'account-2'), false)
+  assert.equal(canAccessAccount(admin, undefined), false)
+  assert.equal(canAccessAccount(admin, ''), false)
+  assert.equal(canAccessAccount(operator, 'account-2'), true)
+})
+
+test("an admin cannot read or change another account's settings", async () => {
+  const read = await api(admin).request('/api/auth/accounts/account-2')
+  assert.equal(read.status, 403)
+  assert.deepEqual(await read.json(), { success: false, error: 'Access denied' })
+
+  const write = await api(admin).request('/api/users/accounts/account-2', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rsvpDeadline: null }),
+  })
+  assert.equal(write.status, 403)
+  assert.deepEqual(await write.json(), { success: false, error: 'Access denied' })
+})
+
+test('only operators may create operators', async () => {
+  const res = await api(admin).request('/api/users', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: 'platform', password: 'secret-123', role: 'operator' }),
+  })
+  assert.equal(res.status, 403)
+  assert.deepEqual(await res.json(), { success: false, error: 'Only platform operators can create operators' })
+})
@@ -0,0 +1,80 @@
+/**
+ * Audit log API
+ * Read-only view over 94884219_audit_logs for account admins.
+ * Entries are written by recordAudit() in the mutating routes.
+ */
+
+import { Hono, Context } from 'hono'
+import type { AppEnv } from '@shared/types'
+import { db } from '../db.js'
+import { accountScope, getUser, requireAdmin } from '../middleware/auth.js'
+import { AUDIT_COLLECTION } from '../utils/audit.js'
+
+const auditApp = new Hono<AppEnv>()
+
+auditApp.use('*', requireAdmin)
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * GET /api/audit
+ * Filters: action (prefix, e.g. "guest." or "guest.checkin"), resource,
+ * resourceId, userId, username, from, to (ISO dates); page, limit.
+ */
+auditApp.get('/', async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { action, resource, resourceId, userId, username, from, to, accountId } = c.req.query()
+
+    const pageNum = Math.max(1, Number.parseInt(c.req.query('page') || '1') || 1)
+    const limitNum = Math.min(200, Math.max(1, Number.parseInt(c.req.query('limit') || '50') || 50))
+
+    const query: Record<string, any> = accountScope(user, {}, accountId)
+    if (action) query.action = { $regex: `^${action.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` }
+    if (resource) query.resource = resource
+    if (resourceId) query.resourceId = resourceId
+    if (userId) query.userId = userId
+    if (username) query.username = username
+
+    const createdAt: Record<string, Date> = {}
+    if (from) {
+      const d = new Date(from)
+      if (Number.isNaN(d.getTime())) return c.json({ success: false, error: 'Invalid from date' }, 400)
+      createdAt.$gte = d
+    }
+    if (to) {
+      const d = new Date(to)
+      if (Number.isNaN(d.getTime())) return c.json({ success: false, error: 'Invalid to date' }, 400)
+      createdAt.$lte = d
+    }
+    if (Object.keys(createdAt).length) query.createdAt = createdAt
+
+    const collection = db.collection(AUDIT_COLLECTION)
+    const [items, total] = await Promise.all([
+      collection
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .toArray(),
+      collection.countDocuments(query),
+    ])
+
+    return c.json({
+      success: true,
+      data: items.map((item) => ({ ...item, _id: String(item._id) })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+export default auditApp
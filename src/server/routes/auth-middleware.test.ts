@@ -0,0 +1,76 @@
+// src/server/routes/auth-middleware.test.ts
+/**
+ * Every router guards with the shared middleware, so a missing session or a
+ * non-admin gets the same 401/403 body everywhere. All requests here are
+ * rejected before the database is read, so no MongoDB is needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv, ContextUser } from '@shared/types'
+import auditApp from './audit.js'
+import bulkImportApp from './bulk-import.js'
+import doorprizeApp from './doorprize.js'
+import giftDistributionsApp from './gift-distributions.js'
+import guestsApp from './guests.js'
+import introTextApp from './intro-text.js'
+import stationsApp from './stations.js'
+import uploadApp from './upload.js'
+import usersApp from './users.js'
+
+const staff: ContextUser = { id: 'user-2', username: 'staff', role: 'user', accountId: 'account-1', permissions: [] }
+
+function api(user: ContextUser | null) {
+  const app = new Hono<AppEnv>()
+  app.use('*', async (c, next) => {
+    if (user) c.set('user', user)
+    await next()
+  })
+  app.route('/api/audit', auditApp)
+  app.route('/api/bulk-import', bulkImportApp)
+  app.route('/api/doorprize', doorprizeApp)
+  app.route('/api/gift-distributions', giftDistributionsApp)
+  app.route('/api/guests', guestsApp)
+  app.route('/api/intro-text', introTextApp)
+  app.route('/api/stations', stationsApp)
+  app.route('/api/upload', uploadApp)
+  app.route('/api/users', usersApp)
+  return app
+}
+
+const GUARDED: [string, string][] = [
+  ['GET', '/api/audit'],
+  ['POST', '/api/bulk-import'],
+  ['GET', '/api/doorprize/checked-in'],
+  ['GET', '/api/gift-distributions/guest/65f000000000000000000001'],
+  ['GET', '/api/guests'],
+  ['GET', '/api/intro-text'],
+  ['GET', '/api/stations'],
+  ['POST', '/api/upload'],
+  ['GET', '/api/users'],
+]
+
+test('requests without a session get the same 401 from every router', async () => {
+  for (const [method, path] of GUARDED) {
+    // Header user-id lama tidak lagi dianggap sesi
+    const res = await api(null).request(path, { method, headers: { 'user-id': 'user-1', 'x-user-id': 'user-1' } })
+    assert.equal(res.status, 401, `${method} ${path}`)
+    assert.deepEqual(await res.json(), { success: false, error: 'No token provided' }, `${method} ${path}`)
+  }
+})
+
+test('a session user without an account is treated as signed out', async () => {
+  const { accountId: _, ...accountless } = staff
+  for (const [method, path] of GUARDED) {
+    const res = await api(accountless as ContextUser).request(path, { method })
+    assert.equal(res.status, 401, `${method} ${path}`)
+  }
+})
+
+test('admin-only routers answer staff with 403', async () => {
+  for (const path of ['/api/audit', '/api/stations', '/api/users']) {
+    const res = await api(staff).request(path)
+    assert.equal(res.status, 403, path)
+    assert.deepEqual(await res.json(), { success: false, error: 'Admin access required' }, path)
+  }
+})
@@ -10,6 +10,28 @@ import { zValidator } from '@hono/zod-validator'
 import type { AppEnv } from '@shared/types'
 import { ObjectId } from 'mongodb'
 import { db } from "../db.js";
+import {
+  issueLoginChallenge,
+  issueSessionToken,
+  revokeSession,
+  revokeUserSessions,
+  verifyLoginChallenge,
+} from '../utils/session.js'
+import { hashPassword, verifyStoredPassword } from '../utils/password.js'
+import { checkLoginAllowed, clearLoginFailures, clientIp, recordLoginFailure, type LoginBlock } from '../utils/login-throttle.js'
+import { recordAudit } from '../utils/audit.js'
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, otpauthUrl, verifyTotp } from '../utils/totp.js'
+import { consumeSecondFactor, isTwoFactorEnabled, TWO_FACTOR_ISSUER } from '../utils/two-factor.js'
+import { DEFAULT_CODE_FORMAT } from '../utils/guest-codes.js'
+import { canAccessAccount, getUser, requireUser } from '../middleware/auth.js'
+import {
+  normalizeStationCode,
+  STATION_SESSION_TTL_MS,
+  stationContextUser,
+  stations,
+  stationSessionUserId,
+  stationStatus,
+} from '../utils/stations.js'
 
 const authApp = new Hono<AppEnv>()
 
@@ -41,9 +63,105 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 })
 
+/**
+ * Station login schema (reception tablets)
+ */
+const stationLoginSchema = z.object({
+  code: z.string().trim().min(1, 'Station code is required'),
+  pin: z.string().min(1, 'PIN is required'),
+})
+
+/**
+ * Second login step (2FA)
+ */
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(6, 'Enter the 6-digit code or a recovery code'),
+})
+
+/**
+ * 2FA management: confirm enrollment / disable
+ */
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the 6-digit code'),
+})
+
+const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().trim().min(6, 'Enter the 6-digit code or a recovery code'),
+})
+
+/**
+ * Change password schema (logged-in user)
+ */
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
 // Helper types (untuk cast hasil c.req.valid('json'))
 type RegisterBody = z.infer<typeof registerSchema>
 type LoginBody = z.infer<typeof loginSchema>
+type StationLoginBody = z.infer<typeof stationLoginSchema>
+type TwoFactorLoginBody = z.infer<typeof twoFactorLoginSchema>
+type TwoFactorCodeBody = z.infer<typeof twoFactorCodeSchema>
+type TwoFactorDisableBody = z.infer<typeof twoFactorDisableSchema>
+type ChangePasswordBody = z.infer<typeof changePasswordSchema>
+
+/**
+ * 429 for a throttled / locked login (user or station)
+ */
+function loginBlocked(c: Context<AppEnv>, block: LoginBlock) {
+  const retryAfterSeconds = Math.max(1, Math.ceil((block.retryAt.getTime() - Date.now()) / 1000))
+  c.header('Retry-After', String(retryAfterSeconds))
+  return c.json(
+    {
+      success: false,
+      error:
+        block.code === 'LOGIN_LOCKED'
+          ? 'Too many failed login attempts. This login is temporarily locked.'
+          : 'Too many login attempts. Please wait before trying again.',
+      code: block.code,
+      retryAt: block.retryAt,
+      retryAfterSeconds,
+    },
+    429,
+  )
+}
+
+/**
+ * Issue the session for a fully authenticated user and build the login response
+ */
+async function completeLogin(c: Context<AppEnv>, user: any) {
+  const { token, expiresAt } = await issueSessionToken({
+    userId: user._id.toString(),
+    accountId: user.accountId,
+    userAgent: c.req.header('user-agent'),
+  })
+  await db.collection(USERS_COLLECTION).updateOne({ _id: user._id }, { $set: { lastLoginAt: new Date() } })
+
+  let activePermissions: { page: string; canAccess: boolean }[] = []
+  if (user.role === 'user' && Array.isArray(user.permissions) && user.permissions.length) {
+    activePermissions = user.permissions.map((p: any) => ({ page: p.page, canAccess: p.canAccess }))
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      user: {
+        id: user._id.toString(),
+        username: user.username,
+        name: user.name,
+        accountId: user.accountId,
+        role: user.role,
+        permissions: activePermissions
+      },
+      token,
+      expiresAt,
+    },
+    message: 'Login successful',
+  })
+}
 
 /**
  * POST /api/register
@@ -123,7 +241,7 @@ authApp.post('/register', zValidator('json', registerSchema), async (c: Context<
     try {
       const userResult = await db.collection(USERS_COLLECTION).insertOne({
         username,
-        password, // In production: hash first
+        password: await hashPassword(password),
         phone,
         accountId,
         role: 'admin',
@@ -144,6 +262,12 @@ authApp.post('/register', zValidator('json', registerSchema), async (c: Context<
 
     console.log(`[auth] User registered successfully: ${username} (account: ${accountId})`)
 
+    const { token, expiresAt } = await issueSessionToken({
+      userId,
+      accountId,
+      userAgent: c.req.header('user-agent'),
+    })
+
     return c.json({
       success: true,
       data: {
@@ -153,7 +277,8 @@ authApp.post('/register', zValidator('json', registerSchema), async (c: Context<
           accountId,
           role: 'admin',
         },
-        token: `mock_token_${userId}_${Date.now()}`,
+        token,
+        expiresAt,
       },
       message: 'Registration successful',
     })
@@ -175,42 +300,158 @@ authApp.post('/login', zValidator('json', loginSchema), async (c: Context<AppEnv
 
     console.log(`[auth] Login attempt: ${username}`)
 
+    const ip = clientIp(c)
+    const block = await checkLoginAllowed(username, ip)
+    if (block) return loginBlocked(c, block)
+
     const user = await db.collection(USERS_COLLECTION).findOne({ username })
     if (!user) {
+      await recordLoginFailure(username, ip)
       return c.json({ success: false, error: 'Invalid username or password' }, 401)
     }
 
-    // In production: verify hashed password
-    if (user.password !== password) {
+    const { ok, rehash } = await verifyStoredPassword(password, user.password)
+    if (!ok) {
+      await recordLoginFailure(username, ip)
       return c.json({ success: false, error: 'Invalid username or password' }, 401)
     }
+    // Legacy plaintext (atau hash lama) diganti hash baru saat login pertama yang valid
+    if (rehash) {
+      await db.collection(USERS_COLLECTION).updateOne(
+        { _id: user._id },
+        { $set: { password: rehash, passwordUpdatedAt: new Date() } },
+      )
+      console.log(`[auth] Upgraded stored password hash for ${username}`)
+    }
+
+    // Password benar tapi counter gagal baru direset setelah langkah 2FA lolos
+    if (isTwoFactorEnabled(user)) {
+      const challenge = issueLoginChallenge(user._id.toString())
+      return c.json({
+        success: true,
+        data: { twoFactorRequired: true, challengeToken: challenge.token, expiresAt: challenge.expiresAt },
+        message: 'Two-factor code required',
+      })
+    }
+
+    await clearLoginFailures(username)
+    return completeLogin(c, user)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Login failed'
+    console.error(`[auth] Login failed:`, errorMessage)
+    return c.json({ success: false, error: errorMessage }, 500)
+  }
+})
+
+/**
+ * POST /api/login/2fa
+ * Second login step: challenge token from /login + a TOTP or recovery code.
+ * Wrong codes count towards the same lockout as wrong passwords.
+ */
+authApp.post('/login/2fa', zValidator('json', twoFactorLoginSchema), async (c: Context<AppEnv>) => {
+  try {
+    const { challengeToken, code } = (c.req as any).valid('json') as TwoFactorLoginBody
+
+    const userId = verifyLoginChallenge(challengeToken)
+    if (!userId || !ObjectId.isValid(userId)) {
+      return c.json({ success: false, error: 'Login session expired, please sign in again', code: 'CHALLENGE_EXPIRED' }, 401)
+    }
 
-    const token = `mock_token_${user._id}_${Date.now()}`
-    await db.collection(USERS_COLLECTION).updateOne({ _id: user._id }, { $set: { lastLoginAt: new Date() } })
+    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(userId) })
+    if (!user || !isTwoFactorEnabled(user)) {
+      return c.json({ success: false, error: 'Login session expired, please sign in again', code: 'CHALLENGE_EXPIRED' }, 401)
+    }
+
+    const ip = clientIp(c)
+    const block = await checkLoginAllowed(user.username, ip)
+    if (block) return loginBlocked(c, block)
 
-    let activePermissions: { page: string; canAccess: boolean }[] = []
-    if (user.role === 'user' && Array.isArray(user.permissions) && user.permissions.length) {
-      activePermissions = user.permissions.map((p: any) => ({ page: p.page, canAccess: p.canAccess }))
+    const method = await consumeSecondFactor(user._id, user.twoFactor, code)
+    if (!method) {
+      await recordLoginFailure(user.username, ip)
+      return c.json({ success: false, error: 'Invalid verification code' }, 401)
+    }
+    await clearLoginFailures(user.username)
+
+    if (method === 'recovery') {
+      c.set('user', { id: userId, username: user.username, accountId: user.accountId, role: user.role })
+      await recordAudit(c, {
+        action: 'user.2fa.recovery_code_used',
+        resource: 'user',
+        resourceId: userId,
+        details: { remaining: (user.twoFactor.recoveryCodes?.length ?? 1) - 1 },
+      })
+    }
+
+    return completeLogin(c, user)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Login failed'
+    console.error(`[auth] 2FA login failed:`, errorMessage)
+    return c.json({ success: false, error: errorMessage }, 500)
+  }
+})
+
+/**
+ * POST /api/station-login
+ * Sign in a reception station with its code + PIN. The token lives at most
+ * STATION_SESSION_TTL and never past the station's validUntil.
+ */
+authApp.post('/station-login', zValidator('json', stationLoginSchema), async (c: Context<AppEnv>) => {
+  try {
+    const body = (c.req as any).valid('json') as StationLoginBody
+    const code = normalizeStationCode(body.code)
+    // Counter terpisah dari username biasa
+    const throttleKey = `station:${code}`
+
+    const ip = clientIp(c)
+    const block = await checkLoginAllowed(throttleKey, ip)
+    if (block) return loginBlocked(c, block)
+
+    const station = await stations().findOne({ code })
+    const { ok } = station ? await verifyStoredPassword(body.pin, station.pinHash) : { ok: false }
+    if (!station || !ok) {
+      await recordLoginFailure(throttleKey, ip)
+      return c.json({ success: false, error: 'Invalid station code or PIN' }, 401)
+    }
+    await clearLoginFailures(throttleKey)
+
+    const status = stationStatus(station)
+    if (status !== 'active') {
+      const error =
+        status === 'revoked'
+          ? 'This station has been revoked'
+          : status === 'scheduled'
+            ? `This station opens at ${station.validFrom.toISOString()}`
+            : 'This station has expired'
+      return c.json({ success: false, error, code: `STATION_${status.toUpperCase()}` }, 403)
     }
 
+    const stationId = String(station._id)
+    const ttlMs = Math.min(STATION_SESSION_TTL_MS, station.validUntil.getTime() - Date.now())
+    const { token, expiresAt } = await issueSessionToken({
+      userId: stationSessionUserId(stationId),
+      accountId: station.accountId,
+      userAgent: c.req.header('user-agent'),
+      ttlMs,
+    })
+    await stations().updateOne({ _id: station._id }, { $set: { lastLoginAt: new Date() } })
+
+    const user = stationContextUser(station)
+    c.set('user', user)
+    await recordAudit(c, { action: 'station.login', resource: 'station', resourceId: stationId })
+
     return c.json({
       success: true,
       data: {
-        user: {
-          id: user._id.toString(),
-          username: user.username,
-          name: user.name,
-          accountId: user.accountId,
-          role: user.role,
-          permissions: activePermissions
-        },
+        user: { ...user, stationValidUntil: station.validUntil },
         token,
+        expiresAt,
       },
       message: 'Login successful',
     })
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Login failed'
-    console.error(`[auth] Login failed:`, errorMessage)
+    console.error(`[auth] Station login failed:`, errorMessage)
     return c.json({ success: false, error: errorMessage }, 500)
   }
 })
@@ -244,7 +485,7 @@ authApp.post('/setup-demo', async (c: Context<AppEnv>) => {
 
     const userResult = await db.collection(USERS_COLLECTION).insertOne({
       username: demoUname,
-      password: demoPassword,
+      password: await hashPassword(demoPassword),
       phone: '+1234567890',
       accountId,
       role: 'admin',
@@ -270,17 +511,16 @@ authApp.post('/setup-demo', async (c: Context<AppEnv>) => {
  * Get current user information
  * Requires authentication
  */
-authApp.get('/me', async (c: Context<AppEnv>) => {
+authApp.get('/me', requireUser, async (c: Context<AppEnv>) => {
   try {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
+    const ctxUser = getUser(c)
 
-    const token = authHeader.substring(7)
-    const userId = token.split('_')[2]
+    // Station sessions have no user row
+    if (ctxUser.stationId) {
+      return c.json({ success: true, data: { user: ctxUser } })
+    }
 
-    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(userId) })
+    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(ctxUser.id) })
     if (!user) return c.json({ success: false, error: 'User not found' }, 404)
 
     return c.json({
@@ -303,17 +543,12 @@ authApp.get('/me', async (c: Context<AppEnv>) => {
 
 /**
  * POST /api/logout
- * Logout user
+ * Logout user and revoke the current session token
  */
 authApp.post('/logout', async (c: Context<AppEnv>) => {
   try {
-    const authHeader = c.req.header('Authorization')
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7)
-      const userId = token.split('_')[2]
-
-      const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(userId) })
-    }
+    const sessionId = c.get('sessionId')
+    if (sessionId) await revokeSession(sessionId)
 
     return c.json({ success: true, message: 'Logout successful' })
   } catch (error: unknown) {
@@ -323,25 +558,222 @@ authApp.post('/logout', async (c: Context<AppEnv>) => {
   }
 })
 
+/**
+ * POST /api/change-password
+ * Change password for the logged-in user; other sessions are revoked
+ */
+authApp.post('/change-password', requireUser, zValidator('json', changePasswordSchema), async (c: Context<AppEnv>) => {
+  try {
+    const ctxUser = getUser(c)
+    if (ctxUser.stationId) {
+      return c.json({ success: false, error: 'Stations sign in with a PIN; ask an admin to change it' }, 403)
+    }
+
+    const { currentPassword, newPassword } = (c.req as any).valid('json') as ChangePasswordBody
+
+    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(ctxUser.id) })
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+
+    const { ok } = await verifyStoredPassword(currentPassword, user.password)
+    if (!ok) return c.json({ success: false, error: 'Current password is incorrect' }, 400)
+
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: user._id },
+      { $set: { password: await hashPassword(newPassword), passwordUpdatedAt: new Date(), updatedAt: new Date() } },
+    )
+    const revoked = await revokeUserSessions(ctxUser.id, c.get('sessionId'))
+    await recordAudit(c, { action: 'user.change_password', resource: 'user', resourceId: ctxUser.id, details: { revokedSessions: revoked } })
+
+    return c.json({ success: true, message: 'Password changed successfully', data: { revokedSessions: revoked } })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to change password'
+    console.error(`[auth] Change password failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
+/**
+ * Current user's row for the 2FA endpoints (stations have none)
+ */
+async function findSelf(c: Context<AppEnv>) {
+  const ctxUser = getUser(c)
+  if (ctxUser.stationId || !ObjectId.isValid(ctxUser.id)) return null
+  return db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(ctxUser.id) })
+}
+
+/**
+ * GET /api/2fa
+ * Two-factor status of the logged-in user
+ */
+authApp.get('/2fa', requireUser, async (c: Context<AppEnv>) => {
+  try {
+    const user = await findSelf(c)
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+
+    return c.json({
+      success: true,
+      data: {
+        enabled: isTwoFactorEnabled(user),
+        enabledAt: user.twoFactor?.enabledAt ?? null,
+        recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length ?? 0,
+      },
+    })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to get 2FA status'
+    console.error(`[auth] 2FA status failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
+/**
+ * POST /api/2fa/setup
+ * Start enrollment: new pending secret + otpauth:// URL for the QR code
+ */
+authApp.post('/2fa/setup', requireUser, async (c: Context<AppEnv>) => {
+  try {
+    const user = await findSelf(c)
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+    if (isTwoFactorEnabled(user)) {
+      return c.json({ success: false, error: 'Two-factor authentication is already enabled' }, 400)
+    }
+
+    const secret = generateTotpSecret()
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: user._id },
+      { $set: { twoFactor: { enabled: false, pendingSecret: secret } } },
+    )
+
+    return c.json({
+      success: true,
+      data: { secret, otpauthUrl: otpauthUrl({ secret, label: user.username, issuer: TWO_FACTOR_ISSUER }) },
+    })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to start 2FA setup'
+    console.error(`[auth] 2FA setup failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
+/**
+ * POST /api/2fa/enable
+ * Confirm enrollment with a code from the app; returns the recovery codes once
+ */
+authApp.post('/2fa/enable', requireUser, zValidator('json', twoFactorCodeSchema), async (c: Context<AppEnv>) => {
+  try {
+    const { code } = (c.req as any).valid('json') as TwoFactorCodeBody
+    const user = await findSelf(c)
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+
+    const pending = user.twoFactor?.pendingSecret
+    if (isTwoFactorEnabled(user) || !pending) {
+      return c.json({ success: false, error: 'Start two-factor setup first' }, 400)
+    }
+
+    const step = verifyTotp(pending, code)
+    if (step === null) return c.json({ success: false, error: 'Invalid verification code' }, 400)
+
+    const recoveryCodes = generateRecoveryCodes()
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactor: {
+            enabled: true,
+            secret: pending,
+            lastUsedStep: step,
+            recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+            enabledAt: new Date(),
+          },
+          updatedAt: new Date(),
+        },
+      },
+    )
+    await recordAudit(c, { action: 'user.2fa.enable', resource: 'user', resourceId: String(user._id) })
+
+    return c.json({ success: true, data: { recoveryCodes }, message: 'Two-factor authentication enabled' })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to enable 2FA'
+    console.error(`[auth] 2FA enable failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
+/**
+ * POST /api/2fa/disable
+ * Needs the password and a current code (or recovery code)
+ */
+authApp.post('/2fa/disable', requireUser, zValidator('json', twoFactorDisableSchema), async (c: Context<AppEnv>) => {
+  try {
+    const { password, code } = (c.req as any).valid('json') as TwoFactorDisableBody
+    const user = await findSelf(c)
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+    if (!isTwoFactorEnabled(user)) {
+      return c.json({ success: false, error: 'Two-factor authentication is not enabled' }, 400)
+    }
+
+    const { ok } = await verifyStoredPassword(password, user.password)
+    if (!ok) return c.json({ success: false, error: 'Password is incorrect' }, 400)
+    if (!(await consumeSecondFactor(user._id, user.twoFactor, code))) {
+      return c.json({ success: false, error: 'Invalid verification code' }, 400)
+    }
+
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: user._id },
+      { $unset: { twoFactor: '' }, $set: { updatedAt: new Date() } },
+    )
+    await recordAudit(c, { action: 'user.2fa.disable', resource: 'user', resourceId: String(user._id) })
+
+    return c.json({ success: true, message: 'Two-factor authentication disabled' })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to disable 2FA'
+    console.error(`[auth] 2FA disable failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
+/**
+ * POST /api/2fa/recovery-codes
+ * Replace all recovery codes (needs a current TOTP code)
+ */
+authApp.post('/2fa/recovery-codes', requireUser, zValidator('json', twoFactorCodeSchema), async (c: Context<AppEnv>) => {
+  try {
+    const { code } = (c.req as any).valid('json') as TwoFactorCodeBody
+    const user = await findSelf(c)
+    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+    if (!isTwoFactorEnabled(user)) {
+      return c.json({ success: false, error: 'Two-factor authentication is not enabled' }, 400)
+    }
+
+    // Hanya TOTP: recovery code tidak boleh dipakai untuk membuat recovery code baru
+    const method = await consumeSecondFactor(user._id, { ...user.twoFactor, recoveryCodes: [] }, code)
+    if (method !== 'totp') return c.json({ success: false, error: 'Invalid verification code' }, 400)
+
+    const recoveryCodes = generateRecoveryCodes()
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: user._id },
+      { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() } },
+    )
+    await recordAudit(c, { action: 'user.2fa.recovery_codes', resource: 'user', resourceId: String(user._id) })
+
+    return c.json({ success: true, data: { recoveryCodes } })
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : 'Failed to regenerate recovery codes'
+    console.error(`[auth] 2FA recovery codes failed:`, msg)
+    return c.json({ success: false, error: msg }, 500)
+  }
+})
+
 /**
  * GET /api/accounts/:accountId
  * Get account information
  * Requires authentication and account ownership
  */
-authApp.get('/accounts/:accountId', async (c: Context<AppEnv>) => {
+authApp.get('/accounts/:accountId', requireUser, async (c: Context<AppEnv>) => {
   try {
     const accountId = c.req.param('accountId')
 
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
-
-    const token = authHeader.substring(7)
-    const userId = token.split('_')[2]
-
-    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(userId) })
-    if (!user || user.accountId !== accountId) {
+    const user = getUser(c)
+    if (!canAccessAccount(user, accountId)) {
       return c.json({ success: false, error: 'Access denied' }, 403)
     }
 
@@ -361,6 +793,9 @@ authApp.get('/accounts/:accountId', async (c: Context<AppEnv>) => {
           welcomeText: account.welcomeText,
           youtubeUrl: account.youtubeUrl,
           guestCategories: account.guestCategories,
+          rsvpDeadline: account.rsvpDeadline ?? null,
+          codeFormat: { ...DEFAULT_CODE_FORMAT, ...(account.codeFormat ?? {}) },
+          customFields: account.customFields ?? [],
           createdAt: account.createdAt,
           updatedAt: account.updatedAt,
         },
@@ -377,18 +812,9 @@ authApp.get('/accounts/:accountId', async (c: Context<AppEnv>) => {
  * GET /api/wedding/countdown
  * User-specific countdown
  */
-authApp.get('/wedding/countdown', async (c: Context<AppEnv>) => {
+authApp.get('/wedding/countdown', requireUser, async (c: Context<AppEnv>) => {
   try {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
-
-    const token = authHeader.substring(7)
-    const userId = token.split('_')[2]
-
-    const user = await db.collection(USERS_COLLECTION).findOne({ _id: new ObjectId(userId) })
-    if (!user) return c.json({ success: false, error: 'User not found' }, 404)
+    const user = getUser(c)
 
     const account = await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: new ObjectId(user.accountId) })
     if (!account) return c.json({ success: false, error: 'Account not found' }, 404)
@@ -8,9 +8,15 @@ import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator'
 import type { AppEnv } from '@shared/types'
 import { db } from "../db.js";
+import { getUser, requirePermission } from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
+import { accountCodeFormat, insertGuestWithCode } from '../utils/guest-codes.js'
+import { accountCustomFields, customFieldValuesInput, validateCustomFields } from '../utils/custom-fields.js'
+import { guestLimitSchema } from '../utils/guest-limit.js'
 
 const bulkImportApp = new Hono<AppEnv>()
-type CtxUser = { id: string; accountId?: string; username?: string; role?: string }
+
+bulkImportApp.use('*', requirePermission('guests'))
 
 // Guest data validation schema
 const guestImportSchema = z.object({
@@ -18,9 +24,11 @@ const guestImportSchema = z.object({
   phone: z.string().min(1, 'Phone number is required'),
   category: z.string().optional(),
   session: z.coerce.string().optional(),
-  limit: z.coerce.string().optional(),
+  limit: guestLimitSchema.optional(),
   notes: z.string().optional(),
   tableNo: z.coerce.string().optional(),
+  // Kolom field custom akun, boleh berupa teks sel ("Ya", "12/10/2026")
+  customFields: customFieldValuesInput.optional(),
 })
 
 // Bulk import schema
@@ -65,14 +73,6 @@ function formatIndonesianPhone(phone: string): string {
   return cleaned
 }
 
-function requireUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id) return null
-  return user as CtxUser
-}
-
 /**
  * Bulk import guests
  * POST /api/bulk-import/guests
@@ -85,8 +85,7 @@ bulkImportApp.post(
       const body = (c.req as any).valid('json') as BulkImportBody
       const { guests, generateInvitations } = body
 
-      const user = requireUser(c)
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+      const user = getUser(c)
 
       const results = {
         success: 0,
@@ -95,6 +94,8 @@ bulkImportApp.post(
         importedGuests: [] as any[],
       }
 
+      const codeFormat = await accountCodeFormat(user.accountId)
+      const customFieldDefs = await accountCustomFields(user.accountId)
       const batchSize = 50
       let idxGuest = 1
 
@@ -117,45 +118,35 @@ bulkImportApp.post(
               throw new Error('Phone number must be formatted to Indonesian format (62...)')
             }
 
-            // Generate unique invitation code
-            const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-            let code = '';
-            for (let i = 0; i < 5; i++) {
-              code += chars.charAt(Math.floor(Math.random() * chars.length));
+            const fields = validateCustomFields(customFieldDefs, guest.customFields, { coerce: true })
+            if (fields.error !== undefined) {
+              throw new Error(fields.error)
             }
 
-            const invitationCode = `GUEST-${code}`;
-
             const guestData = {
               name: guest.name,
               phone: formattedPhone,
               category: guest.category,
               session: guest.session,
-              limit: guest.limit,
+              limit: guest.limit ?? null,
               notes: guest.notes || '',
               tableNo: guest.tableNo || '',
-              code: invitationCode,
+              ...(Object.keys(fields.data).length ? { customFields: fields.data } : {}),
               status: 'Pending' as const,
               plusOne: false,
               introTextCategory: 'Formal',
               userId: user.id,
+              accountId: user.accountId,
               createdAt: new Date(),
               updatedAt: new Date(),
             }
 
-            const insertResult = await db.collection('94884219_guests').insertOne(guestData)
-
-            if (insertResult.insertedId) {
-              results.success++
-              results.importedGuests.push({
-                ...guestData,
-                _id: insertResult.insertedId,
-              })
-              console.log(`[Bulk Import] Successfully imported guest: ${guest.name}`)
-            } else {
-              throw new Error('Failed to insert guest into database')
-            }
+            // Kode unik per akun, dibuat ulang kalau bentrok
+            const inserted = await insertGuestWithCode(guestData, codeFormat)
+
+            results.success++
+            results.importedGuests.push(inserted)
+            console.log(`[Bulk Import] Successfully imported guest: ${guest.name}`)
           } catch (error: unknown) {
             results.failed++
             const msg = error instanceof Error ? error.message : String(error)
@@ -171,6 +162,11 @@ bulkImportApp.post(
       }
 
       console.log(`[Bulk Import] Import complete. Success: ${results.success}, Failed: ${results.failed}`)
+      await recordAudit(c, {
+        action: 'guest.bulk_import',
+        resource: 'guest',
+        details: { totalProcessed: guests.length, success: results.success, failed: results.failed },
+      })
 
       return c.json({
         success: true,
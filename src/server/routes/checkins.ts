@@ -0,0 +1,93 @@
+/**
+ * Check-in log API
+ * Read-only arrivals timeline over 94884219_checkins. Events are written by
+ * the guest and party check-in routes (utils/checkins.ts).
+ */
+
+import { Hono, Context } from 'hono'
+import { ObjectId } from 'mongodb'
+import type { AppEnv } from '@shared/types'
+import { db } from '../db.js'
+import { accountScope, getUser, requirePermission } from '../middleware/auth.js'
+import { CHECKINS_COLLECTION } from '../utils/checkins.js'
+import { GUESTS_COLLECTION } from '../utils/guest-query.js'
+
+const checkInsApp = new Hono<AppEnv>()
+
+checkInsApp.use('*', requirePermission('reception', 'guests'))
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * GET /api/checkins
+ * Filters: type (checkin | clear), session, guestId, stationId, from, to
+ * (ISO dates); page, limit. Newest first, each event with its guest name.
+ */
+checkInsApp.get('/', async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { type, session, guestId, stationId, from, to, accountId } = c.req.query()
+
+    const pageNum = Math.max(1, Number.parseInt(c.req.query('page') || '1') || 1)
+    const limitNum = Math.min(200, Math.max(1, Number.parseInt(c.req.query('limit') || '50') || 50))
+
+    const query: Record<string, any> = accountScope(user, {}, accountId)
+    if (type === 'checkin' || type === 'clear') query.type = type
+    if (session) query.session = session
+    if (guestId) query.guestId = guestId
+    if (stationId) query.stationId = stationId
+
+    const at: Record<string, Date> = {}
+    if (from) {
+      const d = new Date(from)
+      if (Number.isNaN(d.getTime())) return c.json({ success: false, error: 'Invalid from date' }, 400)
+      at.$gte = d
+    }
+    if (to) {
+      const d = new Date(to)
+      if (Number.isNaN(d.getTime())) return c.json({ success: false, error: 'Invalid to date' }, 400)
+      at.$lte = d
+    }
+    if (Object.keys(at).length) query.at = at
+
+    const collection = db.collection(CHECKINS_COLLECTION)
+    const [items, total] = await Promise.all([
+      collection
+        .find(query)
+        .sort({ at: -1, _id: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .toArray(),
+      collection.countDocuments(query),
+    ])
+
+    const guestIds = [...new Set(items.map((e) => String(e.guestId)))].filter((id) => ObjectId.isValid(id))
+    const guests = await db
+      .collection(GUESTS_COLLECTION)
+      .find({ _id: { $in: guestIds.map((id) => new ObjectId(id)) } }, { projection: { name: 1, code: 1 } })
+      .toArray()
+    const byId = new Map(guests.map((g) => [String(g._id), g]))
+
+    return c.json({
+      success: true,
+      data: items.map((item) => ({
+        ...item,
+        _id: String(item._id),
+        guestName: byId.get(String(item.guestId))?.name ?? null,
+        guestCode: byId.get(String(item.guestId))?.code ?? null,
+      })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+export default checkInsApp
@@ -4,54 +4,37 @@
  * All operations are scoped to the authenticated user's account.
  */
 
-import { Hono, Context } from 'hono'
+import { Hono } from 'hono'
 import type { AppEnv } from '@shared/types'
 import { ObjectId } from 'mongodb'
 import { db } from "../db.js";
+import { accountScope, getUser, requirePermission } from '../middleware/auth.js'
+import { findGuestsInOrder, searchGuestIds } from '../utils/guest-search.js'
+import { withSegment } from '../utils/segments.js'
 
 const doorprizeApp = new Hono<AppEnv>()
 
+doorprizeApp.use('*', requirePermission('doorprize'))
+
 // Collections with app id prefix
 const GUESTS_COLLECTION = '94884219_guests'
 const DOORPRIZE_COLLECTION = '94884219_doorprizes'
 
-// ------------------------ utils ------------------------
-
-type CtxUser = { id: string; accountId: string; username?: string; role?: string }
-
-function requireUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id || !user.accountId) return null
-  return user as CtxUser
-}
-
-function errMsg(error: unknown): string {
-  return error instanceof Error ? error.message : String(error)
-}
-
 // ------------------------ routes ------------------------
 /**
  * GET /api/doorprize/checked-in
- * Returns all guests who have checked in for the current account, optionally filtered by search term.
+ * Returns all guests who have checked in for the current account, optionally
+ * filtered by a fuzzy search term (best match first). segmentId limits the
+ * draw to the guests of a saved segment (e.g. tag "kantor").
  */
 doorprizeApp.get('/checked-in', async (c) => {
   try {
-    // Get user from middleware context
-    const user = c.get('user');
-    if (!user) {
-      return c.json({
-        success: false,
-        error: 'Authentication required'
-      }, 401);
-    }
+    const user = getUser(c);
 
-    const userId = user.id;
-    const { search } = c.req.query();
+    const { search, segmentId } = c.req.query();
 
-    // Build query with user isolation
-    const filter: any = { userId };
+    // Build query with account isolation
+    let filter: any = accountScope(user);
 
     // Check for checked-in guests - handle both null and undefined cases
     filter.$and = [
@@ -59,28 +42,27 @@ doorprizeApp.get('/checked-in', async (c) => {
       { checkInDate: { $exists: true } }
     ];
 
-    if (search) {
-      filter.$and = [
-        { $or: filter.$or },
-        {
-          $or: [
-            { name: { $regex: search, $options: 'i' } },
-            { code: { $regex: search, $options: 'i' } },
-          ]
-        }
-      ];
-      delete filter.$or;
+    if (segmentId) {
+      filter = await withSegment(filter, user.accountId, segmentId);
+      if (!filter) {
+        return c.json({ success: false, error: 'Segment not found' }, 404);
+      }
     }
 
     console.log(`[doorprize] Searching for checked-in guests with filter:`, JSON.stringify(filter));
 
-    const cursor = db.collection(GUESTS_COLLECTION)
-      .find(filter, { projection: { name: 1, code: 1, category: 1, info: 1, session: 1, limit: 1, tableNo: 1, guestCount: 1, checkInDate: 1, phone: 1 } })
-      .sort({ checkInDate: -1 })
-      .limit(500);
-    const list = await cursor.toArray();
+    const projection = { name: 1, code: 1, category: 1, info: 1, session: 1, limit: 1, tableNo: 1, guestCount: 1, checkInDate: 1, phone: 1 };
+
+    // Dengan kata kunci: urut relevansi (fuzzy, aman dari regex); tanpa: check-in terbaru dulu
+    const list = search?.trim()
+      ? await findGuestsInOrder((await searchGuestIds(filter, search.slice(0, 100))).slice(0, 500), projection)
+      : await db.collection(GUESTS_COLLECTION)
+        .find(filter, { projection })
+        .sort({ checkInDate: -1 })
+        .limit(500)
+        .toArray();
 
-    console.info(`[doorprize] Found ${list.length} checked-in guests for user ${userId}`);
+    console.info(`[doorprize] Found ${list.length} checked-in guests for account ${user.accountId}`);
 
     const items = list.map((g: any) => ({
       id: String(g._id),
@@ -9,20 +9,14 @@ import { zValidator } from '@hono/zod-validator'
 import type { AppEnv } from '@shared/types'
 import { ObjectId } from 'mongodb'
 import { db } from "../db.js";
+import { accountScope, getUser, requirePermission } from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
 
 const giftDistributionsApp = new Hono<AppEnv>()
 
-// ------------------------ utils ------------------------
-
-type CtxUser = { id: string; accountId?: string; username?: string; role?: string }
+giftDistributionsApp.use('*', requirePermission('gifts'))
 
-function requireUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id) return null
-  return user as CtxUser
-}
+// ------------------------ utils ------------------------
 
 function errMsg(error: unknown): string {
   return error instanceof Error ? error.message : String(error)
@@ -45,17 +39,14 @@ type GiftDistributionBody = z.infer<typeof giftDistributionSchema>
 // Get all gift distributions for a guest
 giftDistributionsApp.get('/guest/:guestId', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
+    const user = getUser(c)
 
     const guestId = c.req.param('guestId')
     console.log(`[GiftDistribution] Fetching distributions for guest=${guestId} by user=${user.id}`)
 
     const collection = db.collection('94884219_gift_distributions')
     const distributions = await collection
-      .find({ guestId, userId: user.id })
+      .find(accountScope(user, { guestId }))
       .toArray()
 
     console.log(
@@ -74,11 +65,7 @@ giftDistributionsApp.post(
   zValidator('json', giftDistributionSchema),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c)
-      if (!user) {
-        console.error('[GiftDistribution] No user found in context')
-        return c.json({ success: false, error: 'No token provided' }, 401)
-      }
+      const user = getUser(c)
 
       // zValidator sudah validasi; cast supaya bukan 'never'
       const distributionData = (c.req as any).valid('json') as GiftDistributionBody
@@ -87,30 +74,30 @@ giftDistributionsApp.post(
         distributionData,
       )
 
-      // Verify guest belongs to user
+      // Verify guest belongs to the user's account
       const guestCollection = db.collection('94884219_guests')
-      const guest = await guestCollection.findOne({
-        _id: new ObjectId(distributionData.guestId),
-        userId: user.id,
-      })
+      const guest = await guestCollection.findOne(
+        accountScope(user, { _id: new ObjectId(distributionData.guestId) }),
+      )
 
       if (!guest) {
         console.error(
-          `[GiftDistribution] Guest not found or not owned. guestId=${distributionData.guestId}, userId=${user.id}`,
+          `[GiftDistribution] Guest not found or not in account. guestId=${distributionData.guestId}, accountId=${user.accountId}`,
         )
         return c.json(
-          { success: false, error: 'Guest not found or does not belong to user' },
+          { success: false, error: 'Guest not found or does not belong to this account' },
           404,
         )
       }
+      const accountId = String(guest.accountId)
 
       const collection = db.collection('94884219_gift_distributions')
 
-      // Check if distribution already exists for this guest and gift type (per user)
+      // Check if distribution already exists for this guest and gift type (per account)
       const existingDistribution = await collection.findOne({
         guestId: distributionData.guestId,
         giftType: distributionData.giftType,
-        userId: user.id,
+        accountId,
       })
 
       let result: any
@@ -123,7 +110,7 @@ giftDistributionsApp.post(
           {
             guestId: distributionData.guestId,
             giftType: distributionData.giftType,
-            userId: user.id,
+            accountId,
           },
           {
             $set: {
@@ -144,6 +131,7 @@ giftDistributionsApp.post(
           ...distributionData,
           note: distributionData.note || '',
           userId: user.id,
+          accountId,
           createdAt: new Date(),
           updatedAt: new Date(),
         })
@@ -152,12 +140,22 @@ giftDistributionsApp.post(
           _id: insertResult.insertedId,
           ...distributionData,
           userId: user.id,
+          accountId,
           createdAt: new Date(),
           updatedAt: new Date(),
         }
       }
 
       console.log('[GiftDistribution] Distribution upserted:', result)
+      await recordAudit(c, {
+        action: 'gift_distribution.set',
+        resource: 'gift_distribution',
+        resourceId: String(result?._id ?? existingDistribution?._id),
+        before: existingDistribution,
+        after: result,
+        details: { guestId: distributionData.guestId, giftType: distributionData.giftType },
+        accountId,
+      })
       return c.json({ success: true, data: result })
     } catch (error: unknown) {
       console.error('[GiftDistribution] Upsert error:', errMsg(error))
@@ -169,25 +167,28 @@ giftDistributionsApp.post(
 // Delete gift distribution
 giftDistributionsApp.delete('/:id', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
+    const user = getUser(c)
 
     const id = c.req.param('id')
     console.log(`[GiftDistribution] Deleting distribution id=${id} for user=${user.id}`)
 
     const collection = db.collection('94884219_gift_distributions')
-    const result = await collection.deleteOne({
-      _id: new ObjectId(id),
-      userId: user.id,
-    })
+    const result = await collection.findOneAndDelete(accountScope(user, { _id: new ObjectId(id) }))
+    const deleted = (result && (result as any).value) || result
 
-    if (!result.deletedCount) {
+    if (!deleted) {
       return c.json({ success: false, error: 'Gift distribution not found' }, 404)
     }
 
     console.log('[GiftDistribution] Distribution deleted')
+    await recordAudit(c, {
+      action: 'gift_distribution.delete',
+      resource: 'gift_distribution',
+      resourceId: id,
+      before: deleted,
+      after: null,
+      details: { guestId: deleted.guestId, giftType: deleted.giftType },
+    })
     return c.json({ success: true })
   } catch (error: unknown) {
     console.error('Error deleting gift distribution:', errMsg(error))
@@ -198,20 +199,14 @@ giftDistributionsApp.delete('/:id', async (c: Context<AppEnv>) => {
 // Get gift statistics for a guest
 giftDistributionsApp.get('/guest/:guestId/stats', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
+    const user = getUser(c)
 
     const guestId = c.req.param('guestId')
     console.log(`[GiftDistribution] Stats for guest=${guestId} by user=${user.id}`)
 
     const collection = db.collection('94884219_gift_distributions')
     const distributions = await collection
-      .find<{ giftType: 'Angpao' | 'Kado'; giftCount: number }>({
-        guestId,
-        userId: user.id,
-      })
+      .find<{ giftType: 'Angpao' | 'Kado'; giftCount: number }>(accountScope(user, { guestId }))
       .project({ giftType: 1, giftCount: 1, _id: 0 })
       .toArray()
 
@@ -0,0 +1,72 @@
+// src/server/routes/guests.test.ts
+/**
+ * /api/guests requests that are answered before the database is read, so no
+ * MongoDB is needed: route order (fixed paths such as /stats must come before
+ * /:id, which would fail on new ObjectId('stats')) and request validation.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv, ContextUser } from '@shared/types'
+import guestsApp from './guests.js'
+
+const admin: ContextUser = { id: 'user-1', username: 'admin', role: 'admin', accountId: 'account-1' }
+
+function api() {
+  const app = new Hono<AppEnv>()
+  // Pengganti middleware sesi di index.ts
+  app.use('*', async (c, next) => {
+    c.set('user', admin)
+    await next()
+  })
+  app.route('/api/guests', guestsApp)
+  return app
+}
+
+test('GET /api/guests/stats is handled by the stats route, not /:id', async () => {
+  const res = await api().request('/api/guests/stats?date=kemarin')
+  assert.equal(res.status, 400)
+  assert.deepEqual(await res.json(), { success: false, error: 'date must be YYYY-MM-DD' })
+})
+
+test('GET /api/guests/stats validates the histogram bucket', async () => {
+  const res = await api().request('/api/guests/stats?bucket=1')
+  assert.equal(res.status, 400)
+  assert.deepEqual(await res.json(), { success: false, error: 'bucket must be between 5 and 120 minutes' })
+})
+
+test('PUT /api/guests/:id rejects check-in state and RSVP status', async () => {
+  for (const body of [{ checkInDate: new Date().toISOString() }, { guestCount: 3 }, { status: 'Confirmed' }]) {
+    const res = await api().request('/api/guests/65f000000000000000000001', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    assert.equal(res.status, 400, `${Object.keys(body)[0]} should be rejected`)
+  }
+})
+
+test('POST /api/guests/bulk-update reports an invalid filter as a message', async () => {
+  const res = await api().request('/api/guests/bulk-update', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filter: { sort: 'password' }, patch: { tableNo: '7' } }),
+  })
+  assert.equal(res.status, 400)
+  assert.deepEqual(await res.json(), { success: false, error: 'Invalid sort field' })
+})
+
+test('DELETE /api/guests/trash reports invalid guest ids as a message', async () => {
+  const res = await api().request('/api/guests/trash', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ guestIds: ['bukan-id'] }),
+  })
+  assert.equal(res.status, 400)
+  assert.deepEqual(await res.json(), { success: false, error: 'Invalid id' })
+})
+
+test('GET /api/guests rejects an unknown invitation stage', async () => {
+  const res = await api().request('/api/guests?stage=sent,foo')
+  assert.equal(res.status, 400)
+})
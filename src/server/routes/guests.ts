@@ -5,39 +5,77 @@
 import { Hono, Context } from 'hono'
 import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator'
-import { broadcastGuestUpdate } from './realtime-guests.js'
-import type { AppEnv } from '@shared/types'
+import { stream } from 'hono/streaming'
+import { broadcastGuestUpdate, broadcastStatsDelta } from './realtime-guests.js'
+import type { AppEnv, InvitationStage, PermissionKey } from '@shared/types'
 import { ObjectId } from 'mongodb'
 import { db } from "../db.js";
+import { recordAudit } from '../utils/audit.js'
+import { findGuestsInOrder, searchGuestIds } from '../utils/guest-search.js'
+import { parties } from '../utils/parties.js'
+import { tagsSchema, withSegment } from '../utils/segments.js'
+import { accountCustomFields, customFieldValuesInput, customFieldsUpdate, validateCustomFields } from '../utils/custom-fields.js'
+import { rsvpLink, rsvpPath } from '../utils/rsvp.js'
+import { guestLimitSchema } from '../utils/guest-limit.js'
+import { moveInvitationStage, stageForStatus } from '../utils/invitation-stage.js'
+import { INVITATION_STAGES, INVITATION_TRANSITIONS, canTransition, invitationStageOf } from '../../shared/invitation-stage.js'
+import { guestCheckInLog, recordArrivals, recordClear, syncGuestCheckIn } from '../utils/checkins.js'
+import { parseGuestLimit } from '../../shared/guest-limit.js'
+import { GUEST_EXPORT_FORMATS } from '../../shared/guest-export.js'
+import { EXPORT_BATCH_SIZE, EXPORT_CONTENT_TYPES, guestExportChunks, resolveExportColumns } from '../utils/guest-export.js'
+import { DEFAULT_BUCKET_MINUTES, STATS_TIMEZONE, dayIn, guestStats, liveStatsDelta, liveStatsDeltaOf } from '../utils/guest-stats.js'
+import { listTrash, purgeTrash, restoreGuests, trashGuests, TRASH_RETENTION_DAYS } from '../utils/guest-trash.js'
+import { bulkUpdateGuests, guestBulkUpdateSchema, type GuestBulkUpdateBody } from '../utils/guest-bulk.js'
+import { dismissCluster, findDuplicateClusters, mergeGuests } from '../utils/guest-duplicates.js'
+import { assignMissingCodes, insertGuestWithCode, isDuplicateKeyError, normalizeGuestCode } from '../utils/guest-codes.js'
+import {
+  GUESTS_COLLECTION,
+  GUEST_LIST_MAX_LIMIT,
+  buildGuestFilter,
+  buildGuestSort,
+  escapeRegex,
+  guestListQuerySchema,
+  isPagedQuery,
+  pageParams,
+  type GuestListQuery,
+} from '../utils/guest-query.js'
+import {
+  accountScope,
+  getUser,
+  hasPermission,
+  permissionDenied,
+  requirePermission,
+  requireUser,
+  type AuthUser,
+} from '../middleware/auth.js'
 
 const guestsApp = new Hono<AppEnv>()
 
-// ------------------------ utils ------------------------
+guestsApp.use('*', requireUser)
 
-type CtxUser = { id: string; accountId?: string; username?: string; role?: string }
+// Daftar tamu dibaca oleh semua meja (reception, souvenir, gift, doorprize)
+const canReadGuests = requirePermission('guests', 'reception', 'souvenirs', 'gifts', 'doorprize')
+const canManageGuests = requirePermission('guests')
 
-function requireUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id) return null
-  return user as CtxUser
+// Field yang boleh diubah lewat PUT /:id oleh meja souvenir/gift tanpa izin 'guests'
+const DESK_UPDATE_FIELDS: Partial<Record<PermissionKey, string[]>> = {
+  souvenirs: ['souvenirCount', 'souvenirRecordedAt'],
+  gifts: ['kadoCount', 'angpaoCount', 'giftNote', 'giftRecordedAt', 'souvenirCount'],
 }
 
-function isAdmin(user: CtxUser | null): boolean {
-  return !!user && user.role === 'admin'
+// ------------------------ utils ------------------------
+
+function ownerFilter(user: AuthUser, base: any = {}, operatorAccountId?: string) {
+  // Semua user dalam satu akun (admin & staff) melihat data akun itu; operator lintas akun
+  return accountScope(user, base, operatorAccountId)
 }
 
-function ownerFilter(user: CtxUser, base: any = {}) {
-  // Admin melihat semua data; non-admin dibatasi oleh userId
-  if (isAdmin(user)) return { ...base }
-  return { ...base, userId: user.id }
+function deletedBy(user: AuthUser) {
+  return { id: user.id, username: user.username }
 }
 
-function byIdFilter(user: CtxUser, id: string) {
-  const f: any = { _id: new ObjectId(id) }
-  if (!isAdmin(user)) f.userId = user.id
-  return f
+function byIdFilter(user: AuthUser, id: string) {
+  return accountScope(user, { _id: new ObjectId(id) } as any)
 }
 
 function errMsg(error: unknown): string {
@@ -64,72 +102,455 @@ const guestSchema = z.object({
   reminderScheduledAt: z.string().datetime().optional(),
   reminderSentAt: z.string().datetime().optional(),
   notes: z.string().optional(),
-  // Frontend display fields
-  code: z.string().optional(),
+  // Frontend display fields; tanpa code -> dibuat server (utils/guest-codes.ts)
+  code: z.string().trim().max(30).optional(),
   session: z.string().optional(),
-  limit: z.string().optional(),
+  // Jumlah orang yang boleh hadir; "2" dari form diterima
+  limit: guestLimitSchema.optional(),
   tableNo: z.string().optional(),
   info: z.string().optional(),
   introTextCategory: z.string().optional(),
+  // Dinormalisasi: "Keluarga Ayah" -> "keluarga-ayah"
+  tags: tagsSchema.optional(),
+  // Field custom akun (utils/custom-fields.ts), divalidasi per akun di route
+  customFields: customFieldValuesInput.optional(),
   // Additional fields
   guestCount: z.number().min(0).optional(),
 })
 type GuestBody = z.infer<typeof guestSchema>
 
-const updateGuestSchema = guestSchema.partial()
+// Status & check-in tidak lewat PUT: check-in diturunkan dari log (utils/checkins.ts),
+// status RSVP lewat PATCH /:id/status supaya tahap undangan ikut tervalidasi
+const CHECK_IN_FIELD_ERROR = 'Use POST /api/guests/:id/checkin or /api/guests/:id/clear-checkin'
+
+const updateGuestSchema = guestSchema
+  .omit({ status: true, checkInDate: true, guestCount: true })
+  .partial()
+  .extend({
+    status: z.undefined({ invalid_type_error: 'Use PATCH /api/guests/:id/status to change the RSVP status' }),
+    checkInDate: z.undefined({ invalid_type_error: CHECK_IN_FIELD_ERROR }),
+    guestCount: z.undefined({ invalid_type_error: CHECK_IN_FIELD_ERROR }),
+  })
 type UpdateGuestBody = z.infer<typeof updateGuestSchema>
 
 // ------------------------ routes ------------------------
 
-// Get all guests (admin: semua, user: miliknya)
-guestsApp.get('/', async (c: Context<AppEnv>) => {
+/**
+ * GET /api/guests
+ * Filters: search (fuzzy, ranked by relevance unless sort is given),
+ * category, session, tableNo, status, tags (comma separated), segment
+ * (saved segment id), isInvited, checkedIn, hasSouvenir, hasGift,
+ * dateFrom/dateTo on dateField;
+ * sort ("name", "-checkInDate", ...). With page or limit the response is a
+ * PaginatedResponse, without them the full filtered list as before.
+ */
+guestsApp.get('/', canReadGuests, zValidator('query', guestListQuerySchema), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
+    const q = (c.req as any).valid('query') as GuestListQuery
 
-    const isInvitedParam = c.req.query('isInvited')
-    const isInvited =
-      isInvitedParam === 'true' ? true : isInvitedParam === 'false' ? false : undefined
+    const collection = db.collection(GUESTS_COLLECTION)
+    let query: any = ownerFilter(user, buildGuestFilter(q), q.accountId)
+    const sort = buildGuestSort(q.sort)
 
-    const collection = db.collection('94884219_guests')
-    const query: any = ownerFilter(user)
-    if (isInvited !== undefined) query.isInvited = isInvited
+    if (q.segment) {
+      if (!query.accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+      query = await withSegment(query, query.accountId, q.segment)
+      if (!query) return c.json({ success: false, error: 'Segment not found' }, 404)
+    }
+
+    let rankedIds: ObjectId[] | null = null
+    if (q.search) {
+      rankedIds = await searchGuestIds(query, q.search)
+      query._id = { $in: rankedIds }
+    }
+    // Hasil pencarian tanpa sort eksplisit diurutkan menurut relevansi
+    const byRelevance = rankedIds !== null && !q.sort
+
+    if (!isPagedQuery(q)) {
+      if (byRelevance) return c.json({ success: true, data: await findGuestsInOrder(rankedIds!) })
+      // Urutan lama (natural order) dipertahankan kalau sort tidak diminta
+      const cursor = collection.find(query)
+      const guests = await (q.sort ? cursor.sort(sort) : cursor).toArray()
+      return c.json({ success: true, data: guests })
+    }
+
+    const { page, limit, skip } = pageParams(q)
+    const [guests, total] = byRelevance
+      ? [await findGuestsInOrder(rankedIds!.slice(skip, skip + limit)), rankedIds!.length]
+      : await Promise.all([
+          collection.find(query).sort(sort).skip(skip).limit(limit).toArray(),
+          collection.countDocuments(query),
+        ])
+
+    return c.json({
+      success: true,
+      data: guests,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+const guestExportQuerySchema = guestListQuerySchema.extend({
+  format: z.enum(GUEST_EXPORT_FORMATS).default('xlsx'),
+  // Kunci kolom dipisah koma (shared/guest-export.ts), custom field "cf:<key>"
+  columns: z.string().max(2000).optional(),
+})
+type GuestExportQuery = z.infer<typeof guestExportQuerySchema>
+
+/**
+ * GET /api/guests/export?format=xlsx|csv&columns=name,phone,...
+ * Filtered guest list as a spreadsheet; takes the same filters and sort as
+ * GET /api/guests (page / limit are ignored). Rows are streamed from the
+ * cursor, so large weddings do not build the file in memory.
+ */
+guestsApp.get('/export', canManageGuests, zValidator('query', guestExportQuerySchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const q = (c.req as any).valid('query') as GuestExportQuery
+
+    let query: any = ownerFilter(user, buildGuestFilter(q), q.accountId)
+    if (q.segment) {
+      if (!query.accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+      query = await withSegment(query, query.accountId, q.segment)
+      if (!query) return c.json({ success: false, error: 'Segment not found' }, 404)
+    }
+    if (q.search) query._id = { $in: await searchGuestIds(query, q.search) }
+
+    const customDefs = query.accountId ? await accountCustomFields(query.accountId) : []
+    const requested = q.columns?.split(',').map((key) => key.trim()).filter(Boolean)
+    const { columns, unknown } = resolveExportColumns(requested, customDefs)
+    if (unknown.length) return c.json({ success: false, error: `Unknown columns: ${unknown.join(', ')}` }, 400)
+
+    await recordAudit(c, {
+      action: 'guest.export',
+      resource: 'guest',
+      accountId: query.accountId,
+      details: {
+        format: q.format,
+        columns: columns.map((column) => column.key),
+        search: q.search ?? null,
+        segment: q.segment ?? null,
+      },
+    })
+
+    const cursor = db
+      .collection(GUESTS_COLLECTION)
+      .find(query)
+      .sort(buildGuestSort(q.sort))
+      .batchSize(EXPORT_BATCH_SIZE)
+    const filename = `tamu-${dayIn(new Date(), STATS_TIMEZONE)}.${q.format}`
+
+    c.header('Content-Type', EXPORT_CONTENT_TYPES[q.format])
+    c.header('Content-Disposition', `attachment; filename="${filename}"`)
+    c.header('Cache-Control', 'no-store')
+    return stream(c, async (out) => {
+      out.onAbort(() => void cursor.close())
+      try {
+        for await (const chunk of guestExportChunks(q.format, cursor, columns)) await out.write(chunk)
+      } catch (error: unknown) {
+        // Header sudah terkirim; file terpotong, cukup dicatat
+        console.error('[guests] export failed:', errMsg(error))
+      } finally {
+        await cursor.close()
+      }
+    })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+// Search guests (akun user), best match first
+guestsApp.get('/search', canReadGuests, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+
+    const q = (c.req.query('q') || '').slice(0, 100)
+    if (!q.trim()) return c.json({ success: true, data: [] })
+
+    const ids = await searchGuestIds(ownerFilter(user), q)
+    const guests = await findGuestsInOrder(ids.slice(0, GUEST_LIST_MAX_LIMIT))
 
-    const guests = await collection.find(query).toArray()
     return c.json({ success: true, data: guests })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
-// Search guests (admin: semua, user: miliknya)
-guestsApp.get('/search', async (c: Context<AppEnv>) => {
+/**
+ * GET /api/guests/stats
+ * Totals plus breakdowns per category / session / table / invited vs walk-in
+ * and the arrivals histogram. Query: date (YYYY-MM-DD, default the event
+ * day), tz (IANA zone), bucket (minutes, 5-120).
+ */
+guestsApp.get('/stats', canReadGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
+    const { date, tz, bucket } = c.req.query()
 
-    const q = c.req.query('q') || ''
-    const collection = db.collection('94884219_guests')
-    const searchRegex = new RegExp(q, 'i')
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return c.json({ success: false, error: 'date must be YYYY-MM-DD' }, 400)
+    }
+    const timezone = tz || STATS_TIMEZONE
+    try {
+      dayIn(new Date(), timezone)
+    } catch {
+      return c.json({ success: false, error: `Unknown timezone: ${timezone}` }, 400)
+    }
+    const bucketMinutes = bucket ? Number.parseInt(bucket) : DEFAULT_BUCKET_MINUTES
+    if (!Number.isInteger(bucketMinutes) || bucketMinutes < 5 || bucketMinutes > 120) {
+      return c.json({ success: false, error: 'bucket must be between 5 and 120 minutes' }, 400)
+    }
+
+    const stats = await guestStats(ownerFilter(user, {}, c.req.query('accountId')), {
+      date,
+      timezone,
+      bucketMinutes,
+    })
+    return c.json({ success: true, data: stats })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+const objectIdString = z.string().refine((v) => ObjectId.isValid(v), 'Invalid id')
+
+const mergeSchema = z.object({
+  survivorId: objectIdString,
+  duplicateIds: z.array(objectIdString).min(1).max(20),
+})
+
+const dismissSchema = z.object({
+  guestIds: z.array(objectIdString).min(2).max(50),
+})
+
+/** Akun yang dipakai: milik user, atau ?accountId= untuk operator */
+function targetAccountId(c: Context<AppEnv>, user: AuthUser): string | undefined {
+  return ownerFilter(user, {}, c.req.query('accountId')).accountId
+}
+
+/**
+ * GET /api/guests/duplicates
+ * Clusters of likely duplicate guests (same phone, same or similar name).
+ */
+guestsApp.get('/duplicates', canManageGuests, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const clusters = await findDuplicateClusters(accountId)
+    return c.json({ success: true, data: clusters })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/guests/duplicates/merge
+ * Fold duplicateIds into survivorId and delete them.
+ */
+guestsApp.post('/duplicates/merge', canManageGuests, zValidator('json', mergeSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { survivorId, duplicateIds } = (c.req as any).valid('json') as z.infer<typeof mergeSchema>
+
+    if (duplicateIds.includes(survivorId)) {
+      return c.json({ success: false, error: 'Survivor cannot also be a duplicate' }, 400)
+    }
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const merged = await mergeGuests(accountId, survivorId, Array.from(new Set(duplicateIds)))
+    if (!merged) return c.json({ success: false, error: 'Guest not found' }, 404)
+
+    await recordAudit(c, {
+      action: 'guest.merge',
+      resource: 'guest',
+      resourceId: survivorId,
+      accountId,
+      before: merged.before,
+      after: merged.survivor,
+      // Salinan tamu yang dihapus, untuk penelusuran
+      details: { mergedIds: duplicateIds, merged: merged.removed },
+    })
+    broadcastGuestUpdate('guest_updated', survivorId, accountId)
+    broadcastStatsDelta(
+      accountId,
+      liveStatsDeltaOf([[merged.before, merged.survivor], ...merged.removed.map((g) => [g, null] as [typeof g, null])]),
+    )
+
+    return c.json({ success: true, data: merged.survivor, message: `Merged ${merged.removed.length} guests` })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/guests/duplicates/dismiss
+ * Mark a cluster as "not duplicates" so it stops showing up.
+ */
+guestsApp.post('/duplicates/dismiss', canManageGuests, zValidator('json', dismissSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { guestIds } = (c.req as any).valid('json') as z.infer<typeof dismissSchema>
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const key = await dismissCluster(accountId, guestIds)
+    await recordAudit(c, { action: 'guest.dismiss_duplicates', resource: 'guest', accountId, details: { guestIds } })
+
+    return c.json({ success: true, data: { key } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/guests/bulk-update
+ * Apply one patch to the guests in ids, or to every guest matching filter
+ * (same params as GET /api/guests). Answers with a per-guest report.
+ */
+guestsApp.post('/bulk-update', canManageGuests, zValidator('json', guestBulkUpdateSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const body = (c.req as any).valid('json') as GuestBulkUpdateBody
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    let filter: Record<string, any>
+    if (body.ids) {
+      filter = { _id: { $in: body.ids.map((id) => new ObjectId(id)) } }
+    } else {
+      const raw = Object.fromEntries(Object.entries(body.filter ?? {}).map(([k, v]) => [k, String(v)]))
+      const parsed = guestListQuerySchema.safeParse(raw)
+      if (!parsed.success) return c.json({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid filter' }, 400)
+      filter = buildGuestFilter(parsed.data)
+      if (parsed.data.segment) {
+        const scoped = await withSegment(filter, accountId, parsed.data.segment)
+        if (!scoped) return c.json({ success: false, error: 'Segment not found' }, 404)
+        filter = scoped
+      }
+      if (parsed.data.search) {
+        filter._id = { $in: await searchGuestIds({ ...filter, accountId }, parsed.data.search) }
+      }
+    }
+
+    const report = await bulkUpdateGuests(accountId, filter, body.patch, body.ids, user.username ?? user.id)
+    await recordAudit(c, {
+      action: 'guest.bulk_update',
+      resource: 'guest',
+      accountId,
+      details: { patch: body.patch, filter: body.filter ?? null, ...report.summary, updatedIds: report.updatedIds },
+    })
+    // Satu broadcast untuk seluruh batch, bukan satu per tamu
+    if (report.updatedIds.length) {
+      broadcastGuestUpdate('guests_bulk_updated', '', accountId, { count: report.updatedIds.length, fields: Object.keys(body.patch) })
+    }
+    // Dari field patch, hanya isInvited yang masuk counter live (walkIns)
+    const invitedChanged = report.results.filter((r) => r.result === 'updated' && r.changed?.includes('isInvited')).length
+    if (invitedChanged) broadcastStatsDelta(accountId, { walkIns: body.patch.isInvited ? -invitedChanged : invitedChanged })
+
+    return c.json({ success: true, data: { summary: report.summary, results: report.results } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+const trashIdsSchema = z.object({
+  guestIds: z.array(objectIdString).min(1).max(5000),
+})
+
+/**
+ * GET /api/guests/trash
+ * Deleted guests of the account, newest first.
+ */
+guestsApp.get('/trash', canManageGuests, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const rows = await listTrash(accountId)
+    return c.json({ success: true, data: rows, retentionDays: TRASH_RETENTION_DAYS })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
 
-    const guests = await collection
-      .find({
-        ...ownerFilter(user),
-        $or: [{ name: searchRegex }, { phone: searchRegex }, { code: searchRegex }],
+/**
+ * POST /api/guests/trash/restore
+ * Put guests back together with their reminders and gift distributions.
+ */
+guestsApp.post('/trash/restore', canManageGuests, zValidator('json', trashIdsSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { guestIds } = (c.req as any).valid('json') as z.infer<typeof trashIdsSchema>
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const restored = await restoreGuests(accountId, guestIds)
+    if (!restored.length) return c.json({ success: false, error: 'Guest not found in trash' }, 404)
+
+    for (const guest of restored) {
+      await recordAudit(c, {
+        action: 'guest.restore',
+        resource: 'guest',
+        resourceId: String(guest._id),
+        accountId,
+        before: null,
+        after: guest,
       })
-      .toArray()
+      broadcastGuestUpdate('guest_updated', String(guest._id), accountId)
+    }
+    broadcastStatsDelta(accountId, liveStatsDeltaOf(restored.map((guest) => [null, guest])))
 
-    return c.json({ success: true, data: guests })
+    return c.json({ success: true, data: { restored: restored.length } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * DELETE /api/guests/trash
+ * Permanently delete trashed guests; the whole trash without a body.
+ */
+guestsApp.delete('/trash', canManageGuests, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+
+    const accountId = targetAccountId(c, user)
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const raw = await c.req.json().catch(() => null)
+    let guestIds: string[] | undefined
+    if (raw) {
+      const parsed = trashIdsSchema.safeParse(raw)
+      if (!parsed.success) return c.json({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid guestIds' }, 400)
+      guestIds = parsed.data.guestIds
+    }
+
+    const purged = await purgeTrash(accountId, guestIds)
+    await recordAudit(c, { action: 'guest.purge', resource: 'guest', accountId, details: { purged, guestIds: guestIds ?? 'all' } })
+
+    return c.json({ success: true, data: { purged } })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
-// Get guest by ID (admin: semua, user: miliknya)
-guestsApp.get('/:id', async (c: Context<AppEnv>) => {
+// Get guest by ID (akun user)
+guestsApp.get('/:id', canReadGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
     const collection = db.collection('94884219_guests')
@@ -142,17 +563,34 @@ guestsApp.get('/:id', async (c: Context<AppEnv>) => {
   }
 })
 
-// Create new guest (tetap tersimpan pada user yang membuat — admin pun ke user.id admin)
-guestsApp.post('/', zValidator('json', guestSchema), async (c: Context<AppEnv>) => {
+// Link RSVP publik tamu (token ditandatangani, lihat utils/rsvp.ts)
+guestsApp.get('/:id/rsvp-link', canManageGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
+
+    const id = c.req.param('id')
+    if (!ObjectId.isValid(id)) return c.json({ success: false, error: 'Invalid guest id' }, 400)
+    const guest = await db.collection(GUESTS_COLLECTION).findOne(byIdFilter(user, id), { projection: { code: 1 } })
+
+    if (!guest) return c.json({ success: false, error: 'Guest not found' }, 404)
+    const path = rsvpPath(guest)
+    if (!path) return c.json({ success: false, error: 'Guest has no invitation code' }, 400)
+    return c.json({ success: true, data: { path, url: rsvpLink(guest) || null } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+// Create new guest (masuk ke akun user; userId = pembuat)
+guestsApp.post('/', canManageGuests, zValidator('json', guestSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
 
     const guestData = (c.req as any).valid('json') as GuestBody
     const collection = db.collection('94884219_guests')
 
-    // unique (name, user) check — admin: unik terhadap akun admin sendiri
-    const existingGuestByName = await collection.findOne({ userId: user.id, name: guestData.name })
+    // unique (name, account) check
+    const existingGuestByName = await collection.findOne({ accountId: user.accountId, name: guestData.name })
     if (existingGuestByName) {
       return c.json(
         {
@@ -163,17 +601,37 @@ guestsApp.post('/', zValidator('json', guestSchema), async (c: Context<AppEnv>)
       )
     }
 
-    const result = await collection.insertOne({
-      ...guestData,
+    const { code, customFields, ...rest } = guestData
+    const fields = validateCustomFields(await accountCustomFields(user.accountId), customFields)
+    if (fields.error !== undefined) return c.json({ success: false, error: fields.error }, 400)
+
+    const doc = {
+      ...rest,
+      ...(Object.keys(fields.data).length ? { customFields: fields.data } : {}),
       userId: user.id,
+      accountId: user.accountId,
       createdAt: new Date(),
       updatedAt: new Date(),
-    })
+    }
 
-    return c.json({
-      success: true,
-      data: { _id: result.insertedId, ...guestData, userId: user.id },
-    })
+    let created
+    if (code) {
+      // Kode custom: bentrok -> 409, bukan diganti diam-diam
+      created = { ...doc, _id: new ObjectId(), code: normalizeGuestCode(code) }
+      try {
+        await collection.insertOne(created)
+      } catch (error: unknown) {
+        if (isDuplicateKeyError(error)) {
+          return c.json({ success: false, error: 'Invitation code already in use' }, 409)
+        }
+        throw error
+      }
+    } else {
+      created = await insertGuestWithCode(doc)
+    }
+    await recordAudit(c, { action: 'guest.create', resource: 'guest', resourceId: String(created._id), after: created })
+
+    return c.json({ success: true, data: created })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
@@ -182,6 +640,7 @@ guestsApp.post('/', zValidator('json', guestSchema), async (c: Context<AppEnv>)
 // Create non-invited guest (walk-in)
 guestsApp.post(
   '/non-invited',
+  requirePermission('guests', 'reception', 'souvenirs', 'gifts'),
   zValidator(
     'json',
     z.object({
@@ -191,8 +650,7 @@ guestsApp.post(
       guestCount: z.number().min(1).optional(),
       info: z.string().optional(),
       session: z.string().optional(),
-      limit: z.string().optional(),
-      invitationCode: z.string(),
+      limit: guestLimitSchema.optional(),
       kado: z.number().min(0).optional(),
       angpao: z.number().min(0).optional(),
       giftNote: z.string().optional(),
@@ -203,14 +661,12 @@ guestsApp.post(
   ),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c);
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401);
+      const user = getUser(c);
 
       const data = (c.req as any).valid('json') as {
         name: string;
         phone?: string;
         info?: string;
-        invitationCode?: string;
         tableNo?: string;
         guestCount?: number;
         kado?: number;
@@ -218,20 +674,18 @@ guestsApp.post(
         souvenir?: number;
         session?: string;
         giftNote?: string;
-        limit?: string;
+        limit?: number | null;
         category?: string;
         categoryID: number;
       };
 
-      const collection = db.collection('94884219_guests');
-
       const now = new Date();
 
       const newGuest: any = {
         userId: user.id,
+        accountId: user.accountId,
         name: data.name,
         phone: data.phone ?? '',
-        code: data.invitationCode,
         category: data.category ?? '',
         categoryID: data.categoryID ?? 0,
         isInvited: false,
@@ -241,7 +695,7 @@ guestsApp.post(
         session: data.session ?? '',
 
         guestCount: data.guestCount ?? '',
-        limit: data.limit ?? '',
+        limit: data.limit ?? null,
 
         // hadiah & souvenir (konsisten dengan endpoint /souvenirs)
         kadoCount: 0,
@@ -286,11 +740,21 @@ guestsApp.post(
         newGuest.checkInDate = now;
       }
 
-      const result = await collection.insertOne(newGuest);
+      const inserted = await insertGuestWithCode(newGuest);
+      let created: Record<string, any> = inserted;
+      // Walk-in yang langsung hadir ikut tercatat di log check-in
+      if (newGuest.checkInDate) {
+        await recordArrivals(user, user.accountId, [
+          { guestId: String(inserted._id), guestCount: data.guestCount ?? 1, session: newGuest.session, source: 'walk_in', at: now },
+        ]);
+        created = (await syncGuestCheckIn(user.accountId, String(inserted._id))) ?? inserted;
+      }
+      await recordAudit(c, { action: 'guest.create_walk_in', resource: 'guest', resourceId: String(created._id), after: created });
+      broadcastStatsDelta(user.accountId, liveStatsDelta(null, created));
 
       return c.json({
         success: true,
-        data: { ...newGuest, _id: result.insertedId },
+        data: created,
         message: 'Non-invited guest added successfully',
       });
     } catch (error: unknown) {
@@ -301,30 +765,67 @@ guestsApp.post(
 
 
 // Update guest
-guestsApp.put('/:id', zValidator('json', updateGuestSchema), async (c: Context<AppEnv>) => {
+guestsApp.put('/:id', canReadGuests, zValidator('json', updateGuestSchema), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
     const updateData = (c.req as any).valid('json') as UpdateGuestBody
 
+    // Tanpa izin 'guests', hanya field meja souvenir/gift yang boleh diubah
+    if (!hasPermission(user, 'guests')) {
+      const allowed = new Set(
+        (Object.keys(DESK_UPDATE_FIELDS) as PermissionKey[])
+          .filter((page) => hasPermission(user, page))
+          .flatMap((page) => DESK_UPDATE_FIELDS[page] ?? []),
+      )
+      if (Object.keys(updateData).some((key) => !allowed.has(key))) {
+        return permissionDenied(c, ['guests'])
+      }
+    }
+
     const collection = db.collection('94884219_guests')
 
     const existingGuest = await collection.findOne(byIdFilter(user, id))
     if (!existingGuest) return c.json({ success: false, error: 'Guest not found' }, 404)
 
-    const result = await collection.findOneAndUpdate(
-      byIdFilter(user, id),
-      { $set: { ...updateData, updatedAt: new Date() } },
-      { returnDocument: 'after' },
-    )
+    if (updateData.code !== undefined) updateData.code = normalizeGuestCode(updateData.code)
+
+    // Field custom diubah per key; null mengosongkan field itu saja
+    const { customFields, ...fieldsToSet } = updateData
+    let customUpdate = { $set: {}, $unset: {} } as ReturnType<typeof customFieldsUpdate>
+    if (customFields !== undefined) {
+      const defs = await accountCustomFields(String(existingGuest.accountId))
+      const fields = validateCustomFields(defs, customFields, { partial: true })
+      if (fields.error !== undefined) return c.json({ success: false, error: fields.error }, 400)
+      customUpdate = customFieldsUpdate(fields.data)
+    }
+
+    let result
+    try {
+      result = await collection.findOneAndUpdate(
+        byIdFilter(user, id),
+        {
+          $set: { ...fieldsToSet, ...customUpdate.$set, updatedAt: new Date() },
+          ...(Object.keys(customUpdate.$unset).length ? { $unset: customUpdate.$unset } : {}),
+        },
+        { returnDocument: 'after' },
+      )
+    } catch (error: unknown) {
+      if (isDuplicateKeyError(error)) {
+        return c.json({ success: false, error: 'Invitation code already in use' }, 409)
+      }
+      throw error
+    }
 
     const updated = (result && (result as any).value) || result
+    await recordAudit(c, { action: 'guest.update', resource: 'guest', resourceId: id, before: existingGuest, after: updated })
 
-    // kirim ke pemilik data sebenarnya
-    const targetOwnerId = (existingGuest as any)?.userId ?? user.id
-    broadcastGuestUpdate('guest_updated', id, String(targetOwnerId))
+    // kirim ke akun pemilik data sebenarnya
+    const targetAccountId = (existingGuest as any)?.accountId ?? user.accountId
+    broadcastGuestUpdate('guest_updated', id, String(targetAccountId))
+    // Meja souvenir/gift menyimpan jumlahnya lewat route ini
+    broadcastStatsDelta(String(targetAccountId), liveStatsDelta(existingGuest, updated))
 
     return c.json({ success: true, data: updated })
   } catch (error: unknown) {
@@ -332,59 +833,88 @@ guestsApp.put('/:id', zValidator('json', updateGuestSchema), async (c: Context<A
   }
 })
 
-// Clear guest check-in
-guestsApp.post('/:id/clear-checkin', async (c: Context<AppEnv>) => {
+const clearCheckInSchema = z.object({
+  reason: z.string().trim().max(300).optional(),
+})
+
+/**
+ * POST /api/guests/:id/clear-checkin
+ * Body (optional): { reason }. Appends a clear event cancelling every
+ * arrival; walk-ins without souvenir or gifts move to the trash.
+ */
+guestsApp.post('/:id/clear-checkin', requirePermission('reception'), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
+    let reason = ''
+    try {
+      const parsed = clearCheckInSchema.safeParse(await c.req.json())
+      if (parsed.success) reason = parsed.data.reason ?? ''
+    } catch {
+      // body opsional
+    }
+
     const collection = db.collection('94884219_guests')
     const before = await collection.findOne(byIdFilter(user, id))
 
     if (!before) return c.json({ success: false, error: 'Guest not found' }, 404)
+    const targetAccountId = String((before as any).accountId ?? user.accountId)
+
+    await recordClear(user, targetAccountId, id, { reason, session: (before as any).session })
 
     if ((before as any).isInvited === false && (before as any).souvenirCount <= 0 && (before as any).kadoCount <= 0 && (before as any).angpaoCount <= 0) {
-      const deleteResult = await collection.deleteOne(byIdFilter(user, id))
-      if (deleteResult.deletedCount === 0) {
+      const trashed = await trashGuests(byIdFilter(user, id), { reason: 'walk_in_cleared', deletedBy: deletedBy(user) })
+      if (!trashed.guests.length) {
         return c.json({ success: false, error: 'Failed to delete guest' }, 500)
       }
-      const targetOwnerId = (before as any)?.userId ?? user.id
-      broadcastGuestUpdate('guest_checkin_cleared', id, String(targetOwnerId))
-      return c.json({ success: true, message: 'Guest deleted because not invited' })
+      await recordAudit(c, {
+        action: 'guest.clear_checkin',
+        resource: 'guest',
+        resourceId: id,
+        before,
+        after: null,
+        details: { deletedWalkIn: true, reason },
+      })
+      broadcastGuestUpdate('guest_checkin_cleared', id, targetAccountId)
+      broadcastStatsDelta(targetAccountId, liveStatsDelta(before, null))
+      return c.json({ success: true, message: 'Walk-in guest moved to trash' })
     }
 
-    const result = await collection.findOneAndUpdate(
-      byIdFilter(user, id),
-      { $set: { checkInDate: null, guestCount: 1, updatedAt: new Date() } },
-      { returnDocument: 'after' },
-    )
-
-    const updated = (result && (result as any).value) || result
+    const updated = await syncGuestCheckIn(targetAccountId, id)
     if (!updated) return c.json({ success: false, error: 'Guest not found' }, 404)
+    await recordAudit(c, { action: 'guest.clear_checkin', resource: 'guest', resourceId: id, before, after: updated, details: { reason } })
 
-    const targetOwnerId = (before as any)?.userId ?? user.id
-    broadcastGuestUpdate('guest_checkin_cleared', id, String(targetOwnerId))
+    broadcastGuestUpdate('guest_checkin_cleared', id, targetAccountId)
+    broadcastStatsDelta(targetAccountId, liveStatsDelta(before, updated))
     return c.json({ success: true, data: updated })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
-// Check-in guest
-guestsApp.post('/:id/checkin', async (c: Context<AppEnv>) => {
+/**
+ * POST /api/guests/:id/checkin
+ * Body (optional): { guestCount, overrideReason }. Appends an arrival to the
+ * check-in log; a guest already checked in re-enters (checkInDate stays the
+ * first arrival, guestCount follows the latest). guestCount above the
+ * guest's limit is refused with 409 OVER_LIMIT unless overrideReason is
+ * given by a user holding the checkin_override permission.
+ */
+guestsApp.post('/:id/checkin', requirePermission('reception'), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
 
     let guestCount = 1
+    let overrideReason = ''
     try {
       const body = await c.req.json()
       if (body?.guestCount && typeof body.guestCount === 'number' && body.guestCount > 0) {
         guestCount = body.guestCount
       }
+      if (typeof body?.overrideReason === 'string') overrideReason = body.overrideReason.trim().slice(0, 300)
     } catch {
       // ignore body parse errors; fallback ke 1
     }
@@ -392,35 +922,127 @@ guestsApp.post('/:id/checkin', async (c: Context<AppEnv>) => {
     const collection = db.collection('94884219_guests')
 
     const before = await collection.findOne(byIdFilter(user, id))
+    if (!before) return c.json({ success: false, error: 'Guest not found' }, 404)
 
-    const result = await collection.findOneAndUpdate(
-      byIdFilter(user, id),
+    const limit = parseGuestLimit((before as any).limit)
+    const overBy = limit !== null && guestCount > limit ? guestCount - limit : 0
+    if (overBy > 0) {
+      if (!overrideReason) {
+        return c.json(
+          {
+            success: false,
+            error: `Guest count ${guestCount} exceeds the limit of ${limit}`,
+            code: 'OVER_LIMIT',
+            limit,
+            guestCount,
+          },
+          409,
+        )
+      }
+      if (!hasPermission(user, 'checkin_override')) return permissionDenied(c, ['checkin_override'])
+    }
+
+    const targetAccountId = String((before as any).accountId ?? user.accountId)
+    const [eventId] = await recordArrivals(user, targetAccountId, [
       {
-        $set: {
-          checkInDate: new Date(),
-          guestCount,
-          status: 'Checked-In',
-          updatedAt: new Date(),
-        },
+        guestId: id,
+        guestCount,
+        session: (before as any).session,
+        source: 'reception',
+        overLimit: overBy > 0 ? { count: overBy, reason: overrideReason, approvedBy: user.username ?? user.id } : null,
       },
-      { returnDocument: 'after' },
-    )
-
-    const updated = (result && (result as any).value) || result
+    ])
+    const updated = await syncGuestCheckIn(targetAccountId, id)
 
     if (!updated) return c.json({ success: false, error: 'Guest not found' }, 404)
+    await recordAudit(c, {
+      action: overBy > 0 ? 'guest.checkin_override' : 'guest.checkin',
+      resource: 'guest',
+      resourceId: id,
+      before,
+      after: updated,
+      details: {
+        eventId,
+        reentry: !!(before as any).checkInDate,
+        ...(overBy > 0 ? { limit, guestCount, reason: overrideReason } : {}),
+      },
+    })
 
-    const targetOwnerId = (before as any)?.userId ?? user.id
-    broadcastGuestUpdate('guest_checked_in', id, String(targetOwnerId))
-    return c.json({ success: true, data: updated })
+    broadcastGuestUpdate('guest_checked_in', id, targetAccountId)
+    broadcastStatsDelta(targetAccountId, liveStatsDelta(before, updated))
+    return c.json({ success: true, data: updated, eventId })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * GET /api/guests/:id/checkins
+ * Check-in log of the guest, newest first.
+ */
+guestsApp.get('/:id/checkins', requirePermission('reception', 'guests'), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const id = c.req.param('id')
+    const guest = await db.collection('94884219_guests').findOne(byIdFilter(user, id), { projection: { accountId: 1 } })
+    if (!guest) return c.json({ success: false, error: 'Guest not found' }, 404)
+
+    return c.json({ success: true, data: await guestCheckInLog(String(guest.accountId), id) })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
+/**
+ * POST /api/guests/:id/checkins/:eventId/undo
+ * Body: { reason }. Cancels one arrival (e.g. a re-entry recorded by
+ * mistake); earlier arrivals stay in effect.
+ */
+guestsApp.post(
+  '/:id/checkins/:eventId/undo',
+  requirePermission('reception'),
+  zValidator('json', clearCheckInSchema),
+  async (c: Context<AppEnv>) => {
+    try {
+      const user = getUser(c)
+      const id = c.req.param('id')
+      const eventId = c.req.param('eventId')
+      const { reason } = (c.req as any).valid('json') as z.infer<typeof clearCheckInSchema>
+
+      const before = await db.collection('94884219_guests').findOne(byIdFilter(user, id))
+      if (!before) return c.json({ success: false, error: 'Guest not found' }, 404)
+      const targetAccountId = String((before as any).accountId ?? user.accountId)
+
+      const log = await guestCheckInLog(targetAccountId, id)
+      const arrival = log.find((e) => e._id === eventId && e.type === 'checkin')
+      if (!arrival) return c.json({ success: false, error: 'Check-in not found' }, 404)
+      if (!arrival.active) return c.json({ success: false, error: 'Check-in was already cleared' }, 409)
+
+      await recordClear(user, targetAccountId, id, { reason: reason ?? '', undoes: eventId, session: (before as any).session })
+      const updated = await syncGuestCheckIn(targetAccountId, id)
+
+      await recordAudit(c, {
+        action: 'guest.undo_checkin',
+        resource: 'guest',
+        resourceId: id,
+        before,
+        after: updated,
+        details: { eventId, reason },
+      })
+      broadcastGuestUpdate(updated?.checkInDate ? 'guest_checked_in' : 'guest_checkin_cleared', id, targetAccountId)
+      broadcastStatsDelta(targetAccountId, liveStatsDelta(before, updated))
+      return c.json({ success: true, data: updated })
+    } catch (error: unknown) {
+      return c.json({ success: false, error: errMsg(error) }, 500)
+    }
+  },
+)
+
 // Assign souvenir to guest
 guestsApp.post(
   '/:id/souvenirs',
+  // check-in modal di reception ikut mencatat souvenir
+  requirePermission('souvenirs', 'reception'),
   zValidator(
     'json',
     z.object({
@@ -431,8 +1053,7 @@ guestsApp.post(
   ),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c);
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401);
+      const user = getUser(c);
 
       const id = c.req.param('id');
       const { count, kado, angpao } = (c.req as any).valid('json') as {
@@ -458,6 +1079,8 @@ guestsApp.post(
         $set.giftRecordedAt = new Date()
       }
 
+      const before = await collection.findOne(byIdFilter(user, id));
+
       const result = await collection.findOneAndUpdate(
         byIdFilter(user, id),
         { $set },
@@ -467,6 +1090,8 @@ guestsApp.post(
       const updated = (result && (result as any).value) || result;
       if (!updated)
         return c.json({ success: false, error: 'Guest not found' }, 404);
+      await recordAudit(c, { action: 'guest.souvenir.set', resource: 'guest', resourceId: id, before, after: updated });
+      broadcastStatsDelta(String(updated.accountId), liveStatsDelta(before, updated));
 
       return c.json({ success: true, data: updated });
     } catch (error: unknown) {
@@ -476,11 +1101,9 @@ guestsApp.post(
 );
 
 // Delete souvenir data from guest
-guestsApp.delete('/:id/souvenirs', async (c: Context<AppEnv>) => {
+guestsApp.delete('/:id/souvenirs', requirePermission('souvenirs'), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user)
-      return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
     const collection = db.collection('94884219_guests')
@@ -489,15 +1112,22 @@ guestsApp.delete('/:id/souvenirs', async (c: Context<AppEnv>) => {
     if (!guest)
       return c.json({ success: false, error: 'Guest not found' }, 404)
 
-    let result
-
     if ((guest as any).isInvited === false && (guest as any).status !== 'Checked-In') {
-      result = await collection.deleteOne(byIdFilter(user, id))
+      const trashed = await trashGuests(byIdFilter(user, id), { reason: 'walk_in_cleared', deletedBy: deletedBy(user) })
+      await recordAudit(c, {
+        action: 'guest.souvenir.clear',
+        resource: 'guest',
+        resourceId: id,
+        before: guest,
+        after: null,
+        details: { deletedWalkIn: true },
+      })
+      if (trashed.guests.length) broadcastStatsDelta(String(guest.accountId), liveStatsDelta(guest, null))
 
       return c.json({
         success: true,
-        message: 'Guest deleted because not invited',
-        deletedCount: (result as any)?.deletedCount ?? 0,
+        message: 'Walk-in guest moved to trash',
+        deletedCount: trashed.guests.length,
       })
     } else {
       const updateResult = await collection.findOneAndUpdate(
@@ -515,6 +1145,8 @@ guestsApp.delete('/:id/souvenirs', async (c: Context<AppEnv>) => {
       const updated = (updateResult as any)?.value || updateResult
       if (!updated)
         return c.json({ success: false, error: 'Guest not found after update' }, 404)
+      await recordAudit(c, { action: 'guest.souvenir.clear', resource: 'guest', resourceId: id, before: guest, after: updated })
+      broadcastStatsDelta(String(guest.accountId), liveStatsDelta(guest, updated))
 
       return c.json({
         success: true,
@@ -528,11 +1160,9 @@ guestsApp.delete('/:id/souvenirs', async (c: Context<AppEnv>) => {
 })
 
 // Delete souvenir data from guest
-guestsApp.delete('/:id/gifts', async (c: Context<AppEnv>) => {
+guestsApp.delete('/:id/gifts', requirePermission('gifts'), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user)
-      return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
     const collection = db.collection('94884219_guests')
@@ -541,15 +1171,22 @@ guestsApp.delete('/:id/gifts', async (c: Context<AppEnv>) => {
     if (!guest)
       return c.json({ success: false, error: 'Guest not found' }, 404)
 
-    let result
-
     if ((guest as any).isInvited === false && (guest as any).status !== 'Checked-In') {
-      result = await collection.deleteOne(byIdFilter(user, id))
+      const trashed = await trashGuests(byIdFilter(user, id), { reason: 'walk_in_cleared', deletedBy: deletedBy(user) })
+      await recordAudit(c, {
+        action: 'guest.gift.clear',
+        resource: 'guest',
+        resourceId: id,
+        before: guest,
+        after: null,
+        details: { deletedWalkIn: true },
+      })
+      if (trashed.guests.length) broadcastStatsDelta(String(guest.accountId), liveStatsDelta(guest, null))
 
       return c.json({
         success: true,
-        message: 'Guest deleted because not invited',
-        deletedCount: (result as any)?.deletedCount ?? 0,
+        message: 'Walk-in guest moved to trash',
+        deletedCount: trashed.guests.length,
       })
     } else {
       const updateResult = await collection.findOneAndUpdate(
@@ -569,6 +1206,8 @@ guestsApp.delete('/:id/gifts', async (c: Context<AppEnv>) => {
       const updated = (updateResult as any)?.value || updateResult
       if (!updated)
         return c.json({ success: false, error: 'Guest not found after update' }, 404)
+      await recordAudit(c, { action: 'guest.gift.clear', resource: 'guest', resourceId: id, before: guest, after: updated })
+      broadcastStatsDelta(String(guest.accountId), liveStatsDelta(guest, updated))
 
       return c.json({
         success: true,
@@ -584,6 +1223,7 @@ guestsApp.delete('/:id/gifts', async (c: Context<AppEnv>) => {
 // Assign gift to guest
 guestsApp.post(
   '/:id/gifts',
+  requirePermission('gifts', 'reception'),
   zValidator(
     'json',
     z.object({
@@ -595,8 +1235,7 @@ guestsApp.post(
   ),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c)
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+      const user = getUser(c)
 
       const id = c.req.param('id')
       const { type, count, kado, angpao } = (c.req as any).valid('json') as { type?: 'Angpao' | 'Kado'; count: number; kado?: number; angpao?: number }
@@ -613,6 +1252,8 @@ guestsApp.post(
       )
 
       const updated = (result && (result as any).value) || result
+      await recordAudit(c, { action: 'guest.gift.set', resource: 'guest', resourceId: id, before: existingGuest, after: updated })
+      broadcastStatsDelta(String(existingGuest.accountId), liveStatsDelta(existingGuest, updated))
       return c.json({ success: true, data: updated })
     } catch (error: unknown) {
       return c.json({ success: false, error: errMsg(error) }, 500)
@@ -623,17 +1264,19 @@ guestsApp.post(
 // Schedule reminder for guest
 guestsApp.post(
   '/:id/reminders',
+  canManageGuests,
   zValidator('json', z.object({ scheduledAt: z.string().datetime() })),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c)
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+      const user = getUser(c)
 
       const id = c.req.param('id')
       const { scheduledAt } = (c.req as any).valid('json') as { scheduledAt: string }
 
       const collection = db.collection('94884219_guests')
 
+      const before = await collection.findOne(byIdFilter(user, id))
+
       const result = await collection.findOneAndUpdate(
         byIdFilter(user, id),
         { $set: { reminderScheduledAt: new Date(scheduledAt), updatedAt: new Date() } },
@@ -642,6 +1285,7 @@ guestsApp.post(
 
       const updated = (result && (result as any).value) || result
       if (!updated) return c.json({ success: false, error: 'Guest not found' }, 404)
+      await recordAudit(c, { action: 'guest.reminder.schedule', resource: 'guest', resourceId: id, before, after: updated })
 
       return c.json({ success: true, data: updated })
     } catch (error: unknown) {
@@ -653,6 +1297,7 @@ guestsApp.post(
 // Update guest status
 guestsApp.patch(
   '/:id/status',
+  canManageGuests,
   zValidator(
     'json',
     z.object({
@@ -662,8 +1307,7 @@ guestsApp.patch(
   ),
   async (c: Context<AppEnv>) => {
     try {
-      const user = requireUser(c)
-      if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+      const user = getUser(c)
 
       const id = c.req.param('id')
       const { status, reminderScheduledAt } = (c.req as any).valid('json') as {
@@ -675,21 +1319,16 @@ guestsApp.patch(
 
       const existingGuest = await collection.findOne(byIdFilter(user, id))
       if (!existingGuest) return c.json({ success: false, error: 'Guest not found' }, 404)
+      // Status tamu yang sudah check-in diturunkan dari log check-in
+      if (existingGuest.checkInDate) {
+        return c.json({ success: false, error: 'Guest is checked in; clear the check-in first', code: 'CHECKED_IN' }, 409)
+      }
 
-      // If set back to Pending, clean reminders for the same account (if available)
+      // If set back to Pending, clean reminders of the guest's account
       if (status === 'Pending') {
         try {
           const remindersCollection = db.collection('94884219_reminders')
-          const usersCollection = db.collection('94884219_users')
-
-          // user.id bisa ObjectId atau string
-          let userDoc: any = null;
-          try {
-            userDoc = await usersCollection.findOne({ _id: new ObjectId(user.id) });
-          } catch (_) {
-            userDoc = await usersCollection.findOne({ _id: user.id as any });
-          }
-          const accountId = userDoc?.accountId
+          const accountId = (existingGuest as any).accountId
 
           if (accountId) {
             await remindersCollection.deleteMany({ guestId: id, accountId })
@@ -704,14 +1343,81 @@ guestsApp.patch(
         update.reminderScheduledAt = reminderScheduledAt ? new Date(reminderScheduledAt) : null
       }
 
-      const result = await collection.findOneAndUpdate(
-        byIdFilter(user, id),
-        { $set: update },
-        { returnDocument: 'after' },
-      )
+      await collection.updateOne(byIdFilter(user, id), { $set: update })
+      // Confirmed/Declined = sudah RSVP; Pending membatalkan jadwal reminder di atas
+      await moveInvitationStage(byIdFilter(user, id), stageForStatus(status), 'manual', user.username ?? user.id)
 
-      const updated = (result && (result as any).value) || result
+      const updated = await collection.findOne(byIdFilter(user, id))
+      await recordAudit(c, { action: 'guest.status', resource: 'guest', resourceId: id, before: existingGuest, after: updated })
+
+      return c.json({ success: true, data: updated })
+    } catch (error: unknown) {
+      return c.json({ success: false, error: errMsg(error) }, 500)
+    }
+  },
+)
+
+const invitationStageSchema = z.object({
+  stage: z.enum(INVITATION_STAGES as [InvitationStage, ...InvitationStage[]]),
+})
+
+/**
+ * PATCH /api/guests/:id/invitation-stage
+ * Body: { stage }. Manual lifecycle change, validated against the state
+ * machine (409 INVALID_TRANSITION). checked_in follows the check-in log and
+ * cannot be set or left here.
+ */
+guestsApp.patch(
+  '/:id/invitation-stage',
+  canManageGuests,
+  zValidator('json', invitationStageSchema),
+  async (c: Context<AppEnv>) => {
+    try {
+      const user = getUser(c)
+      const id = c.req.param('id')
+      const { stage } = (c.req as any).valid('json') as z.infer<typeof invitationStageSchema>
+
+      const collection = db.collection('94884219_guests')
+      const before = await collection.findOne(byIdFilter(user, id))
+      if (!before) return c.json({ success: false, error: 'Guest not found' }, 404)
+
+      const from = invitationStageOf(before)
+      if (from === stage) return c.json({ success: true, data: before })
+      if (stage === 'checked_in' || from === 'checked_in') {
+        return c.json({ success: false, error: 'Use check-in to change the checked-in stage', code: 'INVALID_TRANSITION' }, 409)
+      }
+      if (!canTransition(from, stage)) {
+        return c.json(
+          {
+            success: false,
+            error: `Cannot move invitation from ${from} to ${stage}`,
+            code: 'INVALID_TRANSITION',
+            from,
+            allowed: INVITATION_TRANSITIONS[from].filter((s) => s !== 'checked_in'),
+          },
+          409,
+        )
+      }
 
+      // Filter tahap di moveInvitationStage menjaga dari perubahan bersamaan
+      const moved = await moveInvitationStage(
+        { $and: [byIdFilter(user, id), { invitationStage: before.invitationStage ?? null }] },
+        stage,
+        'manual',
+        user.username ?? user.id,
+      )
+      if (!moved) return c.json({ success: false, error: 'Invitation stage changed meanwhile, reload and retry' }, 409)
+
+      const updated = await collection.findOne(byIdFilter(user, id))
+      await recordAudit(c, {
+        action: 'guest.invitation_stage',
+        resource: 'guest',
+        resourceId: id,
+        before,
+        after: updated,
+        details: { from, to: stage },
+      })
+      broadcastGuestUpdate('guest_updated', id, String(before.accountId))
       return c.json({ success: true, data: updated })
     } catch (error: unknown) {
       return c.json({ success: false, error: errMsg(error) }, 500)
@@ -719,46 +1425,52 @@ guestsApp.patch(
   },
 )
 
-// Delete guest by ID
-guestsApp.delete('/:id', async (c: Context<AppEnv>) => {
+// Move guest by ID to the trash, with its reminders and gift distributions
+guestsApp.delete('/:id', canManageGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const id = c.req.param('id')
-    const guestsCol = db.collection('94884219_guests')
-    const remindersCol = db.collection('94884219_reminders')
 
-    // byIdFilter(user, id) adalah helper-mu yang sudah aware admin/non-admin
-    const result = await guestsCol.deleteOne(byIdFilter(user, id))
-    if (!result.deletedCount) {
+    // byIdFilter(user, id) sudah dibatasi ke akun user
+    const trashed = await trashGuests(byIdFilter(user, id), { reason: 'delete', deletedBy: deletedBy(user) })
+    const before = trashed.guests[0]
+    if (!before) {
       return c.json({ success: false, error: 'Guest not found' }, 404)
     }
 
-    const remRes = await remindersCol.deleteMany({ guestId: id })
+    await recordAudit(c, {
+      action: 'guest.delete',
+      resource: 'guest',
+      resourceId: id,
+      before,
+      after: null,
+      details: { trashedReminders: trashed.reminders, trashedGiftDistributions: trashed.giftDistributions },
+    })
+    broadcastStatsDelta(String(before.accountId), liveStatsDelta(before, null))
 
     return c.json({
       success: true,
       deletedGuestId: id,
-      deletedReminders: remRes.deletedCount ?? 0,
+      deletedReminders: trashed.reminders,
+      restoreUntilDays: TRASH_RETENTION_DAYS,
     })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
-// Check if guest name exists (admin: cek global)
-guestsApp.get('/check-name/:name', async (c: Context<AppEnv>) => {
+// Check if guest name exists (dalam akun user)
+guestsApp.get('/check-name/:name', canReadGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
     const name = decodeURIComponent(c.req.param('name'))
     const collection = db.collection('94884219_guests')
 
     const existingGuest = await collection.findOne({
       ...ownerFilter(user),
-      name: { $regex: new RegExp(`^${name}$`, 'i') },
+      name: { $regex: `^${escapeRegex(name.trim())}$`, $options: 'i' },
     })
 
     return c.json({ success: true, data: { exists: !!existingGuest, guest: existingGuest } })
@@ -767,83 +1479,67 @@ guestsApp.get('/check-name/:name', async (c: Context<AppEnv>) => {
   }
 })
 
-// Get guest statistics for dashboard (admin: global, user: miliknya)
-guestsApp.get('/stats', async (c: Context<AppEnv>) => {
+// Beri kode undangan ke semua tamu akun yang belum punya
+guestsApp.post('/codes/generate-missing', canManageGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
+    const user = getUser(c)
 
-    const collection = db.collection('94884219_guests')
-    const guests = await collection.find(ownerFilter(user)).toArray()
-
-    const totalGuests = guests.length
-    const confirmedGuests = guests.filter((g: any) => g.status === 'Confirmed').length
-    const declinedGuests = guests.filter((g: any) => g.status === 'Declined').length
-    const pendingGuests = guests.filter((g: any) => g.status === 'Pending').length
-    const checkedInGuests = guests.filter((g: any) => g.checkInDate).length
-    const plusOneGuests = guests.filter((g: any) => g.plusOne).length
-
-    const totalWithPlusOne = totalGuests + plusOneGuests
-    const confirmedWithPlusOne =
-      confirmedGuests + guests.filter((g: any) => g.status === 'Confirmed' && g.plusOne).length
-
-    const vipGuests = guests.filter((g: any) =>
-      (g.category || '').toLowerCase().trim().includes('vip')
-    ).length
-
-    const regularGuests = totalGuests - vipGuests
-
-    const stats = {
-      totalGuests,
-      confirmedGuests,
-      declinedGuests,
-      pendingGuests,
-      checkedInGuests,
-      plusOneGuests,
-      totalWithPlusOne,
-      confirmedWithPlusOne,
-      vipGuests,
-      regularGuests,
-      attendanceRate: totalGuests > 0 ? Math.round((confirmedGuests / totalGuests) * 100) : 0,
-      checkInRate: confirmedGuests > 0 ? Math.round((checkedInGuests / confirmedGuests) * 100) : 0,
+    const scope = ownerFilter(user, {}, c.req.query('accountId'))
+    if (!scope.accountId) {
+      return c.json({ success: false, error: 'accountId is required' }, 400)
     }
 
-    return c.json({ success: true, data: stats })
+    const assigned = await assignMissingCodes(scope.accountId)
+    await recordAudit(c, {
+      action: 'guest.generate_codes',
+      resource: 'guest',
+      accountId: scope.accountId,
+      details: { assigned },
+    })
+
+    return c.json({ success: true, data: { assigned } })
   } catch (error: unknown) {
     return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
-// Delete all guests (self or admin-wide) + cascade reminders
-guestsApp.delete('/bulk/all', async (c: Context<AppEnv>) => {
+// Move all guests of one account (+ reminders, gift distributions) to the trash
+guestsApp.delete('/bulk/all', canManageGuests, async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'No token provided' }, 401)
-
-    const guestsCol = db.collection('94884219_guests')
-    const remindersCol = db.collection('94884219_reminders')
-
-    const guestFilter: any = isAdmin(user) ? {} : { userId: user.id }
-    const reminderFilter: any = isAdmin(user)
-      ? {}
-      : {
-        $or: [
-          { userId: user.id },
-        ],
-      }
+    const user = getUser(c)
 
-    // Eksekusi penghapusan
-    const guestRes = await guestsCol.deleteMany(guestFilter)
-    const remRes = await remindersCol.deleteMany(reminderFilter)
+    // Operator wajib memilih akun; tidak ada hapus lintas akun
+    const scope = ownerFilter(user, {}, c.req.query('accountId'))
+    if (!scope.accountId) {
+      return c.json({ success: false, error: 'accountId is required' }, 400)
+    }
+
+    // Party ikut dihapus permanen; tamu yang dipulihkan kembali tanpa party
+    const trashed = await trashGuests(scope, { reason: 'bulk_delete', deletedBy: deletedBy(user) })
+    const partyRes = await parties().deleteMany(scope)
+    await recordAudit(c, {
+      action: 'guest.bulk_delete',
+      resource: 'guest',
+      accountId: scope.accountId,
+      details: {
+        deletedGuests: trashed.guests.length,
+        trashedReminders: trashed.reminders,
+        trashedGiftDistributions: trashed.giftDistributions,
+        deletedParties: partyRes.deletedCount ?? 0,
+      },
+    })
+    broadcastStatsDelta(scope.accountId, liveStatsDeltaOf(trashed.guests.map((guest) => [guest, null])))
 
     return c.json({
       success: true,
-      scope: isAdmin(user) ? 'all' : 'self',
-      deletedGuests: guestRes.deletedCount ?? 0,
-      deletedReminders: remRes.deletedCount ?? 0,
+      scope: 'account',
+      accountId: scope.accountId,
+      deletedGuests: trashed.guests.length,
+      deletedReminders: trashed.reminders,
+      restoreUntilDays: TRASH_RETENTION_DAYS,
     })
   } catch (error: unknown) {
-    return c.json({ success: false, error: "asdasdasd" }, 500)
+    return c.json({ success: false, error: errMsg(error) }, 500)
   }
 })
 
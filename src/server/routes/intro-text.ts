@@ -1,6 +1,6 @@
 /**
  * Intro text management routes
- * Handles CRUD operations for user-specific intro text templates
+ * Handles CRUD operations for account-wide intro text templates
  */
 
 import { Hono, Context } from 'hono'
@@ -8,22 +8,13 @@ import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator'
 import type { AppEnv } from '@shared/types'
 import { db } from "../db.js";
+import { getUser, requirePermission } from '../middleware/auth.js'
 
 const introTextApp = new Hono<AppEnv>()
 
-// -------- Utils --------
-type CtxUser = { id: string; accountId?: string; username?: string; role?: string }
-
-function requireUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (u && typeof u === 'object' && (u as any).id) return u as CtxUser
-
-  // fallback lama: header "user-id"
-  const headerId = c.req.header('user-id')
-  if (headerId) return { id: headerId }
-  return null
-}
+introTextApp.use('*', requirePermission('guests'))
 
+// -------- Utils --------
 function errMsg(e: unknown): string {
   return e instanceof Error ? e.message : String(e)
 }
@@ -32,6 +23,7 @@ function errMsg(e: unknown): string {
 interface IntroTextDoc {
   _id?: any
   userId: string
+  accountId: string
   formalText: string
   casualText: string
   isActive: boolean
@@ -56,18 +48,18 @@ type UpdateBody = z.infer<typeof updateIntroTextSchema>
 
 // -------- Routes --------
 
-// Get intro text for current user (create default if not exists)
+// Get intro text for current account (create default if not exists)
 introTextApp.get('/', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'User ID is required' }, 400)
+    const user = getUser(c)
 
     const collection = db.collection('94884219_intro_texts')
-    const introText = (await collection.findOne({ userId: user.id })) as IntroTextDoc | null
+    const introText = (await collection.findOne({ accountId: user.accountId })) as IntroTextDoc | null
 
     if (!introText) {
       const defaultIntro: IntroTextDoc = {
         userId: user.id,
+        accountId: user.accountId,
         formalText: `Yth. [nama]
 
 Tanpa mengurangi rasa hormat, perkenankan kami mengundang Bapak/Ibu/Saudara/i untuk menghadiri acara pernikahan kami :
@@ -122,19 +114,19 @@ Datang yaa dan rayakan bersama kami!`,
 // Create intro text
 introTextApp.post('/', zValidator('json', createIntroTextSchema), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'User ID is required' }, 400)
+    const user = getUser(c)
 
     const body = (c.req as any).valid('json') as CreateBody
     const collection = db.collection('94884219_intro_texts')
 
-    const existing = await collection.findOne({ userId: user.id })
+    const existing = await collection.findOne({ accountId: user.accountId })
     if (existing) {
-      return c.json({ success: false, error: 'Intro text already exists for this user' }, 400)
+      return c.json({ success: false, error: 'Intro text already exists for this account' }, 400)
     }
 
     const doc: IntroTextDoc = {
       userId: user.id,
+      accountId: user.accountId,
       formalText: body.formalText,
       casualText: body.casualText,
       isActive: body.isActive ?? true,
@@ -161,14 +153,13 @@ introTextApp.post('/', zValidator('json', createIntroTextSchema), async (c: Cont
 // Update intro text
 introTextApp.put('/', zValidator('json', updateIntroTextSchema), async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'User ID is required' }, 400)
+    const user = getUser(c)
 
     const body = (c.req as any).valid('json') as UpdateBody
     const collection = db.collection('94884219_intro_texts')
 
     const result = await collection.updateOne(
-      { userId: user.id },
+      { accountId: user.accountId },
       { $set: { ...body, updatedAt: new Date() } },
     )
 
@@ -176,7 +167,7 @@ introTextApp.put('/', zValidator('json', updateIntroTextSchema), async (c: Conte
       return c.json({ success: false, error: 'Intro text not found' }, 404)
     }
 
-    const updated = await collection.findOne({ userId: user.id })
+    const updated = await collection.findOne({ accountId: user.accountId })
     if (!updated) {
       return c.json({ success: false, error: 'Intro text not found after update' }, 404);
     }
@@ -192,17 +183,16 @@ introTextApp.put('/', zValidator('json', updateIntroTextSchema), async (c: Conte
 // Get intro text by category
 introTextApp.get('/category/:category', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'User ID is required' }, 400)
+    const user = getUser(c)
 
     const category = c.req.param('category')
     if (!category) return c.json({ success: false, error: 'Category is required' }, 400)
 
     const collection = db.collection('94884219_intro_texts')
-    const introText = (await collection.findOne({ userId: user.id })) as IntroTextDoc | null
+    const introText = (await collection.findOne({ accountId: user.accountId })) as IntroTextDoc | null
 
     if (!introText) {
-      return c.json({ success: false, error: 'Intro text not found for this user' }, 404)
+      return c.json({ success: false, error: 'Intro text not found for this account' }, 404)
     }
 
     const map: Record<string, keyof IntroTextDoc> = {
@@ -224,11 +214,10 @@ introTextApp.get('/category/:category', async (c: Context<AppEnv>) => {
 // Delete intro text
 introTextApp.delete('/', async (c: Context<AppEnv>) => {
   try {
-    const user = requireUser(c)
-    if (!user) return c.json({ success: false, error: 'User ID is required' }, 400)
+    const user = getUser(c)
 
     const collection = db.collection('94884219_intro_texts')
-    const result = await collection.deleteOne({ userId: user.id })
+    const result = await collection.deleteOne({ accountId: user.accountId })
 
     if (!result.deletedCount) {
       return c.json({ success: false, error: 'Intro text not found' }, 404)
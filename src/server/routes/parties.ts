@@ -0,0 +1,502 @@
+/**
+ * Party (household) API Routes
+ * Named groups of guests invited as one unit, with a shared invitation
+ * code, a seat allowance and a primary contact for reminders. Members are
+ * linked through guests.partyId; check-in works per member (guests.ts) or
+ * for the whole party here.
+ */
+
+import { Hono, Context } from 'hono'
+import { z } from 'zod'
+import { zValidator } from '@hono/zod-validator'
+import { ObjectId, type Document, type WithId } from 'mongodb'
+import type { AppEnv } from '@shared/types'
+import { rankGuests } from '../../shared/guest-search.js'
+import { db } from '../db.js'
+import {
+  accountScope,
+  canAccessAccount,
+  getUser,
+  hasPermission,
+  isOperator,
+  permissionDenied,
+  requirePermission,
+  requireUser,
+} from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
+import { GUESTS_COLLECTION } from '../utils/guest-query.js'
+import { liveStatsDelta } from '../utils/guest-stats.js'
+import { recordArrivals, syncGuestCheckIn } from '../utils/checkins.js'
+import {
+  generatePartyCode,
+  normalizePartyCode,
+  parties,
+  partyMembers,
+  summarizeParty,
+  type PartyDoc,
+} from '../utils/parties.js'
+import { broadcastGuestUpdate, broadcastStatsDelta } from './realtime-guests.js'
+
+const partiesApp = new Hono<AppEnv>()
+
+partiesApp.use('*', requireUser)
+
+const canReadParties = requirePermission('guests', 'reception', 'souvenirs', 'gifts', 'doorprize')
+const canManageParties = requirePermission('guests')
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function safeObjectId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null
+}
+
+const objectIdString = z.string().refine((v) => ObjectId.isValid(v), 'Invalid id')
+
+const createPartySchema = z.object({
+  name: z.string().trim().min(1, 'Party name is required').max(100),
+  code: z.string().trim().min(3).max(30).optional(),
+  seatAllowance: z.number().int().min(1).max(99).optional(),
+  memberIds: z.array(objectIdString).max(50).optional(),
+  primaryGuestId: objectIdString.nullable().optional(),
+  notes: z.string().max(500).optional(),
+  // Operator only
+  accountId: z.string().optional(),
+})
+
+const updatePartySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  code: z.string().trim().min(3).max(30).optional(),
+  seatAllowance: z.number().int().min(1).max(99).optional(),
+  primaryGuestId: objectIdString.nullable().optional(),
+  notes: z.string().max(500).optional(),
+})
+
+const membersSchema = z.object({
+  guestIds: z.array(objectIdString).min(1).max(50),
+})
+
+const partyCheckInSchema = z.object({
+  // Kosong -> semua anggota yang belum check-in
+  memberIds: z.array(objectIdString).optional(),
+  overrideReason: z.string().trim().max(300).optional(),
+})
+
+type CreatePartyBody = z.infer<typeof createPartySchema>
+type UpdatePartyBody = z.infer<typeof updatePartySchema>
+type MembersBody = z.infer<typeof membersSchema>
+type PartyCheckInBody = z.infer<typeof partyCheckInSchema>
+
+/**
+ * Link guests to party. Guests must belong to the party's account; they
+ * leave any previous party (whose primary contact is cleared if needed).
+ */
+async function linkMembers(party: PartyDoc, guestIds: string[]) {
+  const ids = guestIds.map((id) => new ObjectId(id))
+  const guests = db.collection(GUESTS_COLLECTION)
+  const found = await guests.find({ _id: { $in: ids }, accountId: party.accountId }).project({ partyId: 1 }).toArray()
+  if (found.length !== ids.length) return { ok: false as const, error: 'Some guests were not found in this account' }
+
+  const previous = found.map((g) => g.partyId).filter((p) => p && p !== String(party._id))
+  await guests.updateMany(
+    { _id: { $in: ids }, accountId: party.accountId },
+    { $set: { partyId: String(party._id), updatedAt: new Date() } },
+  )
+  if (previous.length) {
+    await parties().updateMany(
+      { accountId: party.accountId, primaryGuestId: { $in: guestIds }, _id: { $ne: party._id } },
+      { $set: { primaryGuestId: null, updatedAt: new Date() } },
+    )
+  }
+  return { ok: true as const, linked: found.length }
+}
+
+async function loadParty(c: Context<AppEnv>, id: string) {
+  const oid = safeObjectId(id)
+  if (!oid) return null
+  return parties().findOne(accountScope(getUser(c), { _id: oid }))
+}
+
+async function partyWithMembers(party: PartyDoc) {
+  const members = await partyMembers(party)
+  return { ...summarizeParty(party, members), members }
+}
+
+/**
+ * GET /api/parties
+ * Parties of the account with member / check-in counts. ?search ranks by
+ * party name and code.
+ */
+partiesApp.get('/', canReadParties, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const filter = accountScope(user, {}, c.req.query('accountId'))
+    const list = await parties().find(filter).sort({ name: 1 }).toArray()
+
+    const counts = await db
+      .collection(GUESTS_COLLECTION)
+      .aggregate([
+        { $match: { ...filter, partyId: { $in: list.map((p) => String(p._id)) } } },
+        {
+          $group: {
+            _id: '$partyId',
+            memberCount: { $sum: 1 },
+            checkedInCount: { $sum: { $cond: [{ $ifNull: ['$checkInDate', false] }, 1, 0] } },
+            seatsUsed: {
+              $sum: { $cond: [{ $ifNull: ['$checkInDate', false] }, { $ifNull: ['$guestCount', 1] }, 0] },
+            },
+          },
+        },
+      ])
+      .toArray()
+    const byParty = new Map(counts.map((row) => [String(row._id), row]))
+
+    let data = list.map((party) => {
+      const row = byParty.get(String(party._id))
+      return {
+        ...party,
+        _id: String(party._id),
+        memberCount: row?.memberCount ?? 0,
+        checkedInCount: row?.checkedInCount ?? 0,
+        seatsUsed: row?.seatsUsed ?? 0,
+      }
+    })
+    const search = c.req.query('search')?.slice(0, 100)
+    if (search?.trim()) data = rankGuests(data, search, (p) => ({ name: p.name, code: p.code }))
+
+    return c.json({ success: true, data })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * GET /api/parties/code/:code
+ * Reception lookup by the shared invitation code.
+ */
+partiesApp.get('/code/:code', canReadParties, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const party = await parties().findOne(accountScope(user, { code: normalizePartyCode(c.req.param('code')) }))
+    if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+    return c.json({ success: true, data: await partyWithMembers(party) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * GET /api/parties/:id
+ */
+partiesApp.get('/:id', canReadParties, async (c: Context<AppEnv>) => {
+  try {
+    const party = await loadParty(c, c.req.param('id'))
+    if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+    return c.json({ success: true, data: await partyWithMembers(party) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/parties
+ * Without a code one is generated. seatAllowance defaults to the number of
+ * members.
+ */
+partiesApp.post('/', canManageParties, zValidator('json', createPartySchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const body = (c.req as any).valid('json') as CreatePartyBody
+
+    const accountId = isOperator(user) && body.accountId ? body.accountId : user.accountId
+    if (!canAccessAccount(user, accountId)) {
+      return c.json({ success: false, error: 'Access denied' }, 403)
+    }
+
+    const memberIds = Array.from(new Set(body.memberIds ?? []))
+    if (body.primaryGuestId && !memberIds.includes(body.primaryGuestId)) {
+      return c.json({ success: false, error: 'Primary contact must be a member of the party' }, 400)
+    }
+
+    const now = new Date()
+    // Kode custom bentrok -> 409; kode otomatis diulang
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const doc: PartyDoc = {
+        _id: new ObjectId(),
+        accountId,
+        name: body.name,
+        code: body.code ? normalizePartyCode(body.code) : generatePartyCode(),
+        seatAllowance: body.seatAllowance ?? Math.max(1, memberIds.length),
+        primaryGuestId: body.primaryGuestId ?? memberIds[0] ?? null,
+        notes: body.notes,
+        createdBy: user.id,
+        createdAt: now,
+        updatedAt: now,
+      }
+      try {
+        await parties().insertOne(doc)
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error
+        if (body.code) return c.json({ success: false, error: 'Party code already in use' }, 409)
+        continue
+      }
+
+      if (memberIds.length) {
+        const linked = await linkMembers(doc, memberIds)
+        if (!linked.ok) {
+          await parties().deleteOne({ _id: doc._id })
+          return c.json({ success: false, error: linked.error }, 400)
+        }
+      }
+
+      const data = await partyWithMembers(doc)
+      await recordAudit(c, {
+        action: 'party.create',
+        resource: 'party',
+        resourceId: data._id,
+        after: doc,
+        details: { memberIds },
+        accountId,
+      })
+      return c.json({ success: true, data, message: 'Party created successfully' }, 201)
+    }
+
+    return c.json({ success: false, error: 'Could not generate a unique party code' }, 500)
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * PATCH /api/parties/:id
+ */
+partiesApp.patch('/:id', canManageParties, zValidator('json', updatePartySchema), async (c: Context<AppEnv>) => {
+  try {
+    const body = (c.req as any).valid('json') as UpdatePartyBody
+    const before = await loadParty(c, c.req.param('id'))
+    if (!before) return c.json({ success: false, error: 'Party not found' }, 404)
+
+    if (body.primaryGuestId) {
+      const member = await db
+        .collection(GUESTS_COLLECTION)
+        .findOne({ _id: new ObjectId(body.primaryGuestId), accountId: before.accountId, partyId: String(before._id) })
+      if (!member) return c.json({ success: false, error: 'Primary contact must be a member of the party' }, 400)
+    }
+
+    const $set: Partial<PartyDoc> = { updatedAt: new Date() }
+    if (body.name !== undefined) $set.name = body.name
+    if (body.code !== undefined) $set.code = normalizePartyCode(body.code)
+    if (body.seatAllowance !== undefined) $set.seatAllowance = body.seatAllowance
+    if (body.primaryGuestId !== undefined) $set.primaryGuestId = body.primaryGuestId
+    if (body.notes !== undefined) $set.notes = body.notes
+
+    let after: PartyDoc | null
+    try {
+      const result = await parties().findOneAndUpdate({ _id: before._id }, { $set }, { returnDocument: 'after' })
+      after = ((result && (result as any).value) || result) as PartyDoc | null
+    } catch (error: any) {
+      if (error?.code === 11000) return c.json({ success: false, error: 'Party code already in use' }, 409)
+      throw error
+    }
+    if (!after) return c.json({ success: false, error: 'Party not found' }, 404)
+
+    await recordAudit(c, { action: 'party.update', resource: 'party', resourceId: String(after._id), before, after })
+    return c.json({ success: true, data: await partyWithMembers(after) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/parties/:id/members
+ * Add guests to the party (moving them out of any other party).
+ */
+partiesApp.post('/:id/members', canManageParties, zValidator('json', membersSchema), async (c: Context<AppEnv>) => {
+  try {
+    const body = (c.req as any).valid('json') as MembersBody
+    const party = await loadParty(c, c.req.param('id'))
+    if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+
+    const linked = await linkMembers(party, Array.from(new Set(body.guestIds)))
+    if (!linked.ok) return c.json({ success: false, error: linked.error }, 400)
+    if (!party.primaryGuestId) {
+      await parties().updateOne({ _id: party._id }, { $set: { primaryGuestId: body.guestIds[0], updatedAt: new Date() } })
+      party.primaryGuestId = body.guestIds[0]
+    }
+
+    await recordAudit(c, {
+      action: 'party.members.add',
+      resource: 'party',
+      resourceId: String(party._id),
+      details: { guestIds: body.guestIds },
+      accountId: party.accountId,
+    })
+    return c.json({ success: true, data: await partyWithMembers(party) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * DELETE /api/parties/:id/members/:guestId
+ */
+partiesApp.delete('/:id/members/:guestId', canManageParties, async (c: Context<AppEnv>) => {
+  try {
+    const party = await loadParty(c, c.req.param('id'))
+    if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+    const guestOid = safeObjectId(c.req.param('guestId'))
+    if (!guestOid) return c.json({ success: false, error: 'Invalid guest id' }, 400)
+
+    const res = await db
+      .collection(GUESTS_COLLECTION)
+      .updateOne(
+        { _id: guestOid, accountId: party.accountId, partyId: String(party._id) },
+        { $set: { partyId: null, updatedAt: new Date() } },
+      )
+    if (!res.matchedCount) return c.json({ success: false, error: 'Guest is not a member of this party' }, 404)
+
+    if (party.primaryGuestId === String(guestOid)) {
+      await parties().updateOne({ _id: party._id }, { $set: { primaryGuestId: null, updatedAt: new Date() } })
+      party.primaryGuestId = null
+    }
+
+    await recordAudit(c, {
+      action: 'party.members.remove',
+      resource: 'party',
+      resourceId: String(party._id),
+      details: { guestId: String(guestOid) },
+      accountId: party.accountId,
+    })
+    return c.json({ success: true, data: await partyWithMembers(party) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/parties/:id/checkin
+ * Body: { memberIds?, overrideReason? }. Check in several members at once
+ * (default: everyone not yet checked in); each member counts as one seat.
+ * Going over the seat allowance is refused with 409 OVER_LIMIT unless
+ * overrideReason is given by a user holding the checkin_override permission.
+ */
+partiesApp.post(
+  '/:id/checkin',
+  requirePermission('reception'),
+  zValidator('json', partyCheckInSchema),
+  async (c: Context<AppEnv>) => {
+    try {
+      const body = (c.req as any).valid('json') as PartyCheckInBody
+      const party = await loadParty(c, c.req.param('id'))
+      if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+
+      const members = await partyMembers(party)
+      const wanted = body.memberIds?.length ? new Set(body.memberIds) : null
+      if (wanted && members.filter((m) => wanted.has(String(m._id))).length !== wanted.size) {
+        return c.json({ success: false, error: 'Some guests are not members of this party' }, 400)
+      }
+      const targets = members.filter((m) => (wanted ? wanted.has(String(m._id)) : !m.checkInDate))
+      if (!targets.length) return c.json({ success: false, error: 'Everyone in this party is already checked in' }, 409)
+
+      // Kursi setelah check-in: target dihitung 1, anggota lain sesuai guestCount-nya
+      const user = getUser(c)
+      const targetIds = new Set(targets.map((m) => String(m._id)))
+      const seatsBefore = summarizeParty(party, members.filter((m) => !targetIds.has(String(m._id)))).seatsUsed
+      const overBy = Math.max(0, seatsBefore + targets.length - party.seatAllowance)
+      const overrideReason = body.overrideReason ?? ''
+      if (overBy > 0) {
+        if (!overrideReason) {
+          return c.json(
+            {
+              success: false,
+              error: `Checking in ${targets.length} members exceeds the seat allowance of ${party.seatAllowance}`,
+              code: 'OVER_LIMIT',
+              limit: party.seatAllowance,
+              seatsUsed: seatsBefore,
+              guestCount: targets.length,
+            },
+            409,
+          )
+        }
+        if (!hasPermission(user, 'checkin_override')) return permissionDenied(c, ['checkin_override'])
+      }
+
+      // Satu arrival per anggota di log check-in, field tamu diturunkan dari log;
+      // anggota yang melewati jatah kursi membawa catatan override
+      const firstOver = targets.length - overBy
+      await recordArrivals(
+        user,
+        party.accountId,
+        targets.map((m, i) => ({
+          guestId: String(m._id),
+          guestCount: 1,
+          session: m.session,
+          source: 'party' as const,
+          overLimit: i >= firstOver ? { count: 1, reason: overrideReason, approvedBy: user.username ?? user.id } : null,
+        })),
+      )
+      const updated: (WithId<Document> | null)[] = []
+      for (const m of targets) updated.push(await syncGuestCheckIn(party.accountId, String(m._id)))
+
+      const data = await partyWithMembers(party)
+      await recordAudit(c, {
+        action: overBy > 0 ? 'party.checkin_override' : 'party.checkin',
+        resource: 'party',
+        resourceId: String(party._id),
+        details: {
+          guestIds: targets.map((m) => String(m._id)),
+          seatsUsed: data.seatsUsed,
+          ...(overBy > 0 ? { seatAllowance: party.seatAllowance, reason: overrideReason } : {}),
+        },
+        accountId: party.accountId,
+      })
+      targets.forEach((m, i) => {
+        broadcastGuestUpdate('guest_checked_in', String(m._id), party.accountId)
+        broadcastStatsDelta(party.accountId, liveStatsDelta(m, updated[i]))
+      })
+
+      return c.json({
+        success: true,
+        data,
+        checkedIn: targets.length,
+        overAllowance: data.seatsUsed > data.seatAllowance,
+      })
+    } catch (error: unknown) {
+      return c.json({ success: false, error: errMsg(error) }, 500)
+    }
+  },
+)
+
+/**
+ * DELETE /api/parties/:id
+ * Members stay as individual guests.
+ */
+partiesApp.delete('/:id', canManageParties, async (c: Context<AppEnv>) => {
+  try {
+    const party = await loadParty(c, c.req.param('id'))
+    if (!party) return c.json({ success: false, error: 'Party not found' }, 404)
+
+    const unlinked = await db
+      .collection(GUESTS_COLLECTION)
+      .updateMany(
+        { accountId: party.accountId, partyId: String(party._id) },
+        { $set: { partyId: null, updatedAt: new Date() } },
+      )
+    await parties().deleteOne({ _id: party._id })
+
+    await recordAudit(c, {
+      action: 'party.delete',
+      resource: 'party',
+      resourceId: String(party._id),
+      before: party,
+      details: { unlinkedGuests: unlinked.modifiedCount },
+      accountId: party.accountId,
+    })
+    return c.json({ success: true, message: 'Party deleted successfully' })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+export default partiesApp
@@ -0,0 +1,108 @@
+// src/server/routes/permissions.test.ts
+/**
+ * Page permissions enforced on the server: a staff user calling an endpoint
+ * outside their pages gets 403 PERMISSION_DENIED naming what was needed.
+ * Every request here is refused before the database is read.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv, ContextUser, PermissionKey } from '@shared/types'
+import { hasPermission } from '../middleware/auth.js'
+import bulkImportApp from './bulk-import.js'
+import doorprizeApp from './doorprize.js'
+import giftDistributionsApp from './gift-distributions.js'
+import guestsApp from './guests.js'
+import introTextApp from './intro-text.js'
+import remindersApp from './reminders.js'
+
+const GUEST_ID = '65f000000000000000000001'
+
+function staffWith(...pages: PermissionKey[]): ContextUser {
+  return {
+    id: 'user-2',
+    username: 'staff',
+    role: 'user',
+    accountId: 'account-1',
+    permissions: pages.map((page) => ({ page, canAccess: true })),
+  }
+}
+
+function api(user: ContextUser) {
+  const app = new Hono<AppEnv>()
+  app.use('*', async (c, next) => {
+    c.set('user', user)
+    await next()
+  })
+  app.route('/api/bulk-import', bulkImportApp)
+  app.route('/api/doorprize', doorprizeApp)
+  app.route('/api/gift-distributions', giftDistributionsApp)
+  app.route('/api/guests', guestsApp)
+  app.route('/api/intro-text', introTextApp)
+  app.route('/api/reminders', remindersApp)
+  return app
+}
+
+async function assertDenied(res: Response, required: PermissionKey[], label: string) {
+  assert.equal(res.status, 403, label)
+  assert.deepEqual(
+    await res.json(),
+    {
+      success: false,
+      error: 'You do not have permission to perform this action',
+      code: 'PERMISSION_DENIED',
+      requiredPermissions: required,
+    },
+    label,
+  )
+}
+
+test('hasPermission needs a granted page; admins and operators hold them all', () => {
+  assert.equal(hasPermission(staffWith('reception'), 'reception'), true)
+  assert.equal(hasPermission(staffWith('reception'), 'guests'), false)
+  assert.equal(hasPermission({ ...staffWith(), permissions: [{ page: 'reception', canAccess: false }] }, 'reception'), false)
+  assert.equal(hasPermission({ ...staffWith(), role: 'admin' }, 'doorprize'), true)
+  assert.equal(hasPermission({ ...staffWith(), role: 'operator' }, 'checkin_override'), true)
+  assert.equal(hasPermission(null, 'guests'), false)
+})
+
+test('a user without reception cannot check guests in directly', async () => {
+  const app = api(staffWith('guests'))
+  await assertDenied(await app.request(`/api/guests/${GUEST_ID}/checkin`, { method: 'POST' }), ['reception'], 'checkin')
+  await assertDenied(await app.request(`/api/guests/${GUEST_ID}/clear-checkin`, { method: 'POST' }), ['reception'], 'clear-checkin')
+
+  // Izin yang dicabut (canAccess: false) sama dengan tidak punya izin
+  const revoked = api({ ...staffWith('guests'), permissions: [{ page: 'reception', canAccess: false }] })
+  await assertDenied(await revoked.request(`/api/guests/${GUEST_ID}/checkin`, { method: 'POST' }), ['reception'], 'revoked')
+})
+
+test('each router checks its own page', async () => {
+  const app = api(staffWith('reception'))
+  const cases: [string, string, PermissionKey[]][] = [
+    ['GET', '/api/reminders', ['guests']],
+    ['POST', '/api/bulk-import', ['guests']],
+    ['GET', '/api/intro-text', ['guests']],
+    ['GET', '/api/doorprize/checked-in', ['doorprize']],
+    ['GET', `/api/gift-distributions/guest/${GUEST_ID}`, ['gifts']],
+    ['DELETE', `/api/guests/${GUEST_ID}/souvenirs`, ['souvenirs']],
+    ['DELETE', `/api/guests/${GUEST_ID}/gifts`, ['gifts']],
+    ['DELETE', `/api/guests/${GUEST_ID}`, ['guests']],
+    ['GET', '/api/guests/export', ['guests']],
+  ]
+  for (const [method, path, required] of cases) {
+    await assertDenied(await app.request(path, { method }), required, `${method} ${path}`)
+  }
+})
+
+test('souvenir and gift desks may only edit their own guest fields', async () => {
+  const edit = (user: ContextUser, body: object) =>
+    api(user).request(`/api/guests/${GUEST_ID}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  await assertDenied(await edit(staffWith('souvenirs'), { souvenirCount: 1, name: 'Budi' }), ['guests'], 'souvenir desk renaming')
+  await assertDenied(await edit(staffWith('souvenirs'), { kadoCount: 1 }), ['guests'], 'souvenir desk recording a gift')
+  await assertDenied(await edit(staffWith('reception'), { souvenirCount: 1 }), ['guests'], 'reception recording a souvenir')
+})
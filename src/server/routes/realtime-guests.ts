@@ -1,97 +1,53 @@
 /**
  * Real-time Guest Synchronization API (Node.js)
- * WebSocket endpoint for broadcasting guest updates across devices
+ * WebSocket endpoint for broadcasting guest updates across devices.
+ * Dashboards subscribing to the "stats" channel get a stats_snapshot right
+ * away and stats_delta messages whenever check-in/souvenir/gift data changes;
+ * deltas broadcast while the snapshot is read follow right after it.
  */
-import { Hono, type Context } from 'hono'
-import { createNodeWebSocket } from '@hono/node-ws'
+import { Hono } from 'hono'
+import type { createNodeWebSocket } from '@hono/node-ws'
+import type { AppEnv, LiveStats } from '@shared/types'
+import { getUser, isOperator, requireUser } from '../middleware/auth.js'
+import { liveStatsSnapshot } from '../utils/guest-stats.js'
 
-const app = new Hono()
+type UpgradeWS = ReturnType<typeof createNodeWebSocket>['upgradeWebSocket']
 
-// penting: app harus sudah ada sebelum createNodeWebSocket
-const { upgradeWebSocket } = createNodeWebSocket({ app })
+export type GuestUpdateType =
+  | 'guest_updated'
+  | 'guest_checked_in'
+  | 'guest_checkin_cleared'
+  | 'guest_rsvp'
+  | 'guests_bulk_updated'
 
-// Simpan koneksi aktif per userId
+// Simpan koneksi aktif per accountId (admin & staff satu akun dapat update yang sama)
 const guestConnections = new Map<string, Set<any>>() // pakai any agar aman lintas impl WS
+// Subset koneksi yang subscribe channel "stats" (dashboard)
+const statsConnections = new Map<string, Set<any>>()
+// Dashboard yang snapshot-nya masih dibaca: delta ditahan sampai snapshot terkirim
+const heldDeltas = new Map<any, string[]>()
 
-function getUserId(c: Context): string {
-  const u = c.get('user') as any
-  return u?.id ?? 'anonymous'
+function removeFrom(connections: Map<string, Set<any>>, accountId: string, ws: any) {
+  const set = connections.get(accountId)
+  set?.delete(ws)
+  if (set && set.size === 0) connections.delete(accountId)
 }
 
-app.get(
-  '/api/__ws/guests',
-  upgradeWebSocket((c) => {
-    const userId = getUserId(c)
-
-    return {
-      onOpen(_evt, ws) {
-        const set = guestConnections.get(userId) ?? new Set<any>()
-        set.add(ws)
-        guestConnections.set(userId, set)
-
-        try {
-          ws.send(
-            JSON.stringify({
-              type: 'connected',
-              message: 'Real-time guest updates connected',
-            }),
-          )
-        } catch (_) {}
-      },
-
-      onMessage(evt, ws) {
-        try {
-          const data = JSON.parse(String(evt.data))
-          if (data?.type === 'unsubscribe') {
-            const set = guestConnections.get(userId)
-            set?.delete(ws)
-            if (set && set.size === 0) guestConnections.delete(userId)
-            ws.send(JSON.stringify({ type: 'unsubscribed' }))
-          } else if (data?.type === 'subscribe' && data?.channel === 'guests') {
-            ws.send(
-              JSON.stringify({
-                type: 'subscribed',
-                channel: 'guests',
-                message: 'Successfully subscribed to guest updates',
-              }),
-            )
-          } else {
-            ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }))
-          }
-        } catch {
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }))
-        }
-      },
-
-      onClose(_evt, ws) {
-        const set = guestConnections.get(userId)
-        set?.delete(ws)
-        if (set && set.size === 0) guestConnections.delete(userId)
-      },
-
-      onError(_evt, ws) {
-        const set = guestConnections.get(userId)
-        set?.delete(ws)
-        if (set && set.size === 0) guestConnections.delete(userId)
-      },
-    }
-  }),
-)
-
-// Helper untuk broadcast ke semua client milik user tertentu
-export function broadcastGuestUpdate(
-  type: 'guest_updated' | 'guest_checked_in' | 'guest_checkin_cleared',
-  guestId: string,
-  userId?: string,
-) {
-  const uid = userId ?? 'anonymous'
-  const set = guestConnections.get(uid)
-  if (!set) return
+function removeConnection(accountId: string, ws: any) {
+  removeFrom(guestConnections, accountId, ws)
+  removeFrom(statsConnections, accountId, ws)
+  heldDeltas.delete(ws)
+}
 
-  const msg = JSON.stringify({ type, guestId, timestamp: new Date().toISOString() })
+// Kirim ke semua socket yang masih terbuka; yang tertutup dibuang dari set
+function sendAll(set: Set<any>, msg: string, held?: Map<any, string[]>) {
   let sent = 0
-
   for (const ws of Array.from(set)) {
+    const queue = held?.get(ws)
+    if (queue) {
+      queue.push(msg)
+      continue
+    }
     try {
       // OPEN bisa berbeda tergantung impl; fallback ke 1
       // @ts-ignore
@@ -106,9 +62,125 @@ export function broadcastGuestUpdate(
       set.delete(ws)
     }
   }
+  return sent
+}
+
+// Helper untuk broadcast ke semua client milik akun tertentu
+export function broadcastGuestUpdate(
+  type: GuestUpdateType,
+  guestId: string,
+  accountId?: string,
+  data?: Record<string, unknown>,
+) {
+  const aid = accountId ?? 'anonymous'
+  const set = guestConnections.get(aid)
+  if (!set) return
+
+  const msg = JSON.stringify({ type, guestId, ...(data ? { data } : {}), timestamp: new Date().toISOString() })
+  const sent = sendAll(set, msg)
 
-  if (set.size === 0) guestConnections.delete(uid)
-  console.log(`[WS] broadcast ${type} guest=${guestId} user=${uid} sent=${sent}`)
+  if (set.size === 0) guestConnections.delete(aid)
+  console.log(`[WS] broadcast ${type} guest=${guestId} account=${aid} sent=${sent}`)
 }
 
-export default app
+// Kirim perubahan counter (lihat liveStatsDelta) ke dashboard akun tersebut
+export function broadcastStatsDelta(accountId: string, delta: Partial<LiveStats> | null) {
+  if (!delta) return
+  const set = statsConnections.get(accountId)
+  if (!set) return
+
+  sendAll(set, JSON.stringify({ type: 'stats_delta', delta, timestamp: new Date().toISOString() }), heldDeltas)
+  if (set.size === 0) statsConnections.delete(accountId)
+}
+
+// Router memakai upgradeWebSocket milik rootApp; instance terpisah tidak pernah
+// di-inject ke server sehingga upgrade-nya tidak pernah terjadi
+export default function realtimeGuestsRoutes({ upgradeWebSocket }: { upgradeWebSocket: UpgradeWS }) {
+  const app = new Hono<AppEnv>()
+
+  app.use('*', requireUser)
+
+  // Browser WS tidak bisa kirim header → token lewat ?access_token=
+  app.get(
+    '/ws',
+    upgradeWebSocket((c) => {
+      const user = getUser(c)
+      const accountId = (isOperator(user) && c.req.query('accountId')) || user.accountId
+
+      return {
+        onOpen(_evt, ws) {
+          const set = guestConnections.get(accountId) ?? new Set<any>()
+          set.add(ws)
+          guestConnections.set(accountId, set)
+
+          try {
+            ws.send(
+              JSON.stringify({
+                type: 'connected',
+                message: 'Real-time guest updates connected',
+              }),
+            )
+          } catch (_) {}
+        },
+
+        async onMessage(evt, ws) {
+          try {
+            const data = JSON.parse(String(evt.data))
+            if (data?.type === 'unsubscribe' && data?.channel === 'stats') {
+              removeFrom(statsConnections, accountId, ws)
+              heldDeltas.delete(ws)
+              ws.send(JSON.stringify({ type: 'unsubscribed', channel: 'stats' }))
+            } else if (data?.type === 'unsubscribe') {
+              removeConnection(accountId, ws)
+              ws.send(JSON.stringify({ type: 'unsubscribed' }))
+            } else if (data?.type === 'subscribe' && data?.channel === 'stats') {
+              // Socket masuk set sebelum snapshot dibaca supaya tidak ada delta yang
+              // terlewat; delta selama pembacaan ditahan lalu dikirim setelah snapshot
+              const set = statsConnections.get(accountId) ?? new Set<any>()
+              set.add(ws)
+              statsConnections.set(accountId, set)
+              const held: string[] = []
+              heldDeltas.set(ws, held)
+
+              let snapshot: LiveStats
+              try {
+                snapshot = await liveStatsSnapshot({ accountId })
+              } catch (error) {
+                removeFrom(statsConnections, accountId, ws)
+                throw error
+              } finally {
+                heldDeltas.delete(ws)
+              }
+              if (!statsConnections.get(accountId)?.has(ws)) return // sudah ditutup / unsubscribe
+
+              ws.send(JSON.stringify({ type: 'stats_snapshot', data: snapshot, timestamp: new Date().toISOString() }))
+              held.forEach((msg) => ws.send(msg))
+            } else if (data?.type === 'subscribe' && data?.channel === 'guests') {
+              ws.send(
+                JSON.stringify({
+                  type: 'subscribed',
+                  channel: 'guests',
+                  message: 'Successfully subscribed to guest updates',
+                }),
+              )
+            } else {
+              ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }))
+            }
+          } catch {
+            ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }))
+          }
+        },
+
+        onClose(_evt, ws) {
+          removeConnection(accountId, ws)
+        },
+
+        onError(_evt, ws) {
+          removeConnection(accountId, ws)
+        },
+      }
+    }),
+  )
+
+  return app
+}
@@ -7,11 +7,18 @@ import { z } from 'zod';
 import { zValidator } from '@hono/zod-validator';
 import { db } from '../db.js';
 import { ObjectId } from 'mongodb';
-import type { AppEnv, ContextUser } from '@shared/types';
+import type { AppEnv } from '@shared/types';
 import { stat } from 'node:fs/promises';
+import { accountScope, getUser, requirePermission } from '../middleware/auth.js';
+import { recordAudit } from '../utils/audit.js';
+import { resolveReminderRecipient } from '../utils/parties.js';
+import { segmentGuestFilter } from '../utils/segments.js';
+import { moveInvitationStage } from '../utils/invitation-stage.js';
 
 const reminders = new Hono<AppEnv>();
 
+reminders.use('*', requirePermission('guests'));
+
 // Reminder schema
 const reminderSchema = z.object({
   guestId: z.string(),
@@ -29,18 +36,24 @@ const reminderSchema = z.object({
 type ReminderBody = z.infer<typeof reminderSchema>;
 const updateReminderSchema = reminderSchema.partial();
 
+// Campaign: one reminder per guest (or party) of a saved segment
+const segmentCampaignSchema = z.object({
+  segmentId: z.string(),
+  message: z.string().min(1),
+  scheduledAt: z.string(),
+  type: z.enum(['wedding_invitation', 'reminder', 'thank_you']),
+  introTextCategory: z.string().optional(),
+});
+
+type SegmentCampaignBody = z.infer<typeof segmentCampaignSchema>;
+
 // Get all reminders with filtering
 reminders.get('/', async (c: Context<AppEnv>) => {
-  const accountId = c.get('accountId') as string | undefined;
-  const user = c.get('user') as ContextUser | undefined;
-
-  if (!accountId && !user?.id) {
-    return c.json({ error: 'Account ID not found' }, 400);
-  }
+  const user = getUser(c);
 
   try {
     const { search, status, type, page = '1', limit = '10' } = c.req.query();
-    const query: Record<string, any> = { accountId };
+    const query: Record<string, any> = accountScope(user);
 
     if (search) {
       query.$or = [
@@ -95,29 +108,67 @@ reminders.post(
   '/',
   zValidator('json', reminderSchema),
   async (c: Context<AppEnv>) => {
-    const accountId = c.get('accountId') as string | undefined;
-    const user = c.get('user') as ContextUser | undefined;
+    const user = getUser(c);
+    const accountId = user.accountId;
 
     console.log('[reminders] Creating reminder - accountId:', accountId);
-    console.log('[reminders] User:', user);
-
-    if (!accountId && !user?.id) {
-      console.error('[reminders] Account ID not found');
-      return c.json({ error: 'Account ID not found' }, 400);
-    }
 
     try {
       const body = (c.req as any).valid('json') as ReminderBody;
       console.log('[reminders] Request body:', body);
 
       const collection = db.collection('94884219_reminders');
+      const guestsCollection = db.collection('94884219_guests');
+
+      // Tamu harus milik akun user
+      const guest = ObjectId.isValid(body.guestId)
+        ? await guestsCollection.findOne(accountScope(user, { _id: new ObjectId(body.guestId) }))
+        : null;
+      if (!guest) {
+        return c.json({ error: 'Guest not found' }, 404);
+      }
 
       const { status: _ignoredStatus, introTextCategory, ...cleanBody } = body;
 
+      // Tamu dalam party: satu reminder per party, dikirim ke kontak utama
+      const { recipient, party, members } = await resolveReminderRecipient(guest);
+      if (party) {
+        const existing = await collection.findOne({
+          accountId: party.accountId,
+          partyId: String(party._id),
+          type: body.type,
+          status: { $in: ['pending', 'processing', 'sent'] },
+        });
+        if (existing) {
+          return c.json({
+            success: true,
+            deduplicated: true,
+            message: `Reminder already scheduled for party ${party.name}`,
+            data: {
+              id: existing._id.toString(),
+              guestId: existing.guestId,
+              guestName: existing.guestName,
+              phone: existing.phone,
+              message: existing.message,
+              scheduledAt: existing.scheduledAt,
+              status: existing.status,
+              type: existing.type,
+              introTextCategory: existing.introTextCategory,
+              createdAt: existing.createdAt,
+              updatedAt: existing.updatedAt,
+            },
+          });
+        }
+        cleanBody.guestId = String(recipient._id);
+        cleanBody.guestName = recipient.name ?? cleanBody.guestName;
+        cleanBody.phone = recipient.phone || cleanBody.phone;
+      }
+
       const reminderData = {
         ...cleanBody,
-        accountId,
-        userId: user?.id,
+        ...(party ? { partyId: String(party._id) } : {}),
+        accountId: guest.accountId ?? accountId,
+        userId: user.id,
         status: 'pending',
         introTextCategory: introTextCategory || 'Formal',
         createdAt: new Date(),
@@ -129,22 +180,22 @@ reminders.post(
       const result = await collection.insertOne(reminderData);
 
       const reminder = await collection.findOne({ _id: result.insertedId });
+      await recordAudit(c, {
+        action: 'reminder.create',
+        resource: 'reminder',
+        resourceId: String(result.insertedId),
+        after: reminder ?? reminderData,
+      });
       if (!reminder) {
         return c.json({ success: true, data: { id: result.insertedId.toString(), ...reminderData } });
       }
       try {
-        const guestsCollection = db.collection('94884219_guests');
-        await guestsCollection.updateOne(
-          { _id: new ObjectId(body.guestId) },
-          {
-            $set: {
-              reminderScheduledAt: new Date(body.scheduledAt),
-              status: 'scheduled',
-              updatedAt: new Date(),
-            },
-          },
-        );
-        console.log('[reminders] Updated guest reminderScheduledAt field and status to scheduled');
+        const memberFilter = { _id: { $in: members.map((m) => m._id) } };
+        await guestsCollection.updateMany(memberFilter, {
+          $set: { reminderScheduledAt: new Date(body.scheduledAt), updatedAt: new Date() },
+        });
+        await moveInvitationStage(memberFilter, 'scheduled', 'reminder');
+        console.log('[reminders] Updated guest reminderScheduledAt field and invitation stage to scheduled');
       } catch (guestUpdateError: any) {
         console.error('[reminders] Error updating guest reminderScheduledAt:', guestUpdateError?.message);        
       }
@@ -172,28 +223,123 @@ reminders.post(
   },
 );
 
+// Schedule a reminder for every guest of a segment
+reminders.post(
+  '/segment',
+  zValidator('json', segmentCampaignSchema),
+  async (c: Context<AppEnv>) => {
+    const user = getUser(c);
+
+    try {
+      const body = (c.req as any).valid('json') as SegmentCampaignBody;
+      const { accountId } = accountScope(user, {}, c.req.query('accountId'));
+      if (!accountId) {
+        return c.json({ error: 'accountId is required' }, 400);
+      }
+
+      const guestFilter = await segmentGuestFilter(accountId, body.segmentId);
+      if (!guestFilter) {
+        return c.json({ error: 'Segment not found' }, 404);
+      }
+
+      const collection = db.collection('94884219_reminders');
+      const guestsCollection = db.collection('94884219_guests');
+
+      const guests = await guestsCollection.find(guestFilter).toArray();
+
+      // Tamu/party yang sudah punya reminder aktif dengan tipe sama dilewati
+      const active = await collection
+        .find(
+          { accountId, type: body.type, status: { $in: ['pending', 'processing', 'sent'] } },
+          { projection: { guestId: 1, partyId: 1 } },
+        )
+        .toArray();
+      const taken = new Set<string>();
+      active.forEach((r) => {
+        if (r.guestId) taken.add(`guest:${r.guestId}`);
+        if (r.partyId) taken.add(`party:${r.partyId}`);
+      });
+
+      const now = new Date();
+      const docs: Record<string, any>[] = [];
+      const memberIds: ObjectId[] = [];
+      let skipped = 0;
+
+      for (const guest of guests) {
+        const { recipient, party, members } = await resolveReminderRecipient(guest);
+        const key = party ? `party:${party._id}` : `guest:${recipient._id}`;
+        if (taken.has(key) || !recipient.phone) {
+          skipped++;
+          continue;
+        }
+        taken.add(key);
+        docs.push({
+          guestId: String(recipient._id),
+          userId: user.id,
+          guestName: recipient.name,
+          phone: recipient.phone,
+          message: body.message,
+          scheduledAt: body.scheduledAt,
+          type: body.type,
+          ...(party ? { partyId: String(party._id) } : {}),
+          segmentId: body.segmentId,
+          accountId,
+          status: 'pending',
+          introTextCategory: body.introTextCategory || 'Formal',
+          createdAt: now,
+          updatedAt: now,
+        });
+        memberIds.push(...members.map((m) => m._id));
+      }
+
+      if (docs.length) {
+        await collection.insertMany(docs);
+        await guestsCollection.updateMany(
+          { _id: { $in: memberIds } },
+          { $set: { reminderScheduledAt: new Date(body.scheduledAt), updatedAt: now } },
+        );
+        await moveInvitationStage({ _id: { $in: memberIds } }, 'scheduled', 'reminder');
+      }
+
+      await recordAudit(c, {
+        action: 'reminder.segment_campaign',
+        resource: 'reminder',
+        accountId,
+        details: { segmentId: body.segmentId, type: body.type, matched: guests.length, scheduled: docs.length, skipped },
+      });
+
+      return c.json({
+        success: true,
+        data: { matched: guests.length, scheduled: docs.length, skipped },
+      });
+    } catch (error: any) {
+      console.error('[reminders] Error scheduling segment campaign:', error?.message);
+      return c.json({ error: error?.message || 'Failed to schedule reminders' }, 500);
+    }
+  },
+);
+
 // Update reminder
 reminders.put(
   '/:id',
   zValidator('json', updateReminderSchema),
   async (c: Context<AppEnv>) => {
-    const accountId = c.get('accountId') as string | undefined;
-    const user = c.get('user') as ContextUser | undefined;
+    const user = getUser(c);
     const id = c.req.param('id');
 
-    if (!user?.id) {
-      return c.json({ error: 'User ID not found' }, 400);
-    }
-
     try {
       const body = (c.req as any).valid('json') as Partial<ReminderBody>;
       const collection = db.collection('94884219_reminders');
 
+      const { userId: _ignoredUserId, ...updateBody } = body;
+
+      const before = await collection.findOne(accountScope(user, { _id: new ObjectId(id) }));
+
       const result = await collection.updateOne(
-        { _id: new ObjectId(id), userId: user.id },
+        accountScope(user, { _id: new ObjectId(id) }),
         {
           $set: {
-            ...body,
+            ...updateBody,
             status: "pending",
             attempts: 0,
             updatedAt: new Date(),
@@ -209,20 +355,16 @@ reminders.put(
       if (!reminder) {
         return c.json({ error: 'Reminder not found after update' }, 404);
       }
+      await recordAudit(c, { action: 'reminder.update', resource: 'reminder', resourceId: id, before, after: reminder });
 
       if (body.scheduledAt) {
         try {
           const guestsCollection = db.collection('94884219_guests');
-          await guestsCollection.updateOne(
-            { _id: new ObjectId(reminder.guestId) },
-            {
-              $set: {
-                reminderScheduledAt: new Date(body.scheduledAt),
-                status: 'scheduled',
-                updatedAt: new Date(),
-              },
-            },
-          );
+          const guestFilter = { _id: new ObjectId(reminder.guestId), accountId: reminder.accountId };
+          await guestsCollection.updateOne(guestFilter, {
+            $set: { reminderScheduledAt: new Date(body.scheduledAt), updatedAt: new Date() },
+          });
+          await moveInvitationStage(guestFilter, 'scheduled', 'reminder');
         } catch (guestUpdateError: any) {
           console.error('[reminders] Error updating guest reminderScheduledAt:', guestUpdateError?.message);
         }
@@ -253,39 +395,49 @@ reminders.put(
 
 // Delete reminder
 reminders.delete('/:id', async (c: Context<AppEnv>) => {
-  const user = c.get('user') as ContextUser | undefined;
+  const user = getUser(c);
   const id = c.req.param('id');
   const guestId = c.req.param('id');
 
   try {
     const collection = db.collection('94884219_reminders');
 
-    const reminderToDelete = await collection.findOne({
-      guestId: id,
-    });
+    const reminderToDelete = await collection.findOne(accountScope(user, { guestId: id }));
     console.log('Reminder to delete:', guestId, id);
     if (!reminderToDelete) {
       return c.json({ error: 'Reminder not found' }, 404);
     }
 
     const result = await collection.deleteOne({
-      guestId,
+      _id: reminderToDelete._id,
     });
 
     if (!result.deletedCount) {
       return c.json({ error: 'Reminder not found' }, 404);
     }
+    await recordAudit(c, {
+      action: 'reminder.delete',
+      resource: 'reminder',
+      resourceId: String(reminderToDelete._id),
+      before: reminderToDelete,
+      after: null,
+    });
 
     try {
       const guestsCollection = db.collection('94884219_guests');
-      await guestsCollection.updateOne(
-        { _id: new ObjectId(reminderToDelete.guestId) },
-        {
-          $unset: { reminderScheduledAt: '' },
-          $set: { status: 'pending', updatedAt: new Date() },
-        },
-      );
-      console.log('[reminders] Cleared guest reminderScheduledAt field and reset status to pending');
+      const guestFilter = { _id: new ObjectId(reminderToDelete.guestId), accountId: reminderToDelete.accountId };
+      await guestsCollection.updateOne(guestFilter, {
+        $unset: { reminderScheduledAt: '' },
+        $set: { updatedAt: new Date() },
+      });
+      // Status RSVP tidak disentuh; tahap kembali ke draft bila tak ada jadwal lain
+      const stillScheduled = await collection.countDocuments({
+        guestId: reminderToDelete.guestId,
+        accountId: reminderToDelete.accountId,
+        status: { $in: ['pending', 'processing'] },
+      });
+      if (!stillScheduled) await moveInvitationStage(guestFilter, 'draft', 'reminder');
+      console.log('[reminders] Cleared guest reminderScheduledAt field');
     } catch (guestUpdateError: any) {
       console.error('[reminders] Error clearing guest reminderScheduledAt:', guestUpdateError?.message);
     }
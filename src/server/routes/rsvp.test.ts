@@ -0,0 +1,86 @@
+// src/server/routes/rsvp.test.ts
+/**
+ * The public RSVP link: its token is bound to the guest's id and code, and
+ * anything that does not verify is answered "Invitation not found" before
+ * the database is read, so no MongoDB is needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv } from '@shared/types'
+import { isRsvpClosed, rsvpMaxHeadcount, rsvpPath, rsvpToken, verifyRsvpToken } from '../utils/rsvp.js'
+import rsvpApp from './rsvp.js'
+
+const guest = { _id: '65f000000000000000000001', code: 'AB12' }
+const otherGuest = { _id: '65f000000000000000000002', code: 'CD34' }
+
+function api() {
+  const app = new Hono<AppEnv>()
+  app.route('/api/rsvp', rsvpApp)
+  return app
+}
+
+test('an RSVP token verifies only for the code it was issued with', () => {
+  const token = rsvpToken(guest)!
+  assert.equal(verifyRsvpToken('AB12', token), guest._id)
+
+  assert.equal(verifyRsvpToken('CD34', token), null)
+  // Kode baru membatalkan link lama
+  assert.equal(verifyRsvpToken('AB12', rsvpToken({ ...guest, code: 'AB13' })), null)
+  assert.equal(rsvpToken({ _id: guest._id, code: null }), null)
+})
+
+test('a token cannot be moved to another guest or forged', () => {
+  const [, sig] = rsvpToken(guest)!.split('.')
+  assert.equal(verifyRsvpToken('AB12', `${otherGuest._id}.${sig}`), null)
+  assert.equal(verifyRsvpToken('AB12', `${guest._id}.${'A'.repeat(sig.length)}`), null)
+  assert.equal(verifyRsvpToken('AB12', `not-an-id.${sig}`), null)
+  assert.equal(verifyRsvpToken('AB12', guest._id), null)
+  assert.equal(verifyRsvpToken('AB12', undefined), null)
+})
+
+test('rsvpPath encodes the code and token for the hash router', () => {
+  const path = rsvpPath({ _id: guest._id, code: 'A B' })!
+  assert.match(path, /^\/#\/rsvp\/A%20B\?t=65f000000000000000000001\./)
+  const token = decodeURIComponent(path.split('?t=')[1])
+  assert.equal(verifyRsvpToken('A B', token), guest._id)
+})
+
+test('the deadline closes RSVP and the guest limit caps the headcount', () => {
+  const now = new Date('2025-06-14T12:00:00Z')
+  assert.equal(isRsvpClosed({ rsvpDeadline: '2025-06-13T23:59:00Z' }, now), true)
+  assert.equal(isRsvpClosed({ rsvpDeadline: '2025-06-15T00:00:00Z' }, now), false)
+  assert.equal(isRsvpClosed({ rsvpDeadline: null }, now), false)
+  assert.equal(isRsvpClosed(null, now), false)
+
+  assert.equal(rsvpMaxHeadcount({}), 1)
+  assert.equal(rsvpMaxHeadcount({ limit: 4 }), 4)
+})
+
+test('GET and POST /api/rsvp/:code answer 404 without a valid token', async () => {
+  const token = encodeURIComponent(rsvpToken(guest)!)
+  const paths = ['/api/rsvp/AB12', '/api/rsvp/AB12?t=garbage', `/api/rsvp/CD34?t=${token}`]
+
+  for (const path of paths) {
+    const read = await api().request(path)
+    assert.equal(read.status, 404, `GET ${path}`)
+    assert.deepEqual(await read.json(), { success: false, error: 'Invitation not found' })
+
+    const answer = await api().request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 'Confirmed', headcount: 2 }),
+    })
+    assert.equal(answer.status, 404, `POST ${path}`)
+    assert.deepEqual(await answer.json(), { success: false, error: 'Invitation not found' })
+  }
+})
+
+test('POST /api/rsvp/:code only accepts a confirm or decline answer', async () => {
+  const res = await api().request(`/api/rsvp/AB12?t=${encodeURIComponent(rsvpToken(guest)!)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'Checked-In' }),
+  })
+  assert.equal(res.status, 400)
+})
@@ -0,0 +1,156 @@
+/**
+ * Public RSVP API Routes
+ * Unauthenticated: guests open /rsvp/:code?t=<token> from their invitation
+ * and confirm or decline, with headcount, dietary requirements and a note.
+ * The token (utils/rsvp.ts) is the only credential, so every failure looks
+ * the same from outside ("Invitation not found").
+ */
+
+import { Hono, Context } from 'hono'
+import { z } from 'zod'
+import { zValidator } from '@hono/zod-validator'
+import { ObjectId, type WithId, type Document } from 'mongodb'
+import type { AppEnv } from '@shared/types'
+import { db } from '../db.js'
+import { recordAudit } from '../utils/audit.js'
+import { GUESTS_COLLECTION } from '../utils/guest-query.js'
+import { moveInvitationStage } from '../utils/invitation-stage.js'
+import { RSVP_NOTE_MAX, isRsvpClosed, rsvpMaxHeadcount, verifyRsvpToken } from '../utils/rsvp.js'
+import { broadcastGuestUpdate } from './realtime-guests.js'
+
+const ACCOUNTS_COLLECTION = '94884219_accounts'
+
+const rsvpApp = new Hono<AppEnv>()
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+const rsvpSchema = z.object({
+  status: z.enum(['Confirmed', 'Declined']),
+  headcount: z.number().int().min(1).max(99).optional(),
+  dietaryRequirements: z.string().trim().max(RSVP_NOTE_MAX).optional(),
+  note: z.string().trim().max(RSVP_NOTE_MAX).optional(),
+})
+
+type RsvpBody = z.infer<typeof rsvpSchema>
+
+/** Guest + account behind code/token, or null for anything invalid */
+async function loadInvitation(c: Context<AppEnv>) {
+  const code = c.req.param('code') ?? ''
+  const guestId = verifyRsvpToken(code, c.req.query('t'))
+  if (!guestId) return null
+
+  const guest = await db.collection(GUESTS_COLLECTION).findOne({
+    _id: new ObjectId(guestId),
+    code,
+    isInvited: { $ne: false },
+  })
+  if (!guest) return null
+
+  const account = ObjectId.isValid(String(guest.accountId))
+    ? await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: new ObjectId(String(guest.accountId)) })
+    : null
+  return { guest, account }
+}
+
+function publicView(guest: WithId<Document>, account: WithId<Document> | null) {
+  return {
+    guest: {
+      name: guest.name,
+      code: guest.code,
+      status: guest.status,
+      maxHeadcount: rsvpMaxHeadcount(guest),
+      headcount: guest.rsvpHeadcount ?? null,
+      dietaryRequirements: guest.dietaryRequirements ?? '',
+      note: guest.rsvpNote ?? '',
+      respondedAt: guest.rsvpAt ?? null,
+    },
+    event: {
+      title: account?.title ?? account?.name ?? '',
+      dateTime: account?.dateTime ?? null,
+      location: account?.location ?? '',
+    },
+    deadline: account?.rsvpDeadline ?? null,
+    closed: isRsvpClosed(account),
+  }
+}
+
+/**
+ * GET /api/rsvp/:code?t=
+ */
+rsvpApp.get('/:code', async (c: Context<AppEnv>) => {
+  try {
+    const invitation = await loadInvitation(c)
+    if (!invitation) return c.json({ success: false, error: 'Invitation not found' }, 404)
+
+    return c.json({ success: true, data: publicView(invitation.guest, invitation.account) })
+  } catch (error: unknown) {
+    console.error('[rsvp] Load failed:', errMsg(error))
+    return c.json({ success: false, error: 'Failed to load invitation' }, 500)
+  }
+})
+
+/**
+ * POST /api/rsvp/:code?t=
+ */
+rsvpApp.post('/:code', zValidator('json', rsvpSchema), async (c: Context<AppEnv>) => {
+  try {
+    const body = (c.req as any).valid('json') as RsvpBody
+
+    const invitation = await loadInvitation(c)
+    if (!invitation) return c.json({ success: false, error: 'Invitation not found' }, 404)
+    const { guest, account } = invitation
+
+    if (isRsvpClosed(account)) {
+      return c.json({ success: false, error: 'RSVP is closed' }, 403)
+    }
+    if (guest.checkInDate) {
+      return c.json({ success: false, error: 'Guest has already checked in' }, 409)
+    }
+
+    const max = rsvpMaxHeadcount(guest)
+    const headcount = body.status === 'Declined' ? 0 : body.headcount ?? 1
+    if (headcount > max) {
+      return c.json({ success: false, error: `Headcount exceeds the limit of ${max}` }, 400)
+    }
+
+    const update = {
+      status: body.status,
+      rsvpHeadcount: headcount,
+      dietaryRequirements: body.dietaryRequirements ?? '',
+      rsvpNote: body.note ?? '',
+      rsvpAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    const result = await db
+      .collection(GUESTS_COLLECTION)
+      .findOneAndUpdate({ _id: guest._id, checkInDate: guest.checkInDate ?? null }, { $set: update }, { returnDocument: 'after' })
+    const updated = (result && (result as any).value) || result
+    if (!updated) return c.json({ success: false, error: 'Guest has already checked in' }, 409)
+
+    const guestId = String(guest._id)
+    await moveInvitationStage({ _id: guest._id }, 'responded', 'rsvp')
+    await recordAudit(c, {
+      action: 'guest.rsvp',
+      resource: 'guest',
+      resourceId: guestId,
+      accountId: String(guest.accountId),
+      before: guest,
+      after: updated,
+    })
+    broadcastGuestUpdate('guest_rsvp', guestId, String(guest.accountId), {
+      name: updated.name,
+      status: updated.status,
+      headcount,
+    })
+
+    return c.json({ success: true, data: publicView(updated, account) })
+  } catch (error: unknown) {
+    console.error('[rsvp] Submit failed:', errMsg(error))
+    return c.json({ success: false, error: 'Failed to save RSVP' }, 500)
+  }
+})
+
+export default rsvpApp
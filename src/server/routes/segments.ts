@@ -0,0 +1,237 @@
+/**
+ * Guest Segment API Routes
+ * Saved filters over tags and guest state (utils/segments.ts). A segment's
+ * id can be passed as ?segment= to GET /api/guests, as the audience of a
+ * reminder campaign (POST /api/reminders/segment) and as doorprize
+ * eligibility (GET /api/doorprize/checked-in?segmentId=).
+ */
+
+import { Hono, Context } from 'hono'
+import { z } from 'zod'
+import { zValidator } from '@hono/zod-validator'
+import { ObjectId } from 'mongodb'
+import type { AppEnv } from '@shared/types'
+import { db } from '../db.js'
+import { accountScope, canAccessAccount, getUser, isOperator, requirePermission, requireUser } from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
+import { GUESTS_COLLECTION } from '../utils/guest-query.js'
+import {
+  accountTags,
+  segmentFilterSchema,
+  segmentToMongo,
+  segments,
+  type SegmentDoc,
+} from '../utils/segments.js'
+
+const segmentsApp = new Hono<AppEnv>()
+
+segmentsApp.use('*', requireUser)
+
+// Doorprize memilih segmen sebagai syarat peserta
+const canReadSegments = requirePermission('guests', 'doorprize')
+const canManageSegments = requirePermission('guests')
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+const createSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  filter: segmentFilterSchema,
+  // Operator only
+  accountId: z.string().optional(),
+})
+
+const updateSegmentSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+  filter: segmentFilterSchema.optional(),
+})
+
+const previewSchema = z.object({
+  filter: segmentFilterSchema,
+})
+
+type CreateSegmentBody = z.infer<typeof createSegmentSchema>
+type UpdateSegmentBody = z.infer<typeof updateSegmentSchema>
+type PreviewBody = z.infer<typeof previewSchema>
+
+const PREVIEW_PROJECTION = { name: 1, code: 1, category: 1, session: 1, tags: 1, status: 1, checkInDate: 1 }
+
+async function loadSegment(c: Context<AppEnv>, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return segments().findOne(accountScope(getUser(c), { _id: new ObjectId(id) }))
+}
+
+function countGuests(segment: Pick<SegmentDoc, 'accountId' | 'filter'>) {
+  return db.collection(GUESTS_COLLECTION).countDocuments({ accountId: segment.accountId, ...segmentToMongo(segment.filter) })
+}
+
+/**
+ * GET /api/segments
+ * Segments of the account with their current guest count.
+ */
+segmentsApp.get('/', canReadSegments, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const list = await segments().find(accountScope(user, {}, c.req.query('accountId'))).sort({ name: 1 }).toArray()
+
+    const data = await Promise.all(
+      list.map(async (segment) => ({ ...segment, _id: String(segment._id), guestCount: await countGuests(segment) })),
+    )
+    return c.json({ success: true, data })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * GET /api/segments/tags
+ * Tags in use in the account, most used first.
+ */
+segmentsApp.get('/tags', canReadSegments, async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { accountId } = accountScope(user, {}, c.req.query('accountId'))
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    return c.json({ success: true, data: await accountTags(accountId) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/segments/preview
+ * Count and first guests of an unsaved filter, for the segment editor.
+ */
+segmentsApp.post('/preview', canManageSegments, zValidator('json', previewSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const { filter } = (c.req as any).valid('json') as PreviewBody
+    const { accountId } = accountScope(user, {}, c.req.query('accountId'))
+    if (!accountId) return c.json({ success: false, error: 'accountId is required' }, 400)
+
+    const query = { accountId, ...segmentToMongo(filter) }
+    const [guestCount, sample] = await Promise.all([
+      db.collection(GUESTS_COLLECTION).countDocuments(query),
+      db.collection(GUESTS_COLLECTION).find(query, { projection: PREVIEW_PROJECTION }).sort({ name: 1 }).limit(20).toArray(),
+    ])
+    return c.json({ success: true, data: { guestCount, sample } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * GET /api/segments/:id
+ */
+segmentsApp.get('/:id', canReadSegments, async (c: Context<AppEnv>) => {
+  try {
+    const segment = await loadSegment(c, c.req.param('id'))
+    if (!segment) return c.json({ success: false, error: 'Segment not found' }, 404)
+    return c.json({ success: true, data: { ...segment, guestCount: await countGuests(segment) } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/segments
+ */
+segmentsApp.post('/', canManageSegments, zValidator('json', createSegmentSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const body = (c.req as any).valid('json') as CreateSegmentBody
+
+    const accountId = isOperator(user) && body.accountId ? body.accountId : user.accountId
+    if (!canAccessAccount(user, accountId)) {
+      return c.json({ success: false, error: 'Access denied' }, 403)
+    }
+
+    const now = new Date()
+    const doc: SegmentDoc = {
+      _id: new ObjectId(),
+      accountId,
+      name: body.name,
+      description: body.description,
+      filter: body.filter,
+      createdBy: user.id,
+      createdAt: now,
+      updatedAt: now,
+    }
+    try {
+      await segments().insertOne(doc)
+    } catch (error: any) {
+      if (error?.code === 11000) return c.json({ success: false, error: 'Segment name already in use' }, 409)
+      throw error
+    }
+
+    await recordAudit(c, { action: 'segment.create', resource: 'segment', resourceId: String(doc._id), after: doc, accountId })
+    return c.json({ success: true, data: { ...doc, _id: String(doc._id), guestCount: await countGuests(doc) } }, 201)
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * PATCH /api/segments/:id
+ */
+segmentsApp.patch('/:id', canManageSegments, zValidator('json', updateSegmentSchema), async (c: Context<AppEnv>) => {
+  try {
+    const body = (c.req as any).valid('json') as UpdateSegmentBody
+    const segment = await loadSegment(c, c.req.param('id'))
+    if (!segment) return c.json({ success: false, error: 'Segment not found' }, 404)
+
+    let result
+    try {
+      result = await segments().findOneAndUpdate(
+        { _id: segment._id },
+        { $set: { ...body, updatedAt: new Date() } },
+        { returnDocument: 'after' },
+      )
+    } catch (error: any) {
+      if (error?.code === 11000) return c.json({ success: false, error: 'Segment name already in use' }, 409)
+      throw error
+    }
+    const updated = ((result && (result as any).value) || result) as SegmentDoc
+
+    await recordAudit(c, {
+      action: 'segment.update',
+      resource: 'segment',
+      resourceId: String(segment._id),
+      before: segment,
+      after: updated,
+      accountId: segment.accountId,
+    })
+    return c.json({ success: true, data: { ...updated, guestCount: await countGuests(updated) } })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * DELETE /api/segments/:id
+ * Guests and their tags are untouched.
+ */
+segmentsApp.delete('/:id', canManageSegments, async (c: Context<AppEnv>) => {
+  try {
+    const segment = await loadSegment(c, c.req.param('id'))
+    if (!segment) return c.json({ success: false, error: 'Segment not found' }, 404)
+
+    await segments().deleteOne({ _id: segment._id })
+    await recordAudit(c, {
+      action: 'segment.delete',
+      resource: 'segment',
+      resourceId: String(segment._id),
+      before: segment,
+      accountId: segment.accountId,
+    })
+    return c.json({ success: true, message: 'Segment deleted successfully' })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+export default segmentsApp
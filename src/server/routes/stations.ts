@@ -0,0 +1,270 @@
+/**
+ * Reception Station API Routes
+ * Account admins create named event-day stations (code + PIN) with a desk
+ * permission bundle and a validity window, and revoke them remotely.
+ * Station sign-in itself lives in auth.ts (POST /api/auth/station-login).
+ */
+
+import { Hono, Context } from 'hono'
+import { z } from 'zod'
+import { zValidator } from '@hono/zod-validator'
+import { ObjectId } from 'mongodb'
+import type { AppEnv } from '@shared/types'
+import { STATION_PERMISSION_KEYS } from '../../shared/types.js'
+import { db } from '../db.js'
+import { accountScope, canAccessAccount, getUser, isOperator, requireAdmin } from '../middleware/auth.js'
+import { hashPassword } from '../utils/password.js'
+import { revokeUserSessions } from '../utils/session.js'
+import { recordAudit } from '../utils/audit.js'
+import {
+  defaultStationWindow,
+  generateStationCode,
+  stations,
+  stationSessionUserId,
+  stationStatus,
+  type StationDoc,
+} from '../utils/stations.js'
+
+const stationsApp = new Hono<AppEnv>()
+
+const ACCOUNTS_COLLECTION = '94884219_accounts'
+
+stationsApp.use('*', requireAdmin)
+
+function errMsg(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function safeObjectId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null
+}
+
+/** Station as returned to the client (never the PIN hash) */
+function publicStation(station: StationDoc) {
+  const { pinHash: _pinHash, ...rest } = station
+  return { ...rest, _id: String(station._id), status: stationStatus(station) }
+}
+
+const pinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4-8 digits')
+
+const createStationSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Station name is required').max(50),
+    pin: pinSchema,
+    permissions: z.array(z.enum(STATION_PERMISSION_KEYS)).min(1, 'Pick at least one desk'),
+    // Kosong -> window default di sekitar account.dateTime
+    validFrom: z.coerce.date().optional(),
+    validUntil: z.coerce.date().optional(),
+    // Operator only
+    accountId: z.string().optional(),
+  })
+  .refine((b) => !b.validFrom || !b.validUntil || b.validFrom < b.validUntil, {
+    message: 'validFrom must be before validUntil',
+    path: ['validUntil'],
+  })
+
+const updateStationSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    pin: pinSchema.optional(),
+    permissions: z.array(z.enum(STATION_PERMISSION_KEYS)).min(1).optional(),
+    validFrom: z.coerce.date().optional(),
+    validUntil: z.coerce.date().optional(),
+  })
+
+type CreateStationBody = z.infer<typeof createStationSchema>
+type UpdateStationBody = z.infer<typeof updateStationSchema>
+
+/**
+ * GET /api/stations
+ */
+stationsApp.get('/', async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const list = await stations()
+      .find(accountScope(user, {}, c.req.query('accountId')))
+      .sort({ createdAt: -1 })
+      .toArray()
+    return c.json({ success: true, data: list.map(publicStation) })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/stations
+ * Returns the generated station code; the PIN is only known to the admin.
+ */
+stationsApp.post('/', zValidator('json', createStationSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const body = (c.req as any).valid('json') as CreateStationBody
+
+    const accountId = isOperator(user) && body.accountId ? body.accountId : user.accountId
+    if (!canAccessAccount(user, accountId)) {
+      return c.json({ success: false, error: 'Access denied' }, 403)
+    }
+
+    let { validFrom, validUntil } = body
+    if (!validFrom || !validUntil) {
+      const accountOid = safeObjectId(accountId)
+      const account = accountOid ? await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: accountOid }) : null
+      if (!account?.dateTime) {
+        return c.json(
+          { success: false, error: 'Set the event date in Settings or give validFrom and validUntil explicitly' },
+          400,
+        )
+      }
+      const window = defaultStationWindow(new Date(account.dateTime))
+      validFrom = validFrom ?? window.validFrom
+      validUntil = validUntil ?? window.validUntil
+      if (validFrom >= validUntil) {
+        return c.json({ success: false, error: 'validFrom must be before validUntil' }, 400)
+      }
+    }
+
+    const now = new Date()
+    const pinHash = await hashPassword(body.pin)
+
+    // Kode unik global; ulangi kalau kebetulan bentrok
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const doc: StationDoc = {
+        _id: new ObjectId(),
+        accountId,
+        name: body.name,
+        code: generateStationCode(),
+        pinHash,
+        permissions: body.permissions,
+        validFrom,
+        validUntil,
+        revokedAt: null,
+        lastLoginAt: null,
+        createdBy: user.id,
+        createdAt: now,
+        updatedAt: now,
+      }
+      try {
+        await stations().insertOne(doc)
+      } catch (error: any) {
+        if (error?.code === 11000) continue
+        throw error
+      }
+
+      const station = publicStation(doc)
+      await recordAudit(c, { action: 'station.create', resource: 'station', resourceId: station._id, after: station })
+      return c.json({ success: true, data: station, message: 'Station created successfully' }, 201)
+    }
+
+    return c.json({ success: false, error: 'Could not generate a unique station code' }, 500)
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * PATCH /api/stations/:id
+ * Rename, change PIN / desks or move the validity window. Changing the PIN
+ * or desks signs the station's devices out.
+ */
+stationsApp.patch('/:id', zValidator('json', updateStationSchema), async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const oid = safeObjectId(c.req.param('id'))
+    if (!oid) return c.json({ success: false, error: 'Invalid station id' }, 400)
+
+    const body = (c.req as any).valid('json') as UpdateStationBody
+    const before = await stations().findOne(accountScope(user, { _id: oid }))
+    if (!before) return c.json({ success: false, error: 'Station not found' }, 404)
+
+    const validFrom = body.validFrom ?? before.validFrom
+    const validUntil = body.validUntil ?? before.validUntil
+    if (validFrom >= validUntil) {
+      return c.json({ success: false, error: 'validFrom must be before validUntil' }, 400)
+    }
+
+    const $set: Partial<StationDoc> = { validFrom, validUntil, updatedAt: new Date() }
+    if (body.name !== undefined) $set.name = body.name
+    if (body.permissions !== undefined) $set.permissions = body.permissions
+    if (body.pin !== undefined) $set.pinHash = await hashPassword(body.pin)
+
+    const result = await stations().findOneAndUpdate({ _id: oid }, { $set }, { returnDocument: 'after' })
+    const after = ((result && (result as any).value) || result) as StationDoc | null
+    if (!after) return c.json({ success: false, error: 'Station not found' }, 404)
+
+    let revokedSessions = 0
+    if (body.pin !== undefined || body.permissions !== undefined) {
+      revokedSessions = await revokeUserSessions(stationSessionUserId(String(oid)))
+    }
+
+    await recordAudit(c, {
+      action: 'station.update',
+      resource: 'station',
+      resourceId: String(oid),
+      before: publicStation(before),
+      after: publicStation(after),
+      details: { pinChanged: body.pin !== undefined, revokedSessions },
+    })
+
+    return c.json({ success: true, data: publicStation(after), message: 'Station updated successfully' })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * POST /api/stations/:id/revoke
+ * Disable the station and sign out every device using it
+ */
+stationsApp.post('/:id/revoke', async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const oid = safeObjectId(c.req.param('id'))
+    if (!oid) return c.json({ success: false, error: 'Invalid station id' }, 400)
+
+    const station = await stations().findOne(accountScope(user, { _id: oid }))
+    if (!station) return c.json({ success: false, error: 'Station not found' }, 404)
+
+    const revokedAt = station.revokedAt ?? new Date()
+    if (!station.revokedAt) {
+      await stations().updateOne({ _id: oid }, { $set: { revokedAt, updatedAt: new Date() } })
+    }
+    const revokedSessions = await revokeUserSessions(stationSessionUserId(String(oid)))
+
+    console.log(`[stations] ${user.username} revoked station ${station.name} (${station.code})`)
+    await recordAudit(c, {
+      action: 'station.revoke',
+      resource: 'station',
+      resourceId: String(oid),
+      accountId: station.accountId,
+      details: { name: station.name, revokedSessions },
+    })
+
+    return c.json({ success: true, data: publicStation({ ...station, revokedAt }), message: 'Station revoked' })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+/**
+ * DELETE /api/stations/:id
+ */
+stationsApp.delete('/:id', async (c: Context<AppEnv>) => {
+  try {
+    const user = getUser(c)
+    const oid = safeObjectId(c.req.param('id'))
+    if (!oid) return c.json({ success: false, error: 'Invalid station id' }, 400)
+
+    const station = await stations().findOneAndDelete(accountScope(user, { _id: oid }))
+    const deleted = ((station && (station as any).value) || station) as StationDoc | null
+    if (!deleted) return c.json({ success: false, error: 'Station not found' }, 404)
+
+    await revokeUserSessions(stationSessionUserId(String(oid)))
+    await recordAudit(c, { action: 'station.delete', resource: 'station', resourceId: String(oid), before: publicStation(deleted) })
+
+    return c.json({ success: true, message: 'Station deleted successfully' })
+  } catch (error: unknown) {
+    return c.json({ success: false, error: errMsg(error) }, 500)
+  }
+})
+
+export default stationsApp
@@ -1,14 +1,15 @@
 /**
  * Upload API
- * - Auth via mock Bearer token (mock_token_${userId}_${ts})
+ * - Auth via signed session token (diverifikasi di root middleware)
  * - Simpan file sebagai base64 di Mongo
  * - Serve file kembali via GET /api/upload/:filename (+ Range streaming)
  */
 
-import { Hono, type Context, type Next } from 'hono'
-import { ObjectId } from 'mongodb'
+import { Hono, type Context } from 'hono'
 import { db } from '../db.js'
-import type { AppEnv, ContextUser } from '@shared/types'
+import type { AppEnv } from '@shared/types'
+import { ObjectId } from 'mongodb'
+import { canAccessAccount, getUser, isAdmin, requireUser } from '../middleware/auth.js'
 
 const uploadApp = new Hono<AppEnv>()
 export type UploadApp = typeof uploadApp
@@ -16,63 +17,12 @@ export type UploadApp = typeof uploadApp
 // Collections with app id prefix
 const UPLOADED_FILES_COLLECTION = '94884219_uploaded_files'
 
-async function requireAuth(c: Context<AppEnv>, next: Next) {
-  try {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
-
-    const token = authHeader.substring(7)
-    // format: mock_token_${userId}_${timestamp}
-    const parts = token.split('_')
-    if (parts.length < 4 || parts[0] !== 'mock' || parts[1] !== 'token') {
-      return c.json({ success: false, error: 'Invalid token format' }, 401)
-    }
-
-    const userId = parts.slice(2, -1).join('_')
-    if (!userId) {
-      return c.json({ success: false, error: 'Invalid token' }, 401)
-    }
-
-    const usersCol = db.collection<any>('94884219_users')
-    let userDoc: any | null = null
-
-    if (ObjectId.isValid(userId)) {
-      userDoc = await usersCol.findOne({ _id: new ObjectId(userId) } as any)
-    }
-    if (!userDoc) {
-      userDoc = await usersCol.findOne({ username: userId } as any)
-    }
-    if (!userDoc) {
-      return c.json({ success: false, error: 'User not found' }, 401)
-    }
-
-    const ctxUser: ContextUser = {
-      id: userId,
-      username: userDoc.username,
-      accountId: userDoc.accountId,
-      role: userDoc.role ?? 'user',
-    }
-
-    c.set('user', ctxUser)
-    await next()
-  } catch (error) {
-    const msg =
-      error && typeof error === 'object' && 'message' in error
-        ? String((error as any).message)
-        : 'Authentication failed'
-    return c.json({ success: false, error: msg }, 401)
-  }
-}
-
 /**
  * GET /api/upload/test
  */
-uploadApp.get('/test', requireAuth, async (c: Context<AppEnv>) => {
+uploadApp.get('/test', requireUser, async (c: Context<AppEnv>) => {
   try {
-    const user = c.get('user')
-    if (!user) return c.json({ success: false, error: 'Test failed' }, 500)
+    const user = getUser(c)
     return c.json({
       success: true,
       message: 'Upload endpoint is working',
@@ -91,10 +41,9 @@ uploadApp.get('/test', requireAuth, async (c: Context<AppEnv>) => {
 /**
  * POST /api/upload
  */
-uploadApp.post('/', requireAuth, async (c: Context<AppEnv>) => {
+uploadApp.post('/', requireUser, async (c: Context<AppEnv>) => {
   try {
-    const authUser = c.get('user')
-    if (!authUser) return c.json({ success: false, error: 'Unauthorized' }, 401)
+    const authUser = getUser(c)
 
     let formData: FormData
     try {
@@ -114,8 +63,15 @@ uploadApp.post('/', requireAuth, async (c: Context<AppEnv>) => {
       return c.json({ success: false, error: 'userId is required' }, 400)
     }
 
-    if (authUser.id !== userIdFromForm && authUser.role !== 'admin') {
-      return c.json({ success: false, error: 'Forbidden' }, 403)
+    // Admin boleh upload untuk user lain di akunnya sendiri (operator: semua akun)
+    if (authUser.id !== userIdFromForm) {
+      const target =
+        isAdmin(authUser) && ObjectId.isValid(userIdFromForm)
+          ? await db.collection('94884219_users').findOne({ _id: new ObjectId(userIdFromForm) })
+          : null
+      if (!target || !canAccessAccount(authUser, target.accountId)) {
+        return c.json({ success: false, error: 'Forbidden' }, 403)
+      }
     }
 
     // --- validasi file ---
@@ -315,11 +271,10 @@ uploadApp.get('/:filename', async (c: Context<AppEnv>) => {
  * DELETE /api/upload/:filename
  * Hanya pemilik file (token user) yang boleh delete
  */
-uploadApp.delete('/:filename', requireAuth, async (c: Context<AppEnv>) => {
+uploadApp.delete('/:filename', requireUser, async (c: Context<AppEnv>) => {
   try {
-    const user = c.get('user')
+    const user = getUser(c)
     const filename = c.req.param('filename')
-    if (!user) return c.json({ success: false, error: 'delete failed' }, 500)
 
     const fileDoc = await db.collection(UPLOADED_FILES_COLLECTION).findOne({
       filename,
@@ -0,0 +1,37 @@
+// src/server/routes/users.test.ts
+/**
+ * /api/users requests that are answered before the database is read, so no
+ * MongoDB is needed: station PIN sessions may not change event settings.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import type { AppEnv, ContextUser } from '@shared/types'
+import usersApp from './users.js'
+
+// Bentuk yang sama dengan stationContextUser
+const station: ContextUser = {
+  id: 'station:65f000000000000000000002',
+  username: 'Meja Depan',
+  role: 'user',
+  accountId: 'account-1',
+  permissions: [{ page: 'reception', canAccess: true }],
+  stationId: '65f000000000000000000002',
+}
+
+test('PUT /api/users/accounts/:accountId rejects station sessions', async () => {
+  const app = new Hono<AppEnv>()
+  app.use('*', async (c, next) => {
+    c.set('user', station)
+    await next()
+  })
+  app.route('/api/users', usersApp)
+
+  const res = await app.request('/api/users/accounts/account-1', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rsvpDeadline: null }),
+  })
+  assert.equal(res.status, 403)
+  assert.deepEqual(await res.json(), { success: false, error: 'Stations cannot change event settings' })
+})
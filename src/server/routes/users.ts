@@ -1,7 +1,9 @@
 /**
  * User Management API Routes
  * Handles admin user management operations
- * Implements role-based access control for user administration
+ * Implements role-based access control for user administration.
+ * Admins manage the users of their own account; only platform operators
+ * see and manage users across accounts.
  */
 
 import { Hono, Context } from 'hono'
@@ -9,7 +11,17 @@ import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator'
 import { ObjectId } from 'mongodb'
 import { db } from '../db.js'
+import { revokeUserSessions } from '../utils/session.js'
+import { hashPassword } from '../utils/password.js'
+import { clearLoginFailures, getLockedUsernames, usernameKey } from '../utils/login-throttle.js'
+import { recordAudit } from '../utils/audit.js'
+import { isTwoFactorEnabled } from '../utils/two-factor.js'
+import { DEFAULT_CODE_FORMAT, codeFormatSchema } from '../utils/guest-codes.js'
+import { customFieldDefsSchema } from '../utils/custom-fields.js'
+import { TRASH_COLLECTION } from '../utils/guest-trash.js'
 import type { AppEnv } from '@shared/types'
+import { PERMISSION_KEYS } from '../../shared/types.js'
+import { accountScope, canAccessAccount, getUser, isOperator, requireAdmin, requireUser } from '../middleware/auth.js'
 import { link } from 'fs'
 
 const usersApp = new Hono<AppEnv>()
@@ -17,16 +29,6 @@ const usersApp = new Hono<AppEnv>()
 const USERS_COLLECTION = '94884219_users'
 const ACCOUNTS_COLLECTION = '94884219_accounts'
 
-type CtxUser = { id: string; username?: string; email?: string; role?: 'admin' | 'user'; accountId?: string }
-
-function getCtxUser(c: Context<AppEnv>): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id) return null
-  return user as CtxUser
-}
-
 function safeObjectId(id: string): ObjectId | null {
   try {
     if (ObjectId.isValid(id)) return new ObjectId(id)
@@ -44,7 +46,9 @@ const createUserSchema = z.object({
     .min(3, 'Username must be at least 3 characters')
     .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
-  role: z.enum(['admin', 'user']).default('user'),
+  role: z.enum(['admin', 'user', 'operator']).default('user'),
+  // Operator only: add the user to an existing account instead of a new one
+  accountId: z.string().optional(),
   phone: z.string().optional(),
   linkUndangan: z.string().optional(),
   title: z.string().optional(),
@@ -57,7 +61,7 @@ const createUserSchema = z.object({
   permissions: z
     .array(
       z.object({
-        page: z.string(),
+        page: z.enum(PERMISSION_KEYS),
         canAccess: z.boolean(),
       }),
     )
@@ -67,6 +71,7 @@ const createUserSchema = z.object({
 interface IntroTextDoc {
   _id?: any
   userId: string
+  accountId: string
   formalText: string
   casualText: string
   isActive: boolean
@@ -74,8 +79,12 @@ interface IntroTextDoc {
   updatedAt?: Date
 }
 
+const resetPasswordSchema = z.object({
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
 const updateUserSchema = z.object({
-  role: z.enum(['admin', 'user']).optional(),
+  role: z.enum(['admin', 'user', 'operator']).optional(),
   phone: z.string().optional(),
   status: z.enum(['active', 'inactive']).optional(),
   linkUndangan: z.string().optional(),
@@ -88,64 +97,24 @@ const updateUserSchema = z.object({
   permissions: z
     .array(
       z.object({
-        page: z.string(),
+        page: z.enum(PERMISSION_KEYS),
         canAccess: z.boolean(),
       }),
     )
     .optional(),
 })
 
-async function requireAdmin(c: Context<AppEnv>, next: () => Promise<void>) {
-  try {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401)
-    }
-
-    const token = authHeader.substring(7)
-    const parts = token.split('_')
-    if (parts.length < 4 || parts[0] !== 'mock' || parts[1] !== 'token') {
-      return c.json({ success: false, error: 'Invalid token format' }, 401)
-    }
-    const userId = parts.slice(2, -1).join('_')
-
-    let userDoc: any = null
-    const oid = safeObjectId(userId)
-    if (oid) {
-      userDoc = await db.collection(USERS_COLLECTION).findOne({ _id: oid } as any)
-    }
-    if (!userDoc) {
-      userDoc = await db.collection(USERS_COLLECTION).findOne({ username: userId } as any)
-    }
-
-    if (!userDoc || userDoc.role !== 'admin') {
-      return c.json({ success: false, error: 'Admin access required' }, 403)
-    }
-
-    c.set('user', {
-      id: userDoc._id?.toString?.() ?? userId,
-      email: userDoc.email,
-      username: userDoc.username,
-      role: userDoc.role,
-      accountId: userDoc.accountId,
-    } as CtxUser)
-
-    await next()
-  } catch (err) {
-    console.error('[users] Admin check failed:', err)
-    return c.json({ success: false, error: 'Authentication failed' }, 401)
-  }
-}
-
 /**
  * GET /api/users
  */
 usersApp.get('/', requireAdmin, async (c) => {
   try {
+    const currentUser = getUser(c)
     const users = await db
       .collection(USERS_COLLECTION)
-      .find({}, { projection: { password: 0 } })
+      .find(accountScope(currentUser, {}, c.req.query('accountId')), { projection: { password: 0 } })
       .toArray()
+    const locked = await getLockedUsernames(users.map((u: any) => String(u.username)))
 
     const formatted = await Promise.all(
       users.map(async (u: any) => {
@@ -158,10 +127,12 @@ usersApp.get('/', requireAdmin, async (c) => {
           id: u._id.toString(),
           username: u.username,
           phone: u.phone ?? '',
-          role: (u.role as 'admin' | 'user') ?? 'user',
+          role: (u.role as 'admin' | 'user' | 'operator') ?? 'user',
           status: u.status ?? 'active',
           accountId: u.accountId,
           lastLoginAt: u.lastLoginAt,
+          lockedUntil: locked.get(usernameKey(String(u.username))) ?? null,
+          twoFactorEnabled: isTwoFactorEnabled(u),
           createdAt: u.createdAt,
           updatedAt: u.updatedAt,
           permissions: activePermissions
@@ -181,7 +152,7 @@ usersApp.get('/', requireAdmin, async (c) => {
  */
 usersApp.post('/', requireAdmin, async (c) => {
   try {
-    const currentUser = getCtxUser(c)!
+    const currentUser = getUser(c)
     const rawBody = await c.req.json()
     const body = createUserSchema.parse(rawBody)
 
@@ -193,24 +164,41 @@ usersApp.post('/', requireAdmin, async (c) => {
       permissions,
     } = body
 
+    if (role === 'operator' && !isOperator(currentUser)) {
+      return c.json({ success: false, error: 'Only platform operators can create operators' }, 403)
+    }
+
     const existing = await db.collection(USERS_COLLECTION).findOne({ username })
     if (existing) {
       return c.json({ success: false, error: 'User already exists with this username' }, 400)
     }
 
-    const accountDoc = {
-      title: '',
-      linkUndangan: '',
-      dateTime: null,
-      location: '',
-      welcomeText: 'Selamat Datang ',
-      youtubeUrl: '',
-      guestCategories: ["Tamu VIP", "Tamu Reguler"],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    // Admin menambah staff ke akunnya sendiri; operator bisa membuat akun baru
+    let accountId = currentUser.accountId
+    let createdAccount = false
+    if (isOperator(currentUser)) {
+      if (body.accountId) {
+        const accOid = safeObjectId(body.accountId)
+        const account = accOid ? await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: accOid } as any) : null
+        if (!account) return c.json({ success: false, error: 'Account not found' }, 404)
+        accountId = body.accountId
+      } else {
+        const accountDoc = {
+          title: '',
+          linkUndangan: '',
+          dateTime: null,
+          location: '',
+          welcomeText: 'Selamat Datang ',
+          youtubeUrl: '',
+          guestCategories: ["Tamu VIP", "Tamu Reguler"],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }
+        const accountRes = await db.collection(ACCOUNTS_COLLECTION).insertOne(accountDoc)
+        accountId = accountRes.insertedId.toString()
+        createdAccount = true
+      }
     }
-    const accountRes = await db.collection(ACCOUNTS_COLLECTION).insertOne(accountDoc)
-    const accountId = accountRes.insertedId.toString()
     let activePermissions: { page: string; canAccess: boolean }[] = []
 
     if (role === 'user' && Array.isArray(permissions) && permissions.length) {
@@ -219,7 +207,7 @@ usersApp.post('/', requireAdmin, async (c) => {
 
     const userRes = await db.collection(USERS_COLLECTION).insertOne({
       username,
-      password,
+      password: await hashPassword(password),
       phone,
       accountId,
       role,
@@ -231,6 +219,7 @@ usersApp.post('/', requireAdmin, async (c) => {
 
     const defaultIntro: IntroTextDoc = {
       userId: userRes.insertedId.toString(),
+      accountId,
       formalText: `Yth. [nama]
 
 Tanpa mengurangi rasa hormat, perkenankan kami mengundang Bapak/Ibu/Saudara/i untuk menghadiri acara pernikahan kami :
@@ -262,7 +251,18 @@ Datang yaa dan rayakan bersama kami!`,
       updatedAt: new Date(),
     }
 
-    const result = await db.collection("94884219_intro_texts").insertOne(defaultIntro)
+    if (createdAccount) {
+      await db.collection("94884219_intro_texts").insertOne(defaultIntro)
+    }
+
+    await recordAudit(c, {
+      action: 'user.create',
+      resource: 'user',
+      resourceId: userRes.insertedId.toString(),
+      accountId,
+      after: { username, role, phone, accountId, permissions: activePermissions },
+      details: { createdAccount },
+    })
 
     return c.json({
       success: true,
@@ -289,13 +289,15 @@ Datang yaa dan rayakan bersama kami!`,
  */
 usersApp.delete('/:id', requireAdmin, async (c) => {
   try {
-    const currentUser = getCtxUser(c)!
+    const currentUser = getUser(c)
     const paramId = c.req.param('id')
     const oid = safeObjectId(paramId)
     if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
 
     const userDoc = await db.collection(USERS_COLLECTION).findOne({ _id: oid } as any)
-    if (!userDoc) return c.json({ success: false, error: 'User not found' }, 404)
+    if (!userDoc || !canAccessAccount(currentUser, userDoc.accountId)) {
+      return c.json({ success: false, error: 'User not found' }, 404)
+    }
 
     if (userDoc._id.toString() === currentUser.id) {
       return c.json({ success: false, error: 'Cannot delete your own account' }, 400)
@@ -306,17 +308,36 @@ usersApp.delete('/:id', requireAdmin, async (c) => {
       return c.json({ success: false, error: 'Failed to delete user' }, 500)
     }
 
-    const accOid = safeObjectId(userDoc.accountId)
-    if (accOid) {
-      await db.collection(ACCOUNTS_COLLECTION).deleteOne({ _id: accOid } as any)
-    }
+    await revokeUserSessions(paramId)
 
     const guestsCollection = '94884219_guests'
     const uploadedFilesCollection = '94884219_uploaded_files'
 
-    const guestDel = await db.collection(guestsCollection).deleteMany({ userId: paramId } as any)
+    // Data tamu milik akun, bukan milik user: hanya dihapus bersama user terakhir di akun
+    let guestDel = { deletedCount: 0 }
+    const remainingUsers = await db.collection(USERS_COLLECTION).countDocuments({ accountId: userDoc.accountId })
+    const accOid = safeObjectId(userDoc.accountId)
+    if (accOid && remainingUsers === 0) {
+      await db.collection(ACCOUNTS_COLLECTION).deleteOne({ _id: accOid } as any)
+      guestDel = await db.collection(guestsCollection).deleteMany({ accountId: userDoc.accountId } as any)
+      await db.collection('94884219_reminders').deleteMany({ accountId: userDoc.accountId } as any)
+      await db.collection('94884219_intro_texts').deleteMany({ accountId: userDoc.accountId } as any)
+      await db.collection('94884219_stations').deleteMany({ accountId: userDoc.accountId } as any)
+      await db.collection('94884219_parties').deleteMany({ accountId: userDoc.accountId } as any)
+      await db.collection(TRASH_COLLECTION).deleteMany({ accountId: userDoc.accountId } as any)
+    }
+
     const filesDel = await db.collection(uploadedFilesCollection).deleteMany({ userId: paramId } as any)
 
+    await recordAudit(c, {
+      action: 'user.delete',
+      resource: 'user',
+      resourceId: paramId,
+      before: userDoc,
+      after: null,
+      details: { deletedGuestCount: guestDel.deletedCount, accountDeleted: remainingUsers === 0 },
+    })
+
     return c.json({
       success: true,
       message: 'User deleted successfully',
@@ -333,12 +354,15 @@ usersApp.delete('/:id', requireAdmin, async (c) => {
  */
 usersApp.get('/:id/account', requireAdmin, async (c) => {
   try {
+    const currentUser = getUser(c)
     const paramId = c.req.param('id')
     const oid = safeObjectId(paramId)
     if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
 
     const userDoc = await db.collection(USERS_COLLECTION).findOne({ _id: oid } as any)
-    if (!userDoc) return c.json({ success: false, error: 'User not found' }, 404)
+    if (!userDoc || !canAccessAccount(currentUser, userDoc.accountId)) {
+      return c.json({ success: false, error: 'User not found' }, 404)
+    }
 
     const accOid = safeObjectId(userDoc.accountId)
     if (!accOid) return c.json({ success: false, error: 'Account not found' }, 404)
@@ -357,6 +381,9 @@ usersApp.get('/:id/account', requireAdmin, async (c) => {
         welcomeText: account.welcomeText,
         youtubeUrl: account.youtubeUrl,
         guestCategories: account.guestCategories,
+        rsvpDeadline: account.rsvpDeadline ?? null,
+        codeFormat: { ...DEFAULT_CODE_FORMAT, ...(account.codeFormat ?? {}) },
+        customFields: account.customFields ?? [],
         createdAt: account.createdAt,
         updatedAt: account.updatedAt,
       },
@@ -376,7 +403,7 @@ usersApp.patch(
   zValidator('json', updateUserSchema),
   async (c: Context<AppEnv>) => {
     try {
-      const currentUser = getCtxUser(c)!
+      const currentUser = getUser(c)
       const paramId = c.req.param('id')
       const oid = safeObjectId(paramId)
       if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
@@ -384,10 +411,16 @@ usersApp.patch(
       const updates = (c.req as any).valid('json') as z.infer<typeof updateUserSchema>
 
       const userDoc = await db.collection(USERS_COLLECTION).findOne({ _id: oid } as any)
-      if (!userDoc) return c.json({ success: false, error: 'User not found' }, 404)
+      if (!userDoc || !canAccessAccount(currentUser, userDoc.accountId)) {
+        return c.json({ success: false, error: 'User not found' }, 404)
+      }
 
-      if (userDoc._id.toString() === currentUser.id && updates.role && updates.role !== 'admin') {
-        return c.json({ success: false, error: 'Cannot change your own admin role' }, 400)
+      if (userDoc._id.toString() === currentUser.id && updates.role && updates.role !== currentUser.role) {
+        return c.json({ success: false, error: 'Cannot change your own role' }, 400)
+      }
+
+      if ((updates.role === 'operator' || userDoc.role === 'operator') && !isOperator(currentUser)) {
+        return c.json({ success: false, error: 'Only platform operators can manage operators' }, 403)
       }
 
       if (Object.keys(updates).length) {
@@ -395,6 +428,14 @@ usersApp.patch(
           { _id: oid } as any,
           { $set: { ...updates, updatedAt: new Date() } },
         )
+        const after = await db.collection(USERS_COLLECTION).findOne({ _id: oid } as any)
+        await recordAudit(c, {
+          action: updates.permissions ? 'user.permissions' : 'user.update',
+          resource: 'user',
+          resourceId: paramId,
+          before: userDoc,
+          after,
+        })
       }
 
       return c.json({ success: true, message: 'User updated successfully' })
@@ -408,23 +449,111 @@ usersApp.patch(
   },
 )
 
-usersApp.put('/accounts/:accountId', async (c: Context<AppEnv>) => {
+/**
+ * POST /api/users/:id/reset-password
+ * Admin sets a new password; all of that user's sessions are revoked
+ */
+usersApp.post(
+  '/:id/reset-password',
+  requireAdmin,
+  zValidator('json', resetPasswordSchema),
+  async (c: Context<AppEnv>) => {
+    try {
+      const currentUser = getUser(c)
+      const paramId = c.req.param('id')
+      const oid = safeObjectId(paramId)
+      if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
+
+      const { newPassword } = (c.req as any).valid('json') as z.infer<typeof resetPasswordSchema>
+
+      const result = await db.collection(USERS_COLLECTION).updateOne(
+        accountScope(currentUser, { _id: oid }) as any,
+        { $set: { password: await hashPassword(newPassword), passwordUpdatedAt: new Date(), updatedAt: new Date() } },
+      )
+      if (!result.matchedCount) return c.json({ success: false, error: 'User not found' }, 404)
+
+      const revoked = await revokeUserSessions(paramId)
+      await recordAudit(c, {
+        action: 'user.reset_password',
+        resource: 'user',
+        resourceId: paramId,
+        details: { revokedSessions: revoked },
+      })
+
+      return c.json({ success: true, message: 'Password reset successfully', data: { revokedSessions: revoked } })
+    } catch (err: any) {
+      console.error('[users] Reset password failed:', err?.message ?? err)
+      return c.json({ success: false, error: err?.message ?? 'Failed to reset password' }, 500)
+    }
+  },
+)
+
+/**
+ * POST /api/users/:id/unlock
+ * Clear failed-login counters so a locked-out user can sign in again
+ */
+usersApp.post('/:id/unlock', requireAdmin, async (c: Context<AppEnv>) => {
   try {
-    const accountId = c.req.param('accountId');
+    const currentUser = getUser(c)
+    const oid = safeObjectId(c.req.param('id'))
+    if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
+
+    const userDoc = await db.collection(USERS_COLLECTION).findOne(accountScope(currentUser, { _id: oid }) as any)
+    if (!userDoc) return c.json({ success: false, error: 'User not found' }, 404)
+
+    await clearLoginFailures(String(userDoc.username))
+    console.log(`[users] ${currentUser.username} unlocked login for ${userDoc.username}`)
+    await recordAudit(c, { action: 'user.unlock', resource: 'user', resourceId: String(userDoc._id), accountId: userDoc.accountId })
+
+    return c.json({ success: true, message: 'User unlocked successfully' })
+  } catch (err: any) {
+    console.error('[users] Unlock user failed:', err?.message ?? err)
+    return c.json({ success: false, error: err?.message ?? 'Failed to unlock user' }, 500)
+  }
+})
+
+/**
+ * POST /api/users/:id/reset-2fa
+ * Turn off two-factor for a user who lost their authenticator and recovery
+ * codes; they sign in with the password only and can enroll again
+ */
+usersApp.post('/:id/reset-2fa', requireAdmin, async (c: Context<AppEnv>) => {
+  try {
+    const currentUser = getUser(c)
+    const oid = safeObjectId(c.req.param('id'))
+    if (!oid) return c.json({ success: false, error: 'Invalid user id' }, 400)
 
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ success: false, error: 'No token provided' }, 401);
+    const userDoc = await db.collection(USERS_COLLECTION).findOne(accountScope(currentUser, { _id: oid }) as any)
+    if (!userDoc) return c.json({ success: false, error: 'User not found' }, 404)
+    if (!userDoc.twoFactor) {
+      return c.json({ success: false, error: 'Two-factor authentication is not enabled for this user' }, 400)
     }
 
-    const token = authHeader.substring(7);
-    const userId = token.split('_')[2];
+    await db.collection(USERS_COLLECTION).updateOne(
+      { _id: oid },
+      { $unset: { twoFactor: '' }, $set: { updatedAt: new Date() } },
+    )
+    console.log(`[users] ${currentUser.username} reset 2FA for ${userDoc.username}`)
+    await recordAudit(c, { action: 'user.reset_2fa', resource: 'user', resourceId: String(oid), accountId: userDoc.accountId })
 
-    const user = await db.collection(USERS_COLLECTION).findOne({
-      _id: new ObjectId(userId),
-    });
+    return c.json({ success: true, message: 'Two-factor authentication reset' })
+  } catch (err: any) {
+    console.error('[users] Reset 2FA failed:', err?.message ?? err)
+    return c.json({ success: false, error: err?.message ?? 'Failed to reset 2FA' }, 500)
+  }
+})
+
+usersApp.put('/accounts/:accountId', requireUser, async (c: Context<AppEnv>) => {
+  try {
+    const accountId = c.req.param('accountId');
 
-    if (!user || user.accountId !== accountId) {
+    const user = getUser(c);
+
+    // Sesi PIN stasiun (role 'user') tidak boleh mengubah pengaturan acara
+    if (user.stationId) {
+      return c.json({ success: false, error: 'Stations cannot change event settings' }, 403);
+    }
+    if (!canAccessAccount(user, accountId)) {
       return c.json({ success: false, error: 'Access denied' }, 403);
     }
     console.log(`[auth] accounts ${user.username} is updating account ${accountId}`);
@@ -458,8 +587,39 @@ usersApp.put('/accounts/:accountId', async (c: Context<AppEnv>) => {
       }
     }
 
+    // null mengosongkan batas RSVP
+    if (body.rsvpDeadline === null) {
+      updateData.rsvpDeadline = null;
+    } else if (body.rsvpDeadline !== undefined) {
+      const deadline = new Date(body.rsvpDeadline);
+      if (Number.isNaN(deadline.getTime())) {
+        return c.json({ success: false, error: 'Invalid rsvpDeadline format' }, 400);
+      }
+      updateData.rsvpDeadline = deadline;
+    }
+
+    // Format kode undangan hanya berlaku untuk kode yang dibuat setelahnya
+    if (body.codeFormat !== undefined) {
+      const parsed = codeFormatSchema.safeParse(body.codeFormat);
+      if (!parsed.success) {
+        return c.json({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid codeFormat' }, 400);
+      }
+      updateData.codeFormat = parsed.data;
+    }
+
+    // Menghapus field tidak menghapus nilainya di tamu; field itu hanya tidak dipakai lagi
+    if (body.customFields !== undefined) {
+      const parsed = customFieldDefsSchema.safeParse(body.customFields);
+      if (!parsed.success) {
+        return c.json({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid customFields' }, 400);
+      }
+      updateData.customFields = parsed.data;
+    }
+
     updateData.updatedAt = new Date();
 
+    const before = await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: new ObjectId(accountId) });
+
     const result = await db.collection(ACCOUNTS_COLLECTION).findOneAndUpdate(
       { _id: new ObjectId(accountId) },
       { $set: updateData },
@@ -470,6 +630,7 @@ usersApp.put('/accounts/:accountId', async (c: Context<AppEnv>) => {
     if (!updated) {
       return c.json({ success: false, error: 'Account not found' }, 404);
     }
+    await recordAudit(c, { action: 'account.update', resource: 'account', resourceId: accountId, accountId, before, after: updated });
 
     return c.json({
       success: true,
@@ -484,6 +645,9 @@ usersApp.put('/accounts/:accountId', async (c: Context<AppEnv>) => {
           welcomeText: updated.welcomeText,
           youtubeUrl: updated.youtubeUrl,
           guestCategories: updated.guestCategories,
+          rsvpDeadline: updated.rsvpDeadline ?? null,
+          codeFormat: { ...DEFAULT_CODE_FORMAT, ...(updated.codeFormat ?? {}) },
+          customFields: updated.customFields ?? [],
           createdAt: updated.createdAt,
           updatedAt: updated.updatedAt,
         },
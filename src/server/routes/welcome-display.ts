@@ -5,20 +5,25 @@
 
 import { Hono } from 'hono';
 import { z } from 'zod';
+import type { AppEnv } from '@shared/types';
 import { db } from '../db.js'
+import { accountScope, getUser, requireUser } from '../middleware/auth.js';
 
-const app = new Hono();
+const app = new Hono<AppEnv>();
+
+app.use('*', requireUser);
 
 // Get recent guest check-ins
 app.get('/guests/recent-checkins', async (c) => {
   try {
+    const user = getUser(c);
     const timeframe = parseInt(c.req.query('timeframe') || '5');
 
     const cutoffTime = new Date(Date.now() - timeframe * 60 * 1000);
 
     // First, get the most recent check-in regardless of timeframe
     const mostRecentGuest = await db.collection('94884219_guests')
-      .find({ checkInDate: { $exists: true } })
+      .find(accountScope(user, { checkInDate: { $exists: true } }))
       .sort({ checkInDate: -1 })
       .limit(1)
       .toArray();
@@ -33,7 +38,7 @@ app.get('/guests/recent-checkins', async (c) => {
     }
 
     const recentGuests = await db.collection('94884219_guests')
-      .find({ checkInDate: { $gte: cutoffTime } })
+      .find(accountScope(user, { checkInDate: { $gte: cutoffTime } }))
       .sort({ checkInDate: -1 })
       .limit(10)
       .toArray();
@@ -1,5 +1,5 @@
 // src/server/routes/whatsapp.ts
-import { Hono, type Context } from 'hono'
+import { Hono } from 'hono'
 import { createNodeWebSocket } from '@hono/node-ws'
 import makeWASocket, {
   useMultiFileAuthState,
@@ -7,25 +7,22 @@ import makeWASocket, {
   Browsers,
   DisconnectReason,
   type ConnectionState,
+  type WAMessageUpdate,
 } from '@whiskeysockets/baileys'
 import pino from 'pino'
 import fs from 'node:fs'
 import path from 'node:path'
+import { ObjectId } from 'mongodb'
 import { db } from '../db.js'
 import { renderMessage } from '../utils/renderMessage.js'
+import { getUser, requirePermission } from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
+import { resolveReminderRecipient } from '../utils/parties.js'
+import { moveInvitationStage } from '../utils/invitation-stage.js'
+import type { AppEnv } from '@shared/types'
 
 type UpgradeWS = ReturnType<typeof createNodeWebSocket>['upgradeWebSocket']
 
-type CtxUser = { id: string; accountId?: string; role?: string; username?: string }
-
-function requireUser(c: Context): CtxUser | null {
-  const u = c.get('user') as unknown
-  if (!u || typeof u !== 'object') return null
-  const user = u as Partial<CtxUser>
-  if (!user.id) return null
-  return user as CtxUser
-}
-
 function errMsg(e: unknown) {
   return e instanceof Error ? e.message : String(e)
 }
@@ -44,7 +41,7 @@ type Session = {
   lastQrAt?: number
   lastStatusAt?: number
   reconnectDelayMs?: number;
-  sendText: ((phoneE164: string, text: string) => Promise<void>) | null
+  sendText: ((phoneE164: string, text: string) => Promise<string | null>) | null
 }
 const sessions = new Map<string, Session>()
 
@@ -143,6 +140,19 @@ async function ensureWA(userId: string) {
 
     sock.ev.on('creds.update', saveCreds)
 
+    // Tanda terima WA (3 = sampai di HP, 4+ = dibaca) -> tahap undangan
+    sock.ev.on('messages.update', async (updates: WAMessageUpdate[]) => {
+      for (const { key, update } of updates) {
+        const status = Number(update?.status ?? 0)
+        if (!key?.fromMe || !key.id || status < 3) continue
+        try {
+          await recordReceipt(key.id, status >= 4 ? 'read' : 'delivered')
+        } catch (e) {
+          logger.warn({ e, userId }, `[wa:${userId}] failed recording receipt`)
+        }
+      }
+    })
+
     sock.ev.on('connection.update', (u: Partial<ConnectionState> & { qr?: string }) => {
       const { connection, lastDisconnect, qr } = u
 
@@ -222,7 +232,8 @@ async function ensureWA(userId: string) {
     sess.sendText = async (phoneE164: string, text: string) => {
       const numeric = phoneE164.replace(/[^\d]/g, '')
       const jid = `${numeric}@s.whatsapp.net`
-      await sock.sendMessage(jid, { text })
+      const sent = await sock.sendMessage(jid, { text })
+      return sent?.key?.id ?? null
     }
   } finally {
     sess.ensuring = false
@@ -263,11 +274,32 @@ async function claimOneDue() {
   return job || null
 }
 
-async function markSent(id: any) {
+// Tamu yang menerima reminder: seluruh anggota bila reminder untuk party
+function reminderGuestsFilter(job: any): Record<string, any> | null {
+  if (job.partyId) return { accountId: job.accountId, partyId: String(job.partyId) }
+  if (job.guestId && ObjectId.isValid(String(job.guestId))) {
+    return { _id: new ObjectId(String(job.guestId)), accountId: job.accountId }
+  }
+  return null
+}
+
+async function markSent(job: any, waMessageId: string | null) {
+  const now = new Date()
   await db.collection('94884219_reminders').updateOne(
-    { _id: id },
-    { $set: { status: 'sent', updatedAt: new Date() } }
+    { _id: job._id },
+    { $set: { status: 'sent', waMessageId, sentAt: now, updatedAt: now } }
   )
+  const guests = reminderGuestsFilter(job)
+  if (guests) {
+    await db.collection('94884219_guests').updateMany(guests, { $set: { reminderSentAt: now } })
+    await moveInvitationStage(guests, 'sent', 'whatsapp')
+  }
+}
+
+async function recordReceipt(waMessageId: string, stage: 'delivered' | 'read') {
+  const job = await db.collection('94884219_reminders').findOne({ waMessageId })
+  const guests = job && reminderGuestsFilter(job)
+  if (guests) await moveInvitationStage(guests, stage, 'whatsapp')
 }
 
 async function markFailed(id: any, err: string) {
@@ -312,6 +344,8 @@ async function resolveUserIdForJob(job: any): Promise<string | null> {
 async function startScheduler() {
   if (schedulerStarted) return
   schedulerStarted = true
+  // Tanda terima WA dicocokkan lewat id pesan
+  await db.collection('94884219_reminders').createIndex({ waMessageId: 1 }, { sparse: true })
   if (schedulerTimer) clearInterval(schedulerTimer)
 
   schedulerTimer = setInterval(async () => {
@@ -351,8 +385,8 @@ async function startScheduler() {
           }
 
           const text = await renderMessage(job.message, job)
-          await sess.sendText(job.phone, text)
-          await markSent(job._id)
+          const waMessageId = await sess.sendText(job.phone, text)
+          await markSent(job, waMessageId)
           await new Promise(r => setTimeout(r, 500 + Math.random() * 800))
         } catch (e: any) {
           console.error('[scheduler] failed', job?.phone, e?.message)
@@ -383,20 +417,20 @@ export async function startWhatsApp() {
 // Router builder (default export)
 // ───────────────────────────────
 export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket: UpgradeWS }) {
-  const app = new Hono()
+  const app = new Hono<AppEnv>()
+
+  app.use('*', requirePermission('guests'))
 
   // Status per user
   app.get('/status', (c) => {
-    const user = requireUser(c)
-    if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+    const user = getUser(c)
     const sess = getSession(user.id)
     return c.json({ ok: true, status: sess.status, ready: sess.ready, hasQR: !!sess.latestQR })
   })
 
   // Connect per user
   app.get('/connect', async (c) => {
-    const user = requireUser(c)
-    if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+    const user = getUser(c)
     await ensureWA(user.id)
     await startScheduler()
     return c.json({ ok: true })
@@ -405,8 +439,7 @@ export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket:
   // Kirim langsung per user
   app.post('/send-now', async (c) => {
     try {
-      const user = requireUser(c)
-      if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+      const user = getUser(c)
       const sess = getSession(user.id)
       if (!sess.ready || !sess.sendText) return c.json({ ok: false, error: 'wa not ready' }, 400)
       const { phoneE164, message } = await c.req.json()
@@ -417,13 +450,36 @@ export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket:
     }
   })
 
-  // Jadwalkan reminder (menyimpan userId & accountId)
+  // Jadwalkan reminder (userId & accountId selalu dari session, bukan dari body)
   app.post('/schedule', async (c) => {
-    const user = requireUser(c)
-    if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+    const user = getUser(c)
     const body = await c.req.json()
-    await db.collection('94884219_reminders').insertOne({
+    let partyId: string | undefined
+    if (body.guestId) {
+      const guest = ObjectId.isValid(String(body.guestId))
+        ? await db.collection('94884219_guests').findOne({ _id: new ObjectId(String(body.guestId)), accountId: user.accountId })
+        : null
+      if (!guest) return c.json({ ok: false, error: 'guest not found' }, 404)
+
+      // Satu reminder per party, ke kontak utama
+      const { recipient, party } = await resolveReminderRecipient(guest)
+      if (party) {
+        partyId = String(party._id)
+        const existing = await db.collection('94884219_reminders').findOne({
+          accountId: party.accountId,
+          partyId,
+          type: body.type ?? 'reminder',
+          status: { $in: ['pending', 'processing', 'sent'] },
+        })
+        if (existing) return c.json({ ok: true, deduplicated: true })
+        body.guestId = String(recipient._id)
+        body.guestName = recipient.name ?? body.guestName
+        body.phone = recipient.phone || body.phone
+      }
+    }
+    const reminder = {
       guestId: body.guestId ?? null,
+      ...(partyId ? { partyId } : {}),
       guestName: body.guestName ?? body.name ?? '',
       phone: body.phone,
       message: body.message,
@@ -431,20 +487,23 @@ export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket:
         ? body.scheduledAt
         : new Date(body.scheduledAt).toISOString(),
       type: body.type ?? 'reminder',
-      userId: body.userId ?? user.id,
-      accountId: body.accountId ?? user.accountId ?? null,
+      userId: user.id,
+      accountId: user.accountId,
       status: 'pending',
       attempts: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
-    })
+    }
+    const res = await db.collection('94884219_reminders').insertOne(reminder)
+    await recordAudit(c, { action: 'reminder.create', resource: 'reminder', resourceId: String(res.insertedId), after: reminder })
+    const guests = reminderGuestsFilter(reminder)
+    if (guests) await moveInvitationStage(guests, 'scheduled', 'reminder')
     return c.json({ ok: true })
   })
 
   // Pairing code per user
   app.get('/pair', async (c) => {
-    const user = requireUser(c)
-    if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+    const user = getUser(c)
     await ensureWA(user.id)
     const sess = getSession(user.id)
     if (!sess.sock) return c.json({ ok: false, error: 'socket not ready' }, 500)
@@ -462,8 +521,7 @@ export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket:
 
   // Reset/panic button per user
   app.post('/reset', async (c) => {
-    const user = requireUser(c)
-    if (!user) return c.json({ ok: false, error: 'No token' }, 401)
+    const user = getUser(c)
     const sess = getSession(user.id)
     try {
       if (sess.sock) {
@@ -486,9 +544,7 @@ export default function whatsAppRoutes({ upgradeWebSocket }: { upgradeWebSocket:
   app.get(
     '/ws',
     upgradeWebSocket((c) => {
-      const user = requireUser(c)
-      const userId = user?.id ?? c.req.query('userId')
-      if (!userId) throw new Error('Unauthorized WS: missing userId')
+      const userId = getUser(c).id
 
       return {
         onOpen: async (_evt: any, ws: any) => {
@@ -0,0 +1,36 @@
+// src/server/utils/account-scope.ts
+/**
+ * Account scoping migration
+ * Rows created before data was scoped per account only carry the creator's
+ * userId. Copy the creator's accountId onto them at startup so the accountId
+ * filters in the routers find them.
+ */
+import { db } from '../db.js'
+
+const SCOPED_COLLECTIONS = ['94884219_guests', '94884219_intro_texts', '94884219_gift_distributions']
+
+export async function ensureAccountScope() {
+  const users = await db
+    .collection('94884219_users')
+    .find({ accountId: { $exists: true, $ne: null } }, { projection: { _id: 1, accountId: 1 } })
+    .toArray()
+
+  for (const name of SCOPED_COLLECTIONS) {
+    const collection = db.collection(name)
+    const missing = await collection.countDocuments({ accountId: { $exists: false } })
+    if (!missing) continue
+
+    let updated = 0
+    for (const u of users) {
+      const res = await collection.updateMany(
+        { userId: String(u._id), accountId: { $exists: false } },
+        { $set: { accountId: String(u.accountId) } },
+      )
+      updated += res.modifiedCount
+    }
+    console.log(`[account-scope] ${name}: backfilled accountId on ${updated}/${missing} rows`)
+  }
+
+  await db.collection('94884219_guests').createIndex({ accountId: 1 })
+  await db.collection('94884219_reminders').createIndex({ accountId: 1, guestId: 1 })
+}
@@ -0,0 +1,84 @@
+// src/server/utils/audit.ts
+/**
+ * Audit log writer
+ * Mutating routes call recordAudit() after the write succeeds. Entries go to
+ * 94884219_audit_logs with the acting user, the account and a field-level
+ * before/after diff. Failures are logged and swallowed so auditing never
+ * breaks the request itself.
+ */
+import type { Context } from 'hono'
+import type { AppEnv, AuditChange, AuditLog } from '@shared/types'
+import { db } from '../db.js'
+import { clientIp } from './login-throttle.js'
+
+export const AUDIT_COLLECTION = '94884219_audit_logs'
+
+// Field yang tidak pernah masuk diff
+const IGNORED_FIELDS = new Set(['_id', 'updatedAt', 'createdAt', 'password', 'pinHash', 'twoFactor'])
+
+type AuditDoc = Omit<AuditLog, '_id'>
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value && typeof value === 'object' && typeof (value as any).toHexString === 'function') {
+    return (value as any).toHexString()
+  }
+  return value ?? null
+}
+
+/**
+ * Shallow field diff between two documents (either side may be null for
+ * create / delete).
+ */
+export function diffDocs(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined) {
+  const changes: AuditChange[] = []
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  for (const field of keys) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const b = normalize(before?.[field])
+    const a = normalize(after?.[field])
+    if (JSON.stringify(b) !== JSON.stringify(a)) changes.push({ field, before: b, after: a })
+  }
+  return changes
+}
+
+export async function ensureAuditIndexes() {
+  const col = db.collection(AUDIT_COLLECTION)
+  await col.createIndex({ accountId: 1, createdAt: -1 })
+  await col.createIndex({ resource: 1, resourceId: 1, createdAt: -1 })
+}
+
+export async function recordAudit(
+  c: Context<AppEnv>,
+  entry: {
+    action: string
+    resource: string
+    resourceId?: string | null
+    before?: Record<string, any> | null
+    after?: Record<string, any> | null
+    details?: Record<string, any>
+    accountId?: string
+  },
+) {
+  try {
+    const user = c.get('user')
+    const doc: AuditDoc = {
+      userId: user?.id ?? 'anonymous',
+      userEmail: user?.email ?? user?.username ?? '',
+      username: user?.username,
+      accountId: entry.accountId ?? entry.after?.accountId ?? entry.before?.accountId ?? user?.accountId,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId ? String(entry.resourceId) : undefined,
+      changes: entry.before !== undefined || entry.after !== undefined ? diffDocs(entry.before, entry.after) : undefined,
+      details: entry.details,
+      ip: clientIp(c),
+      createdAt: new Date(),
+    }
+    if (doc.accountId) doc.accountId = String(doc.accountId)
+    await db.collection(AUDIT_COLLECTION).insertOne(doc)
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error)
+    console.error(`[audit] Failed to record ${entry.action}:`, msg)
+  }
+}
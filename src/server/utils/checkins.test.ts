@@ -0,0 +1,66 @@
+// src/server/utils/checkins.test.ts
+/**
+ * Check-in log derivation, and the clear rewrite a duplicate merge relies on:
+ * once whole-log clears name the arrivals they cancelled, joining two logs
+ * keeps every arrival that was in effect. No MongoDB needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { CheckInEvent } from '@shared/types'
+import { activeArrivals, deriveCheckIn, wholeLogClears } from './checkins.js'
+
+type Event = Pick<CheckInEvent, 'type' | 'undoes' | 'guestCount' | 'at'> & { _id: string }
+
+const at = (hhmm: string) => new Date(`2025-06-14T${hhmm}:00+07:00`)
+const arrival = (_id: string, hhmm: string, guestCount = 1): Event => ({ _id, type: 'checkin', guestCount, at: at(hhmm) })
+const clear = (_id: string, hhmm: string, undoes: string | null = null): Event => ({
+  _id,
+  type: 'clear',
+  guestCount: 0,
+  undoes,
+  at: at(hhmm),
+})
+const byTime = (events: Event[]) => [...events].sort((a, b) => a.at.getTime() - b.at.getTime() || a._id.localeCompare(b._id))
+
+// Sama dengan scopeClearsToArrivals, tanpa database
+function scoped(events: Event[]): Event[] {
+  const rewritten = events.filter((e) => e.type === 'checkin' || e.undoes)
+  for (const { clear: c, arrivalIds } of wholeLogClears(events)) {
+    arrivalIds.forEach((id, i) => rewritten.push({ ...c, _id: `${c._id}.${i}`, undoes: id }))
+  }
+  return byTime(rewritten)
+}
+
+test('a clear without undoes cancels every arrival before it, an undo only its arrival', () => {
+  const events = [arrival('a1', '18:00', 2), clear('c1', '18:10'), arrival('a2', '18:20', 3), arrival('a3', '18:40'), clear('c2', '18:45', 'a3')]
+  assert.deepEqual(activeArrivals(events).map((e) => e._id), ['a2'])
+
+  const state = deriveCheckIn(events as any)
+  assert.equal(state.checkInDate?.getTime(), at('18:20').getTime())
+  assert.equal(state.guestCount, 3)
+  assert.equal(state.checkInCount, 1)
+})
+
+test('wholeLogClears lists the arrivals each whole-log clear cancelled', () => {
+  const events = [arrival('a1', '18:00'), arrival('a2', '18:05'), clear('u1', '18:06', 'a2'), clear('c1', '18:10'), clear('c2', '18:30')]
+  assert.deepEqual(
+    wholeLogClears(events).map(({ clear: c, arrivalIds }) => [c._id, arrivalIds]),
+    [
+      ['c1', ['a1']],
+      ['c2', []],
+    ],
+  )
+})
+
+test('joined logs keep the arrivals of both guests once clears are scoped', () => {
+  // Tamu yang dipertahankan datang 19:00; duplikatnya check-in 18:00, dibatalkan 18:30, datang lagi 20:00
+  const survivor = [arrival('s1', '19:00', 2)]
+  const duplicate = [arrival('d1', '18:00'), clear('dc', '18:30'), arrival('d2', '20:00', 4)]
+  const survivorCleared = [arrival('s1', '17:00'), clear('sc', '21:00')]
+
+  // Tanpa penyesuaian, clear 21:00 milik survivor menghapus arrival duplikat
+  assert.deepEqual(activeArrivals(byTime([...survivorCleared, ...duplicate])).map((e) => e._id), [])
+
+  assert.deepEqual(activeArrivals(byTime([...scoped(survivor), ...scoped(duplicate)])).map((e) => e._id), ['s1', 'd2'])
+  assert.deepEqual(activeArrivals(byTime([...scoped(survivorCleared), ...scoped(duplicate)])).map((e) => e._id), ['d2'])
+})
@@ -0,0 +1,214 @@
+// src/server/utils/checkins.ts
+/**
+ * Check-in event log
+ * Every arrival is appended to 94884219_checkins; clearing a check-in appends
+ * a compensating "clear" event instead of wiping the guest. A clear with
+ * undoes cancels that one arrival (undo of a re-entry), without it every
+ * arrival so far. The guest's checkInDate / guestCount / overLimit /
+ * checkInCount are derived from the log by syncGuestCheckIn(). Cancelled
+ * arrivals also get cancelledAt so the arrivals histogram can skip them.
+ * The invitation stage follows along (checked_in, or back on a clear).
+ * Logs of merged guests are joined after scopeClearsToArrivals().
+ */
+import { ObjectId, type Document, type WithId } from 'mongodb'
+import type { CheckInEvent, CheckInSource, ContextUser, GuestOverLimit } from '@shared/types'
+import { stageBeforeCheckIn } from '../../shared/invitation-stage.js'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+import { moveInvitationStage } from './invitation-stage.js'
+
+export const CHECKINS_COLLECTION = '94884219_checkins'
+
+type CheckInDoc = Omit<CheckInEvent, '_id'> & { _id?: ObjectId }
+
+export function checkIns() {
+  return db.collection<CheckInDoc>(CHECKINS_COLLECTION)
+}
+
+/** Indexes, plus one backfilled arrival for guests checked in before the log existed */
+export async function ensureCheckInIndexes() {
+  await checkIns().createIndex({ accountId: 1, guestId: 1, at: 1 })
+  await checkIns().createIndex({ accountId: 1, at: -1 })
+
+  const logged = await checkIns().distinct('guestId')
+  const missing = await db
+    .collection(GUESTS_COLLECTION)
+    .find(
+      { checkInDate: { $ne: null, $exists: true }, _id: { $nin: logged.map((id) => new ObjectId(id)) } },
+      { projection: { accountId: 1, checkInDate: 1, guestCount: 1, session: 1 } },
+    )
+    .toArray()
+  if (!missing.length) return
+
+  await checkIns().insertMany(
+    missing.map((g) => ({
+      accountId: String(g.accountId),
+      guestId: String(g._id),
+      type: 'checkin' as const,
+      source: 'backfill' as const,
+      guestCount: Number(g.guestCount) || 1,
+      session: String(g.session ?? ''),
+      at: new Date(g.checkInDate),
+      userId: null,
+      username: null,
+      stationId: null,
+    })),
+  )
+  console.log(`[checkins] backfilled ${missing.length} arrivals from guest checkInDate`)
+}
+
+function actor(user: ContextUser) {
+  return { userId: user.id, username: user.username ?? null, stationId: user.stationId ?? null }
+}
+
+/** Arrivals still in effect after applying clears, oldest first */
+export function activeArrivals<T extends Pick<CheckInEvent, 'type' | 'undoes'> & { _id?: unknown }>(events: T[]): T[] {
+  let active: T[] = []
+  for (const e of events) {
+    if (e.type === 'checkin') active.push(e)
+    else if (e.undoes) active = active.filter((a) => String(a._id) !== e.undoes)
+    else active = []
+  }
+  return active
+}
+
+/** Whole-log clears of one guest's events (sorted by at) with the arrivals each one cancelled */
+export function wholeLogClears<T extends Pick<CheckInEvent, 'type' | 'undoes'> & { _id?: unknown }>(events: T[]) {
+  const clears: { clear: T; arrivalIds: string[] }[] = []
+  let active: T[] = []
+  for (const e of events) {
+    if (e.type === 'checkin') active.push(e)
+    else if (e.undoes) active = active.filter((a) => String(a._id) !== e.undoes)
+    else {
+      clears.push({ clear: e, arrivalIds: active.map((a) => String(a._id)) })
+      active = []
+    }
+  }
+  return clears
+}
+
+/**
+ * Rewrite the guest's whole-log clears as one undo clear per arrival they
+ * cancelled (a clear that cancelled nothing is dropped), so the log can be
+ * joined with another guest's without cancelling that guest's arrivals.
+ */
+export async function scopeClearsToArrivals(accountId: string, guestId: string) {
+  const events = await checkIns().find({ accountId, guestId }).sort({ at: 1, _id: 1 }).toArray()
+  for (const { clear, arrivalIds } of wholeLogClears(events)) {
+    const [first, ...rest] = arrivalIds
+    if (!first) {
+      await checkIns().deleteOne({ _id: clear._id })
+      continue
+    }
+    await checkIns().updateOne({ _id: clear._id }, { $set: { undoes: first } })
+    const { _id, ...copy } = clear
+    if (rest.length) await checkIns().insertMany(rest.map((id) => ({ ...copy, undoes: id })))
+  }
+}
+
+/** Guest check-in fields from the guest's events (sorted by at) */
+export function deriveCheckIn(events: WithId<CheckInDoc>[]) {
+  const active = activeArrivals(events)
+  const latest = active[active.length - 1]
+  if (!latest) return { checkInDate: null, guestCount: 1, overLimit: null, checkInCount: 0 }
+
+  const overLimit: GuestOverLimit | null = latest.overLimit ? { ...latest.overLimit, at: latest.at } : null
+  return {
+    checkInDate: active[0].at,
+    guestCount: latest.guestCount,
+    overLimit,
+    checkInCount: active.length,
+  }
+}
+
+/** Recompute the guest's check-in fields from the log; returns the updated guest */
+export async function syncGuestCheckIn(accountId: string, guestId: string): Promise<WithId<Document> | null> {
+  const events = await checkIns().find({ accountId, guestId }).sort({ at: 1, _id: 1 }).toArray()
+  const state = deriveCheckIn(events)
+  const $set: Record<string, any> = { ...state, updatedAt: new Date() }
+  if (state.checkInDate) $set.status = 'Checked-In'
+
+  const filter = { _id: new ObjectId(guestId), accountId }
+  const guests = db.collection(GUESTS_COLLECTION)
+  const result = await guests.findOneAndUpdate(filter, { $set }, { returnDocument: 'after' })
+  const guest: WithId<Document> | null = (result && (result as any).value) || result
+  if (!guest) return null
+
+  const stageCheckedIn = guest.invitationStage === 'checked_in'
+  if (state.checkInDate && !stageCheckedIn) {
+    await moveInvitationStage(filter, 'checked_in', 'checkin')
+  } else if (!state.checkInDate && stageCheckedIn) {
+    await moveInvitationStage(filter, stageBeforeCheckIn(guest), 'checkin')
+  } else {
+    return guest
+  }
+  return guests.findOne(filter)
+}
+
+/** Append arrivals (one per guest) and return their ids */
+export async function recordArrivals(
+  user: ContextUser,
+  accountId: string,
+  arrivals: {
+    guestId: string
+    guestCount: number
+    session?: string | null
+    source: CheckInSource
+    overLimit?: Omit<GuestOverLimit, 'at'> | null
+    at?: Date
+  }[],
+) {
+  if (!arrivals.length) return []
+  const now = new Date()
+  const docs: CheckInDoc[] = arrivals.map((a) => ({
+    accountId,
+    guestId: a.guestId,
+    type: 'checkin',
+    source: a.source,
+    guestCount: a.guestCount,
+    session: String(a.session ?? ''),
+    overLimit: a.overLimit ?? null,
+    at: a.at ?? now,
+    ...actor(user),
+  }))
+  const result = await checkIns().insertMany(docs)
+  return Object.values(result.insertedIds).map(String)
+}
+
+/** Append a clear event; with undoes only that arrival is cancelled */
+export async function recordClear(
+  user: ContextUser,
+  accountId: string,
+  guestId: string,
+  opts: { reason: string; undoes?: string | null; session?: string | null },
+) {
+  const doc: CheckInDoc = {
+    accountId,
+    guestId,
+    type: 'clear',
+    source: 'reception',
+    guestCount: 0,
+    session: String(opts.session ?? ''),
+    reason: opts.reason,
+    undoes: opts.undoes ?? null,
+    at: new Date(),
+    ...actor(user),
+  }
+  const result = await checkIns().insertOne(doc)
+  await checkIns().updateMany(
+    opts.undoes
+      ? { _id: new ObjectId(opts.undoes), accountId, guestId }
+      : { accountId, guestId, type: 'checkin', cancelledAt: null, at: { $lte: doc.at } },
+    { $set: { cancelledAt: doc.at } },
+  )
+  return String(result.insertedId)
+}
+
+/** Log of one guest, newest first; arrivals carry active=false once cleared */
+export async function guestCheckInLog(accountId: string, guestId: string) {
+  const events = await checkIns().find({ accountId, guestId }).sort({ at: 1, _id: 1 }).toArray()
+  const active = new Set(activeArrivals(events).map((e) => String(e._id)))
+  return events
+    .map((e) => ({ ...e, _id: String(e._id), ...(e.type === 'checkin' ? { active: active.has(String(e._id)) } : {}) }))
+    .reverse()
+}
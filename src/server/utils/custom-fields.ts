@@ -0,0 +1,126 @@
+// src/server/utils/custom-fields.ts
+/**
+ * Per-account custom guest fields
+ * Accounts define extra guest columns in account.customFields (EventPage).
+ * Guest routes validate guest.customFields against those definitions with
+ * the zod schema built by customFieldValuesSchema(); bulk import passes
+ * coerce so spreadsheet text ("Ya", "12/10/2026") becomes typed values.
+ */
+import { ObjectId } from 'mongodb'
+import { z } from 'zod'
+import type { CustomFieldDef, CustomFieldValue } from '@shared/types'
+import {
+  CUSTOM_DATE_PATTERN,
+  CUSTOM_FIELD_KEY_PATTERN,
+  RESERVED_FIELD_KEYS,
+  parseCustomFieldInput,
+} from '../../shared/custom-fields.js'
+import { db } from '../db.js'
+
+const ACCOUNTS_COLLECTION = '94884219_accounts'
+
+export const CUSTOM_FIELD_MAX = 30
+
+export const customFieldDefSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .regex(CUSTOM_FIELD_KEY_PATTERN, 'Field key must be a-z, 0-9 or "_" and start with a letter')
+      .refine((k) => !RESERVED_FIELD_KEYS.includes(k), 'Field key is reserved'),
+    label: z.string().trim().min(1, 'Field label is required').max(60),
+    type: z.enum(['text', 'number', 'select', 'boolean', 'date']),
+    options: z.array(z.string().trim().min(1).max(60)).max(50).optional(),
+    required: z.boolean().optional(),
+  })
+  .refine((f) => f.type !== 'select' || (f.options?.length ?? 0) > 0, 'Select fields need at least one option')
+  .transform((f) => (f.type === 'select' ? { ...f, options: Array.from(new Set(f.options)) } : { ...f, options: undefined }))
+
+export const customFieldDefsSchema = z
+  .array(customFieldDefSchema)
+  .max(CUSTOM_FIELD_MAX)
+  .refine((defs) => new Set(defs.map((d) => d.key)).size === defs.length, 'Field keys must be unique')
+
+// Bentuk longgar untuk guestSchema; isi divalidasi per akun di route
+export const customFieldValuesInput = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+
+export async function accountCustomFields(accountId: string): Promise<CustomFieldDef[]> {
+  if (!ObjectId.isValid(accountId)) return []
+  const account = await db
+    .collection(ACCOUNTS_COLLECTION)
+    .findOne({ _id: new ObjectId(accountId) }, { projection: { customFields: 1 } })
+  return Array.isArray(account?.customFields) ? account.customFields : []
+}
+
+function valueSchema(def: CustomFieldDef) {
+  switch (def.type) {
+    case 'number':
+      return z.number().finite()
+    case 'boolean':
+      return z.boolean()
+    case 'select':
+      return z.enum(def.options as [string, ...string[]])
+    case 'date':
+      return z
+        .string()
+        .regex(CUSTOM_DATE_PATTERN, 'Expected a date (YYYY-MM-DD)')
+        .refine((v) => !Number.isNaN(new Date(`${v}T00:00:00Z`).getTime()), 'Invalid date')
+    default:
+      return z.string().trim().max(500)
+  }
+}
+
+/**
+ * zod schema for guest.customFields under defs. partial (updates) makes
+ * required fields optional; coerce parses text cells first.
+ */
+export function customFieldValuesSchema(defs: CustomFieldDef[], opts: { partial?: boolean; coerce?: boolean } = {}) {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const def of defs) {
+    let schema: z.ZodTypeAny = valueSchema(def)
+    schema = def.required && !opts.partial ? schema : schema.nullable().optional()
+    if (opts.coerce) {
+      schema = z.preprocess((v) => {
+        if (typeof v !== 'string') return v
+        const parsed = parseCustomFieldInput(def, v)
+        return parsed.error ? v : parsed.value
+      }, schema)
+    }
+    shape[def.key] = schema
+  }
+  return z.object(shape).strict()
+}
+
+/**
+ * Validate values against the account's fields. data drops unset values
+ * unless partial, where null means "clear this field".
+ */
+export function validateCustomFields(
+  defs: CustomFieldDef[],
+  values: Record<string, unknown> | undefined,
+  opts: { partial?: boolean; coerce?: boolean } = {},
+): { data: Record<string, CustomFieldValue>; error?: undefined } | { data?: undefined; error: string } {
+  const parsed = customFieldValuesSchema(defs, opts).safeParse(values ?? {})
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const def = defs.find((d) => d.key === issue.path[0])
+    return { error: `${def?.label ?? 'customFields'}: ${issue.message}` }
+  }
+  const data = Object.fromEntries(
+    Object.entries(parsed.data as Record<string, CustomFieldValue | undefined>).filter(
+      ([, v]) => v !== undefined && (opts.partial || v !== null),
+    ),
+  ) as Record<string, CustomFieldValue>
+  return { data }
+}
+
+/** { kota: 'Bandung', hotel: null } -> $set / $unset on customFields.<key> */
+export function customFieldsUpdate(values: Record<string, CustomFieldValue>) {
+  const $set: Record<string, CustomFieldValue> = {}
+  const $unset: Record<string, ''> = {}
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null) $unset[`customFields.${key}`] = ''
+    else $set[`customFields.${key}`] = value
+  }
+  return { $set, $unset }
+}
@@ -0,0 +1,132 @@
+// src/server/utils/guest-bulk.ts
+/**
+ * Bulk edit of guests (POST /api/guests/bulk-update)
+ * Targets are explicit ids or a GET /api/guests filter. The patch is applied
+ * in one bulkWrite and every targeted guest gets a line in the report:
+ * updated, unchanged, skipped (with a reason) or not_found.
+ */
+import { ObjectId, type AnyBulkWriteOperation, type Document } from 'mongodb'
+import { z } from 'zod'
+import type { GuestBulkResult } from '@shared/types'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+import { tagsSchema } from './segments.js'
+import { guestLimitSchema } from './guest-limit.js'
+import { moveInvitationStage, stageForStatus } from './invitation-stage.js'
+
+export const BULK_UPDATE_MAX = 5000
+
+export const guestBulkPatchSchema = z
+  .object({
+    category: z.string().trim().max(100),
+    categoryID: z.number().int(),
+    session: z.string().trim().max(100),
+    tableNo: z.string().trim().max(50),
+    limit: guestLimitSchema,
+    introTextCategory: z.string().trim().max(100),
+    // Checked-In hanya lewat check-in
+    status: z.enum(['Pending', 'Confirmed', 'Declined']),
+    isInvited: z.boolean(),
+    tags: tagsSchema,
+  })
+  .partial()
+  .refine((p) => Object.keys(p).length > 0, 'Patch is empty')
+export type GuestBulkPatch = z.infer<typeof guestBulkPatchSchema>
+
+export const guestBulkUpdateSchema = z
+  .object({
+    ids: z.array(z.string().refine((v) => ObjectId.isValid(v), 'Invalid id')).min(1).max(BULK_UPDATE_MAX).optional(),
+    // Sama dengan query GET /api/guests, mis. { category: 'VIP,Keluarga', checkedIn: 'false' }
+    filter: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    patch: guestBulkPatchSchema,
+  })
+  .refine((b) => !!b.ids !== !!b.filter, 'Provide either ids or filter')
+export type GuestBulkUpdateBody = z.infer<typeof guestBulkUpdateSchema>
+
+function sameValue(a: unknown, b: unknown) {
+  if (Array.isArray(a) || Array.isArray(b)) return JSON.stringify(a ?? []) === JSON.stringify(b ?? [])
+  return (a ?? null) === (b ?? null)
+}
+
+/** Why patch may not touch guest, or null */
+function skipReason(guest: Document, patch: GuestBulkPatch): string | null {
+  if (patch.status && guest.checkInDate) return 'Guest has already checked in'
+  return null
+}
+
+/**
+ * Apply patch to every guest of accountId matching filter. requestedIds
+ * lists the ids the caller asked for, so missing ones are reported; by is
+ * recorded on the invitation stage changes a status patch causes.
+ */
+export async function bulkUpdateGuests(
+  accountId: string,
+  filter: Record<string, any>,
+  patch: GuestBulkPatch,
+  requestedIds?: string[],
+  by: string | null = null,
+) {
+  const guestsCol = db.collection(GUESTS_COLLECTION)
+  const fields = Object.keys(patch)
+  const projection = Object.fromEntries(['name', 'checkInDate', ...fields].map((f) => [f, 1]))
+  const guests = await guestsCol.find({ ...filter, accountId }, { projection }).limit(BULK_UPDATE_MAX + 1).toArray()
+  if (guests.length > BULK_UPDATE_MAX) {
+    throw new Error(`Filter matches more than ${BULK_UPDATE_MAX} guests`)
+  }
+
+  const results: GuestBulkResult[] = []
+  const ops: AnyBulkWriteOperation<Document>[] = []
+  const now = new Date()
+
+  for (const guest of guests) {
+    const id = String(guest._id)
+    const reason = skipReason(guest, patch)
+    if (reason) {
+      results.push({ id, name: guest.name, result: 'skipped', reason })
+      continue
+    }
+    const changed = fields.filter((f) => !sameValue(guest[f], (patch as any)[f]))
+    if (!changed.length) {
+      results.push({ id, name: guest.name, result: 'unchanged' })
+      continue
+    }
+    ops.push({
+      updateOne: { filter: { _id: guest._id }, update: { $set: { ...patch, updatedAt: now } } },
+    })
+    results.push({ id, name: guest.name, result: 'updated', changed })
+  }
+
+  if (requestedIds) {
+    const found = new Set(guests.map((g) => String(g._id)))
+    requestedIds.filter((id) => !found.has(id)).forEach((id) => results.push({ id, result: 'not_found' }))
+  }
+
+  if (ops.length) await guestsCol.bulkWrite(ops, { ordered: false })
+
+  // Sama seperti PATCH status: kembali ke Pending membatalkan reminder
+  const updatedIds = results.filter((r) => r.result === 'updated').map((r) => r.id)
+  if (patch.status === 'Pending' && updatedIds.length) {
+    await db.collection('94884219_reminders').deleteMany({ accountId, guestId: { $in: updatedIds } })
+  }
+  // Tahap undangan ikut pindah seperti PATCH /:id/status
+  if (patch.status && updatedIds.length) {
+    await moveInvitationStage(
+      { accountId, _id: { $in: updatedIds.map((id) => new ObjectId(id)) } },
+      stageForStatus(patch.status),
+      'manual',
+      by,
+    )
+  }
+
+  return {
+    results,
+    updatedIds,
+    summary: {
+      matched: guests.length,
+      updated: updatedIds.length,
+      unchanged: results.filter((r) => r.result === 'unchanged').length,
+      skipped: results.filter((r) => r.result === 'skipped').length,
+      notFound: results.filter((r) => r.result === 'not_found').length,
+    },
+  }
+}
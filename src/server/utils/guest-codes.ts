@@ -0,0 +1,163 @@
+// src/server/utils/guest-codes.ts
+/**
+ * Invitation code generator
+ * Every path that creates a guest (POST /api/guests, walk-ins, bulk import,
+ * "generate missing codes") gets its code here. Codes follow the account's
+ * codeFormat (prefix, length, alphabet, optional Luhn mod N check
+ * character) and are unique per account through a unique index; inserts
+ * retry with a fresh code when they hit it.
+ */
+import { randomInt } from 'node:crypto'
+import { ObjectId, type Document, type OptionalId } from 'mongodb'
+import { z } from 'zod'
+import type { GuestCodeFormat } from '@shared/types'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+
+const ACCOUNTS_COLLECTION = '94884219_accounts'
+
+// Tanpa 0/O/1/I supaya tidak salah baca di undangan cetak
+export const DEFAULT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export const DEFAULT_CODE_FORMAT: GuestCodeFormat = {
+  prefix: 'GUEST-',
+  length: 5,
+  alphabet: DEFAULT_CODE_ALPHABET,
+  checkDigit: false,
+}
+
+const MAX_ATTEMPTS = 10
+
+export const codeFormatSchema = z.object({
+  prefix: z.string().trim().toUpperCase().regex(/^[A-Z0-9-]{0,10}$/, 'Prefix may only contain A-Z, 0-9 and "-"'),
+  length: z.number().int().min(4).max(12),
+  alphabet: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{10,36}$/, 'Alphabet must be 10-36 characters A-Z / 0-9')
+    .refine((v) => new Set(v).size === v.length, 'Alphabet characters must be unique'),
+  checkDigit: z.boolean(),
+})
+
+/** Luhn mod N check character for body over alphabet */
+function checkCharacter(body: string, alphabet: string): string {
+  const n = alphabet.length
+  let factor = 2
+  let sum = 0
+  for (let i = body.length - 1; i >= 0; i--) {
+    let addend = factor * alphabet.indexOf(body[i])
+    factor = factor === 2 ? 1 : 2
+    addend = Math.floor(addend / n) + (addend % n)
+    sum += addend
+  }
+  return alphabet[(n - (sum % n)) % n]
+}
+
+export function generateCode(format: GuestCodeFormat = DEFAULT_CODE_FORMAT): string {
+  let body = ''
+  for (let i = 0; i < format.length; i++) body += format.alphabet[randomInt(format.alphabet.length)]
+  return format.prefix + body + (format.checkDigit ? checkCharacter(body, format.alphabet) : '')
+}
+
+export function normalizeGuestCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+export async function accountCodeFormat(accountId: string): Promise<GuestCodeFormat> {
+  const account = ObjectId.isValid(accountId)
+    ? await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: new ObjectId(accountId) }, { projection: { codeFormat: 1 } })
+    : null
+  return { ...DEFAULT_CODE_FORMAT, ...(account?.codeFormat ?? {}) }
+}
+
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as any)?.code === 11000
+}
+
+/**
+ * Insert a guest with a freshly generated code, retrying on collision.
+ * Returns the inserted document (with _id and code).
+ */
+export async function insertGuestWithCode<T extends Document>(
+  doc: OptionalId<T> & { accountId: string },
+  format?: GuestCodeFormat,
+): Promise<T & { _id: ObjectId; code: string }> {
+  const fmt = format ?? (await accountCodeFormat(doc.accountId))
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const withCode = { ...doc, _id: new ObjectId(), code: generateCode(fmt) }
+    try {
+      await db.collection(GUESTS_COLLECTION).insertOne(withCode)
+      return withCode as unknown as T & { _id: ObjectId; code: string }
+    } catch (error: unknown) {
+      if (!isDuplicateKeyError(error)) throw error
+    }
+  }
+  throw new Error('Could not generate a unique invitation code; widen the code format')
+}
+
+/**
+ * Give every guest of the account without a code a new one.
+ * Returns how many guests got a code.
+ */
+export async function assignMissingCodes(accountId: string): Promise<number> {
+  const guests = db.collection(GUESTS_COLLECTION)
+  const format = await accountCodeFormat(accountId)
+  const missing = await guests
+    .find({ accountId, $or: [{ code: { $exists: false } }, { code: null }, { code: '' }] }, { projection: { _id: 1 } })
+    .toArray()
+
+  let assigned = 0
+  for (const g of missing) {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      try {
+        await guests.updateOne({ _id: g._id }, { $set: { code: generateCode(format), updatedAt: new Date() } })
+        assigned++
+        break
+      } catch (error: unknown) {
+        if (!isDuplicateKeyError(error)) throw error
+      }
+    }
+  }
+  return assigned
+}
+
+/**
+ * Unique (accountId, code) for non-empty codes. Duplicates left over from
+ * the old client-side generator are resolved first: the oldest guest keeps
+ * the code, the others get a new one.
+ */
+export async function ensureGuestCodeIndex() {
+  const guests = db.collection(GUESTS_COLLECTION)
+  const duplicates = await guests
+    .aggregate<{ _id: { accountId: string; code: string }; ids: ObjectId[] }>([
+      { $match: { code: { $gt: '' } } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      { $group: { _id: { accountId: '$accountId', code: '$code' }, ids: { $push: '$_id' }, count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+    ])
+    .toArray()
+
+  let recoded = 0
+  for (const dup of duplicates) {
+    const format = await accountCodeFormat(String(dup._id.accountId))
+    for (const id of dup.ids.slice(1)) {
+      let code = generateCode(format)
+      while (await guests.findOne({ accountId: dup._id.accountId, code }, { projection: { _id: 1 } })) {
+        code = generateCode(format)
+      }
+      await guests.updateOne({ _id: id }, { $set: { code, updatedAt: new Date() } })
+      recoded++
+    }
+  }
+  if (recoded) console.warn(`[guest-codes] Re-coded ${recoded} guests that shared an invitation code`)
+
+  // Index lama non-unique dengan key yang sama harus dibuang dulu
+  const indexes = await guests.indexes()
+  if (indexes.some((ix) => ix.name === 'accountId_1_code_1')) await guests.dropIndex('accountId_1_code_1')
+
+  await guests.createIndex(
+    { accountId: 1, code: 1 },
+    { unique: true, partialFilterExpression: { code: { $gt: '' } }, name: 'accountId_code_unique' },
+  )
+}
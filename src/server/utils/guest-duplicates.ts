@@ -0,0 +1,260 @@
+// src/server/utils/guest-duplicates.ts
+/**
+ * Duplicate guest detection and merge
+ * Guests are clustered when they share a normalized phone number, the same
+ * spelling-insensitive name ("Budi Santoso" / "budi  santoso ") or a name
+ * within a small edit distance. Merging folds check-in, souvenir, gift and
+ * reminder data into one surviving guest, repoints reminders, gift
+ * distributions and party contacts, then deletes the others.
+ */
+import { ObjectId, type Document, type WithId } from 'mongodb'
+import type { DuplicateCluster, DuplicateReason } from '@shared/types'
+import { editDistance, normalizePhone, normalizeText, spellingKey } from '../../shared/guest-search.js'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+import { parties } from './parties.js'
+import { checkIns, scopeClearsToArrivals, syncGuestCheckIn } from './checkins.js'
+
+const DISMISSALS_COLLECTION = '94884219_duplicate_dismissals'
+
+const CLUSTER_PROJECTION = {
+  name: 1,
+  phone: 1,
+  code: 1,
+  category: 1,
+  status: 1,
+  isInvited: 1,
+  partyId: 1,
+  checkInDate: 1,
+  souvenirCount: 1,
+  kadoCount: 1,
+  angpaoCount: 1,
+  createdAt: 1,
+}
+
+// Field yang diisi dari duplikat kalau kosong di tamu yang dipertahankan
+const FILL_FIELDS = [
+  'phone',
+  'category',
+  'categoryID',
+  'code',
+  'session',
+  'limit',
+  'tableNo',
+  'info',
+  'notes',
+  'dietaryRequirements',
+  'introTextCategory',
+  'partyId',
+  'rsvpHeadcount',
+  'rsvpNote',
+  'rsvpAt',
+  'reminderScheduledAt',
+  'reminderSentAt',
+]
+
+export function nameKey(name: unknown): string {
+  return normalizeText(String(name ?? ''))
+    .split(' ')
+    .filter(Boolean)
+    .map(spellingKey)
+    .join(' ')
+}
+
+function nameAllowance(length: number) {
+  if (length >= 12) return 2
+  if (length >= 6) return 1
+  return 0
+}
+
+function clusterKey(ids: string[]) {
+  return [...ids].sort().join(',')
+}
+
+export async function ensureDuplicateIndexes() {
+  await db.collection(DISMISSALS_COLLECTION).createIndex({ accountId: 1, key: 1 }, { unique: true })
+}
+
+/**
+ * Clusters of likely duplicates in one account, largest first. Clusters the
+ * account marked as "not duplicates" are left out.
+ */
+export async function findDuplicateClusters(accountId: string): Promise<DuplicateCluster[]> {
+  const guests = await db
+    .collection(GUESTS_COLLECTION)
+    .find({ accountId }, { projection: CLUSTER_PROJECTION })
+    .toArray()
+
+  // Union-find over guest index
+  const parent = guests.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  const reasons = new Map<string, Set<DuplicateReason>>()
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const ra = find(a)
+    const rb = find(b)
+    if (ra !== rb) parent[rb] = ra
+    const key = `${Math.min(a, b)}:${Math.max(a, b)}`
+    reasons.set(key, (reasons.get(key) ?? new Set()).add(reason))
+  }
+
+  const keys = guests.map((g) => nameKey(g.name))
+  const byPhone = new Map<string, number>()
+  const byName = new Map<string, number>()
+  // Blok per dua huruf awal supaya perbandingan fuzzy tidak O(n²) untuk seluruh akun
+  const blocks = new Map<string, number[]>()
+
+  guests.forEach((g, i) => {
+    const phone = normalizePhone(g.phone)
+    if (phone.length >= 8) {
+      const first = byPhone.get(phone)
+      if (first === undefined) byPhone.set(phone, i)
+      else link(first, i, 'phone')
+    }
+
+    const key = keys[i]
+    if (!key) return
+    const first = byName.get(key)
+    if (first !== undefined) {
+      link(first, i, 'name')
+      return
+    }
+    byName.set(key, i)
+    const block = key.slice(0, 2)
+    blocks.set(block, [...(blocks.get(block) ?? []), i])
+  })
+
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      const a = keys[members[x]]
+      for (let y = x + 1; y < members.length; y++) {
+        const b = keys[members[y]]
+        const allowance = nameAllowance(Math.min(a.length, b.length))
+        if (allowance && editDistance(a, b, allowance) <= allowance) link(members[x], members[y], 'similar_name')
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  guests.forEach((_, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), i])
+  })
+
+  const dismissed = new Set(
+    (await db.collection(DISMISSALS_COLLECTION).find({ accountId }, { projection: { key: 1 } }).toArray()).map((d) => d.key),
+  )
+
+  const clusters: DuplicateCluster[] = []
+  for (const members of groups.values()) {
+    if (members.length < 2) continue
+    const ids = members.map((i) => String(guests[i]._id))
+    const key = clusterKey(ids)
+    if (dismissed.has(key)) continue
+
+    const clusterReasons = new Set<DuplicateReason>()
+    for (const [pair, set] of reasons) {
+      const [a] = pair.split(':').map(Number)
+      if (members.includes(a)) set.forEach((r) => clusterReasons.add(r))
+    }
+    clusters.push({
+      key,
+      reasons: [...clusterReasons],
+      guests: members
+        .map((i) => ({ ...guests[i], _id: String(guests[i]._id) }) as any)
+        .sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()),
+    })
+  }
+  return clusters.sort((a, b) => b.guests.length - a.guests.length)
+}
+
+export async function dismissCluster(accountId: string, guestIds: string[]) {
+  const key = clusterKey(guestIds)
+  await db
+    .collection(DISMISSALS_COLLECTION)
+    .updateOne({ accountId, key }, { $setOnInsert: { accountId, key, createdAt: new Date() } }, { upsert: true })
+  return key
+}
+
+function latest(values: unknown[]): Date | null {
+  const dates = values.filter(Boolean).map((v) => new Date(v as any)).filter((d) => !Number.isNaN(d.getTime()))
+  return dates.length ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null
+}
+
+const sum = (docs: Document[], field: string) => docs.reduce((total, d) => total + (Number(d[field]) || 0), 0)
+
+/** Field values of survivor after folding in duplicates (nothing is written) */
+export function mergedFields(survivor: WithId<Document>, duplicates: WithId<Document>[]): Record<string, any> {
+  const all = [survivor, ...duplicates]
+  const $set: Record<string, any> = {}
+
+  for (const field of FILL_FIELDS) {
+    if (survivor[field] !== undefined && survivor[field] !== null && survivor[field] !== '') continue
+    const donor = duplicates.find((d) => d[field] !== undefined && d[field] !== null && d[field] !== '')
+    if (donor) $set[field] = donor[field]
+  }
+
+  // Check-in tidak ditulis di sini: diturunkan dari log gabungan (syncGuestCheckIn)
+  if (!survivor.status || survivor.status === 'Pending') {
+    const answered = duplicates.find((d) => d.status === 'Confirmed' || d.status === 'Declined')
+    if (answered) $set.status = answered.status
+  }
+
+  // Souvenir & hadiah dicatat per serah terima, jadi dijumlahkan
+  $set.souvenirCount = sum(all, 'souvenirCount')
+  $set.kadoCount = sum(all, 'kadoCount')
+  $set.angpaoCount = sum(all, 'angpaoCount')
+  const souvenirAt = latest(all.map((d) => d.souvenirRecordedAt))
+  if (souvenirAt) $set.souvenirRecordedAt = souvenirAt
+  const giftAt = latest(all.map((d) => d.giftRecordedAt))
+  if (giftAt) $set.giftRecordedAt = giftAt
+  const notes = [...new Set(all.map((d) => String(d.giftNote ?? '').trim()).filter(Boolean))]
+  if (notes.length) $set.giftNote = notes.join('; ')
+  if (!survivor.giftType) {
+    const donor = duplicates.find((d) => d.giftType)
+    if (donor) $set.giftType = donor.giftType
+  }
+
+  if (all.some((d) => d.isInvited !== false)) $set.isInvited = true
+  return $set
+}
+
+/**
+ * Merge duplicates into survivor. All guests must belong to accountId.
+ * Returns the updated survivor and the removed guests.
+ */
+export async function mergeGuests(accountId: string, survivorId: string, duplicateIds: string[]) {
+  const guestsCol = db.collection(GUESTS_COLLECTION)
+  const ids = [survivorId, ...duplicateIds].map((id) => new ObjectId(id))
+  const docs = await guestsCol.find({ _id: { $in: ids }, accountId }).toArray()
+  const survivor = docs.find((d) => String(d._id) === survivorId)
+  const duplicates = docs.filter((d) => String(d._id) !== survivorId)
+  if (!survivor || duplicates.length !== duplicateIds.length) return null
+
+  const $set: Record<string, any> = { ...mergedFields(survivor, duplicates), updatedAt: new Date() }
+  // Kode duplikat dilepas dulu supaya unique index (accountId, code) tidak bentrok
+  if ($set.code) {
+    await guestsCol.updateOne({ _id: duplicates.find((d) => d.code === $set.code)!._id }, { $unset: { code: '' } })
+  }
+
+  const result = await guestsCol.findOneAndUpdate({ _id: survivor._id }, { $set }, { returnDocument: 'after' })
+  const updated = (result && (result as any).value) || result
+
+  await db
+    .collection('94884219_reminders')
+    .updateMany({ accountId, guestId: { $in: duplicateIds } }, { $set: { guestId: survivorId, guestName: survivor.name } })
+  await db
+    .collection('94884219_gift_distributions')
+    .updateMany({ accountId, guestId: { $in: duplicateIds } }, { $set: { guestId: survivorId } })
+  // Riwayat check-in ikut pindah; clear "seluruh log" dipersempit dulu ke arrival
+  // milik tamunya sendiri supaya tidak membatalkan arrival tamu lain di log gabungan
+  for (const id of [survivorId, ...duplicateIds]) await scopeClearsToArrivals(accountId, id)
+  await checkIns().updateMany({ accountId, guestId: { $in: duplicateIds } }, { $set: { guestId: survivorId } })
+  await parties().updateMany(
+    { accountId, primaryGuestId: { $in: duplicateIds } },
+    { $set: { primaryGuestId: survivorId, updatedAt: new Date() } },
+  )
+
+  await guestsCol.deleteMany({ _id: { $in: duplicates.map((d) => d._id) }, accountId })
+  const synced = await syncGuestCheckIn(accountId, survivorId)
+  return { before: survivor, survivor: (synced ?? updated) as WithId<Document>, removed: duplicates }
+}
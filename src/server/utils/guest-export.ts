@@ -0,0 +1,181 @@
+// src/server/utils/guest-export.ts
+/**
+ * Guest list export (GET /api/guests/export)
+ * Guests are read from the cursor in batches; every batch looks up the
+ * latest reminder of its guests and is turned into rows of the requested
+ * columns (shared/guest-export.ts), streamed as XLSX (utils/xlsx.ts) or CSV.
+ */
+import type { Document, FindCursor, WithId } from 'mongodb'
+import type { CustomFieldDef, CustomFieldValue } from '@shared/types'
+import { formatCustomFieldValue } from '../../shared/custom-fields.js'
+import {
+  CUSTOM_EXPORT_PREFIX,
+  GUEST_EXPORT_COLUMNS,
+  REMINDER_STATUS_LABELS,
+  type GuestExportColumn,
+  type GuestExportFormat,
+} from '../../shared/guest-export.js'
+import { parseGuestLimit } from '../../shared/guest-limit.js'
+import { INVITATION_STAGE_LABELS, invitationStageOf } from '../../shared/invitation-stage.js'
+import { db } from '../db.js'
+import { STATS_TIMEZONE } from './guest-stats.js'
+import { xlsxChunks, type XlsxCell } from './xlsx.js'
+
+export const EXPORT_BATCH_SIZE = 500
+
+export const EXPORT_CONTENT_TYPES: Record<GuestExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+}
+
+export interface ExportColumn {
+  key: string
+  header: string
+  custom?: CustomFieldDef
+}
+
+type GuestRow = WithId<Document>
+type ReminderStatuses = { byGuest: Map<string, string>; byParty: Map<string, string> }
+
+// Waktu check-in di zona acara, "2025-06-14 18:05"
+const checkInFormat = new Intl.DateTimeFormat('sv-SE', {
+  timeZone: STATS_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false,
+})
+
+/** Columns for the requested keys in that order (all columns when none); unknown keys are reported */
+export function resolveExportColumns(keys: string[] | undefined, customDefs: CustomFieldDef[]) {
+  const all: ExportColumn[] = [
+    ...GUEST_EXPORT_COLUMNS.map((column) => ({ key: column.key, header: column.header })),
+    ...customDefs.map((def) => ({ key: `${CUSTOM_EXPORT_PREFIX}${def.key}`, header: def.label, custom: def })),
+  ]
+  if (!keys?.length) return { columns: all, unknown: [] as string[] }
+
+  const byKey = new Map(all.map((column) => [column.key, column]))
+  const requested = [...new Set(keys)]
+  return {
+    columns: requested.filter((key) => byKey.has(key)).map((key) => byKey.get(key)!),
+    unknown: requested.filter((key) => !byKey.has(key)),
+  }
+}
+
+// Reminder party berlaku untuk semua anggota; yang terbaru menimpa yang lama
+async function reminderStatuses(guests: GuestRow[]): Promise<ReminderStatuses> {
+  const guestIds = guests.map((g) => String(g._id))
+  const partyIds = [...new Set(guests.filter((g) => g.partyId).map((g) => String(g.partyId)))]
+  const reminders = await db
+    .collection('94884219_reminders')
+    .find(
+      { $or: [{ guestId: { $in: guestIds } }, ...(partyIds.length ? [{ partyId: { $in: partyIds } }] : [])] },
+      { projection: { guestId: 1, partyId: 1, status: 1, updatedAt: 1 } },
+    )
+    .sort({ updatedAt: 1 })
+    .toArray()
+
+  const statuses: ReminderStatuses = { byGuest: new Map(), byParty: new Map() }
+  for (const reminder of reminders) {
+    statuses.byGuest.set(String(reminder.guestId), String(reminder.status))
+    if (reminder.partyId) statuses.byParty.set(String(reminder.partyId), String(reminder.status))
+  }
+  return statuses
+}
+
+function reminderLabel(guest: GuestRow, statuses: ReminderStatuses) {
+  const status =
+    (guest.partyId ? statuses.byParty.get(String(guest.partyId)) : undefined) ?? statuses.byGuest.get(String(guest._id))
+  if (status) return REMINDER_STATUS_LABELS[status] ?? status
+  // Reminder lama yang sudah dihapus: pakai jejak di tamu
+  if (guest.reminderSentAt) return REMINDER_STATUS_LABELS.sent
+  if (guest.reminderScheduledAt) return REMINDER_STATUS_LABELS.pending
+  return ''
+}
+
+function customCell(def: CustomFieldDef, value: unknown): XlsxCell {
+  if (value === null || value === undefined || value === '') return null
+  // Angka & tanggal (YYYY-MM-DD) tetap bisa diimpor ulang
+  if (def.type === 'number' && typeof value === 'number') return value
+  if (def.type === 'date') return String(value)
+  return formatCustomFieldValue(def, value as CustomFieldValue)
+}
+
+function cellValue(column: ExportColumn, guest: GuestRow, reminder: string): XlsxCell {
+  if (column.custom) return customCell(column.custom, guest.customFields?.[column.custom.key])
+
+  switch (column.key as GuestExportColumn) {
+    case 'limit':
+      return parseGuestLimit(guest.limit)
+    case 'info':
+      return guest.info || guest.notes || ''
+    case 'tags':
+      return Array.isArray(guest.tags) ? guest.tags.join(', ') : ''
+    case 'stage':
+      return INVITATION_STAGE_LABELS[invitationStageOf(guest)]
+    case 'checkInDate':
+      return guest.checkInDate ? checkInFormat.format(new Date(guest.checkInDate)) : ''
+    case 'guestCount':
+      return guest.checkInDate ? Number(guest.guestCount) || 1 : null
+    case 'souvenirCount':
+    case 'angpaoCount':
+    case 'kadoCount':
+      return Number(guest[column.key]) || 0
+    case 'reminder':
+      return reminder
+    default: {
+      const value = guest[column.key]
+      if (value === null || value === undefined) return ''
+      return typeof value === 'number' ? value : String(value)
+    }
+  }
+}
+
+async function* guestBatches(cursor: FindCursor<GuestRow>) {
+  let batch: GuestRow[] = []
+  for await (const guest of cursor) {
+    batch.push(guest)
+    if (batch.length >= EXPORT_BATCH_SIZE) {
+      yield batch
+      batch = []
+    }
+  }
+  if (batch.length) yield batch
+}
+
+async function* rowBatches(cursor: FindCursor<GuestRow>, columns: ExportColumn[]) {
+  const withReminders = columns.some((column) => column.key === 'reminder')
+  for await (const guests of guestBatches(cursor)) {
+    const statuses = withReminders ? await reminderStatuses(guests) : null
+    yield guests.map((guest) => {
+      const reminder = statuses ? reminderLabel(guest, statuses) : ''
+      return columns.map((column) => cellValue(column, guest, reminder))
+    })
+  }
+}
+
+function csvField(value: XlsxCell) {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  // Teks yang diawali = + - @ dijalankan Excel sebagai formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function* csvChunks(header: string[], batches: AsyncIterable<XlsxCell[][]>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  // BOM supaya Excel membaca UTF-8 (nama dengan aksen, emoji)
+  yield encoder.encode(`\uFEFF${header.map(csvField).join(',')}\r\n`)
+  for await (const rows of batches) {
+    yield encoder.encode(rows.map((cells) => `${cells.map(csvField).join(',')}\r\n`).join(''))
+  }
+}
+
+/** File bytes of the export, produced as the cursor is read */
+export function guestExportChunks(format: GuestExportFormat, cursor: FindCursor<GuestRow>, columns: ExportColumn[]) {
+  const header = columns.map((column) => column.header)
+  const rows = rowBatches(cursor, columns)
+  return format === 'xlsx' ? xlsxChunks('Tamu', header, rows) : csvChunks(header, rows)
+}
@@ -0,0 +1,34 @@
+// src/server/utils/guest-limit.ts
+/**
+ * Numeric guest headcount limit
+ * Guest.limit used to be free text; forms and imports still send "2", so the
+ * schema accepts numeric strings and stores a number (null = no limit).
+ * migrateGuestLimits() converts the legacy string values once at startup.
+ */
+import { z } from 'zod'
+import { GUEST_LIMIT_MAX, parseGuestLimit } from '../../shared/guest-limit.js'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+
+export const guestLimitSchema = z.preprocess(
+  (v) => (typeof v === 'string' ? (v.trim() === '' ? null : Number(v.trim())) : v),
+  z
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(GUEST_LIMIT_MAX)
+    .nullable(),
+)
+
+export async function migrateGuestLimits() {
+  const collection = db.collection(GUESTS_COLLECTION)
+  const legacy = await collection.find({ limit: { $type: 'string' } }, { projection: { limit: 1 } }).toArray()
+  if (!legacy.length) return
+
+  await collection.bulkWrite(
+    legacy.map((g) => ({
+      updateOne: { filter: { _id: g._id }, update: { $set: { limit: parseGuestLimit(g.limit) } } },
+    })),
+  )
+  console.log(`[guest-limit] converted ${legacy.length} text limits to numbers`)
+}
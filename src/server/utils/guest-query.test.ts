@@ -0,0 +1,22 @@
+// src/server/utils/guest-query.test.ts
+/**
+ * GET /api/guests query parsing and the Mongo filter built from it.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildGuestFilter, guestListQuerySchema } from './guest-query.js'
+
+test('stage filter matches legacy guests without a stage as draft', () => {
+  const parsed = guestListQuerySchema.parse({ stage: 'draft, sent' })
+  assert.deepEqual(parsed.stage, ['draft', 'sent'])
+  assert.deepEqual(buildGuestFilter(parsed), { $and: [{ invitationStage: { $in: ['draft', 'sent', null] } }] })
+})
+
+test('unknown stages and sort fields are rejected instead of matching nothing', () => {
+  const stage = guestListQuerySchema.safeParse({ stage: 'foo' })
+  assert.equal(stage.success, false)
+  assert.equal(stage.error?.issues[0]?.message, 'Invalid stage')
+
+  assert.equal(guestListQuerySchema.safeParse({ sort: '-password' }).success, false)
+  assert.equal(guestListQuerySchema.safeParse({ sort: '-checkInDate' }).success, true)
+})
@@ -0,0 +1,182 @@
+// src/server/utils/guest-query.ts
+/**
+ * Query parsing for GET /api/guests: paging, sorting and filters turned into
+ * a Mongo filter/sort that the compound indexes below can serve, so the desk
+ * pages no longer download every guest of a 3,000-guest wedding.
+ */
+import { z } from 'zod'
+import type { InvitationStage } from '@shared/types'
+import { CUSTOM_FIELD_KEY_PATTERN } from '../../shared/custom-fields.js'
+import { INVITATION_STAGES } from '../../shared/invitation-stage.js'
+import { db } from '../db.js'
+
+export const GUESTS_COLLECTION = '94884219_guests'
+
+export const GUEST_LIST_MAX_LIMIT = 200
+const DEFAULT_LIMIT = 50
+
+export const GUEST_SORT_FIELDS = [
+  'name',
+  'code',
+  'category',
+  'session',
+  'tableNo',
+  'status',
+  'createdAt',
+  'checkInDate',
+  'souvenirRecordedAt',
+  'giftRecordedAt',
+] as const
+
+export const GUEST_DATE_FIELDS = ['createdAt', 'checkInDate', 'souvenirRecordedAt', 'giftRecordedAt'] as const
+
+const boolParam = z.enum(['true', 'false']).transform((v) => v === 'true')
+
+const dateParam = z
+  .string()
+  .refine((v) => !Number.isNaN(new Date(v).getTime()), 'Invalid date')
+  .transform((v) => new Date(v))
+
+// Nilai dipisah koma -> $in (mis. category=VIP,Keluarga)
+const listParam = z
+  .string()
+  .transform((v) => v.split(',').map((s) => s.trim()).filter(Boolean))
+
+// custom=kota:Bandung,kota:Jakarta,hotel:true -> [['kota', 'Bandung'], ...]
+const customParam = listParam.transform((pairs) =>
+  pairs
+    .filter((pair) => pair.indexOf(':') > 0)
+    .map((pair) => {
+      const i = pair.indexOf(':')
+      return [pair.slice(0, i).trim(), pair.slice(i + 1).trim()] as [string, string]
+    })
+    .filter(([key, value]) => CUSTOM_FIELD_KEY_PATTERN.test(key) && value !== ''),
+)
+
+export const guestListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(GUEST_LIST_MAX_LIMIT).optional(),
+  sort: z
+    .string()
+    .regex(new RegExp(`^-?(${GUEST_SORT_FIELDS.join('|')})$`), 'Invalid sort field')
+    .optional(),
+  search: z.string().trim().max(100).optional(),
+  category: listParam.optional(),
+  session: listParam.optional(),
+  tableNo: listParam.optional(),
+  status: listParam.optional(),
+  // Tahap undangan (shared/invitation-stage.ts), tanpa tahap = draft
+  stage: listParam
+    .refine((stages) => stages.every((s) => INVITATION_STAGES.includes(s as InvitationStage)), 'Invalid stage')
+    .transform((stages) => stages as InvitationStage[])
+    .optional(),
+  // Tamu dengan salah satu tag ini
+  tags: listParam.optional(),
+  // Id segmen tersimpan (utils/segments.ts), diterapkan oleh route
+  segment: z.string().optional(),
+  // Field custom akun (utils/custom-fields.ts)
+  custom: customParam.optional(),
+  isInvited: boolParam.optional(),
+  checkedIn: boolParam.optional(),
+  hasSouvenir: boolParam.optional(),
+  hasGift: boolParam.optional(),
+  // Id party, atau "none" untuk tamu tanpa party
+  partyId: z.string().optional(),
+  dateField: z.enum(GUEST_DATE_FIELDS).optional(),
+  dateFrom: dateParam.optional(),
+  dateTo: dateParam.optional(),
+  accountId: z.string().optional(),
+})
+export type GuestListQuery = z.infer<typeof guestListQuerySchema>
+
+export function escapeRegex(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** True when the caller asked for a page rather than the legacy full list */
+export function isPagedQuery(q: GuestListQuery) {
+  return q.page !== undefined || q.limit !== undefined
+}
+
+// Nilai dari query string selalu teks; cocokkan juga bentuk number/boolean
+function customValues(value: string): (string | number | boolean)[] {
+  const values: (string | number | boolean)[] = [value]
+  if (value === 'true' || value === 'false') values.push(value === 'true')
+  else if (value.trim() !== '' && Number.isFinite(Number(value))) values.push(Number(value))
+  return values
+}
+
+/**
+ * Mongo filter for everything except account scope (added by the route)
+ * and search, which is ranked by searchGuestIds() in guest-search.ts
+ */
+export function buildGuestFilter(q: GuestListQuery): Record<string, any> {
+  const and: Record<string, any>[] = []
+
+  if (q.category?.length) and.push({ category: { $in: q.category } })
+  if (q.session?.length) and.push({ session: { $in: q.session } })
+  if (q.tableNo?.length) and.push({ tableNo: { $in: q.tableNo } })
+  if (q.status?.length) and.push({ status: { $in: q.status } })
+  if (q.stage?.length) {
+    and.push({ invitationStage: q.stage.includes('draft') ? { $in: [...q.stage, null] } : { $in: q.stage } })
+  }
+  if (q.tags?.length) and.push({ tags: { $in: q.tags } })
+
+  // Beberapa nilai untuk key yang sama = salah satu
+  const custom = new Map<string, (string | number | boolean)[]>()
+  q.custom?.forEach(([key, value]) => custom.set(key, [...(custom.get(key) ?? []), ...customValues(value)]))
+  custom.forEach((values, key) => and.push({ [`customFields.${key}`]: { $in: values } }))
+
+  // Tamu lama tanpa field isInvited dihitung sebagai tamu undangan
+  if (q.isInvited !== undefined) and.push({ isInvited: q.isInvited ? { $ne: false } : false })
+
+  if (q.partyId) and.push({ partyId: q.partyId === 'none' ? null : q.partyId })
+
+  if (q.checkedIn !== undefined) and.push({ checkInDate: q.checkedIn ? { $ne: null } : null })
+
+  if (q.hasSouvenir !== undefined) {
+    and.push(q.hasSouvenir ? { souvenirCount: { $gt: 0 } } : { $nor: [{ souvenirCount: { $gt: 0 } }] })
+  }
+
+  if (q.hasGift !== undefined) {
+    const gift = [{ kadoCount: { $gt: 0 } }, { angpaoCount: { $gt: 0 } }]
+    and.push(q.hasGift ? { $or: gift } : { $nor: gift })
+  }
+
+  if (q.dateFrom || q.dateTo) {
+    const range: Record<string, Date> = {}
+    if (q.dateFrom) range.$gte = q.dateFrom
+    if (q.dateTo) range.$lte = q.dateTo
+    and.push({ [q.dateField || 'createdAt']: range })
+  }
+
+  return and.length ? { $and: and } : {}
+}
+
+/** "-checkInDate" -> { checkInDate: -1, _id: -1 }; _id keeps pages stable */
+export function buildGuestSort(sort?: string): Record<string, 1 | -1> {
+  if (!sort) return { createdAt: -1, _id: -1 }
+  const dir = sort.startsWith('-') ? -1 : 1
+  const field = sort.replace(/^-/, '')
+  return { [field]: dir, _id: dir }
+}
+
+export function pageParams(q: GuestListQuery) {
+  const page = q.page ?? 1
+  const limit = q.limit ?? DEFAULT_LIMIT
+  return { page, limit, skip: (page - 1) * limit }
+}
+
+export async function ensureGuestIndexes() {
+  const col = db.collection(GUESTS_COLLECTION)
+  await col.createIndex({ accountId: 1, createdAt: -1 })
+  await col.createIndex({ accountId: 1, name: 1 })
+  await col.createIndex({ accountId: 1, category: 1 })
+  await col.createIndex({ accountId: 1, session: 1 })
+  await col.createIndex({ accountId: 1, tableNo: 1 })
+  await col.createIndex({ accountId: 1, isInvited: 1, status: 1 })
+  await col.createIndex({ accountId: 1, invitationStage: 1 })
+  await col.createIndex({ accountId: 1, checkInDate: -1 })
+  await col.createIndex({ accountId: 1, souvenirRecordedAt: -1 })
+  await col.createIndex({ accountId: 1, giftRecordedAt: -1 })
+}
@@ -0,0 +1,32 @@
+// src/server/utils/guest-search.ts
+/**
+ * Fuzzy guest search over Mongo. The account's guests (after the plain
+ * filters) are read with a small projection and ranked in memory by the
+ * shared matcher, so queries never reach $regex and typos still match.
+ */
+import type { Filter, Document, ObjectId, WithId } from 'mongodb'
+import { db } from '../db.js'
+import { rankGuests } from '../../shared/guest-search.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+
+const SEARCH_PROJECTION = { name: 1, code: 1, phone: 1, info: 1, tableNo: 1 }
+
+/** _ids of guests matching filter and query, best match first */
+export async function searchGuestIds(filter: Filter<Document>, query: string): Promise<ObjectId[]> {
+  const candidates = await db
+    .collection(GUESTS_COLLECTION)
+    .find(filter, { projection: SEARCH_PROJECTION })
+    .toArray()
+  return rankGuests(candidates, query).map((g) => g._id as ObjectId)
+}
+
+/** Full documents for ids, in the order of ids */
+export async function findGuestsInOrder(ids: ObjectId[], projection?: Document): Promise<WithId<Document>[]> {
+  if (!ids.length) return []
+  const docs = await db
+    .collection(GUESTS_COLLECTION)
+    .find({ _id: { $in: ids } }, projection ? { projection } : {})
+    .toArray()
+  const byId = new Map(docs.map((d) => [String(d._id), d]))
+  return ids.map((id) => byId.get(String(id))).filter((d): d is WithId<Document> => !!d)
+}
@@ -0,0 +1,272 @@
+// src/server/utils/guest-stats.ts
+/**
+ * Guest statistics service
+ * Totals and breakdowns (category, session, table, invited vs walk-in) come
+ * from one $facet aggregation over the guests; the arrivals histogram is
+ * bucketed from the check-in log (utils/checkins.ts) for one event day.
+ * LiveStats are the reception counters pushed over the realtime socket.
+ */
+import { ObjectId } from 'mongodb'
+import type { ArrivalsBucket, GuestStats, GuestStatsBucket, GuestStatsTotals, LiveStats } from '@shared/types'
+import { db } from '../db.js'
+import { CHECKINS_COLLECTION } from './checkins.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+
+const ACCOUNTS_COLLECTION = '94884219_accounts'
+
+export const STATS_TIMEZONE = process.env.EVENT_TIMEZONE || 'Asia/Jakarta'
+export const DEFAULT_BUCKET_MINUTES = 15
+
+// Field bantu per tamu; limit & guestCount lama bisa berupa teks
+const PER_GUEST = {
+  $addFields: {
+    _checked: { $ne: [{ $ifNull: ['$checkInDate', null] }, null] },
+    _invited: { $ne: ['$isInvited', false] },
+    _souvenirs: { $ifNull: ['$souvenirCount', 0] },
+    _angpao: { $ifNull: ['$angpaoCount', 0] },
+    _kado: { $ifNull: ['$kadoCount', 0] },
+    _limit: { $convert: { input: '$limit', to: 'int', onError: null, onNull: null } },
+  },
+}
+
+const PAX = {
+  $addFields: {
+    _pax: {
+      $cond: ['$_checked', { $convert: { input: '$guestCount', to: 'int', onError: 1, onNull: 1 } }, 0],
+    },
+  },
+}
+
+const OVER = {
+  $addFields: {
+    _over: {
+      $cond: [
+        { $and: ['$_checked', { $gt: ['$_limit', 0] }] },
+        { $max: [0, { $subtract: ['$_pax', '$_limit'] }] },
+        0,
+      ],
+    },
+  },
+}
+
+const countIf = (cond: unknown) => ({ $sum: { $cond: [cond, 1, 0] } })
+
+function bucketGroup(key: unknown) {
+  return {
+    _id: key,
+    guests: { $sum: 1 },
+    checkedIn: countIf('$_checked'),
+    pax: { $sum: '$_pax' },
+    confirmed: countIf({ $eq: ['$status', 'Confirmed'] }),
+    souvenirs: { $sum: '$_souvenirs' },
+    angpao: { $sum: '$_angpao' },
+    kado: { $sum: '$_kado' },
+    overLimitGuests: countIf({ $gt: ['$_over', 0] }),
+    overLimitExtra: { $sum: '$_over' },
+  }
+}
+
+const byKey = (field: string) => [
+  { $group: bucketGroup({ $trim: { input: { $toString: { $ifNull: [field, ''] } } } }) },
+]
+
+function toBucket({ _id, ...rest }: Record<string, any>): GuestStatsBucket {
+  return { key: String(_id ?? ''), ...(rest as Omit<GuestStatsBucket, 'key'>) }
+}
+
+const naturalOrder = (a: GuestStatsBucket, b: GuestStatsBucket) =>
+  a.key.localeCompare(b.key, undefined, { numeric: true })
+
+const EMPTY_TOTALS: GuestStatsTotals = {
+  guests: 0,
+  checkedIn: 0,
+  pax: 0,
+  confirmed: 0,
+  souvenirs: 0,
+  angpao: 0,
+  kado: 0,
+  overLimitGuests: 0,
+  overLimitExtra: 0,
+  invited: 0,
+  walkIns: 0,
+  declined: 0,
+  pending: 0,
+  plusOne: 0,
+  attendanceRate: 0,
+  checkInRate: 0,
+}
+
+/** YYYY-MM-DD of date in timeZone; throws RangeError for an unknown zone */
+export function dayIn(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date)
+}
+
+/** Event date of the account (account.dateTime), today when unset */
+async function eventDay(accountId: string | undefined, timeZone: string) {
+  const account =
+    accountId && ObjectId.isValid(accountId)
+      ? await db.collection(ACCOUNTS_COLLECTION).findOne({ _id: new ObjectId(accountId) }, { projection: { dateTime: 1 } })
+      : null
+  const date = account?.dateTime ? new Date(account.dateTime) : new Date()
+  return dayIn(Number.isNaN(date.getTime()) ? new Date() : date, timeZone)
+}
+
+/** Arrivals of one day in bucketMinutes slots; cancelled arrivals and trashed guests are left out */
+export async function arrivalsHistogram(
+  scope: Record<string, any>,
+  opts: { date: string; timezone: string; bucketMinutes: number },
+): Promise<ArrivalsBucket[]> {
+  const rows = await db
+    .collection(CHECKINS_COLLECTION)
+    .aggregate([
+      {
+        $match: {
+          ...scope,
+          type: 'checkin',
+          cancelledAt: null,
+          trashedAt: null,
+          $expr: { $eq: [{ $dateToString: { date: '$at', format: '%Y-%m-%d', timezone: opts.timezone } }, opts.date] },
+        },
+      },
+      {
+        $group: {
+          _id: { $dateTrunc: { date: '$at', unit: 'minute', binSize: opts.bucketMinutes, timezone: opts.timezone } },
+          arrivals: { $sum: 1 },
+          pax: { $sum: '$guestCount' },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ])
+    .toArray()
+  return rows.map((r) => ({ at: new Date(r._id).toISOString(), arrivals: r.arrivals, pax: r.pax }))
+}
+
+/**
+ * Statistics of the guests matching scope (already account-scoped).
+ * date defaults to the account's event day in timezone.
+ */
+export async function guestStats(
+  scope: Record<string, any>,
+  opts: { date?: string; timezone?: string; bucketMinutes?: number } = {},
+): Promise<GuestStats> {
+  const timezone = opts.timezone || STATS_TIMEZONE
+  const bucketMinutes = opts.bucketMinutes || DEFAULT_BUCKET_MINUTES
+  const date = opts.date || (await eventDay(scope.accountId, timezone))
+
+  const [facets] = await db
+    .collection(GUESTS_COLLECTION)
+    .aggregate([
+      { $match: scope },
+      PER_GUEST,
+      PAX,
+      OVER,
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                ...bucketGroup(null),
+                invited: countIf('$_invited'),
+                walkIns: countIf({ $not: ['$_invited'] }),
+                declined: countIf({ $eq: ['$status', 'Declined'] }),
+                pending: countIf({ $eq: ['$status', 'Pending'] }),
+                plusOne: countIf({ $eq: ['$plusOne', true] }),
+              },
+            },
+          ],
+          byCategory: byKey('$category'),
+          bySession: byKey('$session'),
+          byTable: byKey('$tableNo'),
+          byInvitation: [{ $group: bucketGroup({ $cond: ['$_invited', 'invited', 'walk_in'] }) }],
+        },
+      },
+    ])
+    .toArray()
+
+  const { _id, ...totalsRow } = facets?.totals?.[0] ?? {}
+  const base = { ...EMPTY_TOTALS, ...totalsRow } as GuestStatsTotals
+  const totals: GuestStatsTotals = {
+    ...base,
+    attendanceRate: base.guests > 0 ? Math.round((base.confirmed / base.guests) * 100) : 0,
+    checkInRate: base.confirmed > 0 ? Math.round((base.checkedIn / base.confirmed) * 100) : 0,
+  }
+
+  return {
+    totals,
+    byCategory: (facets?.byCategory ?? []).map(toBucket).sort((a: GuestStatsBucket, b: GuestStatsBucket) => b.guests - a.guests),
+    bySession: (facets?.bySession ?? []).map(toBucket).sort(naturalOrder),
+    byTable: (facets?.byTable ?? []).map(toBucket).sort(naturalOrder),
+    byInvitation: (facets?.byInvitation ?? []).map(toBucket),
+    arrivals: { date, timezone, bucketMinutes, buckets: await arrivalsHistogram(scope, { date, timezone, bucketMinutes }) },
+  }
+}
+
+const LIVE_KEYS: (keyof LiveStats)[] = ['checkedIn', 'pax', 'souvenirs', 'angpao', 'kado', 'walkIns']
+
+/** Contribution of one guest document to the live counters (null = no guest) */
+export function liveStatsOf(guest: Record<string, any> | null | undefined): LiveStats {
+  if (!guest) return { checkedIn: 0, pax: 0, souvenirs: 0, angpao: 0, kado: 0, walkIns: 0 }
+  const checked = guest.checkInDate != null
+  return {
+    checkedIn: checked ? 1 : 0,
+    pax: checked ? Number.parseInt(String(guest.guestCount)) || 1 : 0,
+    souvenirs: Number(guest.souvenirCount) || 0,
+    angpao: Number(guest.angpaoCount) || 0,
+    kado: Number(guest.kadoCount) || 0,
+    walkIns: guest.isInvited === false ? 1 : 0,
+  }
+}
+
+/** Changed counters between two versions of a guest; null when nothing changed */
+export function liveStatsDelta(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): Partial<LiveStats> | null {
+  const from = liveStatsOf(before)
+  const to = liveStatsOf(after)
+  const delta: Partial<LiveStats> = {}
+  for (const key of LIVE_KEYS) {
+    if (to[key] !== from[key]) delta[key] = to[key] - from[key]
+  }
+  return Object.keys(delta).length ? delta : null
+}
+
+/** liveStatsDelta of several guests changing at once, summed; null when nothing changed */
+export function liveStatsDeltaOf(
+  changes: [Record<string, any> | null | undefined, Record<string, any> | null | undefined][],
+): Partial<LiveStats> | null {
+  const delta: Partial<LiveStats> = {}
+  for (const [before, after] of changes) {
+    const change = liveStatsDelta(before, after)
+    for (const key of LIVE_KEYS) {
+      if (change?.[key]) delta[key] = (delta[key] ?? 0) + change[key]!
+    }
+  }
+  for (const key of LIVE_KEYS) if (delta[key] === 0) delete delta[key]
+  return Object.keys(delta).length ? delta : null
+}
+
+/** Current live counters of the guests matching scope */
+export async function liveStatsSnapshot(scope: Record<string, any>): Promise<LiveStats> {
+  const [row] = await db
+    .collection(GUESTS_COLLECTION)
+    .aggregate([
+      { $match: scope },
+      PER_GUEST,
+      PAX,
+      {
+        $group: {
+          _id: null,
+          checkedIn: countIf('$_checked'),
+          pax: { $sum: '$_pax' },
+          souvenirs: { $sum: '$_souvenirs' },
+          angpao: { $sum: '$_angpao' },
+          kado: { $sum: '$_kado' },
+          walkIns: countIf({ $not: ['$_invited'] }),
+        },
+      },
+    ])
+    .toArray()
+  const { _id, ...stats } = row ?? {}
+  return { ...liveStatsOf(null), ...(stats as Partial<LiveStats>) }
+}
@@ -0,0 +1,192 @@
+// src/server/utils/guest-trash.ts
+/**
+ * Guest trash
+ * Deleting a guest moves it, with its reminders and gift distributions, into
+ * 94884219_guest_trash instead of removing it. Every other guest query keeps
+ * reading 94884219_guests unchanged. Restore puts everything back under the
+ * original ids; rows purge themselves through a TTL index on expiresAt after
+ * GUEST_TRASH_RETENTION_DAYS (default 30). Check-in log rows of trashed
+ * guests carry trashedAt so the statistics leave them out.
+ */
+import { ObjectId, type Document, type WithId } from 'mongodb'
+import type { GuestTrashReason } from '@shared/types'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+import { accountCodeFormat, generateCode, isDuplicateKeyError } from './guest-codes.js'
+import { PARTIES_COLLECTION, parties } from './parties.js'
+import { checkIns } from './checkins.js'
+
+export const TRASH_COLLECTION = '94884219_guest_trash'
+const REMINDERS_COLLECTION = '94884219_reminders'
+const GIFT_DISTRIBUTIONS_COLLECTION = '94884219_gift_distributions'
+
+export const TRASH_RETENTION_DAYS = Number(process.env.GUEST_TRASH_RETENTION_DAYS) || 30
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+export type TrashDoc = {
+  _id: ObjectId // sama dengan _id tamu
+  accountId: string
+  guest: WithId<Document>
+  reminders: WithId<Document>[]
+  giftDistributions: WithId<Document>[]
+  reason: GuestTrashReason
+  deletedAt: Date
+  deletedBy: { id: string; username?: string } | null
+  expiresAt: Date
+}
+
+function trash() {
+  return db.collection<TrashDoc>(TRASH_COLLECTION)
+}
+
+/** Indexes, plus trashedAt on the check-in log of guests trashed before it existed */
+export async function ensureTrashIndexes() {
+  await trash().createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+  await trash().createIndex({ accountId: 1, deletedAt: -1 })
+
+  const trashedIds = (await trash().find({}, { projection: { _id: 1 } }).toArray()).map((row) => String(row._id))
+  if (!trashedIds.length) return
+  const marked = await checkIns().updateMany({ guestId: { $in: trashedIds }, trashedAt: null }, { $set: { trashedAt: new Date() } })
+  if (marked.modifiedCount) console.log(`[trash] marked ${marked.modifiedCount} check-ins of trashed guests`)
+}
+
+function groupByGuest(docs: WithId<Document>[]) {
+  const map = new Map<string, WithId<Document>[]>()
+  docs.forEach((d) => map.set(String(d.guestId), [...(map.get(String(d.guestId)) ?? []), d]))
+  return map
+}
+
+/**
+ * Move every guest matching filter (already account-scoped by the caller)
+ * to the trash. Returns the trashed guests and how many reminders and gift
+ * distributions went with them.
+ */
+export async function trashGuests(
+  filter: Record<string, any>,
+  opts: { reason: GuestTrashReason; deletedBy: { id: string; username?: string } | null },
+) {
+  const guests = await db.collection(GUESTS_COLLECTION).find(filter).toArray()
+  if (!guests.length) return { guests: [], reminders: 0, giftDistributions: 0 }
+
+  const byAccount = new Map<string, string[]>()
+  guests.forEach((g) => byAccount.set(String(g.accountId), [...(byAccount.get(String(g.accountId)) ?? []), String(g._id)]))
+
+  let reminderCount = 0
+  let giftCount = 0
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + TRASH_RETENTION_MS)
+
+  for (const [accountId, guestIds] of byAccount) {
+    const linked = { accountId, guestId: { $in: guestIds } }
+    const reminders = groupByGuest(await db.collection(REMINDERS_COLLECTION).find(linked).toArray())
+    const gifts = groupByGuest(await db.collection(GIFT_DISTRIBUTIONS_COLLECTION).find(linked).toArray())
+
+    // Tulis ke trash dulu; kalau proses berhenti di tengah, data tidak hilang
+    const rows: TrashDoc[] = guests
+      .filter((g) => String(g.accountId) === accountId)
+      .map((g) => ({
+        _id: g._id,
+        accountId,
+        guest: g,
+        reminders: reminders.get(String(g._id)) ?? [],
+        giftDistributions: gifts.get(String(g._id)) ?? [],
+        reason: opts.reason,
+        deletedAt: now,
+        deletedBy: opts.deletedBy,
+        expiresAt,
+      }))
+    await trash().bulkWrite(rows.map((row) => ({ replaceOne: { filter: { _id: row._id }, replacement: row, upsert: true } })))
+
+    reminderCount += (await db.collection(REMINDERS_COLLECTION).deleteMany(linked)).deletedCount ?? 0
+    giftCount += (await db.collection(GIFT_DISTRIBUTIONS_COLLECTION).deleteMany(linked)).deletedCount ?? 0
+    await checkIns().updateMany(linked, { $set: { trashedAt: now } })
+    await parties().updateMany(
+      { accountId, primaryGuestId: { $in: guestIds } },
+      { $set: { primaryGuestId: null, updatedAt: now } },
+    )
+  }
+
+  await db.collection(GUESTS_COLLECTION).deleteMany({ _id: { $in: guests.map((g) => g._id) } })
+  return { guests, reminders: reminderCount, giftDistributions: giftCount }
+}
+
+/** Trash rows of one account, newest first, without the stored documents */
+export function listTrash(accountId: string) {
+  return trash()
+    .find({ accountId })
+    .project({
+      accountId: 1,
+      reason: 1,
+      deletedAt: 1,
+      deletedBy: 1,
+      expiresAt: 1,
+      'guest.name': 1,
+      'guest.code': 1,
+      'guest.phone': 1,
+      'guest.category': 1,
+      'guest.status': 1,
+      'guest.isInvited': 1,
+      'guest.checkInDate': 1,
+      reminderCount: { $size: '$reminders' },
+      giftDistributionCount: { $size: '$giftDistributions' },
+    })
+    .sort({ deletedAt: -1, _id: -1 })
+    .toArray()
+}
+
+/**
+ * Put trashed guests back. A guest whose invitation code was taken in the
+ * meantime gets a new code; a party that no longer exists is dropped.
+ * Returns the restored guests.
+ */
+export async function restoreGuests(accountId: string, guestIds: string[]) {
+  const rows = await trash()
+    .find({ accountId, _id: { $in: guestIds.map((id) => new ObjectId(id)) } })
+    .toArray()
+  if (!rows.length) return []
+
+  const guestsCol = db.collection(GUESTS_COLLECTION)
+  const partyIds = new Set(
+    (await db.collection(PARTIES_COLLECTION).find({ accountId }, { projection: { _id: 1 } }).toArray()).map((p) => String(p._id)),
+  )
+  const format = await accountCodeFormat(accountId)
+  const restored: WithId<Document>[] = []
+
+  for (const row of rows) {
+    const guest: WithId<Document> = { ...row.guest, updatedAt: new Date() }
+    if (guest.partyId && !partyIds.has(String(guest.partyId))) guest.partyId = null
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await guestsCol.insertOne(guest)
+        break
+      } catch (error: unknown) {
+        if (!isDuplicateKeyError(error) || attempt >= 10) throw error
+        guest.code = generateCode(format)
+      }
+    }
+
+    if (row.reminders.length) await db.collection(REMINDERS_COLLECTION).insertMany(row.reminders)
+    if (row.giftDistributions.length) await db.collection(GIFT_DISTRIBUTIONS_COLLECTION).insertMany(row.giftDistributions)
+    await checkIns().updateMany({ accountId, guestId: String(row._id) }, { $unset: { trashedAt: '' } })
+    await trash().deleteOne({ _id: row._id })
+    restored.push(guest)
+  }
+  return restored
+}
+
+/**
+ * Permanently delete trash rows of one account (all of them without
+ * guestIds), with the check-in log of those guests. Rows the TTL index
+ * removes keep their log, still marked trashedAt.
+ */
+export async function purgeTrash(accountId: string, guestIds?: string[]) {
+  const filter: Record<string, any> = { accountId }
+  if (guestIds) filter._id = { $in: guestIds.map((id) => new ObjectId(id)) }
+  const purgedIds = (await trash().find(filter, { projection: { _id: 1 } }).toArray()).map((row) => String(row._id))
+  if (!purgedIds.length) return 0
+
+  const result = await trash().deleteMany({ accountId, _id: { $in: purgedIds.map((id) => new ObjectId(id)) } })
+  await checkIns().deleteMany({ accountId, guestId: { $in: purgedIds }, trashedAt: { $ne: null } })
+  return result.deletedCount ?? 0
+}
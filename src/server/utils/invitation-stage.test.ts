@@ -0,0 +1,88 @@
+// src/server/utils/invitation-stage.test.ts
+/**
+ * The invitation stage state machine: which moves are allowed, the Mongo
+ * condition moveInvitationStage guards its update with, and the stage a
+ * guest returns to when a check-in is cleared. No MongoDB needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { InvitationStage, InvitationTransition } from '@shared/types'
+import {
+  INVITATION_STAGES,
+  canTransition,
+  invitationStageOf,
+  stageBeforeCheckIn,
+  stagesLeadingTo,
+} from '../../shared/invitation-stage.js'
+import { stageCondition, stageForStatus } from './invitation-stage.js'
+
+const step = (stage: InvitationStage, from: InvitationStage | null): InvitationTransition => ({
+  stage,
+  from,
+  at: new Date('2025-06-14T12:00:00Z'),
+  source: 'manual',
+})
+
+test('stages move forward and may skip steps', () => {
+  assert.equal(canTransition('draft', 'scheduled'), true)
+  assert.equal(canTransition('sent', 'read'), true)
+  // Tamu bisa RSVP sebelum tanda terima WhatsApp datang
+  assert.equal(canTransition('sent', 'responded'), true)
+  assert.equal(canTransition('draft', 'checked_in'), true)
+})
+
+test('the only ways back are a cancelled schedule and a cleared check-in', () => {
+  assert.equal(canTransition('scheduled', 'draft'), true)
+  assert.equal(canTransition('sent', 'draft'), false)
+  assert.equal(canTransition('sent', 'scheduled'), false)
+  // Tanda terima "read" yang terlambat tidak menurunkan tamu yang sudah RSVP
+  assert.equal(canTransition('responded', 'read'), false)
+  assert.equal(canTransition('responded', 'draft'), false)
+
+  for (const stage of INVITATION_STAGES.filter((s) => s !== 'checked_in')) {
+    assert.equal(canTransition('checked_in', stage), true, `checked_in -> ${stage}`)
+  }
+})
+
+test('no stage transitions to itself', () => {
+  for (const stage of INVITATION_STAGES) assert.equal(canTransition(stage, stage), false, stage)
+})
+
+test('stagesLeadingTo lists the stages a move may start from', () => {
+  assert.deepEqual(stagesLeadingTo('responded'), ['draft', 'scheduled', 'sent', 'delivered', 'read', 'checked_in'])
+  assert.deepEqual(stagesLeadingTo('draft'), ['scheduled', 'checked_in'])
+  assert.deepEqual(stagesLeadingTo('scheduled'), ['draft', 'checked_in'])
+})
+
+test('stageCondition matches guests without a stage only when draft may move', () => {
+  assert.deepEqual(stageCondition(stagesLeadingTo('scheduled')), { $in: ['draft', 'checked_in', null] })
+  assert.deepEqual(stageCondition(stagesLeadingTo('draft')), { $in: ['scheduled', 'checked_in'] })
+})
+
+test('invitationStageOf treats legacy and unknown stages as draft', () => {
+  assert.equal(invitationStageOf({ invitationStage: 'read' }), 'read')
+  assert.equal(invitationStageOf({}), 'draft')
+  assert.equal(invitationStageOf({ invitationStage: null }), 'draft')
+  assert.equal(invitationStageOf({ invitationStage: 'archived' as InvitationStage }), 'draft')
+})
+
+test('clearing a check-in returns to the stage held before the latest check-in', () => {
+  const history = [step('sent', 'draft'), step('checked_in', 'sent'), step('sent', 'checked_in'), step('read', 'sent'), step('checked_in', 'read')]
+  assert.equal(stageBeforeCheckIn({ invitationStage: 'checked_in', invitationHistory: history }), 'read')
+})
+
+test('guests migrated as checked in fall back on their RSVP', () => {
+  const migrated = [{ ...step('checked_in', null), source: 'migration' as const }]
+  assert.equal(stageBeforeCheckIn({ invitationHistory: migrated, status: 'Confirmed' }), 'responded')
+  assert.equal(stageBeforeCheckIn({ invitationHistory: migrated, rsvpAt: new Date() }), 'responded')
+  assert.equal(stageBeforeCheckIn({ invitationHistory: migrated, status: 'Pending' }), 'draft')
+  // Riwayat rusak diabaikan, bukan melempar error
+  assert.equal(stageBeforeCheckIn({ invitationHistory: [null, { stage: 'bogus' }] as any, status: 'Declined' }), 'responded')
+})
+
+test('a hand-set RSVP status maps to responded, Pending back to draft', () => {
+  assert.equal(stageForStatus('Confirmed'), 'responded')
+  assert.equal(stageForStatus('Declined'), 'responded')
+  assert.equal(stageForStatus('Pending'), 'draft')
+  assert.equal(stageForStatus(undefined), 'draft')
+})
@@ -0,0 +1,97 @@
+// src/server/utils/invitation-stage.ts
+/**
+ * Invitation lifecycle writes
+ * Every stage change goes through moveInvitationStage(), which only touches
+ * guests whose current stage allows the move (shared/invitation-stage.ts)
+ * and appends { stage, from, at, source } to Guest.invitationHistory.
+ * Automatic sources (reminders, WhatsApp receipts, RSVP, check-in) simply
+ * skip guests for which the move is not valid.
+ */
+import type { Filter, Document } from 'mongodb'
+import type { InvitationStage, InvitationStageSource } from '@shared/types'
+import { stagesLeadingTo } from '../../shared/invitation-stage.js'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+
+/** Mongo condition on invitationStage; a missing stage counts as draft */
+export function stageCondition(stages: InvitationStage[]) {
+  return stages.includes('draft') ? { $in: [...stages, null] } : { $in: stages }
+}
+
+/** Stage a hand-set RSVP status leads to: Confirmed/Declined = responded, Pending = draft */
+export function stageForStatus(status: unknown): InvitationStage {
+  return status === 'Confirmed' || status === 'Declined' ? 'responded' : 'draft'
+}
+
+/** Move the guests matching filter to `to`; returns how many moved */
+export async function moveInvitationStage(
+  filter: Filter<Document>,
+  to: InvitationStage,
+  source: InvitationStageSource,
+  by: string | null = null,
+) {
+  const now = new Date()
+  const result = await db.collection(GUESTS_COLLECTION).updateMany(
+    { $and: [filter, { invitationStage: stageCondition(stagesLeadingTo(to)) }] },
+    [
+      {
+        $set: {
+          invitationStage: to,
+          invitationHistory: {
+            $concatArrays: [
+              { $ifNull: ['$invitationHistory', []] },
+              [{ stage: to, from: { $ifNull: ['$invitationStage', 'draft'] }, at: now, source, by }],
+            ],
+          },
+          updatedAt: now,
+        },
+      },
+    ],
+  )
+  return result.modifiedCount
+}
+
+/**
+ * One-off at startup: give guests without a stage the one their existing
+ * fields imply, and put back RSVP statuses the old reminder code overwrote
+ * with 'scheduled' / 'pending'.
+ */
+export async function migrateInvitationStages() {
+  const collection = db.collection(GUESTS_COLLECTION)
+
+  const fixed = await collection.updateMany(
+    { status: { $in: ['scheduled', 'pending'] } },
+    { $set: { status: 'Pending' } },
+  )
+  if (fixed.modifiedCount) console.log(`[invitation-stage] reset ${fixed.modifiedCount} reminder statuses to Pending`)
+
+  const now = new Date()
+  const stage = {
+    $switch: {
+      branches: [
+        { case: { $ne: [{ $ifNull: ['$checkInDate', null] }, null] }, then: 'checked_in' },
+        {
+          case: {
+            $or: [
+              { $in: ['$status', ['Confirmed', 'Declined']] },
+              { $ne: [{ $ifNull: ['$rsvpAt', null] }, null] },
+            ],
+          },
+          then: 'responded',
+        },
+        { case: { $ne: [{ $ifNull: ['$reminderSentAt', null] }, null] }, then: 'sent' },
+        { case: { $ne: [{ $ifNull: ['$reminderScheduledAt', null] }, null] }, then: 'scheduled' },
+      ],
+      default: 'draft',
+    },
+  }
+  const migrated = await collection.updateMany({ invitationStage: { $exists: false } }, [
+    { $set: { invitationStage: stage } },
+    {
+      $set: {
+        invitationHistory: [{ stage: '$invitationStage', from: null, at: now, source: 'migration', by: null }],
+      },
+    },
+  ])
+  if (migrated.modifiedCount) console.log(`[invitation-stage] set stage on ${migrated.modifiedCount} guests`)
+}
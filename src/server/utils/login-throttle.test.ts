@@ -0,0 +1,71 @@
+// src/server/utils/login-throttle.test.ts
+/**
+ * Login throttling decisions: the progressive delay after failures, the
+ * lockout, and which client IP the counters are keyed on. The counters are
+ * passed in directly, so no MongoDB is needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Hono } from 'hono'
+import { clientIp, loginBlock, usernameKey } from './login-throttle.js'
+
+const NOW = Date.parse('2025-06-14T12:00:00Z')
+const secondsAgo = (s: number) => new Date(NOW - s * 1000)
+const counter = (failures: number, lastFailureSecondsAgo: number, lockedUntil: Date | null = null) => ({
+  failures,
+  lastFailureAt: secondsAgo(lastFailureSecondsAgo),
+  lockedUntil,
+})
+
+test('no counters or a single failure never block', () => {
+  assert.equal(loginBlock([], NOW), null)
+  assert.equal(loginBlock([counter(1, 0)], NOW), null)
+})
+
+test('each further failure doubles the wait, capped at 30 seconds', () => {
+  // Gagal ke-2 menunggu 1 detik, ke-3 2 detik, ke-4 4 detik
+  assert.deepEqual(loginBlock([counter(2, 0)], NOW), { code: 'LOGIN_THROTTLED', retryAt: new Date(NOW + 1000) })
+  assert.deepEqual(loginBlock([counter(4, 1)], NOW), { code: 'LOGIN_THROTTLED', retryAt: new Date(NOW + 3000) })
+  assert.deepEqual(loginBlock([counter(12, 0)], NOW), { code: 'LOGIN_THROTTLED', retryAt: new Date(NOW + 30_000) })
+
+  assert.equal(loginBlock([counter(4, 4)], NOW), null)
+  assert.equal(loginBlock([counter(12, 30)], NOW), null)
+})
+
+test('a lock holds until it expires, then the counter starts over', () => {
+  const lockedUntil = new Date(NOW + 15 * 60 * 1000)
+  assert.deepEqual(loginBlock([counter(0, 0, lockedUntil)], NOW), { code: 'LOGIN_LOCKED', retryAt: lockedUntil })
+  // bump() mengosongkan failures saat mengunci, jadi setelah lock habis login langsung boleh
+  assert.equal(loginBlock([counter(0, 15 * 60, secondsAgo(1))], NOW), null)
+})
+
+test('the username and IP counters are both checked, the later block wins', () => {
+  const lockedUntil = new Date(NOW + 60_000)
+  assert.deepEqual(loginBlock([counter(12, 0), counter(0, 0, lockedUntil)], NOW), { code: 'LOGIN_LOCKED', retryAt: lockedUntil })
+  assert.deepEqual(loginBlock([counter(0, 0, new Date(NOW + 5000)), counter(12, 0)], NOW), {
+    code: 'LOGIN_THROTTLED',
+    retryAt: new Date(NOW + 30_000),
+  })
+})
+
+test('usernames are counted case- and whitespace-insensitively', () => {
+  assert.equal(usernameKey('  Admin '), 'admin')
+  assert.equal(usernameKey('ADMIN'), usernameKey('admin'))
+})
+
+test('X-Real-IP is only trusted behind the proxy', async () => {
+  const app = new Hono()
+  app.get('/', (c) => c.text(clientIp(c)))
+  const ip = async () => (await app.request('/', { headers: { 'X-Real-IP': '203.0.113.7' } })).text()
+
+  const trustProxy = process.env.TRUST_PROXY
+  try {
+    delete process.env.TRUST_PROXY
+    assert.equal(await ip(), 'unknown')
+    process.env.TRUST_PROXY = '1'
+    assert.equal(await ip(), '203.0.113.7')
+  } finally {
+    if (trustProxy === undefined) delete process.env.TRUST_PROXY
+    else process.env.TRUST_PROXY = trustProxy
+  }
+})
@@ -0,0 +1,147 @@
+// src/server/utils/login-throttle.ts
+/**
+ * Login throttling
+ * Failed logins are counted per username and per client IP in
+ * 94884219_login_attempts, so counters survive restarts. Each failure makes
+ * the next attempt wait longer (progressive delay); MAX failures lock the key
+ * for LOCKOUT minutes. A successful login clears the username counter.
+ */
+import { getConnInfo } from '@hono/node-server/conninfo'
+import type { Context } from 'hono'
+import { db } from '../db.js'
+
+const ATTEMPTS_COLLECTION = '94884219_login_attempts'
+
+const USER_MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5
+const IP_MAX_FAILURES = Number(process.env.LOGIN_IP_MAX_FAILURES) || 20
+const LOCKOUT_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000
+// Counter dilupakan setelah WINDOW tanpa kegagalan baru
+const WINDOW_MS = (Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES) || 15) * 60 * 1000
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30 * 1000
+
+type AttemptKind = 'user' | 'ip'
+
+type AttemptDoc = {
+  _id: string
+  kind: AttemptKind
+  key: string
+  failures: number
+  lastFailureAt: Date
+  lockedUntil: Date | null
+  expiresAt: Date
+}
+
+export type LoginBlock = {
+  code: 'LOGIN_LOCKED' | 'LOGIN_THROTTLED'
+  retryAt: Date
+}
+
+function attempts() {
+  return db.collection<AttemptDoc>(ATTEMPTS_COLLECTION)
+}
+
+function docId(kind: AttemptKind, key: string) {
+  return `${kind}:${key}`
+}
+
+export function usernameKey(username: string) {
+  return username.trim().toLowerCase()
+}
+
+/**
+ * Client IP. X-Real-IP is only trusted behind our own nginx (TRUST_PROXY=1).
+ */
+export function clientIp(c: Context): string {
+  if (process.env.TRUST_PROXY === '1') {
+    const real = c.req.header('x-real-ip')
+    if (real) return real.trim()
+  }
+  try {
+    return getConnInfo(c).remote.address ?? 'unknown'
+  } catch {
+    return 'unknown'
+  }
+}
+
+/** Wait before the next attempt: 0 after the first failure, then 1s, 2s, 4s … capped */
+function delayAfter(failures: number) {
+  if (failures < 2) return 0
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - 2), MAX_DELAY_MS)
+}
+
+export async function ensureLoginAttemptIndexes() {
+  await attempts().createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+}
+
+/**
+ * Null when the attempt may proceed; otherwise why it is blocked and until when.
+ */
+export async function checkLoginAllowed(username: string, ip: string): Promise<LoginBlock | null> {
+  const docs = await attempts()
+    .find({ _id: { $in: [docId('user', usernameKey(username)), docId('ip', ip)] } })
+    .toArray()
+  return loginBlock(docs)
+}
+
+/**
+ * The block the attempt counters impose at `now`; the later one wins when
+ * both the username and the IP are blocked.
+ */
+export function loginBlock(
+  docs: Pick<AttemptDoc, 'failures' | 'lastFailureAt' | 'lockedUntil'>[],
+  now = Date.now(),
+): LoginBlock | null {
+  let block: LoginBlock | null = null
+  for (const d of docs) {
+    let candidate: LoginBlock | null = null
+    if (d.lockedUntil && d.lockedUntil.getTime() > now) {
+      candidate = { code: 'LOGIN_LOCKED', retryAt: d.lockedUntil }
+    } else {
+      const nextAt = d.lastFailureAt.getTime() + delayAfter(d.failures)
+      if (nextAt > now) candidate = { code: 'LOGIN_THROTTLED', retryAt: new Date(nextAt) }
+    }
+    if (candidate && (!block || candidate.retryAt > block.retryAt)) block = candidate
+  }
+  return block
+}
+
+async function bump(kind: AttemptKind, key: string, maxFailures: number) {
+  const now = new Date()
+  const res = await attempts().findOneAndUpdate(
+    { _id: docId(kind, key) },
+    {
+      $inc: { failures: 1 },
+      $set: { kind, key, lastFailureAt: now, expiresAt: new Date(now.getTime() + WINDOW_MS + LOCKOUT_MS) },
+      $setOnInsert: { lockedUntil: null },
+    },
+    { upsert: true, returnDocument: 'after' },
+  )
+  const doc = ((res && (res as any).value) || res) as AttemptDoc | null
+  if (doc && doc.failures >= maxFailures) {
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_MS)
+    // Lock berikutnya mulai dari 0 lagi setelah masa lock habis
+    await attempts().updateOne({ _id: doc._id }, { $set: { lockedUntil, failures: 0 } })
+    console.warn(`[auth] Login locked for ${kind} ${key} until ${lockedUntil.toISOString()}`)
+  }
+}
+
+export async function recordLoginFailure(username: string, ip: string) {
+  await bump('user', usernameKey(username), USER_MAX_FAILURES)
+  await bump('ip', ip, IP_MAX_FAILURES)
+}
+
+export async function clearLoginFailures(username: string) {
+  await attempts().deleteOne({ _id: docId('user', usernameKey(username)) })
+}
+
+/**
+ * Lock state for the admin user list.
+ */
+export async function getLockedUsernames(usernames: string[]): Promise<Map<string, Date>> {
+  const now = new Date()
+  const docs = await attempts()
+    .find({ _id: { $in: usernames.map((u) => docId('user', usernameKey(u))) }, lockedUntil: { $gt: now } })
+    .toArray()
+  return new Map(docs.map((d) => [d.key, d.lockedUntil as Date]))
+}
@@ -0,0 +1,75 @@
+// src/server/utils/parties.ts
+/**
+ * Households / invitation parties
+ * A party groups guests that are invited as one unit. Members point to it
+ * with guests.partyId; the party carries the shared invitation code, the
+ * seat allowance and the primary contact that receives reminders.
+ */
+import { ObjectId, type WithId, type Document } from 'mongodb'
+import type { Party, PartySummary } from '@shared/types'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION } from './guest-query.js'
+import { DEFAULT_CODE_FORMAT, generateCode } from './guest-codes.js'
+
+export const PARTIES_COLLECTION = '94884219_parties'
+
+export type PartyDoc = Omit<Party, '_id'> & { _id: ObjectId }
+
+export function parties() {
+  return db.collection<PartyDoc>(PARTIES_COLLECTION)
+}
+
+export async function ensurePartyIndexes() {
+  await parties().createIndex({ accountId: 1, code: 1 }, { unique: true })
+  await parties().createIndex({ accountId: 1, name: 1 })
+  await db.collection(GUESTS_COLLECTION).createIndex({ accountId: 1, partyId: 1 })
+}
+
+export function generatePartyCode(): string {
+  return generateCode({ ...DEFAULT_CODE_FORMAT, prefix: 'PARTY-' })
+}
+
+export function normalizePartyCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+/** Members of a party, oldest first */
+export function partyMembers(party: Pick<PartyDoc, '_id' | 'accountId'>) {
+  return db
+    .collection(GUESTS_COLLECTION)
+    .find({ accountId: party.accountId, partyId: String(party._id) })
+    .sort({ createdAt: 1, _id: 1 })
+    .toArray()
+}
+
+/** Party document plus member / check-in counts */
+export function summarizeParty(party: PartyDoc, members: WithId<Document>[]): PartySummary {
+  const checkedIn = members.filter((m) => m.checkInDate)
+  return {
+    ...party,
+    _id: String(party._id),
+    memberCount: members.length,
+    checkedInCount: checkedIn.length,
+    seatsUsed: checkedIn.reduce((sum, m) => sum + (Number(m.guestCount) || 1), 0),
+  }
+}
+
+/**
+ * Who receives a reminder meant for guest: the party's primary contact
+ * (or its first member with a phone number) when the guest belongs to a
+ * party, the guest itself otherwise.
+ */
+export async function resolveReminderRecipient(guest: WithId<Document>) {
+  if (!guest.partyId || !ObjectId.isValid(String(guest.partyId))) {
+    return { recipient: guest, party: null as PartyDoc | null, members: [guest] }
+  }
+  const party = await parties().findOne({ _id: new ObjectId(String(guest.partyId)), accountId: guest.accountId })
+  if (!party) return { recipient: guest, party: null as PartyDoc | null, members: [guest] }
+
+  const members = await partyMembers(party)
+  const recipient =
+    members.find((m) => String(m._id) === party.primaryGuestId) ??
+    members.find((m) => m.phone) ??
+    guest
+  return { recipient, party, members }
+}
@@ -0,0 +1,63 @@
+// src/server/utils/password.test.ts
+/**
+ * scrypt password hashes and the rehash decision made at login: legacy
+ * plaintext rows and hashes with outdated parameters get replaced, but only
+ * after the password verified.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomBytes, scryptSync } from 'node:crypto'
+import { hashPassword, isPasswordHash, legacyPlaintextMatches, verifyPassword, verifyStoredPassword } from './password.js'
+
+// Hash lama dengan N lebih kecil dari DEFAULT_PARAMS
+function oldHash(password: string) {
+  const salt = randomBytes(16)
+  const key = scryptSync(password, salt, 64, { N: 1024, r: 8, p: 1 })
+  return ['scrypt', 1024, 8, 1, salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+test('hashPassword salts every hash and verifies only the right password', async () => {
+  const hash = await hashPassword('rahasia-123')
+  assert.ok(isPasswordHash(hash))
+  assert.match(hash, /^scrypt\$16384\$8\$1\$/)
+  assert.notEqual(await hashPassword('rahasia-123'), hash)
+
+  assert.deepEqual(await verifyPassword('rahasia-123', hash), { ok: true, needsRehash: false })
+  assert.deepEqual(await verifyPassword('rahasia-124', hash), { ok: false, needsRehash: false })
+  assert.deepEqual(await verifyPassword('rahasia-123', 'rahasia-123'), { ok: false, needsRehash: false })
+})
+
+test('a current hash is not rehashed', async () => {
+  const hash = await hashPassword('rahasia-123')
+  assert.deepEqual(await verifyStoredPassword('rahasia-123', hash), { ok: true, rehash: null })
+  assert.deepEqual(await verifyStoredPassword('salah', hash), { ok: false, rehash: null })
+})
+
+test('a hash with outdated parameters is rehashed after a successful login', async () => {
+  const stored = oldHash('rahasia-123')
+  assert.deepEqual(await verifyPassword('rahasia-123', stored), { ok: true, needsRehash: true })
+
+  const { ok, rehash } = await verifyStoredPassword('rahasia-123', stored)
+  assert.equal(ok, true)
+  assert.ok(rehash && rehash !== stored)
+  assert.deepEqual(await verifyPassword('rahasia-123', rehash), { ok: true, needsRehash: false })
+
+  // Password salah tidak boleh memicu penulisan hash baru
+  assert.deepEqual(await verifyStoredPassword('salah', stored), { ok: false, rehash: null })
+})
+
+test('a legacy plaintext password is hashed on its first successful login', async () => {
+  assert.equal(legacyPlaintextMatches('rahasia-123', 'rahasia-123'), true)
+  assert.equal(legacyPlaintextMatches('rahasia-12', 'rahasia-123'), false)
+
+  const { ok, rehash } = await verifyStoredPassword('rahasia-123', 'rahasia-123')
+  assert.equal(ok, true)
+  assert.ok(isPasswordHash(rehash))
+  assert.equal((await verifyPassword('rahasia-123', rehash)).ok, true)
+
+  assert.deepEqual(await verifyStoredPassword('salah', 'rahasia-123'), { ok: false, rehash: null })
+  assert.deepEqual(await verifyStoredPassword('rahasia-123', undefined), { ok: false, rehash: null })
+  // Nilai yang berbentuk hash tidak pernah dibandingkan sebagai plaintext
+  const hash = await hashPassword('x')
+  assert.equal(legacyPlaintextMatches(hash, hash), false)
+})
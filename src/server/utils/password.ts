@@ -0,0 +1,79 @@
+// src/server/utils/password.ts
+/**
+ * Password hashing (scrypt, node:crypto)
+ * Stored format: scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>
+ */
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto'
+
+const KEY_LEN = 64
+const DEFAULT_PARAMS = { N: 16384, r: 8, p: 1 }
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, opts: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keylen, { ...opts, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key),
+    )
+  })
+}
+
+export function isPasswordHash(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('scrypt$') && value.split('$').length === 6
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = DEFAULT_PARAMS
+  const salt = randomBytes(16)
+  const key = await scryptAsync(password, salt, KEY_LEN, { N, r, p })
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+/**
+ * Verify against a stored hash. needsRehash is true when the hash was made
+ * with older parameters than DEFAULT_PARAMS.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<{ ok: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) return { ok: false, needsRehash: false }
+
+  const [, nStr, rStr, pStr, saltB64, keyB64] = stored.split('$')
+  const N = Number(nStr)
+  const r = Number(rStr)
+  const p = Number(pStr)
+  const expected = Buffer.from(keyB64, 'base64')
+
+  const key = await scryptAsync(password, Buffer.from(saltB64, 'base64'), expected.length, { N, r, p })
+  const ok = key.length === expected.length && timingSafeEqual(key, expected)
+  const needsRehash = N !== DEFAULT_PARAMS.N || r !== DEFAULT_PARAMS.r || p !== DEFAULT_PARAMS.p
+  return { ok, needsRehash }
+}
+
+/**
+ * Constant-time compare for legacy plaintext rows that predate hashing.
+ */
+export function legacyPlaintextMatches(password: string, stored: unknown): boolean {
+  if (typeof stored !== 'string' || isPasswordHash(stored)) return false
+  const a = Buffer.from(password)
+  const b = Buffer.from(stored)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Verify a login attempt against whatever is stored in user.password.
+ * `rehash` is set when the stored value should be replaced: legacy plaintext
+ * that just verified, or a hash with outdated parameters.
+ */
+export async function verifyStoredPassword(
+  password: string,
+  stored: unknown,
+): Promise<{ ok: boolean; rehash: string | null }> {
+  if (isPasswordHash(stored)) {
+    const { ok, needsRehash } = await verifyPassword(password, stored)
+    return { ok, rehash: ok && needsRehash ? await hashPassword(password) : null }
+  }
+  if (legacyPlaintextMatches(password, stored)) {
+    return { ok: true, rehash: await hashPassword(password) }
+  }
+  return { ok: false, rehash: null }
+}
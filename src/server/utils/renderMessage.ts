@@ -1,6 +1,8 @@
 // src/server/utils/renderMessage.ts
 import { ObjectId } from 'mongodb'
 import { db } from '../db.js'
+import { rsvpLink } from './rsvp.js'
+import { applyCustomFieldPlaceholders } from '../../shared/custom-fields.js'
 
 const isHexId = (v: any) => typeof v === 'string' && /^[0-9a-fA-F]{24}$/.test(v)
 const toOid = (v: any) => (v instanceof ObjectId ? v : isHexId(v) ? new ObjectId(v) : null)
@@ -44,8 +46,12 @@ export async function renderMessage(template: string, reminder: any): Promise<st
 
     const invitationLink = `${linkUndangan}/?${params.toString()}`;
 
-    return template
+    // [kota], [hotel], ... dari field custom akun
+    const withCustomFields = applyCustomFieldPlaceholders(template, account?.customFields, guest?.customFields)
+
+    return withCustomFields
         .replace(/\[nama\]/gi, guestName)
         .replace(/\[mempelai\]/gi, mempelai)
         .replace(/\[link-undangan\]/gi, invitationLink)
+        .replace(/\[link-rsvp\]/gi, guest ? rsvpLink(guest) : '')
 }
@@ -0,0 +1,71 @@
+// src/server/utils/rsvp.ts
+/**
+ * Public RSVP links
+ * Each guest gets a token = guestId + '.' + HMAC-SHA256(guestId:code). The
+ * link /rsvp/:code?t=<token> lets the guest answer without logging in; the
+ * signature stops anyone from walking the code space, and a new code (or a
+ * new RSVP_SECRET) invalidates every old link.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { parseGuestLimit } from '../../shared/guest-limit.js'
+
+const RSVP_SECRET = (() => {
+  const fromEnv = process.env.RSVP_SECRET || process.env.SESSION_SECRET
+  if (fromEnv && fromEnv.length >= 32) return fromEnv
+  console.warn('[rsvp] RSVP_SECRET missing or shorter than 32 chars; RSVP links stop working after a restart')
+  return randomBytes(48).toString('hex')
+})()
+
+// Basis URL aplikasi untuk [link-rsvp] di pesan WhatsApp, mis. https://tamu.attari.id
+const RSVP_BASE_URL = (process.env.RSVP_BASE_URL || '').replace(/\/+$/, '')
+
+export const RSVP_NOTE_MAX = 500
+
+function sign(guestId: string, code: string): string {
+  return createHmac('sha256', RSVP_SECRET).update(`${guestId}:${code}`).digest('base64url').slice(0, 32)
+}
+
+export function rsvpToken(guest: { _id: unknown; code?: string | null }): string | null {
+  if (!guest.code) return null
+  const id = String(guest._id)
+  return `${id}.${sign(id, guest.code)}`
+}
+
+/**
+ * Guest id the token was issued for, or null when the token does not
+ * belong to code.
+ */
+export function verifyRsvpToken(code: string, token: string | undefined | null): string | null {
+  if (!token) return null
+  const [id, sig] = token.split('.')
+  if (!id || !sig || !/^[0-9a-fA-F]{24}$/.test(id)) return null
+  const expected = Buffer.from(sign(id, code))
+  const given = Buffer.from(sig)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+  return id
+}
+
+/** Hash-router path of the public RSVP page */
+export function rsvpPath(guest: { _id: unknown; code?: string | null }): string | null {
+  const token = rsvpToken(guest)
+  if (!token || !guest.code) return null
+  return `/#/rsvp/${encodeURIComponent(guest.code)}?t=${encodeURIComponent(token)}`
+}
+
+/** Absolute RSVP link, empty when RSVP_BASE_URL is not configured */
+export function rsvpLink(guest: { _id: unknown; code?: string | null }): string {
+  const path = rsvpPath(guest)
+  return RSVP_BASE_URL && path ? `${RSVP_BASE_URL}${path}` : ''
+}
+
+/** True once the account's RSVP deadline has passed */
+export function isRsvpClosed(account: Record<string, any> | null, now = new Date()) {
+  if (!account?.rsvpDeadline) return false
+  const deadline = new Date(account.rsvpDeadline)
+  return !Number.isNaN(deadline.getTime()) && now > deadline
+}
+
+/** Most people the guest may RSVP for (Guest.limit, 1 when unset) */
+export function rsvpMaxHeadcount(guest: Record<string, any>): number {
+  return parseGuestLimit(guest.limit) ?? 1
+}
@@ -0,0 +1,121 @@
+// src/server/utils/segments.ts
+/**
+ * Guest tags and saved segments
+ * Tags are free-form labels on guests, stored normalized ("Keluarga Ayah"
+ * -> "keluarga-ayah"). A segment is a named filter over tags, category,
+ * status, session, table, invited/walk-in, check-in and gift/souvenir
+ * state; every condition must hold. Segments are resolved to a Mongo filter
+ * with segmentGuestFilter() wherever an audience is needed: GET
+ * /api/guests?segment=, reminder campaigns and doorprize eligibility.
+ */
+import { ObjectId } from 'mongodb'
+import { z } from 'zod'
+import type { GuestSegment, SegmentFilter } from '@shared/types'
+import { db } from '../db.js'
+import { GUESTS_COLLECTION, buildGuestFilter } from './guest-query.js'
+
+export const SEGMENTS_COLLECTION = '94884219_segments'
+
+export type SegmentDoc = Omit<GuestSegment, '_id'> & { _id: ObjectId }
+
+export function segments() {
+  return db.collection<SegmentDoc>(SEGMENTS_COLLECTION)
+}
+
+export async function ensureSegmentIndexes() {
+  await segments().createIndex({ accountId: 1, name: 1 }, { unique: true })
+  await db.collection(GUESTS_COLLECTION).createIndex({ accountId: 1, tags: 1 })
+}
+
+export function normalizeTag(tag: string) {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .replace(/-+/g, '-')
+    .slice(0, 40)
+}
+
+export const tagsSchema = z
+  .array(z.string().max(60))
+  .max(50)
+  .transform((tags) => Array.from(new Set(tags.map(normalizeTag).filter(Boolean))))
+
+const valueList = z.array(z.string().trim().min(1).max(100)).max(100)
+
+export const segmentFilterSchema = z
+  .object({
+    tagsAny: tagsSchema,
+    tagsAll: tagsSchema,
+    tagsNone: tagsSchema,
+    category: valueList,
+    session: valueList,
+    tableNo: valueList,
+    status: z.array(z.enum(['Pending', 'Confirmed', 'Declined', 'Checked-In'])),
+    isInvited: z.boolean(),
+    checkedIn: z.boolean(),
+    hasSouvenir: z.boolean(),
+    hasGift: z.boolean(),
+  })
+  .partial()
+
+/** Mongo filter (without account scope) for a segment filter */
+export function segmentToMongo(filter: SegmentFilter): Record<string, any> {
+  const base = buildGuestFilter({
+    category: filter.category,
+    session: filter.session,
+    tableNo: filter.tableNo,
+    status: filter.status,
+    isInvited: filter.isInvited,
+    checkedIn: filter.checkedIn,
+    hasSouvenir: filter.hasSouvenir,
+    hasGift: filter.hasGift,
+  })
+  const and: Record<string, any>[] = base.$and ?? []
+  if (filter.tagsAny?.length) and.push({ tags: { $in: filter.tagsAny } })
+  if (filter.tagsAll?.length) and.push({ tags: { $all: filter.tagsAll } })
+  if (filter.tagsNone?.length) and.push({ tags: { $nin: filter.tagsNone } })
+  return and.length ? { $and: and } : {}
+}
+
+export async function findSegment(accountId: string, segmentId: string) {
+  if (!ObjectId.isValid(segmentId)) return null
+  return segments().findOne({ _id: new ObjectId(segmentId), accountId })
+}
+
+/**
+ * Account-scoped guest filter for a saved segment, or null when the segment
+ * does not exist in the account.
+ */
+export async function segmentGuestFilter(accountId: string, segmentId: string) {
+  const segment = await findSegment(accountId, segmentId)
+  if (!segment) return null
+  return { accountId, ...segmentToMongo(segment.filter) }
+}
+
+/**
+ * query narrowed to the guests of a saved segment, or null when the segment
+ * does not exist in the account. Used for ?segment= on list-style filters.
+ */
+export async function withSegment(query: Record<string, any>, accountId: string, segmentId: string) {
+  const segment = await findSegment(accountId, segmentId)
+  if (!segment) return null
+  const extra = segmentToMongo(segment.filter)
+  if (!extra.$and) return { ...query }
+  return { ...query, $and: [...(query.$and ?? []), ...extra.$and] }
+}
+
+/** Tags in use in the account with how many guests carry each */
+export function accountTags(accountId: string) {
+  return db
+    .collection(GUESTS_COLLECTION)
+    .aggregate<{ tag: string; count: number }>([
+      { $match: { accountId, tags: { $exists: true, $ne: [] } } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, tag: '$_id', count: 1 } },
+    ])
+    .toArray()
+}
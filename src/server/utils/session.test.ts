@@ -0,0 +1,70 @@
+// src/server/utils/session.test.ts
+/**
+ * Session and 2FA challenge tokens: the HMAC has to match before anything in
+ * the payload is trusted. Every case here is rejected before the sessions
+ * collection is read, so no MongoDB is needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createHmac } from 'node:crypto'
+import { Hono } from 'hono'
+
+// Secret harus ada sebelum modul dimuat, jadi impor dinamis
+const SECRET = 'test-session-secret-0123456789abcdef0123456789'
+process.env.SESSION_SECRET = SECRET
+const { issueLoginChallenge, readToken, verifyLoginChallenge, verifySessionToken } = await import('./session.js')
+
+function forge(payload: object, secret = SECRET) {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${body}.${createHmac('sha256', secret).update(body).digest('base64url')}`
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600
+const flipLast = (token: string) => token.replace(/.$/, (ch) => (ch === 'A' ? 'B' : 'A'))
+
+test('a login challenge verifies and names its user', () => {
+  const { token, expiresAt } = issueLoginChallenge('user-1')
+  assert.equal(verifyLoginChallenge(token), 'user-1')
+  assert.ok(expiresAt.getTime() > Date.now())
+})
+
+test('a tampered or foreign-signed challenge is rejected', () => {
+  const { token } = issueLoginChallenge('user-1')
+  const [body, sig] = token.split('.')
+
+  const otherUser = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), sub: 'user-2' }))
+  assert.equal(verifyLoginChallenge(`${otherUser.toString('base64url')}.${sig}`), null)
+  assert.equal(verifyLoginChallenge(flipLast(token)), null)
+  assert.equal(verifyLoginChallenge(forge({ sub: 'user-1', purpose: '2fa', exp: inAnHour() }, 'another-secret')), null)
+  assert.equal(verifyLoginChallenge(body), null)
+})
+
+test('a challenge must be unexpired and for 2fa', () => {
+  assert.equal(verifyLoginChallenge(forge({ sub: 'user-1', purpose: '2fa', exp: inAnHour() })), 'user-1')
+  assert.equal(verifyLoginChallenge(forge({ sub: 'user-1', purpose: '2fa', exp: Math.floor(Date.now() / 1000) - 1 })), null)
+  assert.equal(verifyLoginChallenge(forge({ sub: 'user-1', purpose: 'session', exp: inAnHour() })), null)
+})
+
+test('session tokens with a bad signature, no session id or a past expiry never reach the database', async () => {
+  const live = { sid: 'sid-1', sub: 'user-1', exp: inAnHour() }
+
+  assert.equal(await verifySessionToken(forge(live, 'another-secret')), null)
+  assert.equal(await verifySessionToken(flipLast(forge(live))), null)
+  assert.equal(await verifySessionToken('garbage'), null)
+  assert.equal(await verifySessionToken(forge({ ...live, exp: Math.floor(Date.now() / 1000) - 1 })), null)
+  // Challenge 2FA tidak punya sid, jadi tidak bisa dipakai sebagai sesi
+  assert.equal(await verifySessionToken(issueLoginChallenge('user-1').token), null)
+})
+
+test('readToken takes the bearer header, and ?access_token= only on WebSocket upgrades', async () => {
+  const app = new Hono()
+  app.get('/', (c) => c.json({ token: readToken(c) }))
+
+  const read = async (path: string, headers: Record<string, string> = {}) =>
+    ((await (await app.request(path, { headers })).json()) as { token: string | null }).token
+
+  assert.equal(await read('/', { Authorization: 'Bearer abc.def' }), 'abc.def')
+  assert.equal(await read('/', { Authorization: 'Basic abc' }), null)
+  assert.equal(await read('/?access_token=abc.def'), null)
+  assert.equal(await read('/?access_token=abc.def', { Upgrade: 'websocket' }), 'abc.def')
+})
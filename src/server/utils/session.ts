@@ -0,0 +1,167 @@
+// src/server/utils/session.ts
+/**
+ * Signed session tokens
+ * Token = base64url(payload) + '.' + base64url(HMAC-SHA256(payload)).
+ * Every token is backed by a row in 94884219_sessions so logout (or an admin
+ * deleting the user) can revoke it before it expires.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import type { Context } from 'hono'
+import { db } from '../db.js'
+
+const SESSIONS_COLLECTION = '94884219_sessions'
+
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000
+
+const SESSION_SECRET = (() => {
+  const fromEnv = process.env.SESSION_SECRET
+  if (fromEnv && fromEnv.length >= 32) return fromEnv
+  console.warn('[session] SESSION_SECRET missing or shorter than 32 chars; using a random per-process secret')
+  return randomBytes(48).toString('hex')
+})()
+
+type TokenPayload = { sid: string; sub: string; exp: number }
+
+export type SessionDoc = {
+  _id: string
+  userId: string
+  accountId?: string
+  createdAt: Date
+  expiresAt: Date
+  revokedAt: Date | null
+  userAgent?: string
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', SESSION_SECRET).update(data).digest('base64url')
+}
+
+function sessions() {
+  return db.collection<SessionDoc>(SESSIONS_COLLECTION)
+}
+
+/** Index for the session lookups + TTL cleanup of expired rows */
+export async function ensureSessionIndexes() {
+  await sessions().createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+  await sessions().createIndex({ userId: 1 })
+}
+
+/**
+ * Create a session row and return its signed bearer token.
+ */
+export async function issueSessionToken(opts: {
+  userId: string
+  accountId?: string
+  userAgent?: string
+  ttlMs?: number
+}): Promise<{ token: string; expiresAt: Date }> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + (opts.ttlMs ?? SESSION_TTL_MS))
+  const sid = randomBytes(24).toString('base64url')
+
+  await sessions().insertOne({
+    _id: sid,
+    userId: opts.userId,
+    accountId: opts.accountId,
+    createdAt: now,
+    expiresAt,
+    revokedAt: null,
+    userAgent: opts.userAgent,
+  })
+
+  const payload: TokenPayload = { sid, sub: opts.userId, exp: Math.floor(expiresAt.getTime() / 1000) }
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return { token: `${body}.${sign(body)}`, expiresAt }
+}
+
+/**
+ * Check signature, expiry and the server-side session row.
+ * Returns null for anything that is not a live session.
+ */
+export async function verifySessionToken(token: string): Promise<{ sessionId: string; userId: string } | null> {
+  const [body, sig] = token.split('.')
+  if (!body || !sig) return null
+
+  const expected = Buffer.from(sign(body))
+  const given = Buffer.from(sig)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+
+  let payload: TokenPayload
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+  if (!payload?.sid || !payload?.sub || !payload?.exp) return null
+  if (payload.exp * 1000 <= Date.now()) return null
+
+  const session = await sessions().findOne({
+    _id: payload.sid,
+    userId: payload.sub,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  })
+  if (!session) return null
+
+  return { sessionId: session._id, userId: session.userId }
+}
+
+export async function revokeSession(sessionId: string) {
+  await sessions().updateOne({ _id: sessionId, revokedAt: null }, { $set: { revokedAt: new Date() } })
+}
+
+export async function revokeUserSessions(userId: string, exceptSessionId?: string) {
+  const filter: Record<string, unknown> = { userId, revokedAt: null }
+  if (exceptSessionId) filter._id = { $ne: exceptSessionId }
+  const res = await sessions().updateMany(filter, { $set: { revokedAt: new Date() } })
+  return res.modifiedCount
+}
+
+type ChallengePayload = { sub: string; purpose: '2fa'; exp: number }
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Short-lived, stateless token proving the password step of a 2FA login
+ * passed. It carries no sid, so verifySessionToken never accepts it.
+ */
+export function issueLoginChallenge(userId: string): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS)
+  const payload: ChallengePayload = { sub: userId, purpose: '2fa', exp: Math.floor(expiresAt.getTime() / 1000) }
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return { token: `${body}.${sign(body)}`, expiresAt }
+}
+
+/** userId of a valid, unexpired login challenge; null otherwise */
+export function verifyLoginChallenge(token: string): string | null {
+  const [body, sig] = token.split('.')
+  if (!body || !sig) return null
+
+  const expected = Buffer.from(sign(body))
+  const given = Buffer.from(sig)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as ChallengePayload
+    if (payload?.purpose !== '2fa' || !payload.sub || !payload.exp) return null
+    if (payload.exp * 1000 <= Date.now()) return null
+    return payload.sub
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Bearer token from the Authorization header; WebSocket upgrades cannot set
+ * headers from the browser, so they pass it as ?access_token= instead.
+ */
+export function readToken(c: Context): string | null {
+  const authHeader = c.req.header('Authorization')
+  if (authHeader && authHeader.startsWith('Bearer ')) return authHeader.substring(7)
+
+  const upgrade = c.req.header('upgrade')
+  if (upgrade && upgrade.toLowerCase() === 'websocket') {
+    return c.req.query('access_token') ?? null
+  }
+  return null
+}
@@ -0,0 +1,97 @@
+// src/server/utils/stations.ts
+/**
+ * Reception stations
+ * Event-day tablets sign in with a station code + PIN instead of a user
+ * account. Their sessions use userId "station:<id>"; the root middleware
+ * resolves that back to the station and rejects it once the station is
+ * revoked or outside its validity window.
+ */
+import { randomInt } from 'node:crypto'
+import { ObjectId } from 'mongodb'
+import type { ContextUser, Station } from '@shared/types'
+import { db } from '../db.js'
+
+export const STATIONS_COLLECTION = '94884219_stations'
+
+const STATION_PREFIX = 'station:'
+
+// Session pendek; tetap dipotong di validUntil
+export const STATION_SESSION_TTL_MS = (Number(process.env.STATION_SESSION_TTL_MINUTES) || 240) * 60 * 1000
+
+// Default validity window around account.dateTime
+const WINDOW_BEFORE_MS = (Number(process.env.STATION_WINDOW_HOURS_BEFORE) || 12) * 60 * 60 * 1000
+const WINDOW_AFTER_MS = (Number(process.env.STATION_WINDOW_HOURS_AFTER) || 12) * 60 * 60 * 1000
+
+// Tanpa 0/O/1/I supaya mudah diketik di tablet
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 6
+
+export type StationDoc = Omit<Station, '_id'> & { _id: ObjectId; pinHash: string }
+
+export function stations() {
+  return db.collection<StationDoc>(STATIONS_COLLECTION)
+}
+
+export async function ensureStationIndexes() {
+  await stations().createIndex({ code: 1 }, { unique: true })
+  await stations().createIndex({ accountId: 1 })
+}
+
+export function generateStationCode(): string {
+  let code = ''
+  for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  return code
+}
+
+export function normalizeStationCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+/** Default [validFrom, validUntil] for an event starting at eventDate */
+export function defaultStationWindow(eventDate: Date) {
+  return {
+    validFrom: new Date(eventDate.getTime() - WINDOW_BEFORE_MS),
+    validUntil: new Date(eventDate.getTime() + WINDOW_AFTER_MS),
+  }
+}
+
+export type StationStatus = 'active' | 'scheduled' | 'expired' | 'revoked'
+
+export function stationStatus(station: Pick<Station, 'validFrom' | 'validUntil' | 'revokedAt'>, now = new Date()): StationStatus {
+  if (station.revokedAt) return 'revoked'
+  if (now < station.validFrom) return 'scheduled'
+  if (now >= station.validUntil) return 'expired'
+  return 'active'
+}
+
+export function stationSessionUserId(stationId: string) {
+  return `${STATION_PREFIX}${stationId}`
+}
+
+/** Station id from a session userId, or null for a regular user session */
+export function parseStationSessionUserId(userId: string): string | null {
+  if (!userId.startsWith(STATION_PREFIX)) return null
+  const id = userId.slice(STATION_PREFIX.length)
+  return ObjectId.isValid(id) ? id : null
+}
+
+/**
+ * Context user for a station session, or null when the station no longer
+ * exists or is not active right now.
+ */
+export async function loadStationUser(stationId: string): Promise<ContextUser | null> {
+  const station = await stations().findOne({ _id: new ObjectId(stationId) })
+  if (!station || stationStatus(station) !== 'active') return null
+  return stationContextUser(station)
+}
+
+export function stationContextUser(station: StationDoc): ContextUser {
+  return {
+    id: stationSessionUserId(String(station._id)),
+    username: station.name,
+    accountId: station.accountId,
+    role: 'user',
+    permissions: station.permissions.map((page) => ({ page, canAccess: true })),
+    stationId: String(station._id),
+  }
+}
@@ -0,0 +1,104 @@
+// src/server/utils/totp.test.ts
+/**
+ * TOTP against the RFC 4226 / RFC 6238 test vectors, and the rules that
+ * make a second factor single-use (replayed TOTP steps, spent recovery
+ * codes). Runs offline, no MongoDB needed.
+ */
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ObjectId } from 'mongodb'
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  hotp,
+  totp,
+  verifyTotp,
+  type TotpAlgorithm,
+} from './totp.js'
+import { secondFactorUpdate, type TwoFactorState } from './two-factor.js'
+
+// RFC 6238 Appendix B: seed per algoritma, 8 digit, langkah 30 detik
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from('12345678901234567890'),
+  sha256: Buffer.from('12345678901234567890123456789012'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+}
+
+const RFC6238_VECTORS: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { sha1: '94287082', sha256: '46119246', sha512: '90693936' }],
+  [1111111109, { sha1: '07081804', sha256: '68084774', sha512: '25091201' }],
+  [1111111111, { sha1: '14050471', sha256: '67062674', sha512: '99943326' }],
+  [1234567890, { sha1: '89005924', sha256: '91819424', sha512: '93441116' }],
+  [2000000000, { sha1: '69279037', sha256: '90698825', sha512: '38618901' }],
+  [20000000000, { sha1: '65353130', sha256: '77737706', sha512: '47863826' }],
+]
+
+test('hotp matches the RFC 4226 Appendix D values', () => {
+  const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489']
+  expected.forEach((code, counter) => assert.equal(hotp(SEEDS.sha1, counter), code))
+})
+
+test('totp matches the RFC 6238 Appendix B values', () => {
+  for (const [seconds, codes] of RFC6238_VECTORS) {
+    for (const algorithm of Object.keys(codes) as TotpAlgorithm[]) {
+      assert.equal(totp(SEEDS[algorithm], seconds * 1000, { algorithm, digits: 8 }), codes[algorithm], `${algorithm} T=${seconds}`)
+    }
+  }
+})
+
+test('base32 round-trips the secret', () => {
+  const secret = base32Encode(SEEDS.sha1)
+  assert.equal(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+  assert.deepEqual(base32Decode(secret.toLowerCase()), SEEDS.sha1)
+  assert.throws(() => base32Decode('not base32!'), /Invalid base32/)
+})
+
+test('verifyTotp accepts clock drift within the window and rejects replays', () => {
+  const secret = base32Encode(SEEDS.sha1)
+  const opts = { digits: 8, timeMs: 1111111111 * 1000 }
+  const step = Math.floor(1111111111 / 30)
+
+  assert.equal(verifyTotp(secret, '1405 0471', opts), step)
+  // Kode langkah sebelumnya masih diterima (window 1), dua langkah tidak
+  assert.equal(verifyTotp(secret, '07081804', opts), step - 1)
+  assert.equal(verifyTotp(secret, '07081804', { ...opts, window: 0 }), null)
+  assert.equal(verifyTotp(secret, '14050471', { ...opts, lastUsedStep: step }), null)
+  assert.equal(verifyTotp(secret, '1405047', opts), null)
+})
+
+test('a TOTP code burns its step with a conditional update', () => {
+  const userId = new ObjectId()
+  const secret = base32Encode(SEEDS.sha1)
+  const timeMs = 59 * 1000
+  const code = totp(SEEDS.sha1, timeMs)
+
+  const match = secondFactorUpdate(userId, { enabled: true, secret }, code, timeMs)
+  assert.equal(match?.factor, 'totp')
+  assert.deepEqual(match?.update, { $set: { 'twoFactor.lastUsedStep': 1 } })
+  assert.deepEqual(match?.filter.$or, [{ 'twoFactor.lastUsedStep': { $lt: 1 } }, { 'twoFactor.lastUsedStep': null }])
+
+  assert.equal(secondFactorUpdate(userId, { enabled: true, secret, lastUsedStep: 1 }, code, timeMs), null)
+})
+
+test('a recovery code works once, in any case and without the dash', () => {
+  const userId = new ObjectId()
+  const codes = generateRecoveryCodes()
+  assert.equal(codes.length, 10)
+  codes.forEach((code) => assert.match(code, /^[A-HJKMNP-Z2-9]{5}-[A-HJKMNP-Z2-9]{5}$/))
+
+  const hash = hashRecoveryCode(codes[0])
+  const state: TwoFactorState = { enabled: true, secret: base32Encode(SEEDS.sha1), recoveryCodes: codes.map(hashRecoveryCode) }
+  const typed = codes[0].replace('-', '').toLowerCase()
+
+  const match = secondFactorUpdate(userId, state, typed)
+  assert.equal(match?.factor, 'recovery')
+  assert.deepEqual(match?.filter, { _id: userId, 'twoFactor.recoveryCodes': hash })
+  assert.deepEqual(match?.update, { $pull: { 'twoFactor.recoveryCodes': hash } })
+
+  // Setelah $pull kode itu tidak lagi cocok, kode lain tetap bisa dipakai
+  const spent: TwoFactorState = { ...state, recoveryCodes: state.recoveryCodes!.filter((h) => h !== hash) }
+  assert.equal(secondFactorUpdate(userId, spent, typed), null)
+  assert.equal(secondFactorUpdate(userId, spent, codes[1])?.factor, 'recovery')
+})
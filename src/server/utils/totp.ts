@@ -0,0 +1,141 @@
+// src/server/utils/totp.ts
+/**
+ * TOTP (RFC 6238) on top of HOTP (RFC 4226), node:crypto only, so 2FA
+ * works without network access. Defaults match authenticator apps:
+ * SHA-1, 6 digits, 30 s step. Secrets are exchanged as RFC 4648 base32.
+ */
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto'
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512'
+
+export type TotpOptions = {
+  algorithm?: TotpAlgorithm
+  digits?: number
+  stepSeconds?: number
+}
+
+const DEFAULTS = { algorithm: 'sha1' as TotpAlgorithm, digits: 6, stepSeconds: 30 }
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0
+  let value = 0
+  let out = ''
+  for (const byte of buf) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return out
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const out: number[] = []
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch)
+    if (idx === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | idx
+    bits += 5
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(out)
+}
+
+/** New random secret (160 bits, the RFC 4226 recommendation) as base32 */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+/** RFC 4226 HOTP value for a raw key and counter */
+export function hotp(key: Buffer, counter: number, opts: TotpOptions = {}): string {
+  const { algorithm, digits } = { ...DEFAULTS, ...opts }
+  const msg = Buffer.alloc(8)
+  msg.writeBigUInt64BE(BigInt(counter))
+  const mac = createHmac(algorithm, key).update(msg).digest()
+  const offset = mac[mac.length - 1] & 0x0f
+  const code = (mac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits
+  return String(code).padStart(digits, '0')
+}
+
+export function totpStep(timeMs: number, stepSeconds = DEFAULTS.stepSeconds) {
+  return Math.floor(timeMs / 1000 / stepSeconds)
+}
+
+/** RFC 6238 TOTP value for a raw key at timeMs */
+export function totp(key: Buffer, timeMs: number, opts: TotpOptions = {}): string {
+  return hotp(key, totpStep(timeMs, opts.stepSeconds), opts)
+}
+
+/**
+ * Check a code against the base32 secret, allowing ±window steps of clock
+ * drift. Returns the matched time step (store it to reject replays), or
+ * null when the code is wrong or not newer than lastUsedStep.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  opts: TotpOptions & { window?: number; timeMs?: number; lastUsedStep?: number | null } = {},
+): number | null {
+  const digits = opts.digits ?? DEFAULTS.digits
+  const token = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${digits}}$`).test(token)) return null
+
+  const key = base32Decode(secret)
+  const current = totpStep(opts.timeMs ?? Date.now(), opts.stepSeconds)
+  const window = opts.window ?? 1
+  for (let step = current - window; step <= current + window; step++) {
+    if (opts.lastUsedStep != null && step <= opts.lastUsedStep) continue
+    const expected = Buffer.from(hotp(key, step, opts))
+    if (timingSafeEqual(expected, Buffer.from(token))) return step
+  }
+  return null
+}
+
+/** otpauth:// URI rendered as the enrollment QR code */
+export function otpauthUrl(opts: { secret: string; label: string; issuer: string }) {
+  const label = encodeURIComponent(`${opts.issuer}:${opts.label}`)
+  const params = new URLSearchParams({
+    secret: opts.secret,
+    issuer: opts.issuer,
+    algorithm: 'SHA1',
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.stepSeconds),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// ------------------------ recovery codes ------------------------
+
+// Tanpa 0/O/1/I/L supaya tidak salah baca saat dicetak
+const RECOVERY_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+export function normalizeRecoveryCode(code: string) {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/** Recovery codes are random (~50 bits each), so a plain SHA-256 is enough */
+export function hashRecoveryCode(code: string) {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/** count codes formatted XXXXX-XXXXX; store only hashRecoveryCode() of each */
+export function generateRecoveryCodes(count = 10): string[] {
+  const codes: string[] = []
+  for (let i = 0; i < count; i++) {
+    let raw = ''
+    for (let j = 0; j < 10; j++) raw += RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`)
+  }
+  return codes
+}
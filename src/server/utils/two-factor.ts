@@ -0,0 +1,75 @@
+// src/server/utils/two-factor.ts
+/**
+ * Two-factor state on the user document (users.twoFactor) and the
+ * one-shot consumption of a second factor. A TOTP step or recovery code is
+ * consumed with a conditional update, so the same code cannot log in twice
+ * even when two requests race.
+ */
+import type { ObjectId } from 'mongodb'
+import { db } from '../db.js'
+import { hashRecoveryCode, verifyTotp } from './totp.js'
+
+const USERS_COLLECTION = '94884219_users'
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Attari Wedding'
+
+export type TwoFactorState = {
+  enabled: boolean
+  secret?: string
+  // Secret yang sedang di-enroll, belum dikonfirmasi dengan kode
+  pendingSecret?: string
+  lastUsedStep?: number | null
+  recoveryCodes?: string[] // SHA-256 hashes
+  enabledAt?: Date
+}
+
+export function isTwoFactorEnabled(user: Record<string, any> | null | undefined): boolean {
+  return !!user?.twoFactor?.enabled && !!user.twoFactor.secret
+}
+
+/**
+ * Which factor code matches and the conditional update that burns it: the
+ * TOTP step must be newer than the stored one, the recovery code must still
+ * be in the list. Returns null when code matches neither.
+ */
+export function secondFactorUpdate(userId: ObjectId, state: TwoFactorState, code: string, timeMs = Date.now()) {
+  if (state.secret) {
+    const step = verifyTotp(state.secret, code, { lastUsedStep: state.lastUsedStep, timeMs })
+    if (step !== null) {
+      return {
+        factor: 'totp' as const,
+        filter: {
+          _id: userId,
+          $or: [{ 'twoFactor.lastUsedStep': { $lt: step } }, { 'twoFactor.lastUsedStep': null }],
+        },
+        update: { $set: { 'twoFactor.lastUsedStep': step } },
+      }
+    }
+  }
+
+  const hash = hashRecoveryCode(code)
+  if (state.recoveryCodes?.includes(hash)) {
+    return {
+      factor: 'recovery' as const,
+      filter: { _id: userId, 'twoFactor.recoveryCodes': hash },
+      update: { $pull: { 'twoFactor.recoveryCodes': hash } },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Verify and burn a second factor: a current TOTP code or an unused
+ * recovery code. Returns which one matched, or null.
+ */
+export async function consumeSecondFactor(
+  userId: ObjectId,
+  state: TwoFactorState,
+  code: string,
+): Promise<'totp' | 'recovery' | null> {
+  const match = secondFactorUpdate(userId, state, code)
+  if (!match) return null
+  const res = await db.collection(USERS_COLLECTION).updateOne(match.filter, match.update as any)
+  return res.modifiedCount ? match.factor : null
+}
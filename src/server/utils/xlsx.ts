@@ -0,0 +1,224 @@
+// src/server/utils/xlsx.ts
+/**
+ * Streaming XLSX writer for exports
+ * A workbook with a single sheet of inline-string / number cells, written as
+ * a zip with data descriptors so rows can be sent while the cursor is still
+ * being read. Each batch of rows is deflated on its own and sync-flushed;
+ * the concatenated blocks form one valid deflate stream, closed by an empty
+ * final block.
+ */
+import { constants, deflateRawSync } from 'node:zlib'
+
+export type XlsxCell = string | number | null | undefined
+
+const encoder = new TextEncoder()
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(crc: number, data: Uint8Array) {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+interface ZipEntry {
+  name: Uint8Array
+  offset: number
+  crc: number
+  compressed: number
+  size: number
+}
+
+// Flag bit 3: ukuran & CRC menyusul di data descriptor; bit 11: nama UTF-8
+const ZIP_FLAGS = 0x0808
+
+/** Zip archive written entry by entry; every method returns the bytes to send */
+class ZipStream {
+  private entries: ZipEntry[] = []
+  private offset = 0
+  private current: ZipEntry | null = null
+  private stamp = dosDateTime(new Date())
+
+  private emit(bytes: Uint8Array) {
+    this.offset += bytes.length
+    return bytes
+  }
+
+  begin(name: string) {
+    const nameBytes = encoder.encode(name)
+    this.current = { name: nameBytes, offset: this.offset, crc: 0, compressed: 0, size: 0 }
+
+    const header = Buffer.alloc(30 + nameBytes.length)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(ZIP_FLAGS, 6)
+    header.writeUInt16LE(8, 8) // deflate
+    header.writeUInt16LE(this.stamp.time, 10)
+    header.writeUInt16LE(this.stamp.day, 12)
+    // CRC & ukuran (14..25) dibiarkan 0, lihat data descriptor
+    header.writeUInt16LE(nameBytes.length, 26)
+    header.set(nameBytes, 30)
+    return this.emit(header)
+  }
+
+  write(text: string) {
+    const entry = this.current!
+    const data = encoder.encode(text)
+    entry.crc = crc32(entry.crc, data)
+    entry.size += data.length
+    const out = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH })
+    entry.compressed += out.length
+    return this.emit(out)
+  }
+
+  end() {
+    const entry = this.current!
+    const last = deflateRawSync(Buffer.alloc(0))
+    entry.compressed += last.length
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(entry.crc, 4)
+    descriptor.writeUInt32LE(entry.compressed, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+
+    this.entries.push(entry)
+    this.current = null
+    return this.emit(Buffer.concat([last, descriptor]))
+  }
+
+  file(name: string, text: string) {
+    return Buffer.concat([this.begin(name), this.write(text), this.end()])
+  }
+
+  finish() {
+    const start = this.offset
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46 + entry.name.length)
+      record.writeUInt32LE(0x02014b50, 0)
+      record.writeUInt16LE(20, 4)
+      record.writeUInt16LE(20, 6)
+      record.writeUInt16LE(ZIP_FLAGS, 8)
+      record.writeUInt16LE(8, 10)
+      record.writeUInt16LE(this.stamp.time, 12)
+      record.writeUInt16LE(this.stamp.day, 14)
+      record.writeUInt32LE(entry.crc, 16)
+      record.writeUInt32LE(entry.compressed, 20)
+      record.writeUInt32LE(entry.size, 24)
+      record.writeUInt16LE(entry.name.length, 28)
+      record.writeUInt32LE(entry.offset, 42)
+      record.set(entry.name, 46)
+      return record
+    })
+    const directory = Buffer.concat(records)
+
+    const eocd = Buffer.alloc(22)
+    eocd.writeUInt32LE(0x06054b50, 0)
+    eocd.writeUInt16LE(this.entries.length, 8)
+    eocd.writeUInt16LE(this.entries.length, 10)
+    eocd.writeUInt32LE(directory.length, 12)
+    eocd.writeUInt32LE(start, 16)
+    return this.emit(Buffer.concat([directory, eocd]))
+  }
+}
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+function escapeXml(value: string) {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function columnName(index: number) {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function rowXml(cells: XlsxCell[], rowNumber: number) {
+  const xml = cells.map((value, i) => {
+    const ref = `${columnName(i)}${rowNumber}`
+    if (value === null || value === undefined || value === '') return ''
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+  })
+  return `<row r="${rowNumber}">${xml.join('')}</row>`
+}
+
+function workbookParts(sheetName: string): [string, string][] {
+  return [
+    [
+      '[Content_Types].xml',
+      `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      `${XML_HEAD}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        '</Relationships>',
+    ],
+  ]
+}
+
+/**
+ * XLSX bytes for a header row plus the given batches of rows; batches are
+ * compressed as they arrive, so memory stays at one batch
+ */
+export async function* xlsxChunks(
+  sheetName: string,
+  header: string[],
+  batches: AsyncIterable<XlsxCell[][]>,
+): AsyncGenerator<Uint8Array> {
+  const zip = new ZipStream()
+  for (const [name, xml] of workbookParts(sheetName)) yield zip.file(name, xml)
+
+  yield zip.begin('xl/worksheets/sheet1.xml')
+  yield zip.write(`${XML_HEAD}<worksheet xmlns="${MAIN_NS}"><sheetData>${rowXml(header, 1)}`)
+  let rowNumber = 1
+  for await (const rows of batches) {
+    if (!rows.length) continue
+    yield zip.write(rows.map((cells) => rowXml(cells, ++rowNumber)).join(''))
+  }
+  yield zip.write('</sheetData></worksheet>')
+  yield zip.end()
+  yield zip.finish()
+}
@@ -0,0 +1,88 @@
+/**
+ * Custom guest field helpers shared by the API and the browser: turning
+ * import cells into typed values, display formatting and the [key] message
+ * placeholders.
+ */
+import type { CustomFieldDef, CustomFieldValue } from './types';
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,29}$/;
+
+// Placeholder bawaan pesan; key field custom tidak boleh sama
+export const RESERVED_FIELD_KEYS = ['nama', 'mempelai'];
+
+export const CUSTOM_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const YES = ['ya', 'y', 'yes', 'true', '1'];
+const NO = ['tidak', 'tdk', 'n', 'no', 'false', '0'];
+
+/** "Kota Asal" -> "kota_asal", used as key suggestion for a new field */
+export function customFieldKey(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 30);
+}
+
+/**
+ * Cell text from an Excel/CSV import -> typed value (null when empty), or an
+ * error message when the text does not fit the field type.
+ */
+export function parseCustomFieldInput(def: CustomFieldDef, raw: unknown): { value: CustomFieldValue; error?: string } {
+  if (typeof raw === 'number' || typeof raw === 'boolean') raw = String(raw);
+  const text = String(raw ?? '').trim();
+  if (!text) return { value: null };
+
+  switch (def.type) {
+    case 'number': {
+      const n = Number(text.replace(',', '.'));
+      return Number.isFinite(n) ? { value: n } : { value: null, error: `${def.label} must be a number` };
+    }
+    case 'boolean': {
+      const v = text.toLowerCase();
+      if (YES.includes(v)) return { value: true };
+      if (NO.includes(v)) return { value: false };
+      return { value: null, error: `${def.label} must be Ya or Tidak` };
+    }
+    case 'select': {
+      const option = def.options?.find((o) => o.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { value: null, error: `${def.label} must be one of: ${(def.options ?? []).join(', ')}` };
+    }
+    case 'date': {
+      // YYYY-MM-DD atau DD/MM/YYYY
+      const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+      const iso = dmy ? `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}` : text.slice(0, 10);
+      const valid = CUSTOM_DATE_PATTERN.test(iso) && !Number.isNaN(new Date(`${iso}T00:00:00Z`).getTime());
+      return valid ? { value: iso } : { value: null, error: `${def.label} must be a date (YYYY-MM-DD)` };
+    }
+    default:
+      return { value: text.slice(0, 500) };
+  }
+}
+
+/** Value as shown in tables and messages; empty string when unset */
+export function formatCustomFieldValue(def: CustomFieldDef, value: CustomFieldValue | undefined): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (def.type === 'boolean') return value === true ? 'Ya' : 'Tidak';
+  if (def.type === 'date' && typeof value === 'string') {
+    const date = new Date(`${value}T00:00:00`);
+    if (!Number.isNaN(date.getTime())) {
+      return date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+    }
+  }
+  return String(value);
+}
+
+/** Replace [key] of every custom field with the guest's value */
+export function applyCustomFieldPlaceholders(
+  text: string,
+  defs: CustomFieldDef[] | null | undefined,
+  values: Record<string, CustomFieldValue> | null | undefined,
+): string {
+  return (defs ?? []).reduce(
+    (out, def) => out.split(`[${def.key}]`).join(formatCustomFieldValue(def, values?.[def.key])),
+    text,
+  );
+}
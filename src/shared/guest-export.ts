@@ -0,0 +1,42 @@
+/**
+ * Guest export columns shared by the API and the browser.
+ * Headers of the columns the import also reads (Nama, WhatsApp, Kategori,
+ * Sesi, Jumlah Tamu, No Meja, Keterangan) are the import template's, so an
+ * export can be edited and imported again. Custom fields are exported under
+ * their label as "cf:<key>" columns.
+ */
+
+export const GUEST_EXPORT_FORMATS = ['xlsx', 'csv'] as const;
+export type GuestExportFormat = (typeof GUEST_EXPORT_FORMATS)[number];
+
+export const GUEST_EXPORT_COLUMNS = [
+  { key: 'code', header: 'Kode' },
+  { key: 'name', header: 'Nama' },
+  { key: 'phone', header: 'WhatsApp' },
+  { key: 'category', header: 'Kategori' },
+  { key: 'session', header: 'Sesi' },
+  { key: 'limit', header: 'Jumlah Tamu' },
+  { key: 'tableNo', header: 'No Meja' },
+  { key: 'info', header: 'Keterangan' },
+  { key: 'tags', header: 'Tag' },
+  { key: 'status', header: 'Status RSVP' },
+  { key: 'stage', header: 'Tahap Undangan' },
+  { key: 'checkInDate', header: 'Waktu Check-in' },
+  { key: 'guestCount', header: 'Jumlah Hadir' },
+  { key: 'souvenirCount', header: 'Souvenir' },
+  { key: 'angpaoCount', header: 'Angpao' },
+  { key: 'kadoCount', header: 'Kado' },
+  { key: 'giftNote', header: 'Catatan Hadiah' },
+  { key: 'reminder', header: 'Status Reminder' },
+] as const;
+
+export type GuestExportColumn = (typeof GUEST_EXPORT_COLUMNS)[number]['key'];
+
+export const CUSTOM_EXPORT_PREFIX = 'cf:';
+
+export const REMINDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Terjadwal',
+  processing: 'Diproses',
+  sent: 'Terkirim',
+  failed: 'Gagal',
+};
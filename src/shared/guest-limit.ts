@@ -0,0 +1,47 @@
+/**
+ * Guest headcount limit helpers shared by the API and the browser.
+ * Guest.limit is the number of people an invitation admits; check-in above
+ * it needs an override reason (POST /api/guests/:id/checkin).
+ */
+
+export const GUEST_LIMIT_MAX = 99;
+
+/** Guest.limit as a number; legacy strings ("2") are parsed, empty or invalid -> null */
+export function parseGuestLimit(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** People checked in above the guest's limit (0 when within it or no limit) */
+export function overLimitBy(guest: { limit?: unknown; guestCount?: unknown; checkInDate?: unknown }): number {
+  if (!guest.checkInDate) return 0;
+  const limit = parseGuestLimit(guest.limit);
+  const count = Number(guest.guestCount) || 0;
+  return limit !== null && count > limit ? count - limit : 0;
+}
+
+export interface OverLimitSessionStat {
+  session: string;
+  guests: number; // tamu yang check-in melebihi limit
+  extra: number; // total orang di atas limit
+}
+
+/** Over-limit check-ins grouped by session, sessions in natural order */
+export function overLimitBySession(
+  guests: { session?: unknown; limit?: unknown; guestCount?: unknown; checkInDate?: unknown }[],
+): OverLimitSessionStat[] {
+  const bySession = new Map<string, OverLimitSessionStat>();
+  for (const guest of guests) {
+    const extra = overLimitBy(guest);
+    if (!extra) continue;
+    const session = String(guest.session ?? '').trim();
+    const stat = bySession.get(session) ?? { session, guests: 0, extra: 0 };
+    stat.guests += 1;
+    stat.extra += extra;
+    bySession.set(session, stat);
+  }
+  return Array.from(bySession.values()).sort((a, b) =>
+    a.session.localeCompare(b.session, undefined, { numeric: true }),
+  );
+}
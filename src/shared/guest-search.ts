@@ -0,0 +1,172 @@
+/**
+ * Guest search matching shared by the API and the browser.
+ * User input is never turned into a RegExp: names are normalized (accents,
+ * punctuation, old Indonesian spelling), compared token by token with a
+ * small edit-distance allowance, and phone fragments are compared as digits
+ * in 08… form whatever the input format (08…, +62…, 62…).
+ */
+
+export interface SearchableGuest {
+  name?: string | null;
+  code?: string | null;
+  phone?: string | null;
+  info?: string | null;
+  tableNo?: string | null;
+}
+
+/** Lowercase, strip diacritics and punctuation, collapse whitespace */
+export function normalizeText(input: string | null | undefined): string {
+  return String(input ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Ejaan lama / variasi umum -> bentuk baku (urutan penting: dj sebelum j, dst.)
+const SPELLING_RULES: Array<[RegExp, string]> = [
+  [/oe/g, 'u'],
+  [/dj/g, 'j'],
+  [/tj/g, 'c'],
+  [/sj/g, 'sy'],
+  [/nj/g, 'ny'],
+  [/ch/g, 'h'],
+  [/kh/g, 'h'],
+  [/dh/g, 'd'],
+  [/th/g, 't'],
+  [/ph/g, 'f'],
+  [/v/g, 'f'],
+  [/q/g, 'k'],
+  [/^moh/, 'muh'],
+  [/([a-z])\1+/g, '$1'], // Muhammad / Muhamad
+  [/([aiueo])h$/, '$1'], // Fatimah / Fatima
+];
+
+/** Spelling-insensitive key of one normalized word: "Soedjarwo" and "Sujarwo" share one */
+export function spellingKey(word: string): string {
+  let key = word;
+  for (const [pattern, replacement] of SPELLING_RULES) key = key.replace(pattern, replacement);
+  return key;
+}
+
+/** Digits only, Indonesian numbers rewritten to 08… (62812…, +62 812…, 812…) */
+export function normalizePhone(input: string | null | undefined): string {
+  const digits = String(input ?? '').replace(/\D/g, '');
+  if (digits.startsWith('62')) return `0${digits.slice(2)}`;
+  if (digits.startsWith('8') && digits.length >= 9) return `0${digits}`;
+  return digits;
+}
+
+/** Levenshtein distance, giving up (returning max + 1) once it exceeds max */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// Salah ketik yang ditoleransi per kata, sesuai panjang kata
+function typoAllowance(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+// 0..1: seberapa baik satu kata query cocok dengan salah satu kata nama
+function tokenScore(queryToken: string, nameTokens: string[]): number {
+  const queryKey = spellingKey(queryToken);
+  const allowance = typoAllowance(queryKey.length);
+  let best = 0;
+  for (const token of nameTokens) {
+    const key = spellingKey(token);
+    let score = 0;
+    if (token === queryToken) score = 1;
+    else if (token.startsWith(queryToken)) score = 0.9;
+    else if (key === queryKey) score = 0.85;
+    else if (key.startsWith(queryKey)) score = 0.75;
+    else if (allowance > 0) {
+      const d = Math.min(
+        editDistance(queryKey, key, allowance),
+        // Kata yang sedang diketik: bandingkan dengan awalan yang sepanjang query
+        key.length > queryKey.length ? editDistance(queryKey, key.slice(0, queryKey.length), allowance) : allowance + 1,
+      );
+      if (d <= allowance) score = 0.65 - 0.1 * d;
+    }
+    if (score > best) best = score;
+    if (best === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Relevance of a guest for a query, 0 when it does not match.
+ * Exact code > exact name > phone > name words > code fragment > info / table.
+ */
+export function scoreGuest(guest: SearchableGuest, query: string): number {
+  const q = normalizeText(query);
+  if (!q) return 0;
+
+  let score = 0;
+  const code = normalizeText(guest.code);
+  const compactQuery = q.replace(/ /g, '');
+  if (code && code.replace(/ /g, '') === compactQuery) return 100;
+
+  const name = normalizeText(guest.name);
+  if (name === q) score = 95;
+
+  const queryDigits = query.replace(/\D/g, '');
+  const digitsOnly = /^[\d\s+().-]+$/.test(query.trim());
+  if (digitsOnly && queryDigits.length >= 4) {
+    const phone = normalizePhone(guest.phone);
+    const fragment = normalizePhone(queryDigits);
+    if (phone && (phone.includes(fragment) || phone.includes(queryDigits))) {
+      score = Math.max(score, phone.startsWith(fragment) ? 85 : 75);
+    }
+  }
+
+  if (name && score < 95) {
+    const nameTokens = name.split(' ');
+    const queryTokens = q.split(' ');
+    const tokenScores = queryTokens.map((t) => tokenScore(t, nameTokens));
+    if (tokenScores.every((s) => s > 0)) {
+      const avg = tokenScores.reduce((sum, s) => sum + s, 0) / tokenScores.length;
+      // Bonus kecil kalau urutan kata sama dengan nama (awalan nama)
+      const prefixBonus = name.startsWith(q) ? 5 : 0;
+      score = Math.max(score, Math.round(40 + 45 * avg) + prefixBonus);
+    } else if (name.replace(/ /g, '').includes(compactQuery) && compactQuery.length >= 3) {
+      score = Math.max(score, 55);
+    }
+  }
+
+  if (code && compactQuery.length >= 2 && code.replace(/ /g, '').includes(compactQuery)) {
+    score = Math.max(score, 60);
+  }
+
+  if (score === 0 && q.length >= 3) {
+    const info = normalizeText(guest.info);
+    const table = normalizeText(guest.tableNo);
+    if ((info && info.includes(q)) || (table && table === q)) score = 30;
+  }
+
+  return score;
+}
+
+/** Matching items, best first; ties keep their input order */
+export function rankGuests<T>(items: T[], query: string, toGuest: (item: T) => SearchableGuest = (item) => item as SearchableGuest): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: scoreGuest(toGuest(item), query) }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((r) => r.item);
+}
@@ -0,0 +1,77 @@
+/**
+ * Invitation lifecycle state machine shared by the API and the browser.
+ * The stage moves forward (steps may be skipped, e.g. a guest RSVPs before
+ * the read receipt arrives); the only ways back are a cancelled schedule
+ * (scheduled -> draft) and a cleared check-in, which returns the guest to
+ * the stage held before checking in.
+ */
+import type { InvitationStage, InvitationTransition } from './types';
+
+export const INVITATION_STAGES: InvitationStage[] = [
+  'draft',
+  'scheduled',
+  'sent',
+  'delivered',
+  'read',
+  'responded',
+  'checked_in',
+];
+
+export const INVITATION_STAGE_LABELS: Record<InvitationStage, string> = {
+  draft: 'Draft',
+  scheduled: 'Dijadwalkan',
+  sent: 'Terkirim',
+  delivered: 'Diterima',
+  read: 'Dibaca',
+  responded: 'Sudah RSVP',
+  checked_in: 'Check-in',
+};
+
+const forwardOf = (stage: InvitationStage) => INVITATION_STAGES.slice(INVITATION_STAGES.indexOf(stage) + 1);
+
+export const INVITATION_TRANSITIONS: Record<InvitationStage, InvitationStage[]> = {
+  draft: forwardOf('draft'),
+  scheduled: ['draft', ...forwardOf('scheduled')],
+  sent: forwardOf('sent'),
+  delivered: forwardOf('delivered'),
+  read: forwardOf('read'),
+  responded: forwardOf('responded'),
+  checked_in: INVITATION_STAGES.filter((s) => s !== 'checked_in'),
+};
+
+/** Guest fields the stage is read from; _id lets raw Mongo documents (WithId<Document>) match too */
+export type InvitationStageGuest = {
+  _id?: unknown;
+  invitationStage?: InvitationStage | null;
+  invitationHistory?: InvitationTransition[];
+  rsvpAt?: unknown;
+  status?: string;
+};
+
+const isStage = (value: unknown): value is InvitationStage =>
+  typeof value === 'string' && (INVITATION_STAGES as string[]).includes(value);
+
+const isTransition = (value: unknown): value is InvitationTransition =>
+  typeof value === 'object' && value !== null && 'stage' in value && isStage(value.stage);
+
+/** Guest.invitationStage, legacy guests without one (or with an unknown value) are draft */
+export function invitationStageOf(guest: InvitationStageGuest): InvitationStage {
+  return isStage(guest.invitationStage) ? guest.invitationStage : 'draft';
+}
+
+export function canTransition(from: InvitationStage, to: InvitationStage): boolean {
+  return INVITATION_TRANSITIONS[from].includes(to);
+}
+
+/** Stages a guest may be in to move to `to` */
+export function stagesLeadingTo(to: InvitationStage): InvitationStage[] {
+  return INVITATION_STAGES.filter((from) => canTransition(from, to));
+}
+
+/** Stage to return to when a check-in is cleared; guests migrated as checked in fall back on their RSVP */
+export function stageBeforeCheckIn(guest: InvitationStageGuest): InvitationStage {
+  const history: unknown[] = Array.isArray(guest.invitationHistory) ? guest.invitationHistory : [];
+  const entry = history.filter(isTransition).reverse().find((t) => t.stage === 'checked_in');
+  if (isStage(entry?.from) && entry.from !== 'checked_in') return entry.from;
+  return guest.rsvpAt || guest.status === 'Confirmed' || guest.status === 'Declined' ? 'responded' : 'draft';
+}
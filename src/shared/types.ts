@@ -4,12 +4,18 @@
  */
 
 // User authentication types
+// 'admin' mengelola satu akun (pasangan); 'operator' = operator platform, lintas akun
+export type UserRole = 'admin' | 'user' | 'operator';
+
 export interface User {
   id: string;
   username: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   accountId: string;
   permissions?: UserPermission[];
+  // Set when signed in as a reception station instead of a real user
+  stationId?: string;
+  stationValidUntil?: string;
 }
 
 // User permission types
@@ -18,6 +24,48 @@ export interface UserPermission {
   canAccess: boolean;
 }
 
+/**
+ * Page permission catalog
+ * Enforced per router on the server and rendered as toggles in UsersRoles.
+ * Admins implicitly hold every permission.
+ */
+export const PERMISSION_PAGES = [
+  { key: 'guests', label: 'Manage Guests', description: 'Guest list, reminders and WhatsApp sender' },
+  { key: 'reception', label: 'Reception Check-in', description: 'Guest check-in functionality' },
+  { key: 'souvenirs', label: 'Souvenirs', description: 'Record souvenirs handed to guests' },
+  { key: 'gifts', label: 'Gifts', description: 'Record angpao and kado received' },
+  { key: 'doorprize', label: 'Doorprize', description: 'Draw doorprize from checked-in guests' },
+  { key: 'checkin_override', label: 'Check-in Override', description: 'Check in more people than the guest limit' },
+] as const;
+
+export type PermissionKey = (typeof PERMISSION_PAGES)[number]['key'];
+
+export const PERMISSION_KEYS = PERMISSION_PAGES.map((p) => p.key) as [PermissionKey, ...PermissionKey[]];
+
+// Event-day desks a reception station may be given (never the full guest list)
+export const STATION_PERMISSION_KEYS = ['reception', 'souvenirs', 'gifts', 'doorprize'] as const;
+
+export type StationPermissionKey = (typeof STATION_PERMISSION_KEYS)[number];
+
+/**
+ * Reception station: shared event-day device login (station code + PIN)
+ * bound to one account, valid only inside [validFrom, validUntil].
+ */
+export interface Station {
+  _id?: string;
+  accountId: string;
+  name: string;
+  code: string;
+  permissions: StationPermissionKey[];
+  validFrom: Date;
+  validUntil: Date;
+  revokedAt?: Date | null;
+  lastLoginAt?: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface AuthResponse {
   user: User;
   token: string;
@@ -37,6 +85,56 @@ export interface AccountInfo {
   updatedAt?: Date;
 }
 
+/**
+ * What the public RSVP page sees of an invitation (GET /api/rsvp/:code)
+ */
+export interface RsvpInvitation {
+  guest: {
+    name: string;
+    code: string;
+    status: Guest['status'];
+    maxHeadcount: number;
+    headcount: number | null;
+    dietaryRequirements: string;
+    note: string;
+    respondedAt: string | null;
+  };
+  event: {
+    title: string;
+    dateTime: string | null;
+    location: string;
+  };
+  deadline: string | null;
+  closed: boolean;
+}
+
+/**
+ * Per-account invitation code format, e.g. GUEST- + 5 chars (+ check char)
+ */
+export interface GuestCodeFormat {
+  prefix: string;
+  length: number;
+  alphabet: string;
+  checkDigit: boolean; // append a Luhn mod N check character
+}
+
+/**
+ * Per-account custom guest field (EventPage settings). Values are stored in
+ * guest.customFields[key]; dates as YYYY-MM-DD. [key] in a message is
+ * replaced with the guest's value.
+ */
+export type CustomFieldType = 'text' | 'number' | 'select' | 'boolean' | 'date';
+
+export interface CustomFieldDef {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // select only
+  required?: boolean;
+}
+
+export type CustomFieldValue = string | number | boolean | null;
+
 // Guest types with consolidated data
 export interface Guest {
   _id?: string;
@@ -47,10 +145,14 @@ export interface Guest {
   status: 'Pending' | 'Confirmed' | 'Declined' | 'Checked-In';
   plusOne: boolean;
   isInvited?: boolean; // true for invited guests, false for walk-ins
+  partyId?: string | null; // household / invitation party this guest belongs to
+  tags?: string[];
 
   // Check-in tracking
   checkInDate?: Date;
   guestCount?: number; // Number of people checking in
+  overLimit?: GuestOverLimit | null; // set when guestCount went above limit
+  checkInCount?: number; // arrivals in effect, > 1 after re-entry
 
   // Souvenir tracking
   souvenirCount?: number;
@@ -67,6 +169,15 @@ export interface Guest {
   reminderScheduledAt?: Date;
   reminderSentAt?: Date;
 
+  // Invitation lifecycle (see shared/invitation-stage.ts), separate from RSVP status
+  invitationStage?: InvitationStage;
+  invitationHistory?: InvitationTransition[];
+
+  // RSVP (public page /rsvp/:code)
+  rsvpHeadcount?: number; // People attending, 0 when declined
+  rsvpNote?: string;
+  rsvpAt?: Date;
+
   // Additional info
   notes?: string;
   dietaryRequirements?: string; // Special dietary requirements
@@ -74,10 +185,11 @@ export interface Guest {
   // Frontend display fields
   code?: string; // Unique code for display (kode unik)
   session?: string; // Guest session (sesi)
-  limit?: string; // Guest limit (limit)
+  limit?: number | null; // People the invitation admits (see shared/guest-limit.ts)
   tableNo?: string; // Table number (no. meja)
   info?: string; // Additional info (keterangan)
   introTextCategory?: string; // Intro text category (Formal/Casual/etc)
+  customFields?: Record<string, CustomFieldValue>;
 
   // Timestamps
   createdAt?: Date;
@@ -85,6 +197,155 @@ export interface Guest {
   updatedAt?: Date;
 }
 
+/**
+ * Invitation lifecycle: draft -> scheduled -> sent -> delivered -> read ->
+ * responded (RSVP'd) -> checked_in. Guests without a stage count as draft.
+ */
+export type InvitationStage = 'draft' | 'scheduled' | 'sent' | 'delivered' | 'read' | 'responded' | 'checked_in';
+
+export type InvitationStageSource = 'reminder' | 'whatsapp' | 'rsvp' | 'checkin' | 'manual' | 'migration';
+
+export interface InvitationTransition {
+  stage: InvitationStage;
+  from: InvitationStage | null;
+  at: Date;
+  source: InvitationStageSource;
+  by?: string | null; // username for manual changes
+}
+
+/** Override recorded when a guest checked in above their limit */
+export interface GuestOverLimit {
+  count: number; // people above the limit
+  reason: string;
+  approvedBy: string;
+  at: Date;
+}
+
+/**
+ * Entry of the check-in log (94884219_checkins). Guest check-in fields are
+ * derived from it: a clear cancels every earlier arrival, or only the one
+ * in undoes.
+ */
+export type CheckInSource = 'reception' | 'party' | 'walk_in' | 'backfill';
+
+export interface CheckInEvent {
+  _id?: string;
+  accountId: string;
+  guestId: string;
+  type: 'checkin' | 'clear';
+  source: CheckInSource;
+  guestCount: number; // 0 for clears
+  session: string;
+  overLimit?: Omit<GuestOverLimit, 'at'> | null;
+  reason?: string; // clears only
+  undoes?: string | null; // clears only: id of the cancelled arrival
+  cancelledAt?: Date | null; // arrivals: when a clear cancelled it
+  trashedAt?: Date | null; // the guest is in the trash (utils/guest-trash.ts)
+  at: Date;
+  userId: string | null;
+  username: string | null;
+  stationId: string | null;
+  active?: boolean; // arrivals in GET responses: still in effect
+}
+
+/**
+ * Likely duplicate guests (GET /api/guests/duplicates). key identifies the
+ * exact set of guests, used to dismiss a cluster as "not duplicates".
+ */
+export type DuplicateReason = 'phone' | 'name' | 'similar_name';
+
+export interface DuplicateCluster {
+  key: string;
+  reasons: DuplicateReason[];
+  guests: Guest[];
+}
+
+/**
+ * Saved guest segment: a named filter over tags and guest state. All set
+ * conditions must hold. Used as reminder audience, doorprize eligibility
+ * and list/export scope (?segment=<id>).
+ */
+export interface SegmentFilter {
+  tagsAny?: string[];
+  tagsAll?: string[];
+  tagsNone?: string[];
+  category?: string[];
+  session?: string[];
+  tableNo?: string[];
+  status?: Guest['status'][];
+  isInvited?: boolean;
+  checkedIn?: boolean;
+  hasSouvenir?: boolean;
+  hasGift?: boolean;
+}
+
+export interface GuestSegment {
+  _id?: string;
+  accountId: string;
+  name: string;
+  description?: string;
+  filter: SegmentFilter;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  guestCount?: number; // filled by GET /api/segments
+}
+
+/** Per-guest line of the POST /api/guests/bulk-update report */
+export interface GuestBulkResult {
+  id: string;
+  name?: string;
+  result: 'updated' | 'unchanged' | 'skipped' | 'not_found';
+  changed?: string[];
+  reason?: string;
+}
+
+/**
+ * Deleted guest waiting in the trash (GET /api/guests/trash) until it is
+ * restored or purged at expiresAt.
+ */
+export type GuestTrashReason = 'delete' | 'bulk_delete' | 'walk_in_cleared';
+
+export interface GuestTrashItem {
+  _id: string;
+  accountId: string;
+  guest: Pick<Guest, 'name' | 'code' | 'phone' | 'category' | 'status' | 'isInvited' | 'checkInDate'>;
+  reason: GuestTrashReason;
+  deletedAt: string;
+  deletedBy: { id: string; username?: string } | null;
+  expiresAt: string;
+  reminderCount: number;
+  giftDistributionCount: number;
+}
+
+/**
+ * Household / invitation party: several guests invited as one unit,
+ * sharing an invitation code and a seat allowance. Reminders go once per
+ * party to the primary contact.
+ */
+export interface Party {
+  _id?: string;
+  accountId: string;
+  name: string;
+  code: string;
+  seatAllowance: number;
+  primaryGuestId?: string | null;
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PartySummary extends Party {
+  memberCount: number;
+  checkedInCount: number;
+  seatsUsed: number; // sum of guestCount of checked-in members
+}
+
+export interface PartyWithMembers extends PartySummary {
+  members: Guest[];
+}
+
 // Gift types
 export type GiftType = 'Angpao' | 'Kado';
 
@@ -111,12 +372,31 @@ export interface PaginatedResponse<T> {
 // Search and filter types
 export interface SearchFilters {
   search?: string;
-  category?: string;
+  category?: string; // comma separated for several values
   status?: string;
+  stage?: string; // invitation stages, comma separated
+  session?: string;
+  tableNo?: string;
+  isInvited?: boolean;
+  checkedIn?: boolean;
+  hasSouvenir?: boolean;
+  hasGift?: boolean;
+  partyId?: string; // party id, or "none" for guests without a party
+  tags?: string; // comma separated, guests with any of them
+  segment?: string; // saved segment id
+  custom?: string; // "key:value" pairs, comma separated
+  dateField?: 'createdAt' | 'checkInDate' | 'souvenirRecordedAt' | 'giftRecordedAt';
   dateFrom?: string;
   dateTo?: string;
 }
 
+// Query for GET /api/guests; sort is a field name, "-" prefix for descending
+export interface GuestListQuery extends SearchFilters {
+  page?: number;
+  limit?: number;
+  sort?: string;
+}
+
 // Check-in types
 export interface CheckInData {
   guestId: string;
@@ -158,16 +438,62 @@ export interface ReminderData {
 }
 
 // Statistics types
+/**
+ * Guest statistics (GET /api/guests/stats), computed by Mongo aggregation.
+ * pax = people checked in (sum of guestCount); key is '' for guests
+ * without a category / session / table.
+ */
+export interface GuestStatsBucket {
+  key: string;
+  guests: number;
+  checkedIn: number;
+  pax: number;
+  confirmed: number;
+  souvenirs: number;
+  angpao: number;
+  kado: number;
+  overLimitGuests: number;
+  overLimitExtra: number;
+}
+
+export interface GuestStatsTotals extends Omit<GuestStatsBucket, 'key'> {
+  invited: number;
+  walkIns: number;
+  declined: number;
+  pending: number;
+  plusOne: number;
+  attendanceRate: number; // % confirmed of all guests
+  checkInRate: number; // % checked in of confirmed
+}
+
+export interface ArrivalsBucket {
+  at: string; // bucket start, ISO
+  arrivals: number;
+  pax: number;
+}
+
 export interface GuestStats {
-  totalGuests: number;
-  totalCheckedIn: number;
-  totalConfirmed: number;
-  totalDeclined: number;
-  totalPending: number;
-  totalSouvenirsDistributed: number;
-  totalGiftsDistributed: number;
-  totalAngpao: number;
-  totalKado: number;
+  totals: GuestStatsTotals;
+  byCategory: GuestStatsBucket[];
+  bySession: GuestStatsBucket[];
+  byTable: GuestStatsBucket[];
+  byInvitation: GuestStatsBucket[]; // key 'invited' | 'walk_in'
+  arrivals: {
+    date: string; // YYYY-MM-DD in timezone
+    timezone: string;
+    bucketMinutes: number;
+    buckets: ArrivalsBucket[];
+  };
+}
+
+/** Reception counters pushed live to dashboards (stats_snapshot / stats_delta) */
+export interface LiveStats {
+  checkedIn: number;
+  pax: number;
+  souvenirs: number;
+  angpao: number;
+  kado: number;
+  walkIns: number;
 }
 
 // Message template types
@@ -201,13 +527,24 @@ export interface Campaign {
 }
 
 // Audit log types
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
 export interface AuditLog {
   _id?: string;
   userId: string;
-  userEmail: string;
-  action: string;
-  resource: string;
+  userEmail: string; // login name (akun tidak punya email)
+  username?: string;
+  accountId?: string;
+  action: string; // e.g. 'guest.checkin', 'user.update'
+  resource: string; // 'guest' | 'reminder' | 'gift_distribution' | 'user' | 'account'
+  resourceId?: string;
+  changes?: AuditChange[];
   details?: any;
+  ip?: string;
   createdAt: Date;
 }
 
@@ -277,16 +614,19 @@ export interface Bindings {
 export interface ContextUser {
   id: string
   username?: string
-  role?: 'admin' | 'user'
+  role?: UserRole
   accountId?: string
   guestId?: string
   email?: string
+  permissions?: UserPermission[]
+  stationId?: string
 }
 
 export interface Vars {
   user?: ContextUser
   accountId?: string
   guestId?: string
+  sessionId?: string
 }
 
 export type AppEnv = { Bindings: Bindings; Variables: Vars }
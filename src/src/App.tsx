@@ -19,7 +19,10 @@ import { Doorprize } from './pages/Doorprize';
 import { DoorprizePicker } from './pages/DoorprizePicker';
 import MessageTemplates from './pages/MessageTemplates';
 import UsersRoles from './pages/UsersRoles';
+import AuditLog from './pages/AuditLog';
+import Stations from './pages/Stations';
 import Profile from './pages/Profile';
+import Rsvp from './pages/Rsvp';
 import { PhotoProvider } from './contexts/PhotoProvider';
 import PermissionGuard from './components/common/PermissionGuard';
 
@@ -106,10 +109,18 @@ function App() {
                   <Route path="/settings" element={<PermissionGuard requiredPermission="guests">
                     <Settings />
                   </PermissionGuard>} />
-                  <Route path="/souvenirs" element={<Souvenirs />} />
-                  <Route path="/gifts" element={<Gifts />} />
-                  <Route path="/doorprize" element={<Doorprize />} />
-                  <Route path="/doorprize/picker" element={<DoorprizePicker />} />
+                  <Route path="/souvenirs" element={<PermissionGuard requiredPermission="souvenirs">
+                    <Souvenirs />
+                  </PermissionGuard>} />
+                  <Route path="/gifts" element={<PermissionGuard requiredPermission="gifts">
+                    <Gifts />
+                  </PermissionGuard>} />
+                  <Route path="/doorprize" element={<PermissionGuard requiredPermission="doorprize">
+                    <Doorprize />
+                  </PermissionGuard>} />
+                  <Route path="/doorprize/picker" element={<PermissionGuard requiredPermission="doorprize">
+                    <DoorprizePicker />
+                  </PermissionGuard>} />
                   <Route path="/guests" element={
                     <PermissionGuard requiredPermission="guests">
                       <ManageGuests />
@@ -122,9 +133,12 @@ function App() {
                   } />
                   <Route path="/message-templates" element={<MessageTemplates />} />
                   <Route path="/users" element={<UsersRoles />} />
+                  <Route path="/audit" element={<AuditLog />} />
+                  <Route path="/stations" element={<Stations />} />
                   <Route path="/profile" element={<Profile />} />
                 </Route>
                 <Route path="/welcome-display" element={<WelcomeDisplay />} />
+                <Route path="/rsvp/:code" element={<Rsvp />} />
               </Routes>
             </GuestsProvider>
           </PhotoProvider>
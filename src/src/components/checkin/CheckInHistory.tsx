@@ -0,0 +1,100 @@
+/**
+ * CheckInHistory component
+ * Check-in log of one guest (arrivals, re-entries and clears) with undo of
+ * a single arrival. Shown inside GuestDetailModal.
+ */
+import React from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { apiUrl } from '../../lib/api';
+import type { CheckInEvent } from '../../../shared/types';
+
+export interface CheckInHistoryProps {
+  guestId: string;
+  onChanged?: () => void;
+}
+
+const formatAt = (value: Date | string) =>
+  new Intl.DateTimeFormat('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).format(new Date(value));
+
+export function CheckInHistory({ guestId, onChanged }: CheckInHistoryProps): JSX.Element | null {
+  const { apiRequest } = useAuth();
+  const { showToast } = useToast();
+  const [events, setEvents] = React.useState<CheckInEvent[]>([]);
+  const [undoing, setUndoing] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await apiRequest(apiUrl(`/api/guests/${guestId}/checkins`));
+      const json = await res.json();
+      setEvents(json.success ? json.data : []);
+    } catch (err) {
+      console.error('Failed to fetch check-in log:', err);
+      setEvents([]);
+    }
+  }, [guestId, apiRequest]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  const undo = async (event: CheckInEvent) => {
+    const reason = prompt('Alasan membatalkan check-in ini?');
+    if (reason === null) return;
+
+    setUndoing(String(event._id));
+    try {
+      const res = await apiRequest(apiUrl(`/api/guests/${guestId}/checkins/${event._id}/undo`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Failed to undo check-in');
+      showToast('Check-in dibatalkan', 'success');
+      await load();
+      onChanged?.();
+    } catch (err: any) {
+      showToast(`Gagal membatalkan check-in: ${err.message}`, 'error');
+    } finally {
+      setUndoing(null);
+    }
+  };
+
+  if (events.length === 0) return null;
+
+  return (
+    <li className="px-4 py-2.5 sm:py-3">
+      <span className="text-[13px] sm:text-sm">Riwayat Check-in</span>
+      <ul className="mt-1.5 space-y-1">
+        {events.map((e) => (
+          <li key={String(e._id)} className="flex items-center justify-between gap-2 text-[11px] sm:text-xs">
+            <span className={e.type === 'checkin' && !e.active ? 'text-text/40 line-through' : 'text-text/70'}>
+              {formatAt(e.at)} ·{' '}
+              {e.type === 'checkin'
+                ? `Masuk ${e.guestCount} orang`
+                : `${e.undoes ? 'Batal masuk' : 'Check-in dihapus'}${e.reason ? ` (${e.reason})` : ''}`}
+              {e.username ? ` · ${e.username}` : ''}
+            </span>
+            {e.type === 'checkin' && e.active && (
+              <button
+                type="button"
+                onClick={() => undo(e)}
+                disabled={undoing !== null}
+                className="text-red-600 hover:underline disabled:opacity-50"
+              >
+                {undoing === String(e._id) ? '...' : 'Batalkan'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </li>
+  );
+}
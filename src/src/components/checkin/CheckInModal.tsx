@@ -13,11 +13,13 @@ import React from 'react';
 import { createPortal } from 'react-dom';
 import { CameraView } from './CameraView';
 import { useAccount } from '../../hooks/useAccount';
+import { rankGuests } from '../../../shared/guest-search';
 
 export type RegisteredGuest = {
   id: string;
   name: string;
   code?: string;
+  phone?: string;
   extra?: string;
   checkInDate?: string | Date;
   category?: string;
@@ -104,10 +106,10 @@ export function CheckInModal({ open, onClose, onSearch, onAddGuest, onAddNonInvi
     }
   }, [showDropdown]);
 
+  // Pencarian fuzzy (nama tanpa aksen / ejaan lama / salah ketik, kode, nomor HP), paling cocok di atas
   const filtered = React.useMemo(() => {
-    const term = q.trim().toLowerCase();
-    if (!term) return [];
-    return guests.filter(g => (g.name?.toLowerCase().includes(term) || g.code?.toLowerCase().includes(term)));
+    if (!q.trim()) return [];
+    return rankGuests(guests, q);
   }, [q, guests]);
 
   if (!open) return null;
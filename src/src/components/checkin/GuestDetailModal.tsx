@@ -14,6 +14,9 @@ import Souvenir from '../../assets/Souvenir.png';
 import GiftAct from '../../assets//GiftAct.png';
 import Gift from '../../assets//Gift.png';
 import QRCode from 'react-qr-code';
+import type { PartyWithMembers } from '../../../shared/types';
+import { parseGuestLimit } from '../../../shared/guest-limit';
+import { CheckInHistory } from './CheckInHistory';
 
 export interface GuestDetailModalProps {
   open: boolean;
@@ -46,7 +49,7 @@ export function GuestDetailModal({
   onCheckIn,
 }: GuestDetailModalProps): JSX.Element | null {
   const { showToast } = useToast();
-  const { apiRequest } = useAuth();
+  const { apiRequest, hasPermission } = useAuth();
   const [count, setCount] = React.useState<number>(guest ? 1 : 0);
   const [souvenir, setSouvenir] = React.useState<number>(0);
   const [kado, setKado] = React.useState<number>(0);
@@ -59,6 +62,15 @@ export function GuestDetailModal({
   const [showDuplicateCheckInAlert, setShowDuplicateCheckInAlert] = React.useState(false);
   const [pendingCheckInData, setPendingCheckInData] = React.useState<any>(null);
   const { photoUrl } = usePhoto();
+  const [party, setParty] = React.useState<PartyWithMembers | null>(null);
+  const [isCheckingInParty, setIsCheckingInParty] = React.useState(false);
+  const [overrideReason, setOverrideReason] = React.useState('');
+
+  // Jumlah hadir di atas limit butuh alasan dari user dengan izin override
+  const limit = parseGuestLimit(guestDetails?.limit);
+  const overBy = limit !== null && count > limit ? count - limit : 0;
+  const canOverride = hasPermission('checkin_override');
+  const overLimitBlocked = overBy > 0 && (!canOverride || !overrideReason.trim());
 
   React.useEffect(() => {
     if (!open) return;
@@ -67,6 +79,7 @@ export function GuestDetailModal({
     setGift(guestDetails?.giftType || null);
     setShowDuplicateCheckInAlert(false);
     setPendingCheckInData(null);
+    setOverrideReason('');
   }, [open, guest, guestDetails]);
 
   const fetchGuestDetails = React.useCallback(async () => {
@@ -94,8 +107,71 @@ export function GuestDetailModal({
     }
   }, [guest?.id, apiRequest]);
 
+  const fetchParty = React.useCallback(async (partyId: string | null | undefined) => {
+    if (!partyId) {
+      setParty(null);
+      return;
+    }
+    try {
+      const response = await apiRequest(apiUrl(`/api/parties/${partyId}`));
+      const data = await response.json();
+      setParty(data.success ? data.data : null);
+    } catch (err) {
+      console.error('Failed to fetch party:', err);
+      setParty(null);
+    }
+  }, [apiRequest]);
+
+  // Check-in seluruh anggota party yang belum hadir sekaligus
+  const performPartyCheckIn = React.useCallback(async () => {
+    if (!party?._id) return;
+
+    const send = async (overrideReason?: string) => {
+      const response = await apiRequest(apiUrl(`/api/parties/${party._id}/checkin`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrideReason ? { overrideReason } : {}),
+      });
+      return { response, data: await response.json() };
+    };
+
+    setIsCheckingInParty(true);
+    try {
+      let { response, data } = await send();
+      // Melewati jatah kursi butuh alasan dari user dengan izin override
+      if (data.code === 'OVER_LIMIT') {
+        if (!canOverride) {
+          throw new Error(`melebihi jatah ${data.limit} kursi, butuh petugas dengan izin Check-in Override`);
+        }
+        const reason = prompt(`Check-in melebihi jatah ${data.limit} kursi. Alasan override?`)?.trim();
+        if (!reason) return;
+        ({ response, data } = await send(reason.slice(0, 300)));
+      }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to check in party');
+      }
+      if (data.overAllowance) {
+        showToast(`${party.name}: check-in melebihi jatah ${party.seatAllowance} kursi (override)`, 'success');
+      } else {
+        showToast(`${data.checkedIn} anggota ${party.name} berhasil check-in`, 'success');
+      }
+      if (guest && onCheckIn) onCheckIn(guest);
+      onClose();
+      await refresh();
+    } catch (error: any) {
+      console.error('Error checking in party:', error);
+      showToast(`Gagal check-in party: ${error.message}`, 'error');
+    } finally {
+      setIsCheckingInParty(false);
+    }
+  }, [party, guest, onCheckIn, canOverride, apiRequest, onClose, refresh, showToast]);
+
   const performCheckIn = React.useCallback(async () => {
     if (!guest || !onCheckIn) return;
+    if (overLimitBlocked) {
+      showToast(`Jumlah tamu melebihi limit ${limit} orang`, 'error');
+      return;
+    }
 
     setIsCheckingIn(true);
     try {
@@ -104,10 +180,13 @@ export function GuestDetailModal({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ guestCount: count }),
+        body: JSON.stringify({ guestCount: count, ...(overBy > 0 ? { overrideReason: overrideReason.trim() } : {}) }),
       });
 
       const checkInData = await checkInResponse.json();
+      if (checkInData.code === 'OVER_LIMIT') {
+        throw new Error(`jumlah tamu melebihi limit ${checkInData.limit} orang`);
+      }
       if (!checkInResponse.ok || !checkInData.success) {
         throw new Error(checkInData.error || 'Failed to check in guest');
       }
@@ -149,7 +228,7 @@ export function GuestDetailModal({
     } finally {
       setIsCheckingIn(false);
     }
-  }, [guest, onCheckIn, count, souvenir, angpao, kado, apiRequest, onClose, refresh, showToast]);
+  }, [guest, onCheckIn, count, overBy, overLimitBlocked, overrideReason, limit, souvenir, angpao, kado, apiRequest, onClose, refresh, showToast]);
 
   React.useEffect(() => {
     if (open && guest?.id) {
@@ -158,6 +237,10 @@ export function GuestDetailModal({
     }
   }, [open, guest?.id, fetchGuestDetails]);
 
+  React.useEffect(() => {
+    if (open) fetchParty(guestDetails?.partyId);
+  }, [open, guestDetails?.partyId, fetchParty]);
+
   if (!open || !guest) return null;
 
   async function convertSvgToPng(svgElement: SVGSVGElement, width = 80, height = 80) {
@@ -326,10 +409,39 @@ export function GuestDetailModal({
                   </span>
                 </li>
 
+                {party && (
+                  <li className="px-4 py-2.5 sm:py-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[13px] sm:text-sm">Party</span>
+                      <span className="text-[13px] sm:text-sm text-text truncate max-w-[60%] text-right">
+                        {party.name}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex items-center justify-between gap-2">
+                      <span className={`text-[11px] sm:text-xs ${party.seatsUsed > party.seatAllowance ? 'text-red-600' : 'text-text/60'}`}>
+                        {party.checkedInCount}/{party.memberCount} anggota hadir · {party.seatsUsed}/{party.seatAllowance} kursi
+                      </span>
+                      {onCheckIn && party.checkedInCount < party.memberCount && (
+                        <button
+                          type="button"
+                          onClick={performPartyCheckIn}
+                          disabled={isCheckingInParty || isCheckingIn}
+                          className="rounded-lg bg-primary text-background px-2.5 py-1 text-[11px] sm:text-xs font-semibold hover:opacity-90 disabled:opacity-50"
+                        >
+                          {isCheckingInParty ? 'Checking in...' : 'Check-in semua anggota'}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                )}
+
                 {/* Jumlah tamu */}
                 <li className="px-4 py-2.5 sm:py-3">
                   <div className="flex items-center justify-between">
-                    <span className="text-[13px] sm:text-sm">Jumlah Tamu</span>
+                    <span className="text-[13px] sm:text-sm">
+                      Jumlah Tamu
+                      {limit !== null && <span className="text-text/60"> (limit {limit})</span>}
+                    </span>
                     <div className="flex items-center gap-2">
                       <button
                         aria-label="dec guest count"
@@ -350,6 +462,23 @@ export function GuestDetailModal({
                       </button>
                     </div>
                   </div>
+                  {overBy > 0 && (
+                    <div className="mt-2 space-y-1.5">
+                      <p className="text-[11px] sm:text-xs text-red-600">
+                        Melebihi limit {overBy} orang.
+                        {!canOverride && ' Check-in butuh petugas dengan izin Check-in Override.'}
+                      </p>
+                      {canOverride && (
+                        <input
+                          value={overrideReason}
+                          maxLength={300}
+                          onChange={(e) => setOverrideReason(e.target.value)}
+                          placeholder="Alasan override, mis. anak ikut"
+                          className="w-full rounded-lg border border-border bg-background px-3 py-1.5 text-[13px] sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      )}
+                    </div>
+                  )}
                 </li>
 
                 {/* Tanggal & Waktu */}
@@ -376,6 +505,10 @@ export function GuestDetailModal({
                   </span>
                 </li>
 
+                {guestDetails?.checkInDate && (
+                  <CheckInHistory guestId={guest.id} onChanged={() => { fetchGuestDetails(); refresh(); }} />
+                )}
+
                 {/* Souvenir */}
                 <li className="px-4 py-2.5 sm:py-3">
                   <div className="flex items-center justify-between">
@@ -496,10 +629,10 @@ export function GuestDetailModal({
 
                 await performCheckIn();
               }}
-              disabled={isCheckingIn}
+              disabled={isCheckingIn || overLimitBlocked}
               className="w-full sm:w-1/2 rounded-xl bg-primary text-background px-3 py-2.5 text-[13px] sm:text-sm font-semibold shadow hover:opacity-90 transition-opacity min-h-[40px] disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isCheckingIn ? 'Checking in...' : 'Check-in'}
+              {isCheckingIn ? 'Checking in...' : guestDetails?.checkInDate ? 'Check-in Ulang' : 'Check-in'}
             </button>
           </div>
         </div>
@@ -532,7 +665,7 @@ export function GuestDetailModal({
                   Guest Already Checked In
                 </h3>
                 <p className="text-sm text-text/70 mb-6">
-                  Guest has already checked in. Do you want to continue anyway?
+                  Guest has already checked in. Continue records a re-entry; the first arrival time is kept.
                 </p>
                 <div className="flex gap-3">
                   <button
@@ -21,7 +21,6 @@ export interface NonInvitedGuestData {
   phone: string
   guestCount: number
   info: string
-  invitationCode: string
   category?: string
   categoryID?: number
 }
@@ -57,7 +56,6 @@ export default function NonInvitedGuestCheckInModal({
     name: '',
     phone: '',
     info: '',
-    invitationCode: '',
     guestCount: 1,
     category: '',
     categoryID: 0
@@ -78,7 +76,6 @@ export default function NonInvitedGuestCheckInModal({
       name: '',
       phone: '',
       info: '',
-      invitationCode: '',
       guestCount: 1,
       category: '',
       categoryID: 0
@@ -126,19 +123,9 @@ export default function NonInvitedGuestCheckInModal({
       return
     }
 
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-    let code = '';
-    for (let i = 0; i < 5; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    const invitationCode = `GUEST-${code}`;
-
     const candidate: NonInvitedGuestData = {
       ...formData,
-      phone: formattedPhone,
-      invitationCode: invitationCode
+      phone: formattedPhone
     };
 
     const matchedGuest = allGuests?.find((guest: Guest) => {
@@ -3,7 +3,7 @@ import React from "react";
 interface ConfirmModalProps {
   open: boolean;
   title?: string;
-  message?: string;
+  message?: React.ReactNode;
   confirmText?: string;
   cancelText?: string;
   onConfirm: () => void;
@@ -31,7 +31,7 @@ export const PermissionGuard: React.FC<PermissionGuardProps> = ({
   }
 
   // Admin users have access to everything
-  if (user?.role === 'admin') {
+  if (user?.role === 'admin' || user?.role === 'operator') {
     return <>{children}</>;
   }
 
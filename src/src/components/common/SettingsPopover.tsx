@@ -27,6 +27,8 @@ export type SettingsDropdownProps = {
   onRequestDeleteAll: () => void;
   onDownloadQr: () => void;
   onBlast: () => void;
+  onGenerateCodes?: () => void;    // beri kode undangan ke tamu yang belum punya
+  onFindDuplicates?: () => void;   // buka review tamu duplikat
 };
 
 export function SettingsDropdown({
@@ -36,6 +38,8 @@ export function SettingsDropdown({
   onRequestDeleteAll,
   onDownloadQr,
   onBlast,
+  onGenerateCodes,
+  onFindDuplicates,
 }: SettingsDropdownProps) {
   const ref = React.useRef<HTMLDivElement | null>(null);
 
@@ -77,6 +81,32 @@ export function SettingsDropdown({
           Delete All
         </button>
 
+        {onGenerateCodes && (
+          <button
+            type="button"
+            className={`${baseBtn} ${violet}`}
+            onClick={() => {
+              onClose();
+              onGenerateCodes();
+            }}
+          >
+            Generate Missing Codes
+          </button>
+        )}
+
+        {onFindDuplicates && (
+          <button
+            type="button"
+            className={`${baseBtn} ${violet}`}
+            onClick={() => {
+              onClose();
+              onFindDuplicates();
+            }}
+          >
+            Find Duplicates
+          </button>
+        )}
+
         {/* <button
           type="button"
           className={`${baseBtn} ${violet}`}
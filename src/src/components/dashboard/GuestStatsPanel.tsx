@@ -0,0 +1,124 @@
+/**
+ * GuestStatsPanel component
+ * Attendance totals, per-category / per-session breakdowns and the arrivals
+ * histogram of the event day, from GET /api/guests/stats. Shown on Dashboard;
+ * the counter tiles follow the live stats from the realtime socket when given.
+ */
+import React from 'react';
+import type { GuestStats, GuestStatsBucket, LiveStats } from '../../../shared/types';
+
+export interface GuestStatsPanelProps {
+  stats: GuestStats;
+  live?: LiveStats | null;
+}
+
+const formatTime = (value: string, timeZone: string) =>
+  new Intl.DateTimeFormat('id-ID', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone }).format(
+    new Date(value),
+  );
+
+function BreakdownTable({
+  title,
+  column,
+  rows,
+  emptyLabel,
+}: {
+  title: string;
+  column: string;
+  rows: GuestStatsBucket[];
+  emptyLabel: string;
+}) {
+  return (
+    <div>
+      <div className="text-sm font-semibold mb-2">{title}</div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 font-medium">{column}</th>
+            <th className="py-1 font-medium text-right">Tamu</th>
+            <th className="py-1 font-medium text-right">Check-in</th>
+            <th className="py-1 font-medium text-right">Pax</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="py-1.5">{row.key || emptyLabel}</td>
+              <td className="py-1.5 text-right">{row.guests}</td>
+              <td className="py-1.5 text-right">{row.checkedIn}</td>
+              <td className="py-1.5 text-right">{row.pax}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function GuestStatsPanel({ stats, live }: GuestStatsPanelProps): JSX.Element {
+  const { totals, arrivals } = stats;
+  const peak = Math.max(1, ...arrivals.buckets.map((b) => b.pax));
+  const counters = live ?? totals;
+
+  const tiles = [
+    { label: 'Check-in', value: `${counters.checkedIn} / ${totals.guests}` },
+    { label: 'Pax Hadir', value: counters.pax },
+    { label: 'Souvenir', value: counters.souvenirs },
+    { label: 'Angpao', value: counters.angpao },
+    { label: 'Kado', value: counters.kado },
+  ];
+
+  return (
+    <div className="rounded-xl border border-border/60 bg-white p-5 sm:p-6 shadow-sm mt-6">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        Statistik Kehadiran
+        {live && (
+          <span className="inline-flex items-center gap-1 text-[11px] font-medium text-green-700">
+            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" /> Live
+          </span>
+        )}
+      </h3>
+
+      <div className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-xl border border-border/60 bg-accent p-3 text-center">
+            <div className="text-lg sm:text-2xl font-semibold">{tile.value}</div>
+            <div className="text-xs mt-1 font-semibold">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <BreakdownTable title="Per Kategori" column="Kategori" rows={stats.byCategory} emptyLabel="Tanpa kategori" />
+        <BreakdownTable title="Per Sesi" column="Sesi" rows={stats.bySession} emptyLabel="Tanpa sesi" />
+      </div>
+
+      <div className="mt-6">
+        <div className="text-sm font-semibold">
+          Kedatangan {arrivals.date}{' '}
+          <span className="font-normal text-gray-500">(per {arrivals.bucketMinutes} menit)</span>
+        </div>
+        {arrivals.buckets.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-500">Belum ada tamu yang check-in di hari acara.</p>
+        ) : (
+          <div className="mt-3 flex items-end gap-1 h-32 overflow-x-auto">
+            {arrivals.buckets.map((bucket) => (
+              <div
+                key={bucket.at}
+                className="flex flex-col items-center justify-end h-full min-w-[28px] flex-1"
+                title={`${formatTime(bucket.at, arrivals.timezone)}: ${bucket.arrivals} check-in, ${bucket.pax} orang`}
+              >
+                <span className="text-[10px] text-gray-600">{bucket.pax}</span>
+                <div
+                  className="w-full rounded-t bg-primary/70"
+                  style={{ height: `${Math.max(4, (bucket.pax / peak) * 100)}%` }}
+                />
+                <span className="mt-1 text-[10px] text-gray-500">{formatTime(bucket.at, arrivals.timezone)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,6 @@ export interface NonInvitedGuestData {
   kadoCount: number
   angpao: number
   giftNote: string
-  invitationCode: string
   info: string
   category?: string
   categoryID: number
@@ -59,7 +58,6 @@ export default function NonInvitedGiftAssignmentModal({
     info: '',
     angpao: 0,
     kado: 0,
-    invitationCode: '',
     kadoCount: 0,
     categoryID: 0,
     giftNote: '',
@@ -124,19 +122,9 @@ export default function NonInvitedGiftAssignmentModal({
       return;
     }
 
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-    let code = '';
-    for (let i = 0; i < 5; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    const invitationCode = `GUEST-${code}`;
-
     const candidate: NonInvitedGuestData = {
       ...formData,
-      phone: formattedPhone,
-      invitationCode: invitationCode
+      phone: formattedPhone
     };
 
     // 🔍 cari guest existing
@@ -165,7 +153,6 @@ export default function NonInvitedGiftAssignmentModal({
           kadoCount: 0,
           kado: 0,
           giftNote: '',
-          invitationCode: '',
           category: '',
           categoryID: 0
         });
@@ -206,7 +193,6 @@ export default function NonInvitedGiftAssignmentModal({
         categoryID: 0,
         kado: 0,
         giftNote: '',
-        invitationCode: '',
         category: ''
       });
       setPhoneError('');
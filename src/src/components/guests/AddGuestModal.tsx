@@ -11,6 +11,8 @@ import { formatIndonesianPhone, getPhoneValidationError } from '../../utils/phon
 import { apiUrl } from '../../lib/api';
 import { useAccount } from '../../hooks/useAccount';
 import { useAuth } from '../../contexts/AuthContext';
+import type { CustomFieldDef, CustomFieldValue } from '../../../shared/types';
+import { CustomFieldInputs } from './CustomFieldInputs';
 
 export interface AddGuestFormData {
   name: string;
@@ -24,6 +26,8 @@ export interface AddGuestFormData {
   tableNo: string;
   category: string;
   categoryID: number;
+  tags: string; // dipisah koma
+  customFields: Record<string, CustomFieldValue>;
   guestCount?: number;
 }
 
@@ -46,6 +50,8 @@ export function AddGuestModal({ open, onClose, onSave }: AddGuestModalProps) {
     tableNo: '',
     category: '',
     categoryID: 0,
+    tags: '',
+    customFields: {},
     guestCount: 0,
   });
   const [nameError, setNameError] = React.useState<string>('');
@@ -65,6 +71,8 @@ export function AddGuestModal({ open, onClose, onSave }: AddGuestModalProps) {
     [account]
   );
 
+  const customFieldDefs: CustomFieldDef[] = account?.customFields ?? [];
+
   React.useEffect(() => {
     if (!open) return;
     // Reset form when opened to ensure a clean state
@@ -80,6 +88,8 @@ export function AddGuestModal({ open, onClose, onSave }: AddGuestModalProps) {
       tableNo: '',
       category: '',
       categoryID: 0,
+      tags: '',
+      customFields: {},
       guestCount: 0,
     });
   }, [open]);
@@ -296,6 +306,27 @@ export function AddGuestModal({ open, onClose, onSave }: AddGuestModalProps) {
               </div>
             </div>
 
+            {/* Tag */}
+            <div>
+              <label className="block font-medium mb-1">Tag</label>
+              <input
+                value={form.tags}
+                onChange={(e) => update('tags', e.target.value)}
+                className="w-full rounded-md border border-border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="kantor, keluarga-ayah, needs-shuttle"
+              />
+              <p className="text-xs text-text/60 mt-1">Pisahkan dengan koma</p>
+            </div>
+
+            {/* Field tambahan akun */}
+            <CustomFieldInputs
+              defs={customFieldDefs}
+              values={form.customFields}
+              onChange={(key, value) =>
+                setForm((s) => ({ ...s, customFields: { ...s.customFields, [key]: value } }))
+              }
+            />
+
             {/* Submit */}
             <div className="flex justify-end pt-2">
               <button
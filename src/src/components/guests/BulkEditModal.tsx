@@ -0,0 +1,234 @@
+/**
+ * BulkEditModal
+ * Edit several guests at once from the ManageGuests selection. Only the
+ * fields ticked "Ubah" are sent to POST /api/guests/bulk-update; afterwards
+ * the per-guest report lists what was skipped or not found.
+ */
+import React from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAccount } from '../../hooks/useAccount';
+import { apiUrl } from '../../lib/api';
+import type { GuestBulkResult } from '../../../shared/types';
+
+export type BulkTarget = { ids: string[] } | { filter: Record<string, string | boolean> };
+
+type BulkEditModalProps = {
+  open: boolean;
+  target: BulkTarget | null;
+  count: number;
+  onClose: () => void;
+  onDone: (message: string) => void;
+};
+
+type FieldKey = 'category' | 'session' | 'tableNo' | 'limit' | 'introTextCategory' | 'status' | 'isInvited' | 'tags';
+
+type Summary = { matched: number; updated: number; unchanged: number; skipped: number; notFound: number };
+
+const FIELD_LABELS: Record<FieldKey, string> = {
+  category: 'Kategori',
+  session: 'Sesi',
+  tableNo: 'No. Meja',
+  limit: 'Limit Tamu',
+  introTextCategory: 'Teks Pengantar',
+  status: 'Status',
+  isInvited: 'Jenis Tamu',
+  tags: 'Tag',
+};
+
+const INTRO_TEXT_CATEGORIES = ['Formal', 'Casual'];
+
+const inputClass = 'w-full rounded-md border border-border px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:bg-gray-50 disabled:text-text/40';
+
+const emptyValues: Record<FieldKey, string> = {
+  category: '',
+  session: '',
+  tableNo: '',
+  limit: '',
+  introTextCategory: 'Formal',
+  status: 'Pending',
+  isInvited: 'true',
+  tags: '',
+};
+
+export function BulkEditModal({ open, target, count, onClose, onDone }: BulkEditModalProps): JSX.Element | null {
+  const { apiRequest } = useAuth();
+  const { account } = useAccount();
+  const [enabled, setEnabled] = React.useState<Partial<Record<FieldKey, boolean>>>({});
+  const [values, setValues] = React.useState(emptyValues);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState('');
+  const [report, setReport] = React.useState<{ summary: Summary; results: GuestBulkResult[] } | null>(null);
+
+  const categories: string[] = Array.isArray(account?.guestCategories) ? account.guestCategories : [];
+
+  React.useEffect(() => {
+    if (!open) return;
+    setEnabled({});
+    setValues(emptyValues);
+    setError('');
+    setReport(null);
+  }, [open]);
+
+  if (!open || !target) return null;
+
+  const set = (key: FieldKey, value: string) => setValues(prev => ({ ...prev, [key]: value }));
+
+  const buildPatch = () => {
+    const patch: Record<string, unknown> = {};
+    (Object.keys(enabled) as FieldKey[]).forEach(key => {
+      if (!enabled[key]) return;
+      if (key === 'category') {
+        patch.category = values.category;
+        const index = categories.indexOf(values.category);
+        if (index >= 0) patch.categoryID = index + 1;
+      } else if (key === 'isInvited') {
+        patch.isInvited = values.isInvited === 'true';
+      } else if (key === 'tags') {
+        patch.tags = Array.from(new Set(values.tags.split(',').map(t => t.trim()).filter(Boolean)));
+      } else {
+        patch[key] = values[key];
+      }
+    });
+    return patch;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const patch = buildPatch();
+    if (Object.keys(patch).length === 0) {
+      setError('Pilih minimal satu field yang diubah');
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      const res = await apiRequest(apiUrl('/api/guests/bulk-update'), {
+        method: 'POST',
+        body: JSON.stringify({ ...target, patch }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error?.issues?.[0]?.message || json.error || 'Gagal mengubah tamu');
+      }
+      const summary: Summary = json.data.summary;
+      onDone(`${summary.updated} tamu diperbarui`);
+      if (summary.skipped || summary.notFound) setReport(json.data);
+      else onClose();
+    } catch (err: any) {
+      setError(err.message || 'Gagal mengubah tamu');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderInput = (key: FieldKey) => {
+    const disabled = !enabled[key];
+    switch (key) {
+      case 'category':
+        return categories.length > 0 ? (
+          <select value={values.category} disabled={disabled} onChange={(e) => set('category', e.target.value)} className={inputClass}>
+            <option value="">-</option>
+            {categories.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+          </select>
+        ) : (
+          <input value={values.category} disabled={disabled} onChange={(e) => set('category', e.target.value)} className={inputClass} />
+        );
+      case 'introTextCategory':
+        return (
+          <select value={values.introTextCategory} disabled={disabled} onChange={(e) => set('introTextCategory', e.target.value)} className={inputClass}>
+            {INTRO_TEXT_CATEGORIES.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+          </select>
+        );
+      case 'status':
+        return (
+          <select value={values.status} disabled={disabled} onChange={(e) => set('status', e.target.value)} className={inputClass}>
+            <option value="Pending">Pending</option>
+            <option value="Confirmed">Confirmed</option>
+            <option value="Declined">Declined</option>
+          </select>
+        );
+      case 'isInvited':
+        return (
+          <select value={values.isInvited} disabled={disabled} onChange={(e) => set('isInvited', e.target.value)} className={inputClass}>
+            <option value="true">Tamu undangan</option>
+            <option value="false">Walk-in</option>
+          </select>
+        );
+      case 'limit':
+        return <input type="number" min={1} value={values.limit} disabled={disabled} onChange={(e) => set('limit', e.target.value)} className={inputClass} />;
+      case 'tags':
+        return <input value={values.tags} disabled={disabled} onChange={(e) => set('tags', e.target.value)} placeholder="kantor, keluarga-ayah" className={inputClass} />;
+      default:
+        return <input value={values[key]} disabled={disabled} onChange={(e) => set(key, e.target.value)} className={inputClass} />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+      <div className="bg-background rounded-xl shadow-lg w-full max-w-lg p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-text">Edit {count} Tamu</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded hover:bg-secondary">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {report ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-text/80">
+              {report.summary.updated} diperbarui, {report.summary.unchanged} tidak berubah, {report.summary.skipped} dilewati,{' '}
+              {report.summary.notFound} tidak ditemukan.
+            </p>
+            <ul className="divide-y divide-border border border-border rounded-lg max-h-64 overflow-y-auto">
+              {report.results
+                .filter(r => r.result === 'skipped' || r.result === 'not_found')
+                .map(r => (
+                  <li key={r.id} className="flex items-center justify-between px-3 py-2">
+                    <span className="text-text">{r.name || r.id}</span>
+                    <span className="text-xs text-red-600">{r.reason || 'Tidak ditemukan'}</span>
+                  </li>
+                ))}
+            </ul>
+            <div className="flex justify-end">
+              <button type="button" onClick={onClose} className="rounded-md bg-primary px-5 py-2 text-white text-sm font-medium">
+                Tutup
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {(Object.keys(FIELD_LABELS) as FieldKey[]).map(key => (
+              <div key={key} className="grid grid-cols-[7rem_1fr] items-center gap-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-text cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!enabled[key]}
+                    onChange={(e) => setEnabled(prev => ({ ...prev, [key]: e.target.checked }))}
+                  />
+                  {FIELD_LABELS[key]}
+                </label>
+                {renderInput(key)}
+              </div>
+            ))}
+
+            {enabled.status && (
+              <p className="text-xs text-text/60">Tamu yang sudah check-in tidak diubah statusnya.</p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end pt-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="inline-flex items-center justify-center rounded-md bg-primary px-5 py-2 text-white text-sm font-medium shadow-sm hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Menyimpan...' : `Terapkan ke ${count} tamu`}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
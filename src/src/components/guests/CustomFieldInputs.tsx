@@ -0,0 +1,78 @@
+/**
+ * CustomFieldInputs component
+ * Renders one input per custom guest field of the account (EventPage),
+ * shared by AddGuestModal and EditGuestModal.
+ */
+
+import type { CustomFieldDef, CustomFieldValue } from '../../../shared/types';
+
+export interface CustomFieldInputsProps {
+  defs: CustomFieldDef[];
+  values: Record<string, CustomFieldValue>;
+  onChange: (key: string, value: CustomFieldValue) => void;
+}
+
+const inputClass =
+  'w-full rounded-md border border-border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function CustomFieldInputs({ defs, values, onChange }: CustomFieldInputsProps) {
+  if (defs.length === 0) return null;
+
+  return (
+    <>
+      {defs.map((def) => {
+        const value = values[def.key] ?? null;
+        return (
+          <div key={def.key}>
+            <label className="block font-medium mb-1">
+              {def.label}
+              {def.required ? ' *' : ''}
+            </label>
+            {def.type === 'select' ? (
+              <select
+                required={def.required}
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e) => onChange(def.key, e.target.value || null)}
+                className={inputClass}
+              >
+                <option value="">-</option>
+                {(def.options ?? []).map((opt) => (
+                  <option key={opt} value={opt}>
+                    {opt}
+                  </option>
+                ))}
+              </select>
+            ) : def.type === 'boolean' ? (
+              <select
+                required={def.required}
+                value={value === null ? '' : value ? 'ya' : 'tidak'}
+                onChange={(e) => onChange(def.key, e.target.value ? e.target.value === 'ya' : null)}
+                className={inputClass}
+              >
+                <option value="">-</option>
+                <option value="ya">Ya</option>
+                <option value="tidak">Tidak</option>
+              </select>
+            ) : def.type === 'number' ? (
+              <input
+                type="number"
+                required={def.required}
+                value={typeof value === 'number' ? value : ''}
+                onChange={(e) => onChange(def.key, e.target.value === '' ? null : Number(e.target.value))}
+                className={inputClass}
+              />
+            ) : (
+              <input
+                type={def.type === 'date' ? 'date' : 'text'}
+                required={def.required}
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e) => onChange(def.key, e.target.value || null)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
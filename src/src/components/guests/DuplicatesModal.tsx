@@ -0,0 +1,184 @@
+/**
+ * DuplicatesModal
+ * Review screen for likely duplicate guests (same phone, same or similar
+ * name). Per cluster the user picks the guest to keep and merges the rest
+ * into it, or marks the cluster as not duplicates.
+ */
+import React from 'react';
+import useSWR from 'swr';
+import { X, Users, Phone, Type } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiUrl } from '../../lib/api';
+import type { DuplicateCluster, DuplicateReason } from '../../../shared/types';
+
+type DuplicatesModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onMerged: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const REASON_LABELS: Record<DuplicateReason, { label: string; icon: React.ElementType }> = {
+  phone: { label: 'No. HP sama', icon: Phone },
+  name: { label: 'Nama sama', icon: Users },
+  similar_name: { label: 'Nama mirip', icon: Type },
+};
+
+function formatDate(value?: string | Date | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function DuplicatesModal({ open, onClose, onMerged, onError }: DuplicatesModalProps): JSX.Element | null {
+  const { apiRequest } = useAuth();
+  // Tamu yang dipertahankan per cluster; default tamu paling lama
+  const [survivors, setSurvivors] = React.useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = React.useState<string | null>(null);
+
+  const { data: clusters, error, isLoading, mutate } = useSWR(
+    open ? apiUrl('/api/guests/duplicates') : null,
+    async (url: string) => {
+      const res = await apiRequest(url);
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load duplicates');
+      return json.data as DuplicateCluster[];
+    },
+  );
+
+  if (!open) return null;
+
+  const request = async (path: string, body: unknown) => {
+    const res = await apiRequest(apiUrl(path), { method: 'POST', body: JSON.stringify(body) });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.issues?.[0]?.message || json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const survivorId = survivors[cluster.key] ?? String(cluster.guests[0]._id);
+    const duplicateIds = cluster.guests.map(g => String(g._id)).filter(id => id !== survivorId);
+    setBusyKey(cluster.key);
+    try {
+      await request('/api/guests/duplicates/merge', { survivorId, duplicateIds });
+      onMerged(`${duplicateIds.length} tamu digabung ke ${cluster.guests.find(g => String(g._id) === survivorId)?.name}`);
+      await mutate();
+    } catch (e: any) {
+      onError(e.message || 'Gagal menggabungkan tamu');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDismiss = async (cluster: DuplicateCluster) => {
+    setBusyKey(cluster.key);
+    try {
+      await request('/api/guests/duplicates/dismiss', { guestIds: cluster.guests.map(g => String(g._id)) });
+      await mutate();
+    } catch (e: any) {
+      onError(e.message || 'Gagal menyimpan');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+      <div className="bg-background rounded-xl shadow-lg w-full max-w-3xl p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-text">Tamu Duplikat</h2>
+            <p className="text-xs text-gray-500">
+              Pilih tamu yang dipertahankan. Data check-in, souvenir, hadiah dan pengingat dari tamu lain ikut digabung.
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 rounded hover:bg-secondary">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : !clusters?.length ? (
+          <p className="text-sm text-gray-500 text-center py-8">Tidak ada tamu duplikat.</p>
+        ) : (
+          <div className="space-y-4">
+            {clusters.map(cluster => {
+              const selected = survivors[cluster.key] ?? String(cluster.guests[0]._id);
+              const busy = busyKey === cluster.key;
+              return (
+                <div key={cluster.key} className="rounded-lg border border-border bg-white">
+                  <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border">
+                    {cluster.reasons.map(reason => {
+                      const { label, icon: Icon } = REASON_LABELS[reason];
+                      return (
+                        <span key={reason} className="inline-flex items-center gap-1 rounded-full bg-accent px-2 py-0.5 text-xs text-text">
+                          <Icon className="w-3 h-3" /> {label}
+                        </span>
+                      );
+                    })}
+                  </div>
+
+                  <div className="divide-y divide-border">
+                    {cluster.guests.map(guest => {
+                      const id = String(guest._id);
+                      return (
+                        <label key={id} className="flex items-start gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-accent/50">
+                          <input
+                            type="radio"
+                            name={`survivor-${cluster.key}`}
+                            checked={selected === id}
+                            onChange={() => setSurvivors(prev => ({ ...prev, [cluster.key]: id }))}
+                            className="mt-1"
+                          />
+                          <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-x-3 gap-y-0.5">
+                            <span className="font-medium text-text">{guest.name}</span>
+                            <span className="text-gray-500">{guest.phone || '-'}</span>
+                            <span className="text-gray-500">{guest.code || '-'} · {guest.category || '-'}</span>
+                            <span className="text-gray-500">
+                              {guest.checkInDate ? `Check-in ${formatDate(guest.checkInDate)}` : guest.status}
+                            </span>
+                          </div>
+                        </label>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex justify-end gap-2 px-4 py-2 border-t border-border">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => handleDismiss(cluster)}
+                      className="px-3 py-1.5 rounded-lg border border-border text-sm text-text hover:bg-secondary disabled:opacity-50"
+                    >
+                      Bukan duplikat
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => handleMerge(cluster)}
+                      className="px-3 py-1.5 rounded-lg bg-primary text-white text-sm font-semibold hover:bg-primary/90 disabled:opacity-50"
+                    >
+                      {busy ? 'Memproses...' : 'Gabungkan'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,10 @@
 
 import React, { useEffect } from 'react';
 import { X } from 'lucide-react';
-import { Guest } from '../../../shared/types';
+import { CustomFieldDef, CustomFieldValue, Guest } from '../../../shared/types';
 import { useAccount } from '../../hooks/useAccount';
 import { formatIndonesianPhone, getPhoneValidationError } from '../../utils/phoneFormatter';
+import { CustomFieldInputs } from './CustomFieldInputs';
 
 export interface EditGuestFormData {
   name: string;
@@ -19,6 +20,8 @@ export interface EditGuestFormData {
   tableNo: string;
   category: string;
   categoryID: number;
+  tags: string; // dipisah koma
+  customFields: Record<string, CustomFieldValue>;
   email?: string;
   guestCount?: number;
 }
@@ -40,6 +43,8 @@ export function EditGuestModal({ open, onClose, onSave, guest }: EditGuestModalP
     tableNo: '',
     category: '',
     categoryID: 0,
+    tags: '',
+    customFields: {},
     email: '',
     guestCount: 1,
   });
@@ -58,6 +63,8 @@ export function EditGuestModal({ open, onClose, onSave, guest }: EditGuestModalP
     [account]
   );
 
+  const customFieldDefs: CustomFieldDef[] = account?.customFields ?? [];
+
   // Populate form when guest data is available
   useEffect(() => {
     if (guest && open) {
@@ -66,10 +73,12 @@ export function EditGuestModal({ open, onClose, onSave, guest }: EditGuestModalP
         info: guest.info || '',
         phone: guest.phone || '',
         session: guest.session || '',
-        limit: guest.limit || '',
+        limit: guest.limit ? String(guest.limit) : '',
         tableNo: guest.tableNo || '',
         category: guest.category || '',
         categoryID: guest.categoryID || 0,
+        tags: (guest.tags ?? []).join(', '),
+        customFields: guest.customFields ?? {},
         guestCount: guest.guestCount || 1,
       });
     }
@@ -239,6 +248,27 @@ export function EditGuestModal({ open, onClose, onSave, guest }: EditGuestModalP
               </div>
             </div>
 
+            {/* Tag */}
+            <div>
+              <label className="block font-medium mb-1">Tag</label>
+              <input
+                value={form.tags}
+                onChange={(e) => update('tags', e.target.value)}
+                className="w-full rounded-md border border-border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="kantor, keluarga-ayah, needs-shuttle"
+              />
+              <p className="text-xs text-text/60 mt-1">Pisahkan dengan koma</p>
+            </div>
+
+            {/* Field tambahan akun */}
+            <CustomFieldInputs
+              defs={customFieldDefs}
+              values={form.customFields}
+              onChange={(key, value) =>
+                setForm((s) => ({ ...s, customFields: { ...s.customFields, [key]: value } }))
+              }
+            />
+
             {/* Submit */}
             <div className="flex justify-end pt-2">
               <button
@@ -7,6 +7,9 @@ import React, { useState, useRef } from 'react';
 import { X, UploadCloud, Download, CheckCircle, AlertCircle, FileText, Users, Phone, Mail, User, Hash, Calendar, Edit3 } from 'lucide-react';
 import { parseExcelData, ParsedGuestData, generateSampleExcelData } from '../../utils/excelParser';
 import { useAuth } from '../../contexts/AuthContext';
+import { useAccount } from '../../hooks/useAccount';
+import { formatCustomFieldValue } from '../../../shared/custom-fields';
+import type { CustomFieldDef } from '../../../shared/types';
 import { Toast } from '../common/Toast';
 import { apiUrl } from '../../lib/api';
 
@@ -18,6 +21,8 @@ interface ExcelImportModalProps {
 
 export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClose, onImportComplete }) => {
   const { apiRequest } = useAuth();
+  const { account } = useAccount();
+  const customFieldDefs: CustomFieldDef[] = account?.customFields ?? [];
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [step, setStep] = useState<'upload' | 'preview' | 'processing' | 'complete'>('upload');
   const [file, setFile] = useState<File | null>(null);
@@ -72,7 +77,7 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
       }
 
       // Parse and validate data
-      const result = parseExcelData(rows);
+      const result = parseExcelData(rows, customFieldDefs);
       setParsedData(result.guests);
       setStep('preview');
     } catch (error) {
@@ -141,9 +146,10 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
             phone: guest.phone,
             category: guest.category,
             session: guest.session.toString(),
-            limit: guest.limit.toString(),
+            limit: guest.limit ?? null,
             notes: guest.notes || '',
-            tableNo: guest.tableNo || ''
+            tableNo: guest.tableNo || '',
+            customFields: guest.customFields
           })),
           generateInvitations: true
         })
@@ -173,7 +179,7 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
   };
 
   const downloadSample = () => {
-    const sampleData = generateSampleExcelData();
+    const sampleData = generateSampleExcelData(customFieldDefs);
     const csvContent = convertToCSV(sampleData);
     
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -264,6 +270,11 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
                   <li>• Supported formats: CSV, Excel (.xlsx, .xls)</li>
                   <li>• Required columns: Name, Phone</li>
                   <li>• Optional columns: Email, Category, Session, Limit, Table No, Notes</li>
+                  {customFieldDefs.length > 0 && (
+                    <li>
+                      • Custom columns: {customFieldDefs.map((def) => `${def.label}${def.required ? ' (required)' : ''}`).join(', ')}
+                    </li>
+                  )}
                   <li>• Phone numbers will be automatically formatted to Indonesian format (62...)</li>
                 </ul>
               </div>
@@ -342,6 +353,9 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
                         <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left font-medium hidden md:table-cell">Category</th>
                         <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left font-medium hidden lg:table-cell">Session</th>
                         <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left font-medium hidden lg:table-cell">Limit</th>
+                        {customFieldDefs.map((def) => (
+                          <th key={def.key} className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left font-medium hidden lg:table-cell">{def.label}</th>
+                        ))}
                         <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left font-medium">Status</th>
                       </tr>
                     </thead>
@@ -354,6 +368,11 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ open, onClos
                           <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 hidden md:table-cell">{guest.category}</td>
                           <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 hidden lg:table-cell">{guest.session}</td>
                           <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 hidden lg:table-cell">{guest.limit}</td>
+                          {customFieldDefs.map((def) => (
+                            <td key={def.key} className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 hidden lg:table-cell">
+                              {formatCustomFieldValue(def, guest.customFields?.[def.key]) || '-'}
+                            </td>
+                          ))}
                           <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3">
                             {guest.isValid ? (
                               <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 text-green-500" />
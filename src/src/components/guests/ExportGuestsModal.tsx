@@ -0,0 +1,171 @@
+/**
+ * ExportGuestsModal
+ * Download the guest list of ManageGuests (same search / segment / stage /
+ * field filters) as XLSX or CSV from GET /api/guests/export, with the
+ * columns ticked here. The chosen columns are remembered in localStorage.
+ */
+import React from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiUrl } from '../../lib/api';
+import type { CustomFieldDef } from '../../../shared/types';
+import {
+  CUSTOM_EXPORT_PREFIX,
+  GUEST_EXPORT_COLUMNS,
+  GUEST_EXPORT_FORMATS,
+  type GuestExportFormat,
+} from '../../../shared/guest-export';
+
+type ExportGuestsModalProps = {
+  open: boolean;
+  filters: Record<string, string>;
+  customFieldDefs: CustomFieldDef[];
+  onClose: () => void;
+  onDone: (message: string) => void;
+};
+
+const STORAGE_KEY = 'guestExportColumns';
+
+const FORMAT_LABELS: Record<GuestExportFormat, string> = {
+  xlsx: 'Excel (.xlsx)',
+  csv: 'CSV (.csv)',
+};
+
+const savedColumns = (): string[] | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const filenameOf = (res: Response, format: GuestExportFormat) => {
+  const match = /filename="?([^"]+)"?/.exec(res.headers.get('Content-Disposition') || '');
+  return match ? match[1] : `tamu.${format}`;
+};
+
+export function ExportGuestsModal({ open, filters, customFieldDefs, onClose, onDone }: ExportGuestsModalProps): JSX.Element | null {
+  const { apiRequest } = useAuth();
+  const [format, setFormat] = React.useState<GuestExportFormat>('xlsx');
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [exporting, setExporting] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const columns = [
+    ...GUEST_EXPORT_COLUMNS.map(col => ({ key: col.key as string, header: col.header as string })),
+    ...customFieldDefs.map(def => ({ key: `${CUSTOM_EXPORT_PREFIX}${def.key}`, header: def.label })),
+  ];
+
+  // Dibandingkan sebagai teks: customFieldDefs bisa array baru di setiap render
+  const columnKeys = columns.map(col => col.key).join(',');
+
+  React.useEffect(() => {
+    if (!open) return;
+    const keys = columnKeys.split(',');
+    const saved = savedColumns()?.filter(key => keys.includes(key));
+    setSelected(saved?.length ? saved : keys);
+    setError('');
+  }, [open, columnKeys]);
+
+  if (!open) return null;
+
+  const toggle = (key: string) =>
+    setSelected(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const handleExport = async () => {
+    // Urutan kolom mengikuti daftar, bukan urutan dicentang
+    const keys = columns.map(col => col.key).filter(key => selected.includes(key));
+    if (!keys.length) {
+      setError('Pilih minimal satu kolom');
+      return;
+    }
+    setExporting(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ ...filters, format, columns: keys.join(',') });
+      const res = await apiRequest(apiUrl(`/api/guests/export?${params}`));
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || 'Gagal mengekspor tamu');
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filenameOf(res, format);
+      a.click();
+      URL.revokeObjectURL(url);
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+      onDone(`Daftar tamu diekspor ke ${a.download}`);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || 'Gagal mengekspor tamu');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+      <div className="bg-background rounded-xl shadow-lg w-full max-w-lg p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-text">Ekspor Tamu</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded hover:bg-secondary">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <p className="text-xs text-text/60">
+          Tamu yang diekspor mengikuti pencarian dan filter yang sedang aktif. Kolom Nama, WhatsApp, Kategori, Sesi,
+          Jumlah Tamu, No Meja dan Keterangan bisa diimpor kembali.
+        </p>
+
+        <div className="flex gap-4 text-sm">
+          {GUEST_EXPORT_FORMATS.map(value => (
+            <label key={value} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="exportFormat" checked={format === value} onChange={() => setFormat(value)} />
+              {FORMAT_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-text">Kolom</span>
+            <div className="flex gap-3 text-xs">
+              <button type="button" className="text-primary hover:underline" onClick={() => setSelected(columns.map(col => col.key))}>
+                Pilih semua
+              </button>
+              <button type="button" className="text-primary hover:underline" onClick={() => setSelected([])}>
+                Kosongkan
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2 border border-border rounded-lg p-3">
+            {columns.map(col => (
+              <label key={col.key} className="flex items-center gap-2 text-sm text-text cursor-pointer">
+                <input type="checkbox" checked={selected.includes(col.key)} onChange={() => toggle(col.key)} />
+                {col.header}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="inline-flex items-center justify-center rounded-md bg-primary px-5 py-2 text-white text-sm font-medium shadow-sm hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? 'Mengekspor...' : 'Ekspor'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
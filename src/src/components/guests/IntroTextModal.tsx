@@ -29,7 +29,7 @@ const fetcher = async (url: string, userId?: string) => {
 
   try {
     const response = await fetch(url, {
-      headers: getAuthHeaders(userId),
+      headers: getAuthHeaders(),
     });
 
     const data = await response.json();
@@ -139,7 +139,7 @@ export function IntroTextModal({ open, onClose, onSave }: IntroTextModalProps) {
 
       const response = await fetch(apiUrl, {
         method,
-        headers: getAuthHeaders(user?.id),
+        headers: getAuthHeaders(),
         body: JSON.stringify({
           formalText: data.template === 'Formal' ? data.content : currentFormalText,
           casualText: data.template === 'Casual' ? data.content : currentCasualText,
@@ -249,7 +249,8 @@ export function IntroTextModal({ open, onClose, onSave }: IntroTextModalProps) {
                 placeholder="Tulis teks pengantar di sini"
               />
               <p className="mt-2 text-xs text-text/60">
-                Note: Jangan menghapus token seperti {`{nama}`}, {`{link-undangan}`}, {`{mempelai}`}
+                Note: Jangan menghapus token seperti {`{nama}`}, {`{link-undangan}`}, {`{mempelai}`}.
+                Field tambahan tamu bisa dipakai dengan [key], lihat Event Details.
               </p>
             </div>
 
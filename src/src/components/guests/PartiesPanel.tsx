@@ -0,0 +1,388 @@
+/**
+ * PartiesPanel
+ * Grouped view for ManageGuests: households / invitation parties with their
+ * members, seat allowance and check-in progress. Create, edit and delete
+ * parties and move guests in or out of them.
+ */
+import React from 'react';
+import useSWR from 'swr';
+import { ChevronDown, Plus, Trash2, Edit3, Star, X, Search } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useGuests } from '../../contexts/GuestsContext';
+import { useToast } from '../../contexts/ToastContext';
+import { apiUrl } from '../../lib/api';
+import { rankGuests } from '../../../shared/guest-search';
+import type { Guest, PartySummary } from '../../../shared/types';
+
+type PartyRow = PartySummary & { _id: string };
+
+type FormState = {
+  name: string;
+  code: string;
+  seatAllowance: number;
+  memberIds: string[];
+  primaryGuestId: string | null;
+  notes: string;
+};
+
+const emptyForm: FormState = { name: '', code: '', seatAllowance: 1, memberIds: [], primaryGuestId: null, notes: '' };
+
+const inputClass = 'w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary';
+
+export function PartiesPanel(): JSX.Element {
+  const { apiRequest } = useAuth();
+  const { allGuests, refresh: refreshGuests } = useGuests();
+  const { showToast } = useToast();
+  const [search, setSearch] = React.useState('');
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const [editing, setEditing] = React.useState<PartyRow | 'new' | null>(null);
+  const [form, setForm] = React.useState<FormState>(emptyForm);
+  const [memberSearch, setMemberSearch] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const { data: partyList, error, isLoading, mutate } = useSWR<PartyRow[]>(apiUrl('/api/parties'), async (url: string) => {
+    const res = await apiRequest(url);
+    const json = await res.json();
+    if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load parties');
+    return json.data as PartyRow[];
+  });
+
+  const membersByParty = React.useMemo(() => {
+    const map = new Map<string, Guest[]>();
+    allGuests.forEach(g => {
+      if (!g.partyId) return;
+      map.set(g.partyId, [...(map.get(g.partyId) ?? []), g]);
+    });
+    return map;
+  }, [allGuests]);
+
+  const rows = React.useMemo(() => {
+    const list: PartyRow[] = partyList ?? [];
+    return search.trim() ? rankGuests(list, search, p => ({ name: p.name, code: p.code })) : list;
+  }, [partyList, search]);
+
+  const candidates = React.useMemo(() => {
+    if (!memberSearch.trim()) return [];
+    return rankGuests(allGuests.filter(g => g.isInvited !== false), memberSearch).slice(0, 8);
+  }, [allGuests, memberSearch]);
+
+  const guestById = React.useMemo(() => new Map(allGuests.map(g => [String(g._id), g])), [allGuests]);
+
+  const reload = async () => {
+    await Promise.all([mutate(), refreshGuests()]);
+  };
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    const res = await apiRequest(apiUrl(path), { method, body: body ? JSON.stringify(body) : undefined });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.issues?.[0]?.message || json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setMemberSearch('');
+    setEditing('new');
+  };
+
+  const openEdit = (party: PartyRow) => {
+    const memberIds = (membersByParty.get(party._id) ?? []).map(g => String(g._id));
+    setForm({
+      name: party.name,
+      code: party.code,
+      seatAllowance: party.seatAllowance,
+      memberIds,
+      primaryGuestId: party.primaryGuestId ?? null,
+      notes: party.notes ?? '',
+    });
+    setMemberSearch('');
+    setEditing(party);
+  };
+
+  const toggleMember = (id: string) => {
+    setForm(prev => {
+      const memberIds = prev.memberIds.includes(id) ? prev.memberIds.filter(m => m !== id) : [...prev.memberIds, id];
+      return {
+        ...prev,
+        memberIds,
+        primaryGuestId: prev.primaryGuestId && memberIds.includes(prev.primaryGuestId) ? prev.primaryGuestId : memberIds[0] ?? null,
+      };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        const json = await request('/api/parties', 'POST', {
+          name: form.name,
+          code: form.code.trim() || undefined,
+          seatAllowance: form.seatAllowance,
+          memberIds: form.memberIds,
+          primaryGuestId: form.primaryGuestId,
+          notes: form.notes || undefined,
+        });
+        showToast(`Party dibuat. Kode: ${json.data.code}`, 'success');
+      } else {
+        const current = (membersByParty.get(editing._id) ?? []).map(g => String(g._id));
+        const added = form.memberIds.filter(id => !current.includes(id));
+        const removed = current.filter(id => !form.memberIds.includes(id));
+        // Anggota dulu, supaya kontak utama baru sudah jadi anggota saat PATCH
+        if (added.length) await request(`/api/parties/${editing._id}/members`, 'POST', { guestIds: added });
+        for (const id of removed) await request(`/api/parties/${editing._id}/members/${id}`, 'DELETE');
+        await request(`/api/parties/${editing._id}`, 'PATCH', {
+          name: form.name,
+          code: form.code.trim() || undefined,
+          seatAllowance: form.seatAllowance,
+          primaryGuestId: form.primaryGuestId,
+          notes: form.notes,
+        });
+        showToast('Party diperbarui', 'success');
+      }
+      setEditing(null);
+      await reload();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menyimpan party', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (party: PartyRow) => {
+    if (!confirm(`Hapus party "${party.name}"? Anggotanya tetap ada sebagai tamu biasa.`)) return;
+    try {
+      await request(`/api/parties/${party._id}`, 'DELETE');
+      showToast('Party dihapus', 'success');
+      await reload();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menghapus party', 'error');
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-white overflow-hidden shadow-sm px-4 sm:px-6 lg:px-8 py-6 rounded-t-none" style={{ marginTop: '0px' }}>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
+        <button
+          onClick={openCreate}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary text-white text-sm shadow-sm hover:bg-primary/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Tambah Party
+        </button>
+        <div className="relative w-full sm:w-auto">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-text/50" />
+          <input
+            className="pl-9 pr-3 py-2 rounded-lg border border-border bg-white focus:outline-none focus:ring-2 focus:ring-primary text-sm w-full sm:w-64"
+            placeholder="Cari party"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-sm text-red-600">Failed to load parties: {error.message}</div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-text/60 text-center py-8">
+          Belum ada party. Kelompokkan keluarga supaya undangan, reminder dan check-in dilakukan sekaligus.
+        </div>
+      ) : (
+        <div className="divide-y divide-border border border-border rounded-lg">
+          {rows.map(party => {
+            const members = membersByParty.get(party._id) ?? [];
+            const isOpen = expanded === party._id;
+            return (
+              <div key={party._id}>
+                <div className="flex items-center gap-3 px-4 py-3">
+                  <button onClick={() => setExpanded(isOpen ? null : party._id)} className="flex-1 flex items-center gap-3 text-left">
+                    <ChevronDown className={`w-4 h-4 text-text/60 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-text truncate">{party.name}</div>
+                      <div className="text-xs text-text/60">
+                        <span className="font-mono text-primary">{party.code}</span> · {party.memberCount} anggota · {party.seatAllowance} kursi
+                      </div>
+                    </div>
+                  </button>
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${party.seatsUsed > party.seatAllowance
+                      ? 'bg-red-100 text-red-700'
+                      : party.checkedInCount > 0 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                  >
+                    {party.checkedInCount}/{party.memberCount} hadir
+                  </span>
+                  <button onClick={() => openEdit(party)} className="p-2 rounded-lg hover:bg-accent" title="Edit">
+                    <Edit3 className="w-4 h-4 text-text/70" />
+                  </button>
+                  <button onClick={() => handleDelete(party)} className="p-2 rounded-lg hover:bg-red-50" title="Delete">
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </button>
+                </div>
+                {isOpen && (
+                  <ul className="bg-accent/40 px-4 py-2 space-y-1">
+                    {members.length === 0 && <li className="text-xs text-text/60 py-1">Belum ada anggota</li>}
+                    {members.map(m => (
+                      <li key={String(m._id)} className="flex items-center justify-between text-sm py-1">
+                        <span className="flex items-center gap-2">
+                          {party.primaryGuestId === String(m._id) && <Star className="w-3 h-3 text-amber-500" aria-label="Kontak utama" />}
+                          {m.name}
+                          <span className="text-xs text-text/50">{m.phone || ''}</span>
+                        </span>
+                        <span className="text-xs text-text/60">{m.checkInDate ? 'Hadir' : '-'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+          <form onSubmit={handleSave} className="bg-background rounded-xl shadow-lg w-full max-w-lg p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-text">{editing === 'new' ? 'Party Baru' : 'Edit Party'}</h2>
+              <button type="button" onClick={() => setEditing(null)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Nama</label>
+              <input
+                type="text"
+                placeholder="Keluarga Bpk. Santoso"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Kode undangan</label>
+                <input
+                  type="text"
+                  placeholder="Otomatis"
+                  value={form.code}
+                  onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Jatah kursi</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={form.seatAllowance}
+                  onChange={e => setForm({ ...form, seatAllowance: Math.max(1, Number(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Anggota</label>
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-text/50" />
+                <input
+                  type="text"
+                  placeholder="Cari tamu untuk ditambahkan"
+                  value={memberSearch}
+                  onChange={e => setMemberSearch(e.target.value)}
+                  className={`${inputClass} pl-9`}
+                />
+              </div>
+              {candidates.length > 0 && (
+                <ul className="mt-1 border border-border rounded-lg divide-y divide-border">
+                  {candidates.map(g => {
+                    const id = String(g._id);
+                    const inOther = g.partyId && (editing === 'new' || g.partyId !== editing._id);
+                    return (
+                      <li key={id}>
+                        <label className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-accent">
+                          <input
+                            type="checkbox"
+                            checked={form.memberIds.includes(id)}
+                            onChange={() => toggleMember(id)}
+                            className="rounded text-primary focus:ring-primary w-4 h-4"
+                          />
+                          <span className="flex-1">{g.name}</span>
+                          {inOther && <span className="text-xs text-amber-600">di party lain</span>}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              <ul className="mt-3 space-y-1">
+                {form.memberIds.map(id => {
+                  const g = guestById.get(id);
+                  return (
+                    <li key={id} className="flex items-center justify-between text-sm bg-accent/50 rounded-lg px-3 py-1.5">
+                      <label className="flex items-center gap-2 cursor-pointer" title="Kontak utama (penerima reminder)">
+                        <input
+                          type="radio"
+                          name="primaryGuest"
+                          checked={form.primaryGuestId === id}
+                          onChange={() => setForm({ ...form, primaryGuestId: id })}
+                          className="text-primary focus:ring-primary"
+                        />
+                        {g?.name ?? id}
+                        <span className="text-xs text-text/50">{g?.phone || ''}</span>
+                      </label>
+                      <button type="button" onClick={() => toggleMember(id)} className="p-1 rounded hover:bg-secondary">
+                        <X className="w-4 h-4 text-gray-500" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {form.memberIds.length > 0 && (
+                <p className="text-xs text-text/60 mt-1">Pilih kontak utama; reminder party hanya dikirim ke nomor ini.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Catatan</label>
+              <textarea
+                value={form.notes}
+                onChange={e => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-sm rounded-lg border border-border hover:bg-secondary transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,533 @@
+/**
+ * SegmentsPanel
+ * Segment view for ManageGuests: saved filters over guest tags, category,
+ * session, table, status, check-in and gift state. The editor previews the
+ * matching guests; a segment can be picked as guest list scope, doorprize
+ * eligibility or as the audience of a reminder campaign from here.
+ */
+import React from 'react';
+import useSWR from 'swr';
+import { Plus, Trash2, Edit3, X, Send } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useAccount } from '../../hooks/useAccount';
+import { useSegments } from '../../hooks/useSegments';
+import { useDebouncedValue } from '../../hooks/useGuestList';
+import { apiUrl } from '../../lib/api';
+import type { Guest, GuestSegment, SegmentFilter } from '../../../shared/types';
+
+type SegmentRow = GuestSegment & { _id: string };
+
+type BoolChoice = '' | 'true' | 'false';
+
+type FormState = {
+  name: string;
+  description: string;
+  tagsAny: string;
+  tagsAll: string;
+  tagsNone: string;
+  category: string[];
+  session: string;
+  tableNo: string;
+  status: Guest['status'][];
+  isInvited: BoolChoice;
+  checkedIn: BoolChoice;
+  hasSouvenir: BoolChoice;
+  hasGift: BoolChoice;
+};
+
+type CampaignState = {
+  message: string;
+  scheduledAt: string;
+  type: 'wedding_invitation' | 'reminder' | 'thank_you';
+};
+
+const emptyForm: FormState = {
+  name: '',
+  description: '',
+  tagsAny: '',
+  tagsAll: '',
+  tagsNone: '',
+  category: [],
+  session: '',
+  tableNo: '',
+  status: [],
+  isInvited: '',
+  checkedIn: '',
+  hasSouvenir: '',
+  hasGift: '',
+};
+
+const STATUSES: Guest['status'][] = ['Pending', 'Confirmed', 'Declined', 'Checked-In'];
+
+const BOOL_FIELDS: { key: 'isInvited' | 'checkedIn' | 'hasSouvenir' | 'hasGift'; label: string; yes: string; no: string }[] = [
+  { key: 'isInvited', label: 'Jenis Tamu', yes: 'Undangan', no: 'Walk-in' },
+  { key: 'checkedIn', label: 'Kehadiran', yes: 'Sudah hadir', no: 'Belum hadir' },
+  { key: 'hasSouvenir', label: 'Souvenir', yes: 'Sudah', no: 'Belum' },
+  { key: 'hasGift', label: 'Angpao/Kado', yes: 'Ada', no: 'Tidak ada' },
+];
+
+const CAMPAIGN_TYPES: { value: CampaignState['type']; label: string }[] = [
+  { value: 'wedding_invitation', label: 'Undangan' },
+  { value: 'reminder', label: 'Reminder' },
+  { value: 'thank_you', label: 'Terima kasih' },
+];
+
+const inputClass = 'w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary';
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const boolChoice = (value?: boolean): BoolChoice => (value === undefined ? '' : value ? 'true' : 'false');
+
+function toFilter(form: FormState): SegmentFilter {
+  const filter: SegmentFilter = {};
+  const lists = {
+    tagsAny: splitList(form.tagsAny),
+    tagsAll: splitList(form.tagsAll),
+    tagsNone: splitList(form.tagsNone),
+    session: splitList(form.session),
+    tableNo: splitList(form.tableNo),
+  };
+  (Object.keys(lists) as (keyof typeof lists)[]).forEach(k => {
+    if (lists[k].length) filter[k] = lists[k];
+  });
+  if (form.category.length) filter.category = form.category;
+  if (form.status.length) filter.status = form.status;
+  BOOL_FIELDS.forEach(({ key }) => {
+    if (form[key]) filter[key] = form[key] === 'true';
+  });
+  return filter;
+}
+
+function toForm(segment: SegmentRow): FormState {
+  const f = segment.filter;
+  return {
+    name: segment.name,
+    description: segment.description ?? '',
+    tagsAny: (f.tagsAny ?? []).join(', '),
+    tagsAll: (f.tagsAll ?? []).join(', '),
+    tagsNone: (f.tagsNone ?? []).join(', '),
+    category: f.category ?? [],
+    session: (f.session ?? []).join(', '),
+    tableNo: (f.tableNo ?? []).join(', '),
+    status: f.status ?? [],
+    isInvited: boolChoice(f.isInvited),
+    checkedIn: boolChoice(f.checkedIn),
+    hasSouvenir: boolChoice(f.hasSouvenir),
+    hasGift: boolChoice(f.hasGift),
+  };
+}
+
+/** One line per condition, for the segment list */
+function describeFilter(filter: SegmentFilter): string[] {
+  const parts: string[] = [];
+  if (filter.tagsAny?.length) parts.push(`tag: ${filter.tagsAny.join(' / ')}`);
+  if (filter.tagsAll?.length) parts.push(`semua tag: ${filter.tagsAll.join(' + ')}`);
+  if (filter.tagsNone?.length) parts.push(`tanpa tag: ${filter.tagsNone.join(', ')}`);
+  if (filter.category?.length) parts.push(`kategori: ${filter.category.join(', ')}`);
+  if (filter.session?.length) parts.push(`sesi: ${filter.session.join(', ')}`);
+  if (filter.tableNo?.length) parts.push(`meja: ${filter.tableNo.join(', ')}`);
+  if (filter.status?.length) parts.push(`status: ${filter.status.join(', ')}`);
+  BOOL_FIELDS.forEach(({ key, label, yes, no }) => {
+    if (filter[key] !== undefined) parts.push(`${label.toLowerCase()}: ${filter[key] ? yes : no}`);
+  });
+  return parts;
+}
+
+export function SegmentsPanel(): JSX.Element {
+  const { apiRequest } = useAuth();
+  const { account } = useAccount();
+  const { showToast } = useToast();
+  const { segments, error, loading, refresh } = useSegments();
+  const [editing, setEditing] = React.useState<SegmentRow | 'new' | null>(null);
+  const [form, setForm] = React.useState<FormState>(emptyForm);
+  const [saving, setSaving] = React.useState(false);
+  const [campaignFor, setCampaignFor] = React.useState<SegmentRow | null>(null);
+  const [campaign, setCampaign] = React.useState<CampaignState>({ message: '', scheduledAt: '', type: 'reminder' });
+
+  const categories: string[] = Array.isArray(account?.guestCategories) ? account.guestCategories : [];
+
+  const { data: tagList } = useSWR(editing ? apiUrl('/api/segments/tags') : null, async (url: string) => {
+    const res = await apiRequest(url);
+    const json = await res.json();
+    if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load tags');
+    return json.data as { tag: string; count: number }[];
+  });
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    const res = await apiRequest(apiUrl(path), { method, body: body ? JSON.stringify(body) : undefined });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.issues?.[0]?.message || json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  // Jumlah tamu yang cocok, dihitung ulang saat filter berhenti berubah
+  const previewFilter = useDebouncedValue(JSON.stringify(toFilter(form)), 400);
+  const { data: preview } = useSWR(editing ? ['segment-preview', previewFilter] : null, async () => {
+    const json = await request('/api/segments/preview', 'POST', { filter: JSON.parse(previewFilter) });
+    return json.data as { guestCount: number; sample: Guest[] };
+  });
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setEditing('new');
+  };
+
+  const openEdit = (segment: SegmentRow) => {
+    setForm(toForm(segment));
+    setEditing(segment);
+  };
+
+  const openCampaign = (segment: SegmentRow) => {
+    setCampaign({ message: '', scheduledAt: '', type: 'reminder' });
+    setCampaignFor(segment);
+  };
+
+  const toggleIn = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+  const addTag = (tag: string) => {
+    const tags = splitList(form.tagsAny);
+    if (!tags.includes(tag)) setForm({ ...form, tagsAny: [...tags, tag].join(', ') });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const body = { name: form.name, description: form.description || undefined, filter: toFilter(form) };
+      if (editing === 'new') {
+        await request('/api/segments', 'POST', body);
+        showToast('Segmen dibuat', 'success');
+      } else {
+        await request(`/api/segments/${editing._id}`, 'PATCH', body);
+        showToast('Segmen diperbarui', 'success');
+      }
+      setEditing(null);
+      await refresh();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menyimpan segmen', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: SegmentRow) => {
+    if (!confirm(`Hapus segmen "${segment.name}"? Tamu dan tag mereka tidak berubah.`)) return;
+    try {
+      await request(`/api/segments/${segment._id}`, 'DELETE');
+      showToast('Segmen dihapus', 'success');
+      await refresh();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menghapus segmen', 'error');
+    }
+  };
+
+  const handleCampaign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campaignFor) return;
+    setSaving(true);
+    try {
+      const res = await apiRequest(apiUrl('/api/reminders/segment'), {
+        method: 'POST',
+        body: JSON.stringify({
+          segmentId: campaignFor._id,
+          message: campaign.message,
+          scheduledAt: new Date(campaign.scheduledAt).toISOString(),
+          type: campaign.type,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Gagal menjadwalkan reminder');
+      const { scheduled, skipped } = json.data as { scheduled: number; skipped: number };
+      showToast(`${scheduled} reminder dijadwalkan${skipped ? `, ${skipped} dilewati` : ''}`, 'success');
+      setCampaignFor(null);
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menjadwalkan reminder', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-white overflow-hidden shadow-sm px-4 sm:px-6 lg:px-8 py-6 rounded-t-none" style={{ marginTop: '0px' }}>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
+        <button
+          onClick={openCreate}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary text-white text-sm shadow-sm hover:bg-primary/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Tambah Segmen
+        </button>
+      </div>
+
+      {error ? (
+        <div className="text-sm text-red-600">Failed to load segments: {error.message}</div>
+      ) : loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="text-sm text-text/60 text-center py-8">
+          Belum ada segmen. Beri tag pada tamu lalu simpan filter untuk reminder, doorprize atau daftar tamu.
+        </div>
+      ) : (
+        <div className="divide-y divide-border border border-border rounded-lg">
+          {segments.map(segment => (
+            <div key={segment._id} className="flex items-center gap-3 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-text truncate">{segment.name}</div>
+                {segment.description && <div className="text-xs text-text/70 truncate">{segment.description}</div>}
+                <div className="text-xs text-text/60 truncate">{describeFilter(segment.filter).join(' · ') || 'Semua tamu'}</div>
+              </div>
+              <span className="text-xs px-2 py-1 rounded-full whitespace-nowrap bg-gray-100 text-gray-600">
+                {segment.guestCount ?? 0} tamu
+              </span>
+              <button onClick={() => openCampaign(segment)} className="p-2 rounded-lg hover:bg-accent" title="Jadwalkan reminder">
+                <Send className="w-4 h-4 text-text/70" />
+              </button>
+              <button onClick={() => openEdit(segment)} className="p-2 rounded-lg hover:bg-accent" title="Edit">
+                <Edit3 className="w-4 h-4 text-text/70" />
+              </button>
+              <button onClick={() => handleDelete(segment)} className="p-2 rounded-lg hover:bg-red-50" title="Delete">
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+          <form onSubmit={handleSave} className="bg-background rounded-xl shadow-lg w-full max-w-lg p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-text">{editing === 'new' ? 'Segmen Baru' : 'Edit Segmen'}</h2>
+              <button type="button" onClick={() => setEditing(null)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Nama</label>
+              <input
+                type="text"
+                placeholder="Rekan kantor yang butuh shuttle"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Deskripsi</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={e => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-text">Tag (pisahkan dengan koma)</label>
+              <input
+                type="text"
+                placeholder="Salah satu dari: kantor, keluarga-ayah"
+                value={form.tagsAny}
+                onChange={e => setForm({ ...form, tagsAny: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="Semua dari: needs-shuttle"
+                value={form.tagsAll}
+                onChange={e => setForm({ ...form, tagsAll: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="Tanpa tag: vip"
+                value={form.tagsNone}
+                onChange={e => setForm({ ...form, tagsNone: e.target.value })}
+                className={inputClass}
+              />
+              {(tagList ?? []).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {(tagList ?? []).slice(0, 20).map(t => (
+                    <button
+                      key={t.tag}
+                      type="button"
+                      onClick={() => addTag(t.tag)}
+                      className="text-xs px-2 py-0.5 rounded-full bg-accent text-text hover:bg-primary hover:text-white"
+                    >
+                      {t.tag} <span className="opacity-60">{t.count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {categories.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Kategori</label>
+                <div className="flex flex-wrap gap-3">
+                  {categories.map(cat => (
+                    <label key={cat} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.category.includes(cat)}
+                        onChange={() => setForm({ ...form, category: toggleIn(form.category, cat) })}
+                        className="rounded text-primary focus:ring-primary w-4 h-4"
+                      />
+                      {cat}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Sesi</label>
+                <input type="text" placeholder="1, 2" value={form.session} onChange={e => setForm({ ...form, session: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">No. Meja</label>
+                <input type="text" placeholder="A1, A2" value={form.tableNo} onChange={e => setForm({ ...form, tableNo: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Status</label>
+              <div className="flex flex-wrap gap-3">
+                {STATUSES.map(status => (
+                  <label key={status} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={form.status.includes(status)}
+                      onChange={() => setForm({ ...form, status: toggleIn(form.status, status) })}
+                      className="rounded text-primary focus:ring-primary w-4 h-4"
+                    />
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {BOOL_FIELDS.map(({ key, label, yes, no }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-text mb-1">{label}</label>
+                  <select value={form[key]} onChange={e => setForm({ ...form, [key]: e.target.value as BoolChoice })} className={inputClass}>
+                    <option value="">Semua</option>
+                    <option value="true">{yes}</option>
+                    <option value="false">{no}</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-sm bg-accent/50 rounded-lg px-3 py-2">
+              <span className="font-medium">{preview ? preview.guestCount : '…'} tamu cocok</span>
+              {preview && preview.sample.length > 0 && (
+                <div className="text-xs text-text/60 truncate">
+                  {preview.sample.slice(0, 5).map(g => g.name).join(', ')}
+                  {preview.guestCount > 5 ? ', …' : ''}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-sm rounded-lg border border-border hover:bg-secondary transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {campaignFor && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+          <form onSubmit={handleCampaign} className="bg-background rounded-xl shadow-lg w-full max-w-lg p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-text">Reminder untuk {campaignFor.name}</h2>
+              <button type="button" onClick={() => setCampaignFor(null)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <p className="text-xs text-text/60">
+              {campaignFor.guestCount ?? 0} tamu. Anggota party menerima satu pesan lewat kontak utama; tamu yang sudah
+              punya reminder jenis ini dilewati.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Jenis</label>
+                <select
+                  value={campaign.type}
+                  onChange={e => setCampaign({ ...campaign, type: e.target.value as CampaignState['type'] })}
+                  className={inputClass}
+                >
+                  {CAMPAIGN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Jadwal kirim</label>
+                <input
+                  type="datetime-local"
+                  value={campaign.scheduledAt}
+                  onChange={e => setCampaign({ ...campaign, scheduledAt: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Pesan</label>
+              <textarea
+                value={campaign.message}
+                onChange={e => setCampaign({ ...campaign, message: e.target.value })}
+                className={inputClass}
+                rows={5}
+                required
+              />
+              <p className="text-xs text-text/60 mt-1">Placeholder: [nama], [mempelai], [link-undangan], [link-rsvp]</p>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setCampaignFor(null)}
+                className="px-4 py-2 text-sm rounded-lg border border-border hover:bg-secondary transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Menjadwalkan...' : 'Jadwalkan'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * TrashPanel
+ * Trash view for ManageGuests: deleted guests with who deleted them and when
+ * they are purged. Restore brings back the guest with its reminders and gift
+ * data; "Hapus Permanen" removes them for good.
+ */
+import React from 'react';
+import useSWR from 'swr';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useGuests } from '../../contexts/GuestsContext';
+import { useToast } from '../../contexts/ToastContext';
+import { apiUrl } from '../../lib/api';
+import type { GuestTrashItem, GuestTrashReason } from '../../../shared/types';
+
+const REASON_LABELS: Record<GuestTrashReason, string> = {
+  delete: 'Dihapus',
+  bulk_delete: 'Hapus semua',
+  walk_in_cleared: 'Walk-in dibatalkan',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TrashPanel({ onRestored }: { onRestored?: () => void }): JSX.Element {
+  const { apiRequest } = useAuth();
+  const { refresh: refreshGuests } = useGuests();
+  const { showToast } = useToast();
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [busy, setBusy] = React.useState(false);
+
+  const { data, error, isLoading, mutate } = useSWR(apiUrl('/api/guests/trash'), async (url: string) => {
+    const res = await apiRequest(url);
+    const json = await res.json();
+    if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load trash');
+    return { rows: json.data as GuestTrashItem[], retentionDays: json.retentionDays as number };
+  });
+  const rows = data?.rows ?? [];
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    const res = await apiRequest(apiUrl(path), { method, body: body ? JSON.stringify(body) : undefined });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.issues?.[0]?.message || json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  const handleRestore = async (guestIds: string[]) => {
+    setBusy(true);
+    try {
+      const json = await request('/api/guests/trash/restore', 'POST', { guestIds });
+      showToast(`${json.data.restored} tamu dipulihkan`, 'success');
+      setSelected([]);
+      await Promise.all([mutate(), refreshGuests()]);
+      onRestored?.();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal memulihkan tamu', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async (guestIds?: string[]) => {
+    const label = guestIds ? `${guestIds.length} tamu` : 'semua tamu di sampah';
+    if (!confirm(`Hapus permanen ${label}? Data tidak bisa dipulihkan lagi.`)) return;
+    setBusy(true);
+    try {
+      const json = await request('/api/guests/trash', 'DELETE', guestIds ? { guestIds } : undefined);
+      showToast(`${json.data.purged} tamu dihapus permanen`, 'success');
+      setSelected([]);
+      await mutate();
+    } catch (err: any) {
+      showToast(err.message || 'Gagal menghapus', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-white overflow-hidden shadow-sm px-4 sm:px-6 lg:px-8 py-6 rounded-t-none" style={{ marginTop: '0px' }}>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
+        <div className="text-xs sm:text-sm text-text/70">
+          Tamu yang dihapus disimpan {data?.retentionDays ?? 30} hari sebelum dihapus permanen.
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            disabled={busy || selected.length === 0}
+            onClick={() => handleRestore(selected)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary text-white text-sm shadow-sm hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" /> Pulihkan ({selected.length})
+          </button>
+          <button
+            disabled={busy || rows.length === 0}
+            onClick={() => handlePurge(selected.length ? selected : undefined)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-red-200 text-red-600 text-sm hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" /> {selected.length ? 'Hapus Permanen' : 'Kosongkan Sampah'}
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-sm text-red-600">Failed to load trash: {error.message}</div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-text/60 text-center py-8">Sampah kosong.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-text/60 border-b border-border">
+                <th className="py-2 pr-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.length === rows.length}
+                    onChange={(e) => setSelected(e.target.checked ? rows.map(r => r._id) : [])}
+                  />
+                </th>
+                <th className="py-2 pr-4">Nama</th>
+                <th className="py-2 pr-4">Kode</th>
+                <th className="py-2 pr-4">Alasan</th>
+                <th className="py-2 pr-4">Dihapus</th>
+                <th className="py-2 pr-4">Dihapus permanen</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {rows.map(row => (
+                <tr key={row._id}>
+                  <td className="py-2 pr-2">
+                    <input type="checkbox" checked={selected.includes(row._id)} onChange={() => toggle(row._id)} />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-text">{row.guest.name}</div>
+                    <div className="text-xs text-text/50">
+                      {[row.guest.category, row.guest.phone].filter(Boolean).join(' · ')}
+                      {row.reminderCount + row.giftDistributionCount > 0 &&
+                        ` · ${row.reminderCount} reminder, ${row.giftDistributionCount} hadiah`}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-primary">{row.guest.code || '-'}</td>
+                  <td className="py-2 pr-4 text-text/70">{REASON_LABELS[row.reason] ?? row.reason}</td>
+                  <td className="py-2 pr-4 text-text/70">
+                    {formatDate(row.deletedAt)}
+                    {row.deletedBy?.username && <div className="text-xs text-text/50">oleh {row.deletedBy.username}</div>}
+                  </td>
+                  <td className="py-2 pr-4 text-text/70">{formatDate(row.expiresAt)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      disabled={busy}
+                      onClick={() => handleRestore([row._id])}
+                      className="p-2 rounded-lg hover:bg-accent disabled:opacity-50"
+                      title="Pulihkan"
+                    >
+                      <RotateCcw className="w-4 h-4 text-text/70" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
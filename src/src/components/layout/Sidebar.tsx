@@ -8,6 +8,8 @@ import {
   Home,
   X,
   Lock,
+  ScrollText,
+  Tablet,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -18,6 +20,7 @@ interface SidebarProps {
 
 export function Sidebar({ mobileMenuOpen = false, onMobileMenuClose }: SidebarProps) {
   const { user, hasPermission } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.role === 'operator';
 
   // Base style item
   const linkBase =
@@ -38,18 +41,20 @@ export function Sidebar({ mobileMenuOpen = false, onMobileMenuClose }: SidebarPr
     { to: '/events', label: 'Events', icon: Lock, permission: 'guests' },
     { to: '/settings', label: 'Settings', icon: Settings, permission: 'guests' },
     { to: '/users', label: 'Users & Roles', icon: Shield, permission: 'users', adminOnly: true },
+    { to: '/stations', label: 'Stations', icon: Tablet, permission: 'users', adminOnly: true },
+    { to: '/audit', label: 'Audit Log', icon: ScrollText, permission: 'users', adminOnly: true },
   ];
 
   // Filter menu items based on role
   const visibleNavItems = allNavItems.filter(item => {
     if (item.adminOnly) {
-      return user?.role === 'admin';
+      return isAdmin;
     }
     return true;
   });
 
   const nav = allNavItems.filter(item => {
-    if (user?.role === 'admin') return true;
+    if (isAdmin) return true;
     if (item.adminOnly) return false;
     return hasPermission(item.permission);
   });
@@ -82,7 +87,7 @@ export function Sidebar({ mobileMenuOpen = false, onMobileMenuClose }: SidebarPr
       <nav className="mt-4 space-y-1">
         {visibleNavItems.map(({ to, label, icon: Icon, permission, adminOnly }) => {
           const hasAccess =
-            user?.role === 'admin' ||
+            isAdmin ||
             (user?.role === 'user' && hasPermission(permission) && !adminOnly);
 
           if (!hasAccess) {
@@ -71,12 +71,7 @@ export const ReminderSettingsModal: React.FC<ReminderSettingsModalProps> = ({
   const fetchIntroText = async () => {
     try {
       const response = await apiRequest(
-        apiUrl(`/api/intro-text/category/${introTextCategory}`),
-        {
-          headers: {
-            'user-id': user?.id || ''
-          }
-        }
+        apiUrl(`/api/intro-text/category/${introTextCategory}`)
       );
 
       if (response.ok) {
@@ -132,7 +127,7 @@ export const ReminderSettingsModal: React.FC<ReminderSettingsModalProps> = ({
 
       const response = await apiRequest(url, {
         method,
-        headers: getAuthHeaders(user.id),
+        headers: getAuthHeaders(),
         body: JSON.stringify(reminderData)
       });
 
@@ -0,0 +1,280 @@
+/**
+ * Two-factor authentication settings
+ * Enroll an authenticator app (QR code), confirm with a code, show recovery
+ * codes once, regenerate them, or turn 2FA off again.
+ */
+
+import React, { useState } from 'react';
+import useSWR from 'swr';
+import QRCode from 'react-qr-code';
+import { ShieldCheck, ShieldOff, KeyRound, Copy } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { apiUrl } from '../../lib/api';
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+};
+
+type Step = 'idle' | 'enroll' | 'disable' | 'regenerate';
+
+const inputClass = 'w-full px-3 py-2 border border-border rounded-lg text-sm tracking-widest focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary';
+
+export default function TwoFactorSettings(): JSX.Element {
+  const { apiRequest } = useAuth();
+  const { showToast } = useToast();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { data: status, mutate } = useSWR(apiUrl('/api/auth/2fa'), async (url: string) => {
+    const res = await apiRequest(url);
+    const json = await res.json();
+    if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load 2FA status');
+    return json.data as TwoFactorStatus;
+  });
+
+  const post = async (path: string, body?: Record<string, string>) => {
+    const res = await apiRequest(apiUrl(path), {
+      method: 'POST',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.issues?.[0]?.message || json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err: any) {
+      showToast(err.message || 'Request failed', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEnroll = () => run(async () => {
+    const json = await post('/api/auth/2fa/setup');
+    setSetup(json.data);
+    setRecoveryCodes(null);
+    setStep('enroll');
+  });
+
+  const confirmEnroll = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const json = await post('/api/auth/2fa/enable', { code });
+      setRecoveryCodes(json.data.recoveryCodes);
+      showToast('Two-factor authentication enabled', 'success');
+      reset();
+      mutate();
+    });
+  };
+
+  const confirmDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await post('/api/auth/2fa/disable', { password, code });
+      showToast('Two-factor authentication disabled', 'success');
+      setRecoveryCodes(null);
+      reset();
+      mutate();
+    });
+  };
+
+  const confirmRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const json = await post('/api/auth/2fa/recovery-codes', { code });
+      setRecoveryCodes(json.data.recoveryCodes);
+      showToast('New recovery codes generated', 'success');
+      reset();
+      mutate();
+    });
+  };
+
+  const copyCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard?.writeText(recoveryCodes.join('\n'))
+      .then(() => showToast('Recovery codes copied', 'success'))
+      .catch(() => showToast('Copy failed, please write the codes down', 'error'));
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-background p-4 sm:p-5 flex flex-col gap-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm sm:text-base font-semibold text-text flex items-center gap-2">
+            {status?.enabled ? <ShieldCheck className="w-4 h-4 text-green-600" /> : <ShieldOff className="w-4 h-4 text-gray-400" />}
+            Two-factor authentication
+          </h3>
+          <p className="text-xs sm:text-sm text-text/70 mt-1">
+            {status?.enabled
+              ? `Aktif. Sisa recovery code: ${status.recoveryCodesRemaining}.`
+              : 'Minta kode dari aplikasi authenticator setiap kali login.'}
+          </p>
+        </div>
+        {step === 'idle' && status && (
+          status.enabled ? (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                type="button"
+                onClick={() => setStep('regenerate')}
+                className="inline-flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-xs sm:text-sm font-medium text-text bg-secondary hover:bg-secondary/80 transition-colors"
+              >
+                <KeyRound className="w-4 h-4" />
+                Recovery codes
+              </button>
+              <button
+                type="button"
+                onClick={() => setStep('disable')}
+                className="rounded-lg border border-red-200 px-3 py-2 text-xs sm:text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Disable
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={startEnroll}
+              disabled={busy}
+              className="rounded-lg bg-primary px-3 py-2 text-xs sm:text-sm font-medium text-white hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              Enable
+            </button>
+          )
+        )}
+      </div>
+
+      {step === 'enroll' && setup && (
+        <form onSubmit={confirmEnroll} className="flex flex-col sm:flex-row gap-4">
+          <div className="bg-white p-3 rounded-lg border border-border self-start">
+            <QRCode value={setup.otpauthUrl} size={160} />
+          </div>
+          <div className="flex-1 space-y-3">
+            <p className="text-xs sm:text-sm text-text/70">
+              Scan QR ini dengan Google Authenticator, Authy atau aplikasi sejenis, lalu masukkan kode 6 digit.
+            </p>
+            <p className="text-xs text-text/60 break-all">
+              Manual key: <span className="font-mono">{setup.secret}</span>
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClass}
+              required
+            />
+            <div className="flex gap-2">
+              <button type="button" onClick={reset} className="px-3 py-2 text-sm rounded-lg border border-border hover:bg-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={busy} className="px-3 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 disabled:opacity-50">
+                Verify & enable
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {step === 'disable' && (
+        <form onSubmit={confirmDisable} className="space-y-3 max-w-sm">
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            required
+          />
+          <input
+            type="text"
+            placeholder="Code or recovery code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={inputClass}
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-3 py-2 text-sm rounded-lg border border-border hover:bg-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={busy} className="px-3 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50">
+              Disable 2FA
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'regenerate' && (
+        <form onSubmit={confirmRegenerate} className="space-y-3 max-w-sm">
+          <p className="text-xs sm:text-sm text-text/70">Recovery code lama tidak berlaku lagi setelah dibuat ulang.</p>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="Authenticator code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={inputClass}
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-3 py-2 text-sm rounded-lg border border-border hover:bg-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={busy} className="px-3 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 disabled:opacity-50">
+              Generate new codes
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+          <p className="text-xs sm:text-sm text-amber-800">
+            Simpan recovery code ini di tempat aman. Masing-masing hanya bisa dipakai sekali dan tidak akan ditampilkan lagi.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-text">
+            {recoveryCodes.map(rc => <span key={rc}>{rc}</span>)}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={copyCodes}
+              className="inline-flex items-center gap-2 px-3 py-2 text-xs sm:text-sm rounded-lg border border-border bg-background hover:bg-secondary"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="px-3 py-2 text-xs sm:text-sm rounded-lg border border-border bg-background hover:bg-secondary"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,6 @@ export interface NonInvitedGuestData {
   phone: string
   souvenir: number
   info: string
-  invitationCode: string
   category?: string
 }
 
@@ -56,7 +55,6 @@ export default function NonInvitedSouvenirAssignmentModal({
     name: '',
     phone: '',
     info: '',
-    invitationCode: '',
     souvenir: 1,
     category: ''
   })
@@ -76,7 +74,6 @@ export default function NonInvitedSouvenirAssignmentModal({
       name: '',
       phone: '',
       info: '',
-      invitationCode: '',
       souvenir: 1,
       category: ''
     });
@@ -122,19 +119,9 @@ export default function NonInvitedSouvenirAssignmentModal({
       return
     }
 
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-    let code = '';
-    for (let i = 0; i < 5; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    const invitationCode = `GUEST-${code}`;
-
     const candidate: NonInvitedGuestData = {
       ...formData,
-      phone: formattedPhone,
-      invitationCode: invitationCode
+      phone: formattedPhone
     };
 
     const matchedGuest = allGuests?.find((guest: Guest) => {
@@ -27,7 +27,7 @@ export const WhatsAppConnectionModal: React.FC<WhatsAppConnectionModalProps> = (
   const [connectionStatus, setConnectionStatus] = useState<ConnStatus>('idle')
   const [attempts, setAttempts] = useState(0)
   const maxRetries = 3
-  const { user } = useAuth();
+  const { user, token } = useAuth();
   const wsRef = useRef<WebSocket | null>(null)
 
   // helper: buat URL WS sesuai origin
@@ -35,15 +35,12 @@ export const WhatsAppConnectionModal: React.FC<WhatsAppConnectionModalProps> = (
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
     const params = new URLSearchParams()
 
-    if (user?.id) params.set('userId', String(user.id))   // <— kirim userId ke backend
-
-    // kalau kamu punya token JWT yang tidak ada di cookie dan ingin kirim juga:
-    // const token = auth?.token
-    // if (token) params.set('access_token', token)
+    // browser WS tidak bisa kirim header Authorization → token lewat query
+    if (token) params.set('access_token', token)
 
     const qs = params.toString()
     return `${protocol}//${window.location.host}/api/whatsapp/ws${qs ? `?${qs}` : ''}`
-  }, [user?.id])
+  }, [token])
 
   const connectWs = () => {
     const url = makeWsUrl()
@@ -142,7 +139,7 @@ export const WhatsAppConnectionModal: React.FC<WhatsAppConnectionModalProps> = (
       setConnectionStatus('connecting')
       // panggil endpoint untuk inisialisasi WA + scheduler
       const res = await fetch(getApiUrl('/api/whatsapp/connect'), {
-        headers: getAuthHeaders(user?.id),
+        headers: getAuthHeaders(),
       })
       if (!res.ok) throw new Error('connect failed')
       // setelah ini, WS akan mengirim status / qr sendiri
@@ -17,7 +17,9 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   loading: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  stationLogin: (code: string, pin: string) => Promise<User>;
   signup: (name: string, username: string, password: string) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
   logout: () => void;
@@ -26,8 +28,37 @@ interface AuthContextType {
   hasPermission: (page: string) => boolean;
 }
 
+// Password accepted but the account has 2FA: finish with verifyTwoFactor()
+export interface LoginResult {
+  twoFactorChallenge?: string;
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Login error carrying the server's throttle code (LOGIN_LOCKED / LOGIN_THROTTLED)
+export class LoginError extends Error {
+  code?: string;
+  retryAt?: string;
+
+  constructor(message: string, code?: string, retryAt?: string) {
+    super(message);
+    this.name = 'LoginError';
+    this.code = code;
+    this.retryAt = retryAt;
+  }
+}
+
+// Turn a failed login response into a LoginError (keeps the throttle code / retryAt)
+async function toLoginError(response: Response): Promise<LoginError> {
+  const errorText = await response.text();
+  try {
+    const errorData = JSON.parse(errorText);
+    return new LoginError(errorData.error || errorData.message || 'Login failed', errorData.code, errorData.retryAt);
+  } catch {
+    return new LoginError(errorText || 'Login failed');
+  }
+}
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -96,8 +127,48 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Remove tab isolation - use unified auth across tabs
   // This ensures consistent authentication state across all browser tabs
 
+  // Store a completed login (fetching permissions when the response has none)
+  const storeLogin = async (data: AuthResponse): Promise<void> => {
+    // If permissions are already included in login response, use them
+    let userWithPermissions = data.user;
+    if (data.user.role === 'user' && data.user.permissions) {
+      console.log(`[AuthContext] Permissions already included in login response:`, data.user.permissions);
+      userWithPermissions = data.user;
+    } else if (data.user.role === 'user') {
+      // Fetch permissions for user role if not included
+      try {
+        console.log(`[AuthContext] Fetching permissions for newly logged in user: ${data.user.id}`);
+        const permissionsResponse = await fetch(apiUrl(`/users/${data.user.id}/permissions`), {
+          headers: {
+            'Authorization': `Bearer ${data.token}`,
+          },
+        });
+        
+        if (permissionsResponse.ok) {
+          const permissionsResult = await permissionsResponse.json();
+          console.log(`[AuthContext] Permissions fetched after login:`, permissionsResult);
+          if (permissionsResult.success && permissionsResult.data) {
+            userWithPermissions = {
+              ...data.user,
+              permissions: permissionsResult.data
+            };
+          }
+        }
+      } catch (error) {
+        console.error('[AuthContext] Failed to fetch permissions after login:', error);
+      }
+    }
+    
+    // Store auth data in localStorage for unified access across tabs
+    localStorage.setItem('auth_token', data.token);
+    localStorage.setItem('auth_user', JSON.stringify(userWithPermissions));
+    
+    setToken(data.token);
+    setUser(userWithPermissions);
+  };
+
   // Login with username and password
-  const login = async (username: string, password: string): Promise<void> => {
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
       setLoading(true);
       
@@ -118,14 +189,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         console.error(`[auth] Login failed with status ${response.status}:`, errorText);
         
         let errorMessage = 'Login failed';
+        let errorCode: string | undefined;
+        let retryAt: string | undefined;
         try {
           const errorData = JSON.parse(errorText);
           errorMessage = errorData.error || errorData.message || 'Login failed';
+          errorCode = errorData.code;
+          retryAt = errorData.retryAt;
         } catch {
           errorMessage = errorText || 'Login failed';
         }
         
-        throw new Error(errorMessage);
+        throw new LoginError(errorMessage, errorCode, retryAt);
       }
 
       const result = await response.json();
@@ -139,48 +214,89 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error('No user data returned from server');
       }
       
+      if (result.data.twoFactorRequired) {
+        return { twoFactorChallenge: result.data.challengeToken };
+      }
+
       const data: AuthResponse = result.data;
+      await storeLogin(data);
       
-      // If permissions are already included in login response, use them
-      let userWithPermissions = data.user;
-      if (data.user.role === 'user' && data.user.permissions) {
-        console.log(`[AuthContext] Permissions already included in login response:`, data.user.permissions);
-        userWithPermissions = data.user;
-      } else if (data.user.role === 'user') {
-        // Fetch permissions for user role if not included
-        try {
-          console.log(`[AuthContext] Fetching permissions for newly logged in user: ${data.user.id}`);
-          const permissionsResponse = await fetch(apiUrl(`/users/${data.user.id}/permissions`), {
-            headers: {
-              'Authorization': `Bearer ${data.token}`,
-            },
-          });
-          
-          if (permissionsResponse.ok) {
-            const permissionsResult = await permissionsResponse.json();
-            console.log(`[AuthContext] Permissions fetched after login:`, permissionsResult);
-            if (permissionsResult.success && permissionsResult.data) {
-              userWithPermissions = {
-                ...data.user,
-                permissions: permissionsResult.data
-              };
-            }
-          }
-        } catch (error) {
-          console.error('[AuthContext] Failed to fetch permissions after login:', error);
-        }
+      console.info(`[auth] User ${data.user.username} logged in successfully`);
+      return {};
+    } catch (error) {
+      console.error('[auth] Login failed:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Second login step: TOTP code (or recovery code) for a 2FA account
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<void> => {
+    try {
+      setLoading(true);
+
+      const response = await fetch(apiUrl('/auth/login/2fa'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      if (!response.ok) {
+        throw await toLoginError(response);
       }
-      
-      // Store auth data in localStorage for unified access across tabs
+
+      const result = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Login failed');
+      }
+
+      const data: AuthResponse = result.data;
+      await storeLogin(data);
+      console.info(`[auth] User ${data.user.username} logged in successfully`);
+    } catch (error) {
+      console.error('[auth] Two-factor verification failed:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Login as a reception station (event-day tablet) with station code + PIN
+  const stationLogin = async (code: string, pin: string): Promise<User> => {
+    try {
+      setLoading(true);
+
+      const response = await fetch(apiUrl('/auth/station-login'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code, pin }),
+      });
+
+      if (!response.ok) {
+        throw await toLoginError(response);
+      }
+
+      const result = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Login failed');
+      }
+
+      const data: AuthResponse = result.data;
       localStorage.setItem('auth_token', data.token);
-      localStorage.setItem('auth_user', JSON.stringify(userWithPermissions));
-      
+      localStorage.setItem('auth_user', JSON.stringify(data.user));
+
       setToken(data.token);
-      setUser(userWithPermissions);
-      
-      console.info(`[auth] User ${data.user.username} logged in successfully`);
+      setUser(data.user);
+
+      console.info(`[auth] Station ${data.user.username} logged in successfully`);
+      return data.user;
     } catch (error) {
-      console.error('[auth] Login failed:', error);
+      console.error('[auth] Station login failed:', error);
       throw error;
     } finally {
       setLoading(false);
@@ -222,6 +338,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Logout function
   const logout = (): void => {
+    // Revoke the session server-side; local state is cleared regardless of the result
+    const currentToken = token ?? localStorage.getItem('auth_token');
+    if (currentToken) {
+      fetch(apiUrl('/auth/logout'), {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${currentToken}` },
+      }).catch((error) => console.error('[auth] Failed to revoke session:', error));
+    }
+
     // Clear SWR cache for all guest data to prevent cross-account data leakage
     swrMutate(
       (key) => {
@@ -314,12 +439,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log(`[AuthContext] No token available for request`);
     }
 
-    // Add X-User-Id header if user is authenticated
-    if (user?.id) {
-      headers['X-User-Id'] = user.id;
-      console.log(`[AuthContext] Adding X-User-Id header: ${user.id}`);
-    }
-
     console.log(`[AuthContext] Making request to: ${url}`);
     console.log(`[AuthContext] Headers:`, headers);
 
@@ -342,8 +461,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Check if user has permission to access a specific page
   const hasPermission = (page: string): boolean => {
-    // Admin users have access to all pages
-    if (user?.role === 'admin') {
+    // Admin (and platform operator) users have access to all pages
+    if (user?.role === 'admin' || user?.role === 'operator') {
       return true;
     }
     
@@ -362,6 +481,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     token,
     loading,
     login,
+    verifyTwoFactor,
+    stationLogin,
     signup,
     loginWithGoogle,
     logout,
@@ -11,6 +11,7 @@ import { useAuth } from './AuthContext';
 
 import { Guest } from '../../shared/types';
 import { apiUrl } from '../lib/api';
+import { overLimitBySession, type OverLimitSessionStat } from '../../shared/guest-limit';
 
 export type GuestDoc = Guest;
 
@@ -24,6 +25,8 @@ interface GuestsStats {
   checkedIn: number;
   tamuTambahan: number; // Non-invited guests
   invitedGuests: number; // Invited guests only
+  overLimit: number; // People checked in above their guest limit
+  overLimitBySession: OverLimitSessionStat[];
 }
 
 interface GuestsContextValue {
@@ -217,6 +220,7 @@ export const GuestsProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     const regular = Math.max(0, invitedGuestsCount - vip - nonRegular);
     const plusOne = invitedGuests.filter(g => !!g.plusOne).length;
     const checkedIn = allGuests.filter(g => !!g.checkInDate).length;
+    const overLimit = overLimitBySession(allGuests);
 
     return {
       total,
@@ -228,6 +232,8 @@ export const GuestsProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       checkedIn,
       tamuTambahan: tamuTambahanCount,
       invitedGuests: invitedGuestsCount,
+      overLimit: overLimit.reduce((sum, s) => sum + s.extra, 0),
+      overLimitBySession: overLimit,
     };
   }, [invitedGuests, nonInvitedGuests, allGuests]);
 
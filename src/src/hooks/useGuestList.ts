@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import useSWR from 'swr';
+import { useAuth } from '../contexts/AuthContext';
+import { apiUrl } from '../lib/api';
+import type { Guest, GuestListQuery, PaginatedResponse } from '../../shared/types';
+
+/** Query string for GET /api/guests, skipping empty values */
+export function guestListParams(query: GuestListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+  });
+  return params;
+}
+
+/**
+ * One server-side page of guests from GET /api/guests.
+ * Filters, sort and paging run in Mongo; the previous page stays on screen
+ * while the next one loads.
+ */
+export function useGuestList(query: GuestListQuery, options: { refreshInterval?: number } = {}) {
+  const { user, apiRequest } = useAuth();
+
+  const params = guestListParams(query);
+
+  const { data, error, isLoading, mutate } = useSWR(
+    user ? apiUrl(`/api/guests?${params.toString()}`) : null,
+    async (url: string) => {
+      const res = await apiRequest(url);
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load guests');
+      return json as PaginatedResponse<Guest>;
+    },
+    { keepPreviousData: true, refreshInterval: options.refreshInterval },
+  );
+
+  // Optimistic edit of rows on the current page
+  const updateRows = useCallback(
+    (updater: (rows: Guest[]) => Guest[]) =>
+      mutate(prev => (prev ? { ...prev, data: updater(prev.data) } : prev), { revalidate: false }),
+    [mutate],
+  );
+
+  return {
+    guests: data?.data ?? [],
+    pagination: data?.pagination ?? { page: query.page ?? 1, limit: query.limit ?? 50, total: 0, totalPages: 0 },
+    loading: isLoading && !data,
+    error: error as Error | undefined,
+    refresh: mutate,
+    updateRows,
+  };
+}
+
+/** Value that only updates after delay ms without changes (search boxes) */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(t);
+  }, [value, delay]);
+  return debounced;
+}
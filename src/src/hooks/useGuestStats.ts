@@ -0,0 +1,28 @@
+import { useAuth } from '../contexts/AuthContext';
+import useSWR from 'swr';
+import { apiUrl } from '../lib/api';
+import type { GuestStats } from '../../shared/types';
+
+/** Aggregated guest statistics of the account (totals, breakdowns, arrivals) */
+export function useGuestStats(bucketMinutes?: number) {
+  const { user, apiRequest } = useAuth();
+  const query = bucketMinutes ? `?bucket=${bucketMinutes}` : '';
+
+  const { data, error, isLoading, mutate } = useSWR(
+    user ? apiUrl(`/api/guests/stats${query}`) : null,
+    async (url: string) => {
+      const res = await apiRequest(url);
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load guest stats');
+      return json.data as GuestStats;
+    },
+    { refreshInterval: 60000 },
+  );
+
+  return {
+    stats: data ?? null,
+    loading: isLoading,
+    error,
+    refresh: mutate,
+  };
+}
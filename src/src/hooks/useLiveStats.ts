@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import { useRealtimeGuests, type StatsMessage } from './useRealtimeGuests';
+import type { LiveStats } from '../../shared/types';
+
+/**
+ * Reception counters kept live over the realtime socket: the snapshot sent
+ * on subscribe, plus every stats_delta applied on top of it.
+ */
+export function useLiveStats() {
+  const [stats, setStats] = useState<LiveStats | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+
+  const onStatsMessage = useCallback((message: StatsMessage) => {
+    if (message.type === 'stats_snapshot') {
+      setStats(message.data);
+    } else {
+      // Delta sebelum snapshot diabaikan; snapshot sudah memuatnya
+      setStats((prev) => {
+        if (!prev) return prev;
+        const next = { ...prev };
+        for (const [key, value] of Object.entries(message.delta) as [keyof LiveStats, number][]) {
+          next[key] = Math.max(0, next[key] + value);
+        }
+        return next;
+      });
+    }
+    setUpdatedAt(message.timestamp);
+  }, []);
+
+  useRealtimeGuests(undefined, onStatsMessage);
+
+  return { stats, updatedAt };
+}
@@ -2,24 +2,55 @@
  * Real-time Guest Updates Hook
  * Uses WebSocket to provide instant guest data synchronization across devices
  * Works independently without requiring GuestsContext
+ * With onStatsMessage the socket also subscribes to the "stats" channel
+ * (stats_snapshot on subscribe, then stats_delta per change)
  */
 
 import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { LiveStats } from '../../shared/types';
 
-export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
+export interface GuestUpdateMessage {
+  type: 'guest_updated' | 'guest_checked_in' | 'guest_checkin_cleared' | 'guest_rsvp' | 'guests_bulk_updated';
+  guestId: string;
+  data?: Record<string, any>;
+  timestamp: string;
+}
+
+export type StatsMessage =
+  | { type: 'stats_snapshot'; data: LiveStats; timestamp: string }
+  | { type: 'stats_delta'; delta: Partial<LiveStats>; timestamp: string };
+
+const GUEST_UPDATE_TYPES = ['guest_updated', 'guest_checked_in', 'guest_checkin_cleared', 'guest_rsvp', 'guests_bulk_updated'];
+
+export const useRealtimeGuests = (
+  onGuestUpdate?: (message: GuestUpdateMessage) => void,
+  onStatsMessage?: (message: StatsMessage) => void,
+) => {
+  const { token } = useAuth();
   const wsRef = useRef<WebSocket | null>(null);
+  // Callback lewat ref supaya render ulang tidak memutus koneksi
+  const onGuestUpdateRef = useRef(onGuestUpdate);
+  onGuestUpdateRef.current = onGuestUpdate;
+  const onStatsMessageRef = useRef(onStatsMessage);
+  onStatsMessageRef.current = onStatsMessage;
+  const wantsStats = !!onStatsMessage;
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const maxReconnectAttempts = 5;
 
   useEffect(() => {
+    if (!token) return;
+    let disposed = false;
+
     const connectWebSocket = () => {
       try {
         // Use dedicated real-time guests WebSocket endpoint
         const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-        const wsUrl = `${protocol}//${window.location.host}/api/__ws/guests`;
+        // Browser WS tidak bisa kirim header Authorization → token lewat query
+        const wsUrl = `${protocol}//${window.location.host}/api/realtime-guests/ws?access_token=${encodeURIComponent(token)}`;
         
-        console.log(`[useRealtimeGuests] Connecting to WebSocket (attempt ${reconnectAttemptsRef.current + 1}):`, wsUrl);
+        console.log(`[useRealtimeGuests] Connecting to WebSocket (attempt ${reconnectAttemptsRef.current + 1})`);
         
         const ws = new WebSocket(wsUrl);
         wsRef.current = ws;
@@ -30,6 +61,8 @@ export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
           
           // Subscribe to guest updates
           ws.send(JSON.stringify({ type: 'subscribe', channel: 'guests' }));
+          // Snapshot dikirim ulang tiap reconnect, jadi delta yang terlewat tidak menumpuk
+          if (wantsStats) ws.send(JSON.stringify({ type: 'subscribe', channel: 'stats' }));
         };
 
         ws.onmessage = (event) => {
@@ -37,11 +70,11 @@ export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
             const data = JSON.parse(event.data);
             console.log('[useRealtimeGuests] Received message:', data);
             
-            if (data.type === 'guest_updated' || data.type === 'guest_checked_in' || data.type === 'guest_checkin_cleared') {
+            if (GUEST_UPDATE_TYPES.includes(data.type)) {
               console.log('[useRealtimeGuests] Guest update detected, triggering callback...');
-              if (onGuestUpdate) {
-                onGuestUpdate();
-              }
+              onGuestUpdateRef.current?.(data as GuestUpdateMessage);
+            } else if (data.type === 'stats_snapshot' || data.type === 'stats_delta') {
+              onStatsMessageRef.current?.(data as StatsMessage);
             }
           } catch (error) {
             console.error('[useRealtimeGuests] Error parsing message:', error);
@@ -55,6 +88,7 @@ export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
         ws.onclose = (event) => {
           console.log('[useRealtimeGuests] WebSocket disconnected:', event.code, event.reason);
           wsRef.current = null;
+          if (disposed) return;
           
           // Attempt to reconnect after 5 seconds, but limit attempts
           if (reconnectAttemptsRef.current < maxReconnectAttempts) {
@@ -96,6 +130,7 @@ export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
     // Cleanup function
     return () => {
       console.log('[useRealtimeGuests] Cleaning up WebSocket connection');
+      disposed = true;
       
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
@@ -106,7 +141,7 @@ export const useRealtimeGuests = (onGuestUpdate?: () => void) => {
         wsRef.current = null;
       }
     };
-  }, [onGuestUpdate]);
+  }, [token, wantsStats]);
 
   return null; // This hook doesn't return anything, it just handles real-time updates
 };
\ No newline at end of file
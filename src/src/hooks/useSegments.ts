@@ -0,0 +1,26 @@
+import { useAuth } from '../contexts/AuthContext';
+import useSWR from 'swr';
+import { apiUrl } from '../lib/api';
+import type { GuestSegment } from '../../shared/types';
+
+/** Saved guest segments of the account, with their current guest count */
+export function useSegments() {
+  const { user, apiRequest } = useAuth();
+
+  const { data, error, isLoading, mutate } = useSWR(
+    user ? apiUrl('/api/segments') : null,
+    async (url: string) => {
+      const res = await apiRequest(url);
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Failed to load segments');
+      return json.data as (GuestSegment & { _id: string })[];
+    },
+  );
+
+  return {
+    segments: data ?? [],
+    loading: isLoading,
+    error,
+    refresh: mutate,
+  };
+}
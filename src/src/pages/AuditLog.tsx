@@ -0,0 +1,225 @@
+/**
+ * Audit Log Page
+ * Admin-only view of who changed what: guest edits, check-ins, deletions,
+ * imports, reminders and user / permission changes.
+ */
+
+import React, { useState } from 'react';
+import useSWR from 'swr';
+import { ScrollText, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiUrl } from '../lib/api';
+import type { AuditLog as AuditLogEntry, PaginatedResponse } from '../../shared/types';
+
+const PAGE_SIZE = 50;
+
+const RESOURCES = [
+  { value: '', label: 'All resources' },
+  { value: 'guest', label: 'Guests' },
+  { value: 'reminder', label: 'Reminders' },
+  { value: 'gift_distribution', label: 'Gift distributions' },
+  { value: 'user', label: 'Users' },
+  { value: 'account', label: 'Account' },
+  { value: 'station', label: 'Stations' },
+];
+
+const fetcher = (url: string, apiRequest: (url: string) => Promise<Response>) =>
+  apiRequest(url).then(async res => {
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
+    return data as PaginatedResponse<AuditLogEntry>;
+  });
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const AuditLog: React.FC = () => {
+  const { apiRequest } = useAuth();
+  const [page, setPage] = useState(1);
+  const [resource, setResource] = useState('');
+  const [action, setAction] = useState('');
+  const [username, setUsername] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+  if (resource) params.set('resource', resource);
+  if (action.trim()) params.set('action', action.trim());
+  if (username.trim()) params.set('username', username.trim());
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data, error, isLoading } = useSWR(
+    apiUrl(`/api/audit?${params.toString()}`),
+    (url: string) => fetcher(url, apiRequest),
+    { keepPreviousData: true }
+  );
+
+  const entries = data?.data ?? [];
+  const totalPages = data?.pagination.totalPages ?? 1;
+
+  // Filter berubah -> kembali ke halaman pertama
+  const onFilter = (setter: (v: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setter(e.target.value);
+    setPage(1);
+  };
+
+  const inputClass = 'px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="flex flex-col flex-1">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-background rounded-xl border border-border shadow-sm">
+          <div className="flex items-center space-x-3 h-16 px-4 sm:px-6 border-b border-border">
+            <ScrollText className="w-6 h-6 text-primary" />
+            <h1 className="text-xl font-semibold text-text">Audit Log</h1>
+          </div>
+
+          <div className="px-4 sm:px-6 py-4 border-b border-border flex flex-wrap gap-3">
+            <select value={resource} onChange={onFilter(setResource)} className={inputClass}>
+              {RESOURCES.map(r => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Action (e.g. guest.checkin)"
+              value={action}
+              onChange={onFilter(setAction)}
+              className={`${inputClass} w-full sm:w-56`}
+            />
+            <input
+              type="text"
+              placeholder="Username"
+              value={username}
+              onChange={onFilter(setUsername)}
+              className={`${inputClass} w-full sm:w-40`}
+            />
+            <input type="date" value={from} onChange={onFilter(setFrom)} className={inputClass} />
+            <input type="date" value={to} onChange={onFilter(setTo)} className={inputClass} />
+          </div>
+
+          {error ? (
+            <div className="p-6 text-sm text-red-600">Failed to load audit log: {error.message}</div>
+          ) : isLoading && !data ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500 text-center">No audit entries found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-secondary text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Time</th>
+                    <th className="px-4 py-3 font-medium">User</th>
+                    <th className="px-4 py-3 font-medium">Action</th>
+                    <th className="px-4 py-3 font-medium">Resource</th>
+                    <th className="px-4 py-3 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => {
+                    const id = String(entry._id);
+                    const changes = entry.changes ?? [];
+                    const isOpen = expanded === id;
+                    return (
+                      <React.Fragment key={id}>
+                        <tr className="border-t border-border align-top">
+                          <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="text-text">{entry.username || entry.userEmail || entry.userId}</div>
+                            {entry.ip && <div className="text-xs text-gray-400">{entry.ip}</div>}
+                          </td>
+                          <td className="px-4 py-3 font-mono text-xs text-text">{entry.action}</td>
+                          <td className="px-4 py-3">
+                            <div className="text-text capitalize">{entry.resource}</div>
+                            {entry.resourceId && <div className="text-xs text-gray-400 font-mono">{entry.resourceId}</div>}
+                          </td>
+                          <td className="px-4 py-3">
+                            {changes.length > 0 || entry.details ? (
+                              <button
+                                onClick={() => setExpanded(isOpen ? null : id)}
+                                className="flex items-center text-primary hover:underline"
+                              >
+                                {changes.length > 0 ? `${changes.length} field${changes.length > 1 ? 's' : ''}` : 'Details'}
+                                <ChevronDown className={`w-4 h-4 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                        </tr>
+                        {isOpen && (
+                          <tr className="bg-secondary/40">
+                            <td colSpan={5} className="px-4 py-3">
+                              {changes.length > 0 && (
+                                <table className="text-xs w-full mb-2">
+                                  <thead className="text-gray-500">
+                                    <tr>
+                                      <th className="text-left py-1 pr-4 font-medium">Field</th>
+                                      <th className="text-left py-1 pr-4 font-medium">Before</th>
+                                      <th className="text-left py-1 font-medium">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {changes.map(change => (
+                                      <tr key={change.field}>
+                                        <td className="py-1 pr-4 font-mono">{change.field}</td>
+                                        <td className="py-1 pr-4 text-red-600 break-all">{formatValue(change.before)}</td>
+                                        <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                              {entry.details && (
+                                <pre className="text-xs text-gray-600 whitespace-pre-wrap break-all">
+                                  {JSON.stringify(entry.details, null, 2)}
+                                </pre>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="px-4 sm:px-6 py-3 border-t border-border flex items-center justify-between text-sm text-gray-600">
+            <span>{data ? `${data.pagination.total} entries` : ''}</span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="p-1 rounded hover:bg-secondary disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>Page {page} of {Math.max(1, totalPages)}</span>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+                className="p-1 rounded hover:bg-secondary disabled:opacity-40"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,7 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { useGuests } from '../contexts/GuestsContext';
 import { UserPlus, Play, Filter, Search as SearchIcon, Eye, Info, Edit3, Trash2 } from 'lucide-react';
 import useSWR from 'swr';
 import { apiUrl } from '../lib/api';
@@ -11,6 +10,9 @@ import penerimaTamu from '../assets/PenerimaTamu.png';
 import kelolaTamuDshbd from '../assets/KelolaTamuDshbd.png';
 import information from '../assets/Information.png';
 import { usePhoto } from "../contexts/PhotoProvider";
+import { useGuestStats } from '../hooks/useGuestStats';
+import { useLiveStats } from '../hooks/useLiveStats';
+import { GuestStatsPanel } from '../components/dashboard/GuestStatsPanel';
 
 interface DashboardAccountInfo {
   id: string;
@@ -56,8 +58,17 @@ const Dashboard: React.FC = () => {
   const [openIdx, setOpenIdx] = useState<number | null>(null);
   const { photoUrl, dashboardUrl, welcomeUrl } = usePhoto();
 
-  // Use shared guests and stats from context (loaded once globally)
-  const { stats: sharedStats } = useGuests();
+  // Statistik dari agregasi server (GET /api/guests/stats)
+  const { stats: guestStats, refresh: refreshStats } = useGuestStats();
+  // Counter resepsi real-time lewat WebSocket (snapshot + delta)
+  const { stats: liveStats, updatedAt: liveUpdatedAt } = useLiveStats();
+
+  // Breakdown & histogram ikut diperbarui setelah perubahan reda
+  useEffect(() => {
+    if (!liveUpdatedAt) return;
+    const timeout = setTimeout(() => refreshStats(), 5000);
+    return () => clearTimeout(timeout);
+  }, [liveUpdatedAt, refreshStats]);
 
   // Fetch wedding countdown
   const { data: weddingCountdown } = useSWR<WeddingCountdown>(
@@ -107,11 +118,28 @@ const Dashboard: React.FC = () => {
   const dateText = account?.dateTime ? account.dateTime.toLocaleString() : '';
   const location = account?.location ?? '';
 
+  const totals = guestStats?.totals;
+  const overLimitSessions = (guestStats?.bySession ?? []).filter(s => s.overLimitExtra > 0);
+  const topCategories = (guestStats?.byCategory ?? []).filter(c => c.key).slice(0, 3);
+
   const displayStats = [
-    { label: 'Total Tamu', value: sharedStats.total, help: 'Jumlah total tamu termasuk tamu tambahan.' },
-    { label: 'Tamu Undangan', value: sharedStats.invitedGuests, help: 'Jumlah tamu yang diundang.' },
-    { label: 'Tamu VIP', value: sharedStats.vip, help: 'Jumlah tamu dengan kategori VIP.' },
-    { label: 'Tamu Tambahan', value: sharedStats.tamuTambahan, help: 'Jumlah tamu tambahan diluar undangan resmi.' },
+    { label: 'Total Tamu', value: totals?.guests ?? 0, help: 'Jumlah total tamu termasuk tamu tambahan.' },
+    { label: 'Tamu Undangan', value: totals?.invited ?? 0, help: 'Jumlah tamu yang diundang.' },
+    ...topCategories.map(c => ({
+      label: `Kategori ${c.key}`,
+      value: c.guests,
+      help: `Jumlah tamu dengan kategori ${c.key} (${c.checkedIn} sudah check-in).`,
+    })),
+    { label: 'Tamu Tambahan', value: liveStats?.walkIns ?? totals?.walkIns ?? 0, help: 'Jumlah tamu tambahan diluar undangan resmi.' },
+    {
+      label: 'Lebih dari Limit',
+      value: totals?.overLimitExtra ?? 0,
+      help: overLimitSessions.length > 0
+        ? `Orang yang check-in melebihi limit undangan. ${overLimitSessions
+          .map(s => `Sesi ${s.key || '-'}: +${s.overLimitExtra}`)
+          .join(', ')}.`
+        : 'Orang yang check-in melebihi limit undangan.',
+    },
   ];
 
   return (
@@ -317,6 +345,8 @@ const Dashboard: React.FC = () => {
             })}
           </div>
         </div>
+
+        {guestStats && <GuestStatsPanel stats={guestStats} live={liveStats} />}
       </div>
     </div>
   );
@@ -8,6 +8,8 @@ import { useNavigate } from 'react-router-dom';
 import { TableFilterPopover } from '../components/guests/TableFilterPopover';
 import { BottomBar } from '../components/navigation/BottomBar';
 import { apiUrl } from '../lib/api';
+import { rankGuests } from '../../shared/guest-search';
+import { useSegments } from '../hooks/useSegments';
 import filter from '../assets/filter.png';
 
 export type CheckedInGuest = {
@@ -20,6 +22,7 @@ export type CheckedInGuest = {
   limit?: number;
   tableNo?: string;
   guestCount?: number;
+  phone?: string;
   checkedInAt?: string; // ISO string
 };
 
@@ -75,6 +78,8 @@ export function Doorprize(): JSX.Element {
   const [manualData, setManualData] = React.useState<any>(null);
   const [manualError, setManualError] = React.useState<string | null>(null);
   const [filterOpen, setFilterOpen] = useState(false);
+  // Segmen tersimpan sebagai syarat peserta; kosong = semua tamu yang hadir
+  const [segmentId, setSegmentId] = useState('');
 
   const [visibleCols, setVisibleCols] = React.useState<Record<string, boolean>>({
     no: true,
@@ -93,14 +98,16 @@ export function Doorprize(): JSX.Element {
   // Fetch checked-in guests with standardized SWR configuration
   // Include user ID in cache key to ensure isolation between accounts
   const { data, error, isLoading } = useSWR<{ items: CheckedInGuest[] }>(
-    user ? 'doorprize-checked-in' : null,
-    () => fetcher(apiUrl(`/api/doorprize/checked-in`), apiRequest),
+    user ? ['doorprize-checked-in', segmentId] : null,
+    () => fetcher(apiUrl(`/api/doorprize/checked-in${segmentId ? `?segmentId=${segmentId}` : ''}`), apiRequest),
     {
       ...swrGuestConfig,
       revalidateOnMount: true, // Force revalidation on mount to ensure data is fetched
     }
   );
 
+  const { segments: segmentList } = useSegments();
+
   // Add detailed request logging
   React.useEffect(() => {
     if (user) {
@@ -164,15 +171,15 @@ export function Doorprize(): JSX.Element {
       limit: g.limit ?? 2,
       tableNo: g.tableNo ?? '-',
       guestCount: g.guestCount ?? 1,
+      phone: g.phone,
       date: g.checkedInAt ? new Date(g.checkedInAt).toLocaleDateString() : '-',
       time: g.checkedInAt ? new Date(g.checkedInAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '-',
     };
   });
 
   const filtered = React.useMemo(() => {
-    const term = q.trim().toLowerCase();
-    if (!term) return guests;
-    return guests.filter(r => r.name.toLowerCase().includes(term) || r.code.toLowerCase().includes(term));
+    if (!q.trim()) return guests;
+    return rankGuests(guests, q);
   }, [q, guests]);
 
   const [page, setPage] = useState(1);
@@ -200,7 +207,25 @@ export function Doorprize(): JSX.Element {
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
               <div className="flex flex-wrap items-center gap-2 sm:gap-3">
                 <ActionButton icon={<UserPlus className="w-4 h-4" />}>Tambah Peserta</ActionButton>
-                <ActionButton icon={<Play className="w-4 h-4" />} onClick={() => navigate('/doorprize/picker')}>Start To Play</ActionButton>
+                <ActionButton
+                  icon={<Play className="w-4 h-4" />}
+                  onClick={() => navigate(segmentId ? `/doorprize/picker?segment=${segmentId}` : '/doorprize/picker')}
+                >
+                  Start To Play
+                </ActionButton>
+                {segmentList.length > 0 && (
+                  <select
+                    value={segmentId}
+                    onChange={(e) => setSegmentId(e.target.value)}
+                    className="border border-border rounded-xl px-3 py-2 text-sm bg-white min-h-[44px]"
+                    title="Peserta doorprize"
+                  >
+                    <option value="">Semua tamu hadir</option>
+                    {segmentList.map(s => (
+                      <option key={s._id} value={s._id}>{s.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
               <div className="flex items-center gap-2 flex-shrink-0 ml-auto sm:ml-0">
                 <div className="relative">
@@ -1,6 +1,7 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import useSWR from 'swr';
+import { useSearchParams } from 'react-router-dom';
 import { apiUrl } from '../lib/api';
 import Confetti from 'react-confetti';
 import { usePhoto } from "../contexts/PhotoProvider";
@@ -23,9 +24,12 @@ const fetcher = (url: string, apiRequest: (url: string) => Promise<Response>) =>
 
 export function DoorprizePicker(): JSX.Element {
   const { apiRequest } = useAuth();
+  // ?segment=<id> dari halaman Doorprize: hanya tamu segmen itu yang diundi
+  const [searchParams] = useSearchParams();
+  const segmentId = searchParams.get('segment') ?? '';
   const { data } = useSWR<{ items: CheckedInGuest[] }>(
-    'doorprize-checked-in',
-    () => fetcher(apiUrl(`/api/doorprize/checked-in`), apiRequest)
+    ['doorprize-checked-in', segmentId],
+    () => fetcher(apiUrl(`/api/doorprize/checked-in${segmentId ? `?segmentId=${segmentId}` : ''}`), apiRequest)
   );
   const guests = data?.items ?? [];
 
@@ -3,6 +3,25 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { apiUrl } from '../lib/api';
 import { useAccount } from '../hooks/useAccount';
+import type { CustomFieldDef, CustomFieldType, GuestCodeFormat } from '../../shared/types';
+import { RESERVED_FIELD_KEYS, customFieldKey } from '../../shared/custom-fields';
+
+const DEFAULT_CODE_FORMAT: GuestCodeFormat = {
+    prefix: 'GUEST-',
+    length: 5,
+    alphabet: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789',
+    checkDigit: false,
+};
+
+const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+    { value: 'text', label: 'Teks' },
+    { value: 'number', label: 'Angka' },
+    { value: 'select', label: 'Pilihan' },
+    { value: 'boolean', label: 'Ya/Tidak' },
+    { value: 'date', label: 'Tanggal' },
+];
+
+const emptyField = { label: '', type: 'text' as CustomFieldType, options: '', required: false };
 
 const EventPage: React.FC = () => {
     const { account, loading, error, refresh } = useAccount();
@@ -14,6 +33,8 @@ const EventPage: React.FC = () => {
     const [eventDate, setEventDate] = useState('');
     const [eventTime, setEventTime] = useState('');
     const [invitationLink, setInvitationLink] = useState('');
+    const [rsvpDeadline, setRsvpDeadline] = useState('');
+    const [codeFormat, setCodeFormat] = useState<GuestCodeFormat>(DEFAULT_CODE_FORMAT);
     // const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [loadError, setLoadError] = useState<string | null>(null);
@@ -23,6 +44,8 @@ const EventPage: React.FC = () => {
     const [youtubeUrl, setYoutubeUrl] = useState('');
     const [guestCategories, setGuestCategories] = useState<string[]>([]);
     const [newCategory, setNewCategory] = useState('');
+    const [customFields, setCustomFields] = useState<CustomFieldDef[]>([]);
+    const [newField, setNewField] = useState(emptyField);
 
 
     useEffect(() => {
@@ -34,6 +57,17 @@ const EventPage: React.FC = () => {
         setWelcomeText(account.welcomeText || '');
         setYoutubeUrl(account.youtubeUrl || '');
         setGuestCategories(Array.isArray(account.guestCategories) ? account.guestCategories : []);
+        setCustomFields(Array.isArray(account.customFields) ? account.customFields : []);
+
+        setCodeFormat({ ...DEFAULT_CODE_FORMAT, ...(account.codeFormat ?? {}) });
+
+        if (account.rsvpDeadline) {
+            // datetime-local butuh waktu lokal tanpa zona
+            const dl = new Date(account.rsvpDeadline);
+            setRsvpDeadline(new Date(dl.getTime() - dl.getTimezoneOffset() * 60000).toISOString().slice(0, 16));
+        } else {
+            setRsvpDeadline('');
+        }
 
         if (account.dateTime) {
             const dt = new Date(account.dateTime);
@@ -60,6 +94,37 @@ const EventPage: React.FC = () => {
         setGuestCategories((prev) => prev.filter((c) => c !== cat));
     };
 
+    const handleAddField = () => {
+        const label = newField.label.trim();
+        if (!label) return;
+        const base = customFieldKey(label) || 'field';
+        // Key jadi placeholder pesan [key]; dibuat unik dan tidak bentrok dengan bawaan
+        let key = base;
+        for (let i = 2; customFields.some((f) => f.key === key) || RESERVED_FIELD_KEYS.includes(key); i++) {
+            key = `${base.slice(0, 27)}_${i}`;
+        }
+        const options = newField.options.split(',').map((o) => o.trim()).filter(Boolean);
+        if (newField.type === 'select' && options.length === 0) {
+            showToast?.('Isi pilihan, pisahkan dengan koma', 'info');
+            return;
+        }
+        setCustomFields((prev) => [
+            ...prev,
+            {
+                key,
+                label,
+                type: newField.type,
+                ...(newField.type === 'select' ? { options } : {}),
+                ...(newField.required ? { required: true } : {}),
+            },
+        ]);
+        setNewField(emptyField);
+    };
+
+    const handleRemoveField = (key: string) => {
+        setCustomFields((prev) => prev.filter((f) => f.key !== key));
+    };
+
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -86,6 +151,9 @@ const EventPage: React.FC = () => {
                     welcomeText,
                     youtubeUrl,
                     guestCategories,
+                    rsvpDeadline: rsvpDeadline ? new Date(rsvpDeadline).toISOString() : null,
+                    codeFormat,
+                    customFields,
                 }),
             });
 
@@ -217,6 +285,21 @@ const EventPage: React.FC = () => {
                                                         Akan digunakan di welcome page (opsional).
                                                     </p>
                                                 </div>
+                                                {/* Batas RSVP */}
+                                                <div>
+                                                    <label className="block text-sm font-medium text-text mb-1.5">
+                                                        Batas RSVP
+                                                    </label>
+                                                    <input
+                                                        type="datetime-local"
+                                                        value={rsvpDeadline}
+                                                        onChange={(e) => setRsvpDeadline(e.target.value)}
+                                                        className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                    />
+                                                    <p className="mt-1 text-[11px] sm:text-xs text-text/60">
+                                                        Setelah waktu ini tamu tidak bisa mengubah RSVP. Kosongkan jika tidak ada batas.
+                                                    </p>
+                                                </div>
                                             </div>
 
                                             {/* Welcome text */}
@@ -284,6 +367,132 @@ const EventPage: React.FC = () => {
                                                     ))}
                                                 </div>
                                             </div>
+                                            {/* Format Kode Undangan */}
+                                            <div className="mt-6">
+                                                <label className="block text-sm font-medium text-text mb-1.5">
+                                                    Format Kode Undangan
+                                                </label>
+                                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+                                                    <input
+                                                        type="text"
+                                                        value={codeFormat.prefix}
+                                                        maxLength={10}
+                                                        onChange={(e) => setCodeFormat({ ...codeFormat, prefix: e.target.value.toUpperCase() })}
+                                                        placeholder="Prefix, mis. GUEST-"
+                                                        className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min={4}
+                                                        max={12}
+                                                        value={codeFormat.length}
+                                                        onChange={(e) => setCodeFormat({ ...codeFormat, length: Number(e.target.value) || 4 })}
+                                                        className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                    />
+                                                    <label className="inline-flex items-center gap-2 text-sm text-text">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={codeFormat.checkDigit}
+                                                            onChange={(e) => setCodeFormat({ ...codeFormat, checkDigit: e.target.checked })}
+                                                            className="rounded text-primary focus:ring-primary w-4 h-4"
+                                                        />
+                                                        Karakter cek
+                                                    </label>
+                                                </div>
+                                                <input
+                                                    type="text"
+                                                    value={codeFormat.alphabet}
+                                                    onChange={(e) => setCodeFormat({ ...codeFormat, alphabet: e.target.value.toUpperCase() })}
+                                                    placeholder="Karakter yang dipakai"
+                                                    className="mt-2 w-full rounded-lg border border-border bg-background px-3 py-2 text-sm font-mono text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                />
+                                                <p className="mt-1 text-[11px] sm:text-xs text-text/60">
+                                                    Contoh: {codeFormat.prefix}{codeFormat.alphabet.slice(0, codeFormat.length)}{codeFormat.checkDigit ? '?' : ''}. Hanya berlaku untuk kode baru; kode yang sudah dibagikan tidak berubah.
+                                                </p>
+                                            </div>
+                                            {/* Field Tamu Tambahan */}
+                                            <div className="mt-6">
+                                                <label className="block text-sm font-medium text-text mb-1.5">
+                                                    Field Tamu Tambahan
+                                                </label>
+                                                <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr_auto_auto] gap-2 sm:gap-3 items-center">
+                                                    <input
+                                                        type="text"
+                                                        value={newField.label}
+                                                        onChange={(e) => setNewField({ ...newField, label: e.target.value })}
+                                                        placeholder="Contoh: Kota, Hubungan, Kamar Hotel"
+                                                        className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                    />
+                                                    <select
+                                                        value={newField.type}
+                                                        onChange={(e) => setNewField({ ...newField, type: e.target.value as CustomFieldType })}
+                                                        className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                                                    >
+                                                        {CUSTOM_FIELD_TYPES.map((t) => (
+                                                            <option key={t.value} value={t.value}>{t.label}</option>
+                                                        ))}
+                                                    </select>
+                                                    <input
+                                                        type="text"
+                                                        value={newField.options}
+                                                        disabled={newField.type !== 'select'}
+                                                        onChange={(e) => setNewField({ ...newField, options: e.target.value })}
+                                                        placeholder="Pilihan: Pihak Pria, Pihak Wanita"
+                                                        className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                                                    />
+                                                    <label className="inline-flex items-center gap-2 text-sm text-text">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={newField.required}
+                                                            onChange={(e) => setNewField({ ...newField, required: e.target.checked })}
+                                                            className="rounded text-primary focus:ring-primary w-4 h-4"
+                                                        />
+                                                        Wajib
+                                                    </label>
+                                                    <button
+                                                        type="button"
+                                                        onClick={handleAddField}
+                                                        className="inline-flex items-center justify-center px-3 py-2 rounded-lg bg-primary text-background text-xs sm:text-sm font-semibold hover:bg-primary/90 transition-colors"
+                                                    >
+                                                        Tambah
+                                                    </button>
+                                                </div>
+
+                                                <div className="mt-3 space-y-2">
+                                                    {customFields.length === 0 && (
+                                                        <p className="text-[11px] sm:text-xs text-text/60">
+                                                            Belum ada field tambahan. Field muncul di form tamu, import Excel dan tabel Kelola Tamu.
+                                                        </p>
+                                                    )}
+
+                                                    {customFields.map((field) => (
+                                                        <div
+                                                            key={field.key}
+                                                            className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-accent/40 border border-accent/60 text-xs sm:text-sm text-text"
+                                                        >
+                                                            <span>
+                                                                <span className="font-medium">{field.label}</span>
+                                                                {field.required && <span className="text-danger"> *</span>}
+                                                                <span className="text-text/60">
+                                                                    {' '}· {CUSTOM_FIELD_TYPES.find((t) => t.value === field.type)?.label}
+                                                                    {field.options?.length ? `: ${field.options.join(', ')}` : ''}
+                                                                </span>
+                                                                <span className="ml-2 font-mono text-primary">[{field.key}]</span>
+                                                            </span>
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => handleRemoveField(field.key)}
+                                                                className="text-text/60 hover:text-danger text-[10px]"
+                                                            >
+                                                                ✕
+                                                            </button>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                                <p className="mt-1 text-[11px] sm:text-xs text-text/60">
+                                                    Pakai [key] di teks pesan untuk mengisi nilai tamu, mis. [{customFields[0]?.key ?? 'kota'}].
+                                                </p>
+                                            </div>
                                             {/* Tombol submit */}
                                             <div className="mt-6 flex justify-end">
                                                 <button
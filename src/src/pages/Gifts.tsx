@@ -11,6 +11,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { useGuests } from '../contexts/GuestsContext';
 import GiftAssignmentModal from '../components/gifts/GiftAssignmentModal';
 import { Guest, GiftType } from '../../shared/types';
+import type { GuestListQuery } from '../../shared/types';
+import { guestListParams, useDebouncedValue, useGuestList } from '../hooks/useGuestList';
 import { BottomBar } from '../components/navigation/BottomBar';
 import { useNavigate } from 'react-router-dom';
 import { ConfirmModal } from "../components/common/DeleteModal";
@@ -30,7 +32,7 @@ import { TableFilterPopover } from '../components/guests/TableFilterPopover';
 
 export const Gifts: React.FC = () => {
   const { apiRequest, token } = useAuth();
-  const { guests, allGuests, loading, error, refresh } = useGuests();
+  const { guests, allGuests, loading, error, refresh: refreshContext } = useGuests();
   const navigate = useNavigate();
   const { showToast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
@@ -108,47 +110,34 @@ export const Gifts: React.FC = () => {
     setIsAssignmentModalOpen(true);
   };
 
-  // Filter guests to only show those with gift data
-  const filteredGuests = useMemo(() => {
-    return allGuests.filter(guest => {
-      const hasGiftData = !!(((guest.kadoCount && guest.kadoCount > 0) || guest.angpaoCount && (guest.angpaoCount > 0)));
-      if (!hasGiftData) return false;
-
-      const matchesSearch = searchTerm === '' ||
-        guest.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        guest.phone.includes(searchTerm) ||
-        guest.code.toLowerCase().includes(searchTerm.toLowerCase());
-
-      const matchesCategory = selectedCategory === 'All' || guest.category === selectedCategory;
-
-      // Gift status filtering - check if guest has gifts assigned
-      let matchesGiftStatus = selectedGiftStatus === 'All';
-
-      if (selectedGiftStatus === 'Received') {
-        matchesGiftStatus = !!(((guest.kadoCount && guest.kadoCount > 0) || guest.angpaoCount && (guest.angpaoCount > 0)));
-      } else if (selectedGiftStatus === 'Pending') {
-        matchesGiftStatus = !(((guest.kadoCount && guest.kadoCount > 0) || guest.angpaoCount && (guest.angpaoCount > 0)));
-      }
-
-      return matchesSearch && matchesCategory && matchesGiftStatus;
-    });
-  }, [allGuests, searchTerm, selectedCategory, selectedGiftStatus]);
-
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
-  const totalItems = filteredGuests.length;
-  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Tamu yang sudah memberi kado/angpao ("Pending" = belum memberi); filter & pagination di server
+  const listQuery: GuestListQuery = {
+    hasGift: selectedGiftStatus !== 'Pending',
+    search: debouncedSearch || undefined,
+    category: selectedCategory === 'All' ? undefined : selectedCategory,
+    sort: '-giftRecordedAt',
+  };
+  const { guests: pageRows, pagination, refresh: refreshList } = useGuestList({ ...listQuery, page, limit: pageSize });
+  const totalItems = pagination.total;
+  const totalPages = Math.max(1, pagination.totalPages);
   const pageStart = (page - 1) * pageSize;
-  const pageRows = filteredGuests.slice(pageStart, pageStart + pageSize);
+
+  const refresh = async () => {
+    await Promise.all([refreshContext(), refreshList()]);
+  };
 
   useEffect(() => {
     if (page > totalPages) setPage(totalPages);
   }, [totalPages, page]);
 
-  // reset ke page 1 saat keyword berubah
+  // reset ke page 1 saat keyword / filter berubah
   useEffect(() => {
     setPage(1);
-  }, [searchTerm]);
+  }, [debouncedSearch, selectedCategory, selectedGiftStatus]);
 
   // Get unique categories
   const categories = useMemo(() => {
@@ -157,7 +146,15 @@ export const Gifts: React.FC = () => {
   }, [allGuests]);
 
   // Export guests to CSV - only exports guests with gift data
-  const exportGuestsToCSV = () => {
+  const exportGuestsToCSV = async () => {
+    // Semua baris yang cocok dengan filter, bukan hanya halaman yang tampil
+    const res = await apiRequest(apiUrl(`/api/guests?${guestListParams(listQuery).toString()}`));
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      showToast(json.error || 'Failed to export guests', 'error');
+      return;
+    }
+    const filteredGuests: Guest[] = json.data;
     const headers = ['No', 'Name', 'Phone', 'Code', 'Category', 'Gift Type', 'Gift Count', 'Gift Note', 'Gift Received Date', 'Guest Type'];
 
     const csvData = filteredGuests.map((guest, index) => [
@@ -210,7 +207,6 @@ export const Gifts: React.FC = () => {
           phone: data.phone,
           info: data.info,
           kado: data.kadoCount,
-          invitationCode: data.invitationCode,
           angpao: data.angpao,
           giftNote: data.giftNote,
           category: data.category
@@ -489,7 +485,7 @@ export const Gifts: React.FC = () => {
             {/* Mobile Cards */}
             <div className="md:hidden space-y-3">
               {/* Guest gift givers */}
-              {filteredGuests.map((guest, index) => (
+              {pageRows.map((guest, index) => (
                 <div key={guest._id} className="bg-white border border-border rounded-xl p-4 hover:shadow-md transition-all">
                   <div className="space-y-3">
                     {/* Header */}
@@ -583,7 +579,7 @@ export const Gifts: React.FC = () => {
               </div>
             </div>
 
-            {filteredGuests.length === 0 && (
+            {pageRows.length === 0 && (
               <div className="text-center py-8 md:py-12 px-4">
                 <div className="bg-accent/30 rounded-full p-4 w-16 h-16 mx-auto mb-4 flex items-center justify-center">
                   <Gift className="w-8 h-8 text-primary" />
@@ -601,7 +597,7 @@ export const Gifts: React.FC = () => {
           {isAddGuestOpen && (
             <NonInvitedGiftAssignmentModal isOpen={isAddGuestOpen} onClose={() => setIsAddGuestOpen(false)} onSubmit={handleAddGuestSave} />)}
           {/* Search Modal - Direct to CARI TAMU TERDAFTAR - now includes all guests */}
-          <CheckInModal open={isSearchModalOpen} onClose={handleSearchModalClose} guests={allGuests.map(g => ({ id: g._id, name: g.name, code: g.code, extra: g.info }))} onPickRegisteredGuest={(registeredGuest) => { const guest = allGuests.find(g => g._id === registeredGuest.id); if (guest) { handleSearchGuest(guest); } }} mode="search" context="gift"
+          <CheckInModal open={isSearchModalOpen} onClose={handleSearchModalClose} guests={allGuests.map(g => ({ id: g._id, name: g.name, code: g.code, phone: g.phone, extra: g.info }))} onPickRegisteredGuest={(registeredGuest) => { const guest = allGuests.find(g => g._id === registeredGuest.id); if (guest) { handleSearchGuest(guest); } }} mode="search" context="gift"
           />
           <ConfirmModal open={confirmOpen} title="Hapus Gift" message="Apakah kamu yakin ingin menghapus data gift untuk tamu ini?" onConfirm={confirmDeleteGift} onCancel={() => setConfirmOpen(false)} loading={loading} />
           <ConfirmModal
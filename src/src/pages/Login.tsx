@@ -4,20 +4,47 @@
  * Integrates with backend authentication API
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, LoginError } from '../contexts/AuthContext';
+
+function formatWait(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m > 0 ? `${m}:${String(s).padStart(2, '0')} min` : `${s}s`;
+}
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
-  const { login, loginWithGoogle } = useAuth();
+  const { login, verifyTwoFactor, stationLogin, loginWithGoogle } = useAuth();
   const [formData, setFormData] = useState({
     username: '',
     password: '',
     rememberMe: false
   });
+  // 'station' = tablet resepsionis login pakai kode station + PIN
+  const [mode, setMode] = useState<'user' | 'station'>('user');
+  const [stationData, setStationData] = useState({ code: '', pin: '' });
+  // Langkah kedua untuk akun dengan 2FA
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Lockout / throttle dari server (429)
+  const [blocked, setBlocked] = useState<{ code: string; retryAt: number } | null>(null);
+  const [waitSeconds, setWaitSeconds] = useState(0);
+
+  useEffect(() => {
+    if (!blocked) return;
+    const tick = () => {
+      const left = Math.max(0, Math.ceil((blocked.retryAt - Date.now()) / 1000));
+      setWaitSeconds(left);
+      if (left === 0) setBlocked(null);
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [blocked]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,10 +54,34 @@ const Login: React.FC = () => {
     console.log(`[login] Attempting login with username: ${formData.username}`);
     
     try {
-      await login(formData.username, formData.password);
+      if (mode === 'station') {
+        const stationUser = await stationLogin(stationData.code, stationData.pin);
+        // Station langsung ke meja pertamanya (route = nama permission)
+        const firstDesk = stationUser.permissions?.find(p => p.canAccess)?.page;
+        navigate(firstDesk ? `/${firstDesk}` : '/dashboard');
+        return;
+      }
+      if (twoFactorChallenge) {
+        await verifyTwoFactor(twoFactorChallenge, twoFactorCode);
+        navigate('/dashboard');
+        return;
+      }
+      const result = await login(formData.username, formData.password);
+      if (result.twoFactorChallenge) {
+        setTwoFactorChallenge(result.twoFactorChallenge);
+        setTwoFactorCode('');
+        return;
+      }
       navigate('/dashboard');
     } catch (err: any) {
       console.error(`[login] Login error:`, err);
+      if (err instanceof LoginError && err.code === 'CHALLENGE_EXPIRED') {
+        setTwoFactorChallenge(null);
+      }
+      if (err instanceof LoginError && err.code && err.retryAt) {
+        setBlocked({ code: err.code, retryAt: new Date(err.retryAt).getTime() });
+        return;
+      }
       const errorMessage = err.message || 'Login failed. Please check your credentials and try again.';
       setError(errorMessage);
       
@@ -95,8 +146,26 @@ const Login: React.FC = () => {
         <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 space-y-6">
           <div className="text-center">
             <h1 className="text-xl sm:text-2xl font-semibold text-text">Attari Wedding</h1>
-            <p className="text-sm text-gray-500 mt-1">Sign in to your account</p>
+            <p className="text-sm text-gray-500 mt-1">
+              {mode === 'station' ? 'Sign in as a reception station' : 'Sign in to your account'}
+            </p>
+          </div>
+
+          {!twoFactorChallenge && (
+          <div className="grid grid-cols-2 gap-1 p-1 bg-secondary rounded-lg text-sm">
+            {(['user', 'station'] as const).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => { setMode(m); setError(''); }}
+                className={`py-2 rounded-md transition-colors ${mode === m ? 'bg-white shadow text-text font-medium' : 'text-gray-500'}`}
+                disabled={loading}
+              >
+                {m === 'user' ? 'Account' : 'Station'}
+              </button>
+            ))}
           </div>
+          )}
           
           {/* Mobile-friendly form container */}
           <div className="space-y-4 sm:space-y-5">
@@ -107,45 +176,124 @@ const Login: React.FC = () => {
             </div>
           )}
 
+          {blocked && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+              {blocked.code === 'LOGIN_LOCKED'
+                ? `Too many failed attempts. This login is locked for ${formatWait(waitSeconds)}. Ask your admin to unlock it sooner.`
+                : `Too many attempts. Please wait ${formatWait(waitSeconds)} before trying again.`}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-5">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-text mb-1 sm:mb-2">
-                Username
-              </label>
-              <div className="relative">
-                <i data-lucide="user" className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400"></i>
+            {twoFactorChallenge ? (
+              <div>
+                <label htmlFor="two-factor-code" className="block text-sm font-medium text-text mb-1 sm:mb-2">
+                  Verification code
+                </label>
                 <input
-                  id="username"
+                  id="two-factor-code"
                   type="text"
-                  placeholder="johndoe"
-                  value={formData.username}
-                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
-                  className="w-full pl-10 sm:pl-12 pr-4 py-3 sm:py-3.5 text-sm sm:text-base border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  placeholder="123456"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="w-full px-4 py-3 sm:py-3.5 text-sm sm:text-base tracking-widest border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
                   required
                   disabled={loading}
                 />
-              </div>
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-text mb-1 sm:mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <i data-lucide="lock" className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400"></i>
-                <input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full pl-10 sm:pl-12 pr-4 py-3 sm:py-3.5 text-sm sm:text-base border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
-                  required
+                <p className="text-xs text-gray-500 mt-2">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => { setTwoFactorChallenge(null); setError(''); }}
+                  className="text-xs text-primary hover:underline mt-2"
                   disabled={loading}
-                />
+                >
+                  Back to sign in
+                </button>
               </div>
-            </div>
+            ) : mode === 'station' ? (
+              <>
+                <div>
+                  <label htmlFor="station-code" className="block text-sm font-medium text-text mb-1 sm:mb-2">
+                    Station code
+                  </label>
+                  <input
+                    id="station-code"
+                    type="text"
+                    placeholder="ABC123"
+                    autoCapitalize="characters"
+                    value={stationData.code}
+                    onChange={(e) => setStationData({ ...stationData, code: e.target.value.toUpperCase() })}
+                    className="w-full px-4 py-3 sm:py-3.5 text-sm sm:text-base tracking-widest uppercase border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="station-pin" className="block text-sm font-medium text-text mb-1 sm:mb-2">
+                    PIN
+                  </label>
+                  <input
+                    id="station-pin"
+                    type="password"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    placeholder="••••"
+                    value={stationData.pin}
+                    onChange={(e) => setStationData({ ...stationData, pin: e.target.value })}
+                    className="w-full px-4 py-3 sm:py-3.5 text-sm sm:text-base tracking-widest border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-text mb-1 sm:mb-2">
+                    Username
+                  </label>
+                  <div className="relative">
+                    <i data-lucide="user" className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400"></i>
+                    <input
+                      id="username"
+                      type="text"
+                      placeholder="johndoe"
+                      value={formData.username}
+                      onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                      className="w-full pl-10 sm:pl-12 pr-4 py-3 sm:py-3.5 text-sm sm:text-base border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                      required
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-text mb-1 sm:mb-2">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <i data-lucide="lock" className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400"></i>
+                    <input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={formData.password}
+                      onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                      className="w-full pl-10 sm:pl-12 pr-4 py-3 sm:py-3.5 text-sm sm:text-base border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                      required
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
 
+            {mode === 'user' && !twoFactorChallenge && (
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 text-sm">
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
@@ -158,10 +306,11 @@ const Login: React.FC = () => {
                 <span className="select-none">Remember me</span>
               </label>
             </div>
+            )}
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !!blocked}
               className="w-full bg-primary text-white py-3 sm:py-3.5 rounded-lg hover:bg-indigo-500 transition-all text-sm sm:text-base font-medium shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {loading ? (
@@ -169,6 +318,8 @@ const Login: React.FC = () => {
                   <i data-lucide="loader" className="w-4 h-4 animate-spin"></i>
                   Signing In...
                 </>
+              ) : twoFactorChallenge ? (
+                'Verify'
               ) : (
                 'Sign In'
               )}
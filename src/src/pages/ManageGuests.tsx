@@ -17,7 +17,9 @@ import {
   Loader2,
   RefreshCw,
   MessageCircle,
-  Share2
+  Share2,
+  Link2,
+  Tags
 } from 'lucide-react';
 import { getApiUrl, getAuthHeaders, handleApiResponse } from '../utils/api';
 import { ExcelImportModal } from '../components/guests/ExcelImportModal';
@@ -25,9 +27,17 @@ import { AddGuestModal } from '../components/guests/AddGuestModal';
 import { EditGuestModal } from '../components/guests/EditGuestModal';
 import { IntroTextModal } from '../components/guests/IntroTextModal';
 import { IntroTextCategoryDropdown } from '../components/guests/IntroTextCategoryDropdown';
+import { PartiesPanel } from '../components/guests/PartiesPanel';
+import { DuplicatesModal } from '../components/guests/DuplicatesModal';
+import { TrashPanel } from '../components/guests/TrashPanel';
+import { SegmentsPanel } from '../components/guests/SegmentsPanel';
+import { BulkEditModal, type BulkTarget } from '../components/guests/BulkEditModal';
+import { ExportGuestsModal } from '../components/guests/ExportGuestsModal';
 import { useAuth } from '../contexts/AuthContext';
 import { useGuests } from '../contexts/GuestsContext';
-import { Guest } from '../../shared/types';
+import { CustomFieldDef, Guest } from '../../shared/types';
+import { applyCustomFieldPlaceholders, formatCustomFieldValue } from '../../shared/custom-fields';
+import { INVITATION_STAGES, INVITATION_STAGE_LABELS, invitationStageOf } from '../../shared/invitation-stage';
 import { Toast } from '../components/common/Toast';
 import { NoticeModal } from '../components/common/NoticeModal';
 import { TableFilterPopover } from '../components/guests/TableFilterPopover';
@@ -35,6 +45,9 @@ import { SettingsDropdown } from '../components/common/SettingsPopover';
 import { ConfirmModal } from "../components/common/DeleteModal";
 import { apiUrl } from '../lib/api';
 import { useAccount } from '../hooks/useAccount';
+import { useDebouncedValue, useGuestList } from '../hooks/useGuestList';
+import { useRealtimeGuests } from '../hooks/useRealtimeGuests';
+import { useSegments } from '../hooks/useSegments';
 import kelolaTamuAct from '../assets/KelolaTamuAct.png';
 import sendReminder from '../assets/SendReminder.png';
 import TambahTamu from '../assets/TambahTamu.png';
@@ -47,6 +60,9 @@ import shared from '../assets/shared.png';
 import Copy from '../assets/Copy.png';
 import Delete from '../assets/Delete.png';
 
+// "kantor, Keluarga Ayah" -> ['kantor', 'Keluarga Ayah']; server menormalkan
+const splitTags = (value?: string) => (value ?? '').split(',').map(t => t.trim()).filter(Boolean);
+
 const ManageGuests: React.FC = () => {
   const navigate = useNavigate();
   const { apiRequest, user } = useAuth();
@@ -62,6 +78,10 @@ const ManageGuests: React.FC = () => {
   const [filterOpen, setFilterOpen] = useState(false);
   const [selectedInfo, setSelectedInfo] = useState<string | null>(null);
   const [openExcelImport, setOpenExcelImport] = useState(false);
+  const [view, setView] = useState<'guests' | 'parties' | 'segments' | 'trash'>('guests');
+  const [segmentFilter, setSegmentFilter] = useState('');
+  const [stageFilter, setStageFilter] = useState('');
+  const { segments } = useSegments();
   const [visibleCols, setVisibleCols] = useState<Record<string, boolean>>({
     no: true,
     name: true,
@@ -80,8 +100,22 @@ const ManageGuests: React.FC = () => {
   });
 
   const { account } = useAccount();
+  const customFieldDefs: CustomFieldDef[] = account?.customFields ?? [];
+  // Filter per field pilihan / ya-tidak: { kota: 'Bandung' }
+  const [customFilter, setCustomFilter] = useState<Record<string, string>>({});
+  const customQuery = Object.entries(customFilter)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}:${value}`)
+    .join(',');
+  const cfCol = (key: string) => `cf_${key}`;
 
   const [settingsOpen, setSettingsOpen] = React.useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = React.useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // true = semua tamu yang cocok dengan pencarian, bukan hanya yang dicentang
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [confirmOpen, setConfirmOpen] = React.useState(false);
   const [confirmOneOpen, setConfirmOneOpen] = React.useState(false);
   const [settingsLoading, setSettingsLoading] = React.useState<"delete" | null>(null);
@@ -95,7 +129,7 @@ const ManageGuests: React.FC = () => {
       const token = localStorage.getItem('token');
       const res = await apiRequest(apiUrl(`/api/guests/bulk/all`), {
         method: "DELETE",
-        headers: getAuthHeaders(user?.id),
+        headers: getAuthHeaders(),
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || "Gagal menghapus data");
@@ -123,28 +157,107 @@ const ManageGuests: React.FC = () => {
     console.log('blast…');
   };
 
-  const { guests, allGuests, loading, error, refresh, setGuests } = useGuests();
+  const onGenerateCodes = async () => {
+    try {
+      const res = await apiRequest(apiUrl(`/api/guests/codes/generate-missing`), { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || 'Gagal membuat kode undangan');
+      setToast({ message: `${json.data.assigned} tamu mendapat kode undangan baru`, type: 'success' });
+      refresh();
+    } catch (e: any) {
+      setToast({ message: e.message || 'Gagal membuat kode undangan', type: 'error' });
+    }
+  };
 
-  const filteredGuests = guests.filter(guest =>
-    guest.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (guest.phone?.toLowerCase() || '').includes(searchTerm.toLowerCase())
-  );
+  const { guests, allGuests, loading, error, refresh: refreshContext, setGuests: setContextGuests } = useGuests();
 
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
-  const totalItems = filteredGuests.length;
-  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Tabel dipaginasi & dicari di server; context tetap dipakai untuk data lain
+  const {
+    guests: pageRows,
+    pagination,
+    refresh: refreshList,
+    updateRows,
+  } = useGuestList({
+    isInvited: true,
+    search: debouncedSearch || undefined,
+    segment: segmentFilter || undefined,
+    stage: stageFilter || undefined,
+    custom: customQuery || undefined,
+    page,
+    limit: pageSize,
+    sort: 'createdAt',
+  });
+  const totalItems = pagination.total;
+  const totalPages = Math.max(1, pagination.totalPages);
   const pageStart = (page - 1) * pageSize;
-  const pageRows = filteredGuests.slice(pageStart, pageStart + pageSize);
+
+  const refresh = async () => {
+    await Promise.all([refreshContext(), refreshList()]);
+  };
+
+  const setGuests = (updater: (prev: Guest[]) => Guest[]) => {
+    setContextGuests(updater);
+    updateRows(updater);
+  };
+
+  // RSVP dari halaman publik & perubahan dari perangkat lain
+  useRealtimeGuests((message) => {
+    if (message.type === 'guest_rsvp' && message.data) {
+      const answer = message.data.status === 'Confirmed' ? `hadir (${message.data.headcount} orang)` : 'tidak hadir';
+      setToast({ message: `RSVP: ${message.data.name} ${answer}`, type: 'success' });
+    }
+    refresh();
+  });
 
   useEffect(() => {
     if (page > totalPages) setPage(totalPages);
   }, [totalPages, page]);
 
-  // reset ke page 1 saat keyword berubah
+  useEffect(() => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  }, [debouncedSearch, segmentFilter, stageFilter, customQuery]);
+
+  const pageIds = pageRows.map((g: Guest) => String(g._id));
+  const pageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+  const selectedCount = selectAllMatching ? totalItems : selectedIds.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectAllMatching(false);
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  const togglePageSelected = () => {
+    setSelectAllMatching(false);
+    setSelectedIds(prev => (pageSelected
+      ? prev.filter(id => !pageIds.includes(id))
+      : Array.from(new Set([...prev, ...pageIds]))));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  };
+
+  // Filter tabel saat ini, dipakai "pilih semua yang cocok" & ekspor
+  const listFilters: Record<string, string> = {
+    isInvited: 'true',
+    ...(debouncedSearch ? { search: debouncedSearch } : {}),
+    ...(segmentFilter ? { segment: segmentFilter } : {}),
+    ...(stageFilter ? { stage: stageFilter } : {}),
+    ...(customQuery ? { custom: customQuery } : {}),
+  };
+
+  const bulkTarget: BulkTarget = selectAllMatching ? { filter: listFilters } : { ids: selectedIds };
+
+  // reset ke page 1 saat keyword, segmen, tahap atau filter field berubah
   useEffect(() => {
     setPage(1);
-  }, [searchTerm]);
+  }, [debouncedSearch, segmentFilter, stageFilter, customQuery]);
 
   // Handle search - only trigger when search term changes
   const handleSearch = (e: React.FormEvent) => {
@@ -168,6 +281,8 @@ const ManageGuests: React.FC = () => {
         session: guestData.session,
         limit: guestData.limit,
         tableNo: guestData.tableNo,
+        tags: splitTags(guestData.tags),
+        customFields: guestData.customFields,
       };
 
       console.log('[ManageGuests] Mapped data for backend:', mappedData);
@@ -208,16 +323,6 @@ const ManageGuests: React.FC = () => {
     try {
       console.log('[ManageGuests] Creating guest with data:', guestData);
 
-      // Generate unique invitation code
-      const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-      let code = '';
-      for (let i = 0; i < 5; i++) {
-        code += chars.charAt(Math.floor(Math.random() * chars.length));
-      }
-
-      const invitationCode = `GUEST-${code}`;
-
       const mappedData = {
         name: guestData.name,
         phone: guestData.phone,
@@ -225,11 +330,13 @@ const ManageGuests: React.FC = () => {
         category: guestData.category,
         categoryID: guestData.categoryID,
         status: 'Pending',
-        code: invitationCode,
+        // Kode undangan dibuat server sesuai format akun
         session: guestData.session,
         limit: guestData.limit,
         tableNo: guestData.tableNo,
         info: guestData.info,
+        tags: splitTags(guestData.tags),
+        customFields: guestData.customFields,
         introTextCategory: 'Formal' // Default intro text category
       };
 
@@ -282,7 +389,7 @@ const ManageGuests: React.FC = () => {
         throw new Error('Failed to delete guest');
       }
 
-      setToast({ message: 'Guest deleted successfully', type: 'success' });
+      setToast({ message: 'Guest moved to trash', type: 'success' });
       setConfirmOneOpen(false);
       refresh();
     } catch (error: any) {
@@ -291,10 +398,10 @@ const ManageGuests: React.FC = () => {
   };
 
   // Handle guest status update
-  const handleStatusChange = async (guestId: string, currentStatus: string) => {
+  const handleStatusChange = async (guestId: string, isOn: boolean) => {
     try {
-      const newStatus = currentStatus === 'Confirmed' || currentStatus === 'scheduled' ? 'Pending' : 'Confirmed';
-      console.log(`[handleStatusChange] Updating guest ${guestId} status from ${currentStatus} to ${newStatus}`);
+      const newStatus = isOn ? 'Pending' : 'Confirmed';
+      console.log(`[handleStatusChange] Updating guest ${guestId} status to ${newStatus}`);
 
       // If unchecking (setting to Pending), also remove any associated reminders
       if (newStatus === 'Pending') {
@@ -362,6 +469,8 @@ const ManageGuests: React.FC = () => {
     } catch (error: any) {
       console.error(`[handleStatusChange] Error:`, error);
       setToast({ message: error.message || 'Failed to update guest status', type: 'error' });
+      // Kembalikan status optimistis (mis. 409 untuk tamu yang sudah check-in)
+      await refresh();
     }
   };
 
@@ -455,11 +564,7 @@ const ManageGuests: React.FC = () => {
       }
 
       // Get the intro text for the selected category
-      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`), {
-        headers: {
-          'user-id': user?.id || '',
-        }
-      });
+      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`));
 
       if (!response.ok) {
         throw new Error('Failed to fetch intro text');
@@ -485,7 +590,7 @@ const ManageGuests: React.FC = () => {
       const invitationLink = `${linkUndangan}/?${params.toString()}`;
 
 
-      introText = introText
+      introText = applyCustomFieldPlaceholders(introText, customFieldDefs, guest.customFields)
         .replace(/\[nama\]/g, guest.name)
         .replace(/\[mempelai\]/g, account.title)
         .replace(/\[link-undangan\]/g, invitationLink);
@@ -544,6 +649,20 @@ const ManageGuests: React.FC = () => {
     }
   };
 
+  const handleCopyRsvpLink = async (guest: Guest) => {
+    try {
+      const response = await apiRequest(apiUrl(`/api/guests/${guest._id}/rsvp-link`));
+      const json = await response.json();
+      if (!response.ok || !json.success) throw new Error(json.error || 'Failed to create RSVP link');
+
+      await navigator.clipboard.writeText(json.data.url || `${window.location.origin}${json.data.path}`);
+      setToast({ message: 'RSVP link copied to clipboard', type: 'success' });
+    } catch (error: any) {
+      console.error(`[handleCopyRsvpLink] Error:`, error);
+      setToast({ message: error.message || 'Failed to copy RSVP link', type: 'error' });
+    }
+  };
+
   // Handle WhatsApp message sending with dynamic placeholder replacement
   const handleWhatsAppSend = async (guest: Guest) => {
     try {
@@ -562,11 +681,7 @@ const ManageGuests: React.FC = () => {
       }
 
       // Get the intro text for the selected category
-      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`), {
-        headers: {
-          'user-id': user?.id || '',
-        }
-      });
+      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`));
 
       if (!response.ok) {
         throw new Error('Failed to fetch intro text');
@@ -593,7 +708,7 @@ const ManageGuests: React.FC = () => {
 
       const invitationLink = `${linkUndangan}/?${params.toString()}`;
 
-      introText = introText
+      introText = applyCustomFieldPlaceholders(introText, customFieldDefs, guest.customFields)
         .replace(/\[nama\]/g, guest.name)
         .replace(/\[mempelai\]/g, account.title)
         .replace(/\[link-undangan\]/g, invitationLink);
@@ -731,9 +846,29 @@ const ManageGuests: React.FC = () => {
                 >
                   <Download className="w-4 h-4" /> Import Excel
                 </button>
+                <button
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-border text-sm  transition-colors flex-shrink-0 bg-primary text-white"
+                  onClick={() => setExportOpen(true)}
+                >
+                  <FileText className="w-4 h-4" /> Ekspor
+                </button>
                 <button className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-border text-sm transition-colors flex-shrink-0 bg-primary text-white" onClick={() => setOpenIntro(true)}>
                   <img src={EditTeksPengantar} className="w-4 h-4" style={{ filter: 'brightness(0) saturate(100%) invert(1)' }} /> Teks Pengantar
                 </button>
+                <div className="inline-flex rounded-lg border border-border overflow-hidden text-sm flex-shrink-0">
+                  {(['guests', 'parties', 'segments', 'trash'] as const).map(v => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      className={`inline-flex items-center gap-1 px-3 py-2 transition-colors ${view === v ? 'bg-primary text-white' : 'bg-white text-text hover:bg-accent'}`}
+                    >
+                      {v === 'parties' && <Users className="w-4 h-4" />}
+                      {v === 'segments' && <Tags className="w-4 h-4" />}
+                      {v === 'trash' && <Trash2 className="w-4 h-4" />}
+                      {v === 'guests' ? 'Tamu' : v === 'parties' ? 'Party' : v === 'segments' ? 'Segmen' : 'Sampah'}
+                    </button>
+                  ))}
+                </div>
               </div>
               <div className="flex items-center gap-2 flex-shrink-0 ml-auto sm:ml-0">
                 <div className="relative">
@@ -761,10 +896,11 @@ const ManageGuests: React.FC = () => {
                       { key: 'meja', label: 'No. Meja', checked: visibleCols.meja },
                       { key: 'kirim', label: 'Kirim', checked: visibleCols.kirim },
                       { key: 'ditambahkan', label: 'Ditambahkan', checked: visibleCols.ditambahkan },
+                      ...customFieldDefs.map(def => ({ key: cfCol(def.key), label: def.label, checked: visibleCols[cfCol(def.key)] !== false })),
                     ]}
-                    onToggle={(key) => setVisibleCols(prev => ({ ...prev, [key]: !prev[key] }))}
+                    onToggle={(key) => setVisibleCols(prev => ({ ...prev, [key]: prev[key] === false }))}
                     onToggleAll={(checked) => {
-                      const keys = ['no', 'name', 'phone', 'status', 'kode', 'kategori', 'informasi', 'sesi', 'limit', 'meja', 'kirim', 'ditambahkan', 'teks'];
+                      const keys = ['no', 'name', 'phone', 'status', 'kode', 'kategori', 'informasi', 'sesi', 'limit', 'meja', 'kirim', 'ditambahkan', 'teks', ...customFieldDefs.map(def => cfCol(def.key))];
                       setVisibleCols(keys.reduce((acc, k) => ({ ...acc, [k]: checked }), {} as typeof visibleCols));
                     }}
                   />
@@ -786,6 +922,8 @@ const ManageGuests: React.FC = () => {
                     onRequestDeleteAll={() => setConfirmOpen(true)}
                     onDownloadQr={onDownloadQr}
                     onBlast={onBlast}
+                    onGenerateCodes={onGenerateCodes}
+                    onFindDuplicates={() => setDuplicatesOpen(true)}
                   />
 
                   <ConfirmModal open={confirmOpen} title="Hapus Semua Data?" message="Apakah kamu yakin ingin menghapus semua data tamu?" onConfirm={onDeleteAll} onCancel={() => setConfirmOpen(false)} loading={loading} />
@@ -795,7 +933,8 @@ const ManageGuests: React.FC = () => {
           </div>
 
           {/* Responsive Table */}
-          {/* Table Card */}
+          {view === 'parties' ? <PartiesPanel /> : view === 'segments' ? <SegmentsPanel /> : view === 'trash' ? <TrashPanel onRestored={refresh} /> : (
+          /* Table Card */
           <div className="rounded-xl border border-border bg-white overflow-hidden shadow-sm px-4 sm:px-6 lg:px-8 py-6  rounded-t-none" style={{ marginTop: '0px' }} >
             {/* Meta + Search */}
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0 text-sm mb-6">
@@ -812,6 +951,49 @@ const ManageGuests: React.FC = () => {
                   <option value={100}>100</option>
                 </select>
                 <span>entries</span>
+                {segments.length > 0 && (
+                  <select
+                    value={segmentFilter}
+                    onChange={(e) => setSegmentFilter(e.target.value)}
+                    className="border border-border rounded-md px-2 py-1 bg-white ml-2"
+                    title="Segmen"
+                  >
+                    <option value="">Semua segmen</option>
+                    {segments.map(s => (
+                      <option key={s._id} value={s._id}>{s.name} ({s.guestCount ?? 0})</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={stageFilter}
+                  onChange={(e) => setStageFilter(e.target.value)}
+                  className="border border-border rounded-md px-2 py-1 bg-white ml-2"
+                  title="Tahap undangan"
+                >
+                  <option value="">Semua tahap</option>
+                  {INVITATION_STAGES.map(stage => (
+                    <option key={stage} value={stage}>{INVITATION_STAGE_LABELS[stage]}</option>
+                  ))}
+                </select>
+                {customFieldDefs.filter(def => def.type === 'select' || def.type === 'boolean').map(def => (
+                  <select
+                    key={def.key}
+                    value={customFilter[def.key] ?? ''}
+                    onChange={(e) => setCustomFilter(prev => ({ ...prev, [def.key]: e.target.value }))}
+                    className="border border-border rounded-md px-2 py-1 bg-white ml-2"
+                    title={def.label}
+                  >
+                    <option value="">Semua {def.label}</option>
+                    {def.type === 'boolean' ? (
+                      <>
+                        <option value="true">{def.label}: Ya</option>
+                        <option value="false">{def.label}: Tidak</option>
+                      </>
+                    ) : (def.options ?? []).map(opt => (
+                      <option key={opt} value={opt}>{opt}</option>
+                    ))}
+                  </select>
+                ))}
               </div>
               <form onSubmit={handleSearch} className="relative w-full sm:w-auto">
                 <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-text/50" />
@@ -823,11 +1005,36 @@ const ManageGuests: React.FC = () => {
                 />
               </form>
             </div>
+            {selectedCount > 0 && (
+              <div className="flex flex-wrap items-center gap-3 mb-4 px-3 py-2 rounded-lg bg-accent text-sm text-text">
+                <span className="font-medium">{selectedCount} tamu dipilih</span>
+                {pageSelected && !selectAllMatching && totalItems > selectedIds.length && (
+                  <button type="button" onClick={() => setSelectAllMatching(true)} className="text-primary underline">
+                    Pilih semua {totalItems} tamu
+                  </button>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setBulkOpen(true)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-sm"
+                  >
+                    <Edit3 className="w-4 h-4" /> Edit Terpilih
+                  </button>
+                  <button type="button" onClick={clearSelection} className="px-3 py-1.5 rounded-lg border border-border text-sm bg-white">
+                    Batal
+                  </button>
+                </div>
+              </div>
+            )}
             <div ref={scrollRef} className={`overflow-x-auto w-full ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`} style={{ touchAction: 'pan-x', WebkitOverflowScrolling: 'touch' }}>
               <div className="w-full overflow-x-auto">
                 <table className="table-auto w-full min-w-[1200px] text-left">
                   <thead>
                     <tr className="bg-gray-50">
+                      <th className="px-4 py-3 w-10">
+                        <input type="checkbox" aria-label="Pilih halaman ini" checked={pageSelected} onChange={togglePageSelected} />
+                      </th>
                       {visibleCols.no && <th className="px-4 py-3 text-xs font-medium text-text/70">No</th>}
                       {visibleCols.name && <th className="px-4 py-3 text-xs font-medium text-text/70 sticky bg-gray-50 left-0">Nama</th>}
                       {visibleCols.phone && <th className="px-4 py-3 text-xs font-medium text-text/70">WhatsApp</th>}
@@ -846,14 +1053,34 @@ const ManageGuests: React.FC = () => {
 
                       {visibleCols.status && <th className="px-4 py-3 text-xs font-medium text-text/70">Status</th>}
                       {visibleCols.ditambahkan && <th className="px-4 py-3 text-xs font-medium text-text/70">Ditambahkan</th>}
+                      {customFieldDefs.filter(def => visibleCols[cfCol(def.key)] !== false).map(def => (
+                        <th key={def.key} className="px-4 py-3 text-xs font-medium text-text/70">{def.label}</th>
+                      ))}
                     </tr>
                   </thead>
 
                   <tbody className="divide-y divide-border">
                     {pageRows.map((guest: any, index: number) => (
                       <tr key={guest._id} className="hover:bg-accent/50 transition-colors">
+                        <td className="px-4 py-4 w-10">
+                          <input
+                            type="checkbox"
+                            aria-label={`Pilih ${guest.name}`}
+                            checked={selectAllMatching || selectedIds.includes(String(guest._id))}
+                            onChange={() => toggleSelected(String(guest._id))}
+                          />
+                        </td>
                         {visibleCols.no && <td className="px-4 py-4 text-sm whitespace-nowrap">{(page - 1) * pageSize + index + 1}</td>}
-                        {visibleCols.name && <td className="px-4 py-4 text-sm whitespace-nowrap sticky left-0 bg-white z-10">{guest.name}</td>}
+                        {visibleCols.name && <td className="px-4 py-4 text-sm whitespace-nowrap sticky left-0 bg-white z-10">
+                          {guest.name}
+                          {guest.tags && guest.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {guest.tags.map(tag => (
+                                <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded-full bg-accent text-text/70">{tag}</span>
+                              ))}
+                            </div>
+                          )}
+                        </td>}
                         {visibleCols.phone && <td className="px-4 py-4 text-sm whitespace-nowrap">{guest.phone || '-'}</td>}
                         {visibleCols.kode && <td className="px-4 py-4 text-sm whitespace-nowrap text-primary">{guest.code || '-'}</td>}
                         {visibleCols.kategori && <td className="px-4 py-4 text-sm whitespace-nowrap">{guest.category || '-'}</td>}
@@ -924,6 +1151,15 @@ const ManageGuests: React.FC = () => {
                               <img src={Copy} className="w-4 h-4" />
                             </button>
 
+                            <button
+                              type="button"
+                              onClick={() => handleCopyRsvpLink(guest)}
+                              title="Copy RSVP link"
+                              className="p-2 rounded-md bg-gray-300 text-blue-700 hover:bg-gray-200 transition-shadow shadow-sm shrink-0"
+                            >
+                              <Link2 className="w-4 h-4" />
+                            </button>
+
                             <button
                               type="button"
                               onClick={() => handleDeleteGuest(guest._id)}
@@ -940,22 +1176,27 @@ const ManageGuests: React.FC = () => {
                           <div className="flex items-center justify-center gap-2">
                             <input
                               type="checkbox"
-                              checked={guest.status === 'Confirmed' || guest.status === 'scheduled'}
-                              onChange={() => handleStatusChange(guest._id, guest.status)}
+                              checked={guest.status === 'Confirmed' || guest.invitationStage === 'scheduled'}
+                              onChange={() => handleStatusChange(guest._id, guest.status === 'Confirmed' || guest.invitationStage === 'scheduled')}
                               className="w-4 h-4 text-primary bg-white border-gray-300 rounded focus:ring-primary focus:ring-2 cursor-pointer"
-                              title={guest.status === 'Confirmed' ? 'Terkirim' : guest.status === 'scheduled' ? 'Terjadwal' : 'Belum'}
+                              title={guest.status === 'Confirmed' ? 'Hadir' : 'Belum'}
                             />
-                            {guest.status === 'scheduled' && (
-                              <span className="text-xs text-gray-600 font-medium">Terjadwal</span>
-                            )}
+                            <span className="text-xs text-gray-600 font-medium">
+                              {INVITATION_STAGE_LABELS[invitationStageOf(guest)]}
+                            </span>
                           </div>
                         </td>}
 
                         {visibleCols.ditambahkan && <td className="px-4 py-4 text-sm whitespace-nowrap">{formatDate(guest.createdAt)}</td>}
+                        {customFieldDefs.filter(def => visibleCols[cfCol(def.key)] !== false).map(def => (
+                          <td key={def.key} className="px-4 py-4 text-sm whitespace-nowrap">
+                            {formatCustomFieldValue(def, guest.customFields?.[def.key]) || '-'}
+                          </td>
+                        ))}
                       </tr>
                     ))}
 
-                    {filteredGuests.length === 0 && (
+                    {pageRows.length === 0 && (
                       <tr>
                         <td colSpan={13} className="px-4 py-8 text-center text-text/60">No guests found</td>
                       </tr>
@@ -987,6 +1228,7 @@ const ManageGuests: React.FC = () => {
               </div>
             </div>
           </div>
+          )}
 
           {/* Modals */}
           <ExcelImportModal
@@ -1022,6 +1264,34 @@ const ManageGuests: React.FC = () => {
             <div className="text-sm whitespace-pre-line">{selectedInfo}</div>
           </NoticeModal>
 
+          <ExportGuestsModal
+            open={exportOpen}
+            filters={listFilters}
+            customFieldDefs={customFieldDefs}
+            onClose={() => setExportOpen(false)}
+            onDone={(message) => setToast({ message, type: 'success' })}
+          />
+          <BulkEditModal
+            open={bulkOpen}
+            target={bulkTarget}
+            count={selectedCount}
+            onClose={() => setBulkOpen(false)}
+            onDone={(message) => {
+              setToast({ message, type: 'success' });
+              refresh();
+            }}
+          />
+
+          <DuplicatesModal
+            open={duplicatesOpen}
+            onClose={() => setDuplicatesOpen(false)}
+            onMerged={(message) => {
+              setToast({ message, type: 'success' });
+              refresh();
+            }}
+            onError={(message) => setToast({ message, type: 'error' })}
+          />
+
           <ConfirmModal open={confirmOneOpen} title="Hapus Data Tamu" message="Apakah kamu yakin ingin menghapus data untuk tamu ini?" onConfirm={confirmDeleteGuest} onCancel={() => setConfirmOneOpen(false)} loading={loading} />
 
         </div>
@@ -1,8 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import useSWR from 'swr';
 import { BottomBar } from '../components/navigation/BottomBar';
 import { useGuests } from '../contexts/GuestsContext';
+import { useDebouncedValue, useGuestList } from '../hooks/useGuestList';
 import { LayoutGrid, Filter, Search, Eye, Edit3, Trash2, Bug } from 'lucide-react';
 import { TableFilterPopover } from '../components/guests/TableFilterPopover';
 import { CheckInModal, RegisteredGuest } from '../components/checkin/CheckInModal';
@@ -48,6 +48,7 @@ export function ReceptionCheckIn(): JSX.Element {
   const { photoUrl, dashboardUrl, welcomeUrl } = usePhoto();
   const [infoOpen, setInfoOpen] = useState(false);
   const [confirmOpen, setConfirmOpen] = React.useState(false);
+  const [clearReason, setClearReason] = React.useState('');
   const [selectedInfo, setSelectedInfo] = useState<string | null>(null);
   const [visibleCols, setVisibleCols] = React.useState<Record<string, boolean>>({
     no: true,
@@ -64,22 +65,29 @@ export function ReceptionCheckIn(): JSX.Element {
     edit: true,
   });
 
-  // Fetch all guests (both invited and non-invited) for reception table
-  const { data: allGuests, error: guestsError, isLoading: guestsLoading, mutate: mutateGuests } = useSWR(
-    user ? apiUrl(`/api/guests`) : null,
-    async (url: string) => {
-      const res = await apiRequest(url);
-      if (!res.ok) throw new Error('Failed to fetch guests');
-      const json = await res.json();
-      return json?.data || [];
-    },
-    {
-      refreshInterval: 3000,
-      revalidateOnFocus: true,
-      revalidateOnReconnect: true,
-    }
+  // Semua tamu (undangan & non-undangan) untuk statistik dan pencarian di modal
+  const { guests: invitedGuests, allGuests, stats, refresh } = useGuests();
+
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Tabel: hanya tamu yang sudah check-in, dipaginasi di server, terbaru dulu
+  const {
+    guests: checkedInGuests,
+    pagination,
+    loading: guestsLoading,
+    error: guestsError,
+    refresh: refreshList,
+  } = useGuestList(
+    { checkedIn: true, search: debouncedSearch || undefined, page, limit: pageSize, sort: '-checkInDate' },
+    { refreshInterval: 3000 }
   );
 
+  const mutateGuests = async () => {
+    await Promise.all([refresh(), refreshList()]);
+  };
+
   // Tambahkan di atas return, sebelum `if (guestsLoading)`
   const [account, setAccount] = useState<DashboardAccountInfo | null>(null);
 
@@ -106,10 +114,6 @@ export function ReceptionCheckIn(): JSX.Element {
     fetchAccount();
   }, []);
 
-
-  // Use global guests data for invited guests only
-  const { guests: invitedGuests, stats, refresh, loading: invitedLoading, error: invitedError } = useGuests();
-
   // Update stats to include non-invited guests
   const updatedStats = React.useMemo(() => ({
     ...stats,
@@ -131,8 +135,7 @@ export function ReceptionCheckIn(): JSX.Element {
           phone: data.phone,
           info: data.info,
           guestCount: data.guestCount,
-          category: data.category,
-          invitationCode: data.invitationCode
+          category: data.category
         })
       });
 
@@ -152,28 +155,9 @@ export function ReceptionCheckIn(): JSX.Element {
     }
   };
 
-  // Filter and format guests data - only show checked-in guests
-  const filteredGuests = React.useMemo(() => {
-    if (!allGuests || allGuests.length === 0) return [];
-
-    return allGuests.filter((guest: any) => {
-      // Only show guests who have checked in
-      if (!guest.checkInDate) return false;
-
-      // Apply search filter if search term exists
-      if (!searchTerm) return true;
-      const searchLower = searchTerm.toLowerCase();
-      return (
-        guest.name?.toLowerCase().includes(searchLower) ||
-        guest.code?.toLowerCase().includes(searchLower) ||
-        guest.phone?.toLowerCase().includes(searchLower)
-      );
-    });
-  }, [allGuests, searchTerm]);
-
   // Format guests for table display (including non-invited guests)
   const rows = React.useMemo(() => {
-    return filteredGuests.map((guest: any, index: number) => ({
+    return checkedInGuests.map((guest: any, index: number) => ({
       id: guest._id,
       no: String(index + 1).padStart(2, '0'),
       name: guest.name,
@@ -190,14 +174,12 @@ export function ReceptionCheckIn(): JSX.Element {
       checkedInAt: guest.checkInDate,
       isNonInvited: guest.isInvited === false
     }));
-  }, [filteredGuests]);
+  }, [checkedInGuests]);
 
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(10);
-  const totalItems = rows.length;
-  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const pageRows = rows;
+  const totalItems = pagination.total;
+  const totalPages = Math.max(1, pagination.totalPages);
   const pageStart = (page - 1) * pageSize;
-  const pageRows = rows.slice(pageStart, pageStart + pageSize);
 
   useEffect(() => {
     if (page > totalPages) setPage(totalPages);
@@ -206,7 +188,7 @@ export function ReceptionCheckIn(): JSX.Element {
   // reset ke page 1 saat keyword berubah
   useEffect(() => {
     setPage(1);
-  }, [searchTerm]);
+  }, [debouncedSearch]);
 
   // Calculate gift and souvenir stats from checked-in guests only
   const giftStats = React.useMemo(() => {
@@ -262,6 +244,7 @@ export function ReceptionCheckIn(): JSX.Element {
   ];
   const statsRight = [
     { label: 'Tamu Tambahan', value: allGuestStats.nonInvited },
+    { label: 'Lebih dari Limit', value: stats.overLimit },
     { label: 'Souvenir Dibagikan', value: giftStats.totalSouvenirs },
     { label: 'Kado Diterima', value: giftStats.kadoCount },
     { label: 'Angpao Diterima', value: giftStats.angpaoCount },
@@ -287,8 +270,11 @@ export function ReceptionCheckIn(): JSX.Element {
     try {
 
       // Use unified guests API for all guest types
+      // Tercatat sebagai event pembatalan di log check-in
       const response = await apiRequest(apiUrl(`/api/guests/${selectedGuest.id}/clear-checkin`), {
-        method: 'POST'
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: clearReason.trim() || undefined })
       });
 
       const data = await response.json();
@@ -300,6 +286,7 @@ export function ReceptionCheckIn(): JSX.Element {
 
       // Refresh the guests data to reflect the change
       setConfirmOpen(false);
+      setClearReason('');
       console.log('Refreshing guests data after clearing check-in...');
       await mutateGuests();
       console.log('Guests data refreshed');
@@ -382,6 +369,15 @@ export function ReceptionCheckIn(): JSX.Element {
                     </ul>
                   ))}
                 </div>
+                {stats.overLimitBySession.length > 0 && (
+                  <div className="flex flex-wrap gap-2 px-3 sm:px-6 pb-3 sm:pb-6 text-[11px] sm:text-xs">
+                    {stats.overLimitBySession.map((s) => (
+                      <span key={s.session} className="rounded-full bg-red-50 text-red-600 px-2.5 py-1">
+                        Sesi {s.session || '-'}: +{s.extra} orang ({s.guests} tamu)
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -610,6 +606,7 @@ export function ReceptionCheckIn(): JSX.Element {
               id: g._id,
               name: g.name,
               code: g.code,
+              phone: g.phone,
               category: g.category || '-',
               isInvited: g.isInvited !== false, // Set isInvited based on guest data
               checkInDate: g.checkInDate // Pass check-in status
@@ -710,7 +707,24 @@ export function ReceptionCheckIn(): JSX.Element {
           </NoticeModal>
 
 
-          <ConfirmModal open={confirmOpen} title="Hapus Check-in Data Tamu" message="Apakah kamu yakin ingin menghapus data check-in untuk tamu ini?" onConfirm={confirmDeleteCheckin} onCancel={() => setConfirmOpen(false)} />
+          <ConfirmModal
+            open={confirmOpen}
+            title="Hapus Check-in Data Tamu"
+            message={
+              <>
+                <p>Apakah kamu yakin ingin menghapus data check-in untuk tamu ini?</p>
+                <input
+                  value={clearReason}
+                  maxLength={300}
+                  onChange={(e) => setClearReason(e.target.value)}
+                  placeholder="Alasan (opsional)"
+                  className="mt-3 w-full rounded-lg border border-border px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </>
+            }
+            onConfirm={confirmDeleteCheckin}
+            onCancel={() => { setConfirmOpen(false); setClearReason(''); }}
+          />
         </div>
       </div>
       {/* Bottom navigation - inline at the page bottom */}
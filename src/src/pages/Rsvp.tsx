@@ -0,0 +1,217 @@
+/**
+ * Public RSVP page
+ * Opened from the guest's invitation link (/#/rsvp/:code?t=<token>), no login.
+ * The guest confirms or declines, picks how many people come (up to their
+ * limit) and can leave dietary requirements and a note until the deadline.
+ */
+import React from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { apiUrl } from '../lib/api';
+import type { RsvpInvitation } from '../../shared/types';
+
+const inputClass = 'w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-text focus:outline-none focus:ring-2 focus:ring-primary';
+
+function formatDate(value: string | null, withTime = true): string {
+  if (!value) return '-';
+  return new Intl.DateTimeFormat('id-ID', {
+    weekday: withTime ? 'long' : undefined,
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+    hour: withTime ? '2-digit' : undefined,
+    minute: withTime ? '2-digit' : undefined,
+  }).format(new Date(value));
+}
+
+export default function Rsvp(): JSX.Element {
+  const { code = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('t') || '';
+  const endpoint = apiUrl(`/api/rsvp/${encodeURIComponent(code)}?t=${encodeURIComponent(token)}`);
+
+  const [invitation, setInvitation] = React.useState<RsvpInvitation | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState('');
+  const [attending, setAttending] = React.useState<boolean | null>(null);
+  const [headcount, setHeadcount] = React.useState(1);
+  const [dietaryRequirements, setDietaryRequirements] = React.useState('');
+  const [note, setNote] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [submitted, setSubmitted] = React.useState(false);
+
+  const applyInvitation = (data: RsvpInvitation) => {
+    setInvitation(data);
+    setAttending(data.guest.status === 'Confirmed' ? true : data.guest.status === 'Declined' ? false : null);
+    setHeadcount(Math.min(data.guest.headcount || 1, data.guest.maxHeadcount));
+    setDietaryRequirements(data.guest.dietaryRequirements);
+    setNote(data.guest.note);
+  };
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(endpoint);
+        const json = await res.json();
+        if (!res.ok || !json.success) throw new Error(json.error || 'Undangan tidak ditemukan');
+        if (!cancelled) applyInvitation(json.data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Undangan tidak ditemukan');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (attending === null) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: attending ? 'Confirmed' : 'Declined',
+          headcount: attending ? headcount : undefined,
+          dietaryRequirements: attending ? dietaryRequirements : undefined,
+          note,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error?.issues?.[0]?.message || json.error || 'Gagal mengirim RSVP');
+      }
+      applyInvitation(json.data);
+      setSubmitted(true);
+    } catch (err: any) {
+      setError(err.message || 'Gagal mengirim RSVP');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const checkedIn = invitation?.guest.status === 'Checked-In';
+  const locked = !invitation || invitation.closed || checkedIn;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-accent px-4 py-12">
+      <div className="w-full max-w-sm sm:max-w-md">
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !invitation ? (
+            <div className="text-center space-y-2">
+              <h1 className="text-xl font-semibold text-text">Undangan tidak ditemukan</h1>
+              <p className="text-sm text-gray-500">Periksa kembali link RSVP dari undangan Anda.</p>
+            </div>
+          ) : (
+            <>
+              <div className="text-center space-y-1">
+                <p className="text-sm text-gray-500">Kepada Yth.</p>
+                <h1 className="text-xl sm:text-2xl font-semibold text-text">{invitation.guest.name}</h1>
+                <p className="text-sm text-text/80 pt-2">{invitation.event.title}</p>
+                <p className="text-xs text-gray-500">{formatDate(invitation.event.dateTime)}</p>
+                {invitation.event.location && <p className="text-xs text-gray-500">{invitation.event.location}</p>}
+              </div>
+
+              {invitation.deadline && (
+                <p className={`text-xs text-center ${invitation.closed ? 'text-red-600' : 'text-gray-500'}`}>
+                  {invitation.closed ? 'RSVP sudah ditutup sejak ' : 'Mohon konfirmasi sebelum '}
+                  {formatDate(invitation.deadline)}
+                </p>
+              )}
+
+              {checkedIn && (
+                <p className="text-sm text-center text-green-700">Terima kasih, Anda sudah hadir di acara.</p>
+              )}
+
+              {submitted && (
+                <div className="rounded-lg bg-green-50 border border-green-200 px-3 py-2 text-sm text-green-800 text-center">
+                  {attending ? 'Terima kasih, kehadiran Anda sudah kami catat.' : 'Terima kasih atas konfirmasinya.'}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {[true, false].map((value) => (
+                    <button
+                      key={String(value)}
+                      type="button"
+                      disabled={locked}
+                      onClick={() => setAttending(value)}
+                      className={`rounded-lg border px-3 py-2.5 text-sm font-semibold transition-colors disabled:opacity-50 ${attending === value
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-white text-text border-border hover:bg-accent'}`}
+                    >
+                      {value ? 'Hadir' : 'Tidak Hadir'}
+                    </button>
+                  ))}
+                </div>
+
+                {attending && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-text mb-1.5">Jumlah yang hadir</label>
+                      <select
+                        value={headcount}
+                        disabled={locked}
+                        onChange={(e) => setHeadcount(Number(e.target.value))}
+                        className={inputClass}
+                      >
+                        {Array.from({ length: invitation.guest.maxHeadcount }, (_, i) => i + 1).map((n) => (
+                          <option key={n} value={n}>{n} orang</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-text mb-1.5">Kebutuhan makanan</label>
+                      <input
+                        type="text"
+                        value={dietaryRequirements}
+                        disabled={locked}
+                        maxLength={500}
+                        onChange={(e) => setDietaryRequirements(e.target.value)}
+                        placeholder="Contoh: vegetarian, alergi kacang"
+                        className={inputClass}
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-text mb-1.5">Ucapan / catatan</label>
+                  <textarea
+                    value={note}
+                    disabled={locked}
+                    maxLength={500}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                    className={`${inputClass} resize-none`}
+                  />
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <button
+                  type="submit"
+                  disabled={locked || attending === null || saving}
+                  className="w-full rounded-lg bg-primary text-white px-4 py-2.5 text-sm font-semibold shadow hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Mengirim...' : invitation.guest.respondedAt ? 'Perbarui RSVP' : 'Kirim RSVP'}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,8 @@ import { WhatsAppConnectionModal } from '../components/whatsapp/WhatsAppConnecti
 import { useAuth } from '../contexts/AuthContext';
 import { useGuests } from '../contexts/GuestsContext';
 import { useToast } from '../contexts/ToastContext';
+import { applyCustomFieldPlaceholders } from '../../shared/custom-fields';
+import { INVITATION_STAGES, INVITATION_STAGE_LABELS, invitationStageOf } from '../../shared/invitation-stage';
 import { Guest } from '../../shared/types';
 import { apiUrl } from '../lib/api';
 import { IntroTextModal } from '../components/guests/IntroTextModal';
@@ -78,6 +80,7 @@ const SendReminder: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [openIntro, setOpenIntro] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('');
+  const [stageFilter, setStageFilter] = useState<string>('');
 
   const { account } = useAccount();
   const [selectedGuest, setSelectedGuest] = useState<string>('');
@@ -133,11 +136,7 @@ const SendReminder: React.FC = () => {
       }
 
       // Get the intro text for the selected category
-      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`), {
-        headers: {
-          'user-id': user?.id || '',
-        }
-      });
+      const response = await apiRequest(apiUrl(`/api/intro-text/category/${guest.introTextCategory}`));
 
       if (!response.ok) {
         throw new Error('Failed to fetch intro text');
@@ -163,7 +162,7 @@ const SendReminder: React.FC = () => {
 
       const invitationLink = `${linkUndangan}/?${params.toString()}`;
 
-      introText = introText
+      introText = applyCustomFieldPlaceholders(introText, account.customFields, guest.customFields)
         .replace(/\[nama\]/g, guest.name)
         .replace(/\[mempelai\]/g, account.title)
         .replace(/\[link-undangan\]/g, invitationLink);
@@ -266,10 +265,11 @@ const SendReminder: React.FC = () => {
     }
   };
 
-  // Filter guests based on search term
+  // Filter guests based on search term and invitation stage
   const filteredGuests = guests.filter(guest =>
-    guest.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    guest.phone?.toLowerCase().includes(searchTerm.toLowerCase())
+    (guest.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      guest.phone?.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (!stageFilter || invitationStageOf(guest) === stageFilter)
   );
 
   const [page, setPage] = useState(1);
@@ -425,6 +425,17 @@ const SendReminder: React.FC = () => {
                     <option value={100}>100</option>
                   </select>
                   <span>entries</span>
+                  <select
+                    value={stageFilter}
+                    onChange={(e) => { setPage(1); setStageFilter(e.target.value); }}
+                    className="border border-border rounded-md px-2 py-1 bg-white ml-2"
+                    title="Tahap undangan"
+                  >
+                    <option value="">Semua tahap</option>
+                    {INVITATION_STAGES.map(stage => (
+                      <option key={stage} value={stage}>{INVITATION_STAGE_LABELS[stage]}</option>
+                    ))}
+                  </select>
                 </div>
                 <div className="flex items-center gap-1 sm:gap-2">
                   <div className="relative w-full sm:w-48 md:w-64">
@@ -524,7 +535,7 @@ const SendReminder: React.FC = () => {
                                 <input
                                   type="checkbox"
                                   disabled={true}
-                                  checked={guest.status === 'confirmed' || guest.status === 'scheduled' || !!guest.reminderScheduledAt}
+                                  checked={invitationStageOf(guest) !== 'draft' || !!guest.reminderScheduledAt}
                                   // onChange={async (e) => {
                                   //   try {
                                   //     const newStatus = e.target.checked ? 'confirmed' : 'pending';
@@ -568,6 +579,7 @@ const SendReminder: React.FC = () => {
                                   // }}
                                   className="w-3 h-3 sm:w-4 sm:h-4 text-primary bg-gray-100 border-gray-300 rounded focus:ring-primary focus:ring-2"
                                 />
+                                <span className="ml-2 text-xs text-gray-600">{INVITATION_STAGE_LABELS[invitationStageOf(guest)]}</span>
                               </td>
                             )}
                             {visibleCols.share && (
@@ -3,6 +3,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { getApiUrl, getAuthHeaders } from '../utils/api';
 import { Image as ImageIcon, UploadCloud } from 'lucide-react';
+import TwoFactorSettings from '../components/security/TwoFactorSettings';
 
 type PhotoField =
     | 'weddingPhotoUrl'
@@ -207,6 +208,12 @@ export default function Settings(): JSX.Element {
                                         inputRef: fileInputWelcomeRef,
                                     })}
                                 </div>
+
+                                {/* Keamanan akun */}
+                                <div className="mt-8">
+                                    <h2 className="text-base font-semibold text-text mb-3">Keamanan</h2>
+                                    <TwoFactorSettings />
+                                </div>
                             </div>
                         </div>
                     </main>
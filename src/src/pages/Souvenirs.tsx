@@ -11,6 +11,8 @@ import NonInvitedSouvenirAssignmentModal, { NonInvitedGuestData } from '../compo
 import { useToast } from '../contexts/ToastContext';
 import SouvenirAssignmentModal from '../components/souvenirs/SouvenirAssignmentModal';
 import { Guest } from '../../shared/types';
+import type { GuestListQuery } from '../../shared/types';
+import { guestListParams, useDebouncedValue, useGuestList } from '../hooks/useGuestList';
 import { BottomBar } from '../components/navigation/BottomBar';
 import { useNavigate } from 'react-router-dom';
 import { AddGuestModal, AddGuestFormData } from '../components/guests/AddGuestModal';
@@ -28,7 +30,7 @@ import Souvenir from '../assets/Souvenir.png';
 
 export const Souvenirs: React.FC = () => {
   const { apiRequest, token } = useAuth();
-  const { guests, allGuests, loading, error, refresh } = useGuests();
+  const { guests, allGuests, loading, error, refresh: refreshContext } = useGuests();
   const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterOpen, setFilterOpen] = React.useState(false);
@@ -144,7 +146,15 @@ export const Souvenirs: React.FC = () => {
   };
 
   // Export guests to CSV
-  const exportGuestsToCSV = () => {
+  const exportGuestsToCSV = async () => {
+    // Semua baris yang cocok dengan filter, bukan hanya halaman yang tampil
+    const res = await apiRequest(apiUrl(`/api/guests?${guestListParams(listQuery).toString()}`));
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      showToast(json.error || 'Failed to export guests', 'error');
+      return;
+    }
+    const filteredGuests: Guest[] = json.data;
     const headers = ['No', 'Guest Name', 'Category', 'Guest Info', 'Souvenir Count', 'Souvenir Recorded Date', 'Souvenir Recorded Time'];
     const rows = filteredGuests.map((g, idx) => [
       String(idx + 1),
@@ -195,8 +205,7 @@ export const Souvenirs: React.FC = () => {
           phone: data.phone,
           info: data.info,
           souvenir: data.souvenir,
-          category: data.category,
-          invitationCode: data.invitationCode
+          category: data.category
         })
       });
 
@@ -230,43 +239,37 @@ export const Souvenirs: React.FC = () => {
     };
   };
 
-  // Filter guests based on search and status - only show guests with souvenirs
-  const filteredGuests = useMemo(() => {
-    return allGuests.filter(guest => {
-      // Only show guests who have received souvenirs (souvenirCount > 0)
-      if (!guest.souvenirCount || guest.souvenirCount === 0) {
-        return false;
-      }
-
-      const matchesSearch = searchTerm === '' ||
-        guest.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        guest.phone.includes(searchTerm) ||
-        guest.code.toLowerCase().includes(searchTerm.toLowerCase());
-
-      const matchesCategory = selectedCategory === 'All' || guest.category === selectedCategory;
-
-      return matchesSearch && matchesCategory;
-    });
-  }, [allGuests, searchTerm, selectedCategory]);// pagination
-
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10); // 10/25/50/100
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+
+  // Hanya tamu yang sudah menerima souvenir; filter & pagination di server
+  const listQuery: GuestListQuery = {
+    hasSouvenir: true,
+    search: debouncedSearch || undefined,
+    category: selectedCategory === 'All' ? undefined : selectedCategory,
+    sort: '-souvenirRecordedAt',
+  };
+  const { guests: pageRows, pagination, refresh: refreshList } = useGuestList({ ...listQuery, page, limit: pageSize });
+
+  const refresh = async () => {
+    await Promise.all([refreshContext(), refreshList()]);
+  };
 
   // derived untuk pagination
-  const totalItems = filteredGuests.length;
-  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const totalItems = pagination.total;
+  const totalPages = Math.max(1, pagination.totalPages);
   const pageStart = (page - 1) * pageSize;
-  const pageRows = filteredGuests.slice(pageStart, pageStart + pageSize);
 
   // jaga page tetap valid saat filter/data berubah
   useEffect(() => {
     if (page > totalPages) setPage(totalPages);
   }, [totalPages, page]);
 
-  // reset ke page 1 saat keyword berubah
+  // reset ke page 1 saat keyword / kategori berubah
   useEffect(() => {
     setPage(1);
-  }, [searchTerm]);
+  }, [debouncedSearch, selectedCategory]);
 
   // Get unique categories
   const categories = useMemo(() => {
@@ -518,7 +521,7 @@ export const Souvenirs: React.FC = () => {
 
             {/* Mobile Cards */}
             <div className="md:hidden divide-y divide-border">
-              {filteredGuests.map((guest, index) => {
+              {pageRows.map((guest, index) => {
                 const souvenirStatus = getSouvenirStatus(guest); return (
                   <div key={guest._id} className="p-4 hover:bg-accent transition-colors">
                     <div className="space-y-3">
@@ -582,7 +585,7 @@ export const Souvenirs: React.FC = () => {
               })}
             </div>
 
-            {filteredGuests.length === 0 && (
+            {pageRows.length === 0 && (
               <div className="text-center py-8 md:py-12 px-4">
                 <Edit3 className="mx-auto h-10 w-10 md:h-12 md:w-12 text-text/40" />
                 <h3 className="mt-2 text-sm font-medium text-text">No guests with souvenirs found</h3>
@@ -597,7 +600,7 @@ export const Souvenirs: React.FC = () => {
             <SouvenirAssignmentModal isOpen={isAssignmentModalOpen} onClose={() => { setIsAssignmentModalOpen(false); setSelectedGuest(null); }} guest={selectedGuest} onAssign={handleAssignmentComplete} />)} {isAddGuestOpen && (
               <NonInvitedSouvenirAssignmentModal isOpen={isAddGuestOpen} onClose={() => setIsAddGuestOpen(false)} onSubmit={handleAddGuestSave} />)}
           {/* Search Modal - Similar to Check-in modal */}
-          <CheckInModal open={isSearchModalOpen} onClose={handleSearchModalClose} guests={allGuests.map(g => ({ id: g._id, name: g.name, code: g.code, extra: g.info }))} onPickRegisteredGuest={(registeredGuest) => { const guest = allGuests.find(g => g._id === registeredGuest.id); if (guest) { handleSearchGuest(guest); } }} mode="search" context="souvenir"
+          <CheckInModal open={isSearchModalOpen} onClose={handleSearchModalClose} guests={allGuests.map(g => ({ id: g._id, name: g.name, code: g.code, phone: g.phone, extra: g.info }))} onPickRegisteredGuest={(registeredGuest) => { const guest = allGuests.find(g => g._id === registeredGuest.id); if (guest) { handleSearchGuest(guest); } }} mode="search" context="souvenir"
           />
           <ConfirmModal open={confirmOpen} title="Hapus Souvenir" message="Apakah kamu yakin ingin menghapus data souvenir untuk tamu ini?" onConfirm={confirmDeleteSouvenir} onCancel={() => setConfirmOpen(false)} loading={loading} />
           <NoticeModal open={infoOpen} onClose={() => { setInfoOpen(false); setSelectedInfo(null); }} title="Information" confirmLabel="Close" >
@@ -0,0 +1,312 @@
+/**
+ * Reception Stations Page
+ * Admin-only management of event-day station logins: each station gets a
+ * code + PIN, a desk permission bundle and a validity window around the
+ * event date, and can be revoked remotely.
+ */
+
+import React, { useState } from 'react';
+import useSWR from 'swr';
+import { Tablet, Plus, Ban, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { apiUrl } from '../lib/api';
+import { PERMISSION_PAGES, STATION_PERMISSION_KEYS } from '../../shared/types';
+import type { Station, StationPermissionKey } from '../../shared/types';
+
+type StationRow = Station & { _id: string; status: 'active' | 'scheduled' | 'expired' | 'revoked' };
+
+const STATUS_STYLES: Record<StationRow['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-100 text-red-700',
+};
+
+const DESKS = PERMISSION_PAGES.filter(p => (STATION_PERMISSION_KEYS as readonly string[]).includes(p.key));
+
+const emptyForm = {
+  name: '',
+  pin: '',
+  permissions: ['reception'] as StationPermissionKey[],
+  validFrom: '',
+  validUntil: '',
+};
+
+const fetcher = (url: string, apiRequest: (url: string) => Promise<Response>) =>
+  apiRequest(url).then(async res => {
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
+    return data.data as StationRow[];
+  });
+
+const Stations: React.FC = () => {
+  const { apiRequest } = useAuth();
+  const { showToast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const { data: stations, error, isLoading, mutate } = useSWR(
+    apiUrl('/api/stations'),
+    (url: string) => fetcher(url, apiRequest)
+  );
+
+  const toggleDesk = (key: StationPermissionKey) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(key)
+        ? prev.permissions.filter(p => p !== key)
+        : [...prev.permissions, key],
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await apiRequest(apiUrl('/api/stations'), {
+        method: 'POST',
+        body: JSON.stringify({
+          name: formData.name,
+          pin: formData.pin,
+          permissions: formData.permissions,
+          // Kosong -> server pakai window default di sekitar tanggal acara
+          validFrom: formData.validFrom ? new Date(formData.validFrom).toISOString() : undefined,
+          validUntil: formData.validUntil ? new Date(formData.validUntil).toISOString() : undefined,
+        }),
+      });
+      const result = await res.json();
+      if (!res.ok || !result.success) {
+        throw new Error(result.error?.issues?.[0]?.message || result.error || 'Failed to create station');
+      }
+      showToast(`Station created. Code: ${result.data.code}`, 'success');
+      setFormData(emptyForm);
+      setShowForm(false);
+      mutate();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to create station', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (station: StationRow) => {
+    if (!confirm(`Revoke "${station.name}"? Devices using it are signed out immediately.`)) return;
+    try {
+      const res = await apiRequest(apiUrl(`/api/stations/${station._id}/revoke`), { method: 'POST' });
+      const result = await res.json();
+      if (!res.ok || !result.success) throw new Error(result.error || 'Failed to revoke station');
+      showToast('Station revoked', 'success');
+      mutate();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to revoke station', 'error');
+    }
+  };
+
+  const handleDelete = async (station: StationRow) => {
+    if (!confirm(`Delete "${station.name}"?`)) return;
+    try {
+      const res = await apiRequest(apiUrl(`/api/stations/${station._id}`), { method: 'DELETE' });
+      const result = await res.json();
+      if (!res.ok || !result.success) throw new Error(result.error || 'Failed to delete station');
+      showToast('Station deleted', 'success');
+      mutate();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to delete station', 'error');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="flex flex-col flex-1">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-background rounded-xl border border-border shadow-sm">
+          <div className="flex items-center justify-between h-16 px-4 sm:px-6 border-b border-border">
+            <div className="flex items-center space-x-3">
+              <Tablet className="w-6 h-6 text-primary" />
+              <h1 className="text-xl font-semibold text-text">Reception Stations</h1>
+            </div>
+            <button
+              onClick={() => setShowForm(true)}
+              className="inline-flex items-center px-3 py-2 bg-primary text-white rounded-lg hover:bg-indigo-600 transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Add Station</span>
+              <span className="sm:hidden">Add</span>
+            </button>
+          </div>
+
+          {error ? (
+            <div className="p-6 text-sm text-red-600">Failed to load stations: {error.message}</div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !stations?.length ? (
+            <div className="p-6 text-sm text-gray-500 text-center">
+              No stations yet. Create one per desk tablet; ushers sign in with the station code and PIN.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-secondary text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Station</th>
+                    <th className="px-4 py-3 font-medium">Code</th>
+                    <th className="px-4 py-3 font-medium">Desks</th>
+                    <th className="px-4 py-3 font-medium">Valid</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stations.map(station => (
+                    <tr key={station._id} className="border-t border-border align-top">
+                      <td className="px-4 py-3">
+                        <div className="text-text font-medium">{station.name}</div>
+                        {station.lastLoginAt && (
+                          <div className="text-xs text-gray-400">Last login {new Date(station.lastLoginAt).toLocaleString()}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono tracking-widest text-text">{station.code}</td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {station.permissions.map(p => DESKS.find(d => d.key === p)?.label ?? p).join(', ')}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-600 whitespace-nowrap">
+                        <div>{new Date(station.validFrom).toLocaleString()}</div>
+                        <div>– {new Date(station.validUntil).toLocaleString()}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[station.status]}`}>
+                          {station.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end space-x-1">
+                          {station.status !== 'revoked' && (
+                            <button
+                              onClick={() => handleRevoke(station)}
+                              className="p-2 rounded-lg text-amber-600 hover:bg-amber-50 transition-colors"
+                              title="Revoke"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(station)}
+                            className="p-2 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 px-4">
+          <form onSubmit={handleCreate} className="bg-background rounded-xl shadow-lg w-full max-w-md p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-text">New Station</h2>
+              <button type="button" onClick={() => setShowForm(false)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">Name</label>
+              <input
+                type="text"
+                placeholder="Meja Resepsi 1"
+                value={formData.name}
+                onChange={e => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-1">PIN (4-8 digits)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]{4,8}"
+                value={formData.pin}
+                onChange={e => setFormData({ ...formData, pin: e.target.value.replace(/\D/g, '') })}
+                className={`${inputClass} tracking-widest`}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Desks</label>
+              <div className="space-y-2">
+                {DESKS.map(desk => (
+                  <label key={desk.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.permissions.includes(desk.key as StationPermissionKey)}
+                      onChange={() => toggleDesk(desk.key as StationPermissionKey)}
+                      className="rounded text-primary focus:ring-primary w-4 h-4"
+                    />
+                    <span className="text-text">{desk.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Valid from</label>
+                <input
+                  type="datetime-local"
+                  value={formData.validFrom}
+                  onChange={e => setFormData({ ...formData, validFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-1">Valid until</label>
+                <input
+                  type="datetime-local"
+                  value={formData.validUntil}
+                  onChange={e => setFormData({ ...formData, validUntil: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Leave empty to use a window around the event date.</p>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm rounded-lg border border-border hover:bg-secondary transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || formData.permissions.length === 0}
+                className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Creating...' : 'Create Station'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Stations;
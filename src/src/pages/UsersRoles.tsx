@@ -6,8 +6,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { User, UserPermission } from '../../shared/types';
-import { Plus, Search, ChevronDown, Download, Filter, Trash2, Edit, UserPlus, Shield, User as UserIcon, Phone, Settings, Key, Upload } from 'lucide-react';
+import { User, UserPermission, UserRole, PERMISSION_PAGES } from '../../shared/types';
+import { Plus, Search, ChevronDown, Download, Filter, Trash2, Edit, UserPlus, Shield, User as UserIcon, Phone, Settings, Key, Upload, Unlock, ShieldOff } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
 import ToggleSwitch from '../components/common/ToggleSwitch';
 import { getApiUrl, getAuthHeaders } from '../utils/api';
@@ -16,16 +16,13 @@ interface UserWithDetails extends User {
   phone?: string;
   status: 'active' | 'inactive';
   lastLoginAt?: Date;
+  // Diisi server kalau login user sedang dikunci karena terlalu banyak gagal
+  lockedUntil?: string | null;
+  twoFactorEnabled?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Available pages for permission assignment - only 2 pages require permission control
-const AVAILABLE_PAGES = [
-  { key: 'guests', label: 'Manage Guests', description: 'View and manage guest list' },
-  { key: 'reception', label: 'Reception Check-in', description: 'Guest check-in functionality' },
-];
-
 const UsersRoles: React.FC = () => {
   const { user: currentUser, apiRequest } = useAuth();
   const { showToast } = useToast();
@@ -41,7 +38,7 @@ const UsersRoles: React.FC = () => {
     username: '',
     phone: '',
     password: '',
-    role: 'user' as 'admin' | 'user',
+    role: 'user' as UserRole,
   });
   const [permissionsData, setPermissionsData] = useState<UserPermission[]>([]);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -198,10 +195,6 @@ const UsersRoles: React.FC = () => {
         permissions: formData.role === 'user' ? permissionsData : [],
       };
 
-      if (formData.password.trim()) {
-        updatePayload.password = formData.password.trim();
-      }
-
       const updateRes = await fetch(getApiUrl(`/api/users/${selectedUser.id}`), {
         method: 'PATCH',
         headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
@@ -218,6 +211,19 @@ const UsersRoles: React.FC = () => {
         throw new Error(msg);
       }
 
+      // Password baru di-set lewat endpoint reset (hash + revoke sesi user tsb)
+      if (formData.password.trim()) {
+        const resetRes = await fetch(getApiUrl(`/api/users/${selectedUser.id}/reset-password`), {
+          method: 'POST',
+          headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ newPassword: formData.password.trim() }),
+        });
+        if (!resetRes.ok) {
+          const j = await resetRes.json().catch(() => null);
+          throw new Error(j?.error || 'Failed to reset password');
+        }
+      }
+
       // 2️⃣ Upload foto baru kalau dipilih
       const [okWedding, okDashboard, okWelcome] = await Promise.all([
         selectedPhoto ? handlePhotoUpload(selectedPhoto, selectedUser.id, 'weddingPhotoUrl') : Promise.resolve(true),
@@ -302,6 +308,43 @@ const UsersRoles: React.FC = () => {
     });
   };
 
+  const handleUnlockUser = async (user: UserWithDetails) => {
+    try {
+      const response = await fetch(getApiUrl(`/api/users/${user.id}/unlock`), {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || 'Failed to unlock user');
+      }
+      showToast(`Login ${user.username} berhasil dibuka`, 'success');
+      fetchUsers();
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      showToast(error instanceof Error ? error.message : 'Gagal membuka kunci user', 'error');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: UserWithDetails) => {
+    if (!confirm(`Reset 2FA untuk ${user.username}? User bisa login hanya dengan password sampai mendaftar ulang.`)) return;
+    try {
+      const response = await fetch(getApiUrl(`/api/users/${user.id}/reset-2fa`), {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || 'Failed to reset 2FA');
+      }
+      showToast(`2FA ${user.username} berhasil direset`, 'success');
+      fetchUsers();
+    } catch (error) {
+      console.error('Error resetting 2FA:', error);
+      showToast(error instanceof Error ? error.message : 'Gagal reset 2FA', 'error');
+    }
+  };
+
   const handleDeleteUser = async () => {
     if (!selectedUser) return;
 
@@ -355,11 +398,16 @@ const UsersRoles: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
 
   const getRoleBadge = (role: string) => {
-    return role === 'admin'
+    return role === 'admin' || role === 'operator'
       ? 'bg-indigo-100 text-indigo-800'
       : 'bg-gray-100 text-gray-800';
   };
 
+  const getRoleLabel = (role: string) => {
+    if (role === 'operator') return 'Operator';
+    return role === 'admin' ? 'Admin' : 'User';
+  };
+
   const getStatusBadge = (status: string) => {
     return status === 'active'
       ? 'bg-green-100 text-green-800'
@@ -507,7 +555,7 @@ const UsersRoles: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadge(user.role)}`}>
-                            {user.role === 'admin' ? 'Admin' : 'User'}
+                            {getRoleLabel(user.role)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -515,13 +563,26 @@ const UsersRoles: React.FC = () => {
                             <span className={`w-2 h-2 rounded-full ${user.status === 'active' ? 'bg-green-500' : 'bg-red-500'}`}></span>
                             <span className="text-sm text-text capitalize">{user.status}</span>
                           </span>
+                          {user.lockedUntil && (
+                            <span
+                              className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                              title={`Locked until ${new Date(user.lockedUntil).toLocaleString()}`}
+                            >
+                              Locked
+                            </span>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              2FA
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {user.role === 'user' && (
                             <div className="flex items-center space-x-2">
                               <Key className="w-4 h-4 text-gray-400" />
                               <span className="text-sm text-text">
-                                {user.permissions?.filter(p => p.canAccess).length || 0} / {AVAILABLE_PAGES.length}
+                                {user.permissions?.filter(p => p.canAccess).length || 0} / {PERMISSION_PAGES.length}
                               </span>
                             </div>
                           )}
@@ -553,6 +614,24 @@ const UsersRoles: React.FC = () => {
                                 <Settings className="w-4 h-4" />
                               </button>
                             )}
+                            {user.lockedUntil && (
+                              <button
+                                onClick={() => handleUnlockUser(user)}
+                                className="text-amber-600 hover:text-amber-800 transition-colors"
+                                title="Unlock Login"
+                              >
+                                <Unlock className="w-4 h-4" />
+                              </button>
+                            )}
+                            {user.twoFactorEnabled && (
+                              <button
+                                onClick={() => handleResetTwoFactor(user)}
+                                className="text-amber-600 hover:text-amber-800 transition-colors"
+                                title="Reset 2FA"
+                              >
+                                <ShieldOff className="w-4 h-4" />
+                              </button>
+                            )}
                             <button
                               onClick={() => {
                                 setSelectedUser(user);
@@ -588,7 +667,7 @@ const UsersRoles: React.FC = () => {
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getRoleBadge(user.role)}`}>
-                            {user.role === 'admin' ? 'Admin' : 'User'}
+                            {getRoleLabel(user.role)}
                           </span>
                           <button
                             onClick={() => handleEditUser(user)}
@@ -606,6 +685,24 @@ const UsersRoles: React.FC = () => {
                               <Settings className="w-4 h-4" />
                             </button>
                           )}
+                          {user.lockedUntil && (
+                            <button
+                              onClick={() => handleUnlockUser(user)}
+                              className="text-amber-600 hover:text-amber-800 transition-colors p-1"
+                              title="Unlock Login"
+                            >
+                              <Unlock className="w-4 h-4" />
+                            </button>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <button
+                              onClick={() => handleResetTwoFactor(user)}
+                              className="text-amber-600 hover:text-amber-800 transition-colors p-1"
+                              title="Reset 2FA"
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => {
                               setSelectedUser(user);
@@ -622,6 +719,12 @@ const UsersRoles: React.FC = () => {
                         <div className="flex items-center space-x-2">
                           <span className={`w-2 h-2 rounded-full ${user.status === 'active' ? 'bg-green-500' : 'bg-red-500'}`}></span>
                           <span className="text-text capitalize">{user.status}</span>
+                          {user.lockedUntil && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Locked</span>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">2FA</span>
+                          )}
                         </div>
                         <div className="text-gray-500">
                           {user.role === 'user' && (
@@ -718,7 +821,7 @@ const UsersRoles: React.FC = () => {
                         Page Access Permissions
                       </h3>
                       <div className="space-y-2 max-h-48 overflow-y-auto border border-border rounded-lg p-3">
-                        {AVAILABLE_PAGES.map((page) => {
+                        {PERMISSION_PAGES.map((page) => {
                           const hasPermission =
                             permissionsData.find((p) => p.page === page.key)?.canAccess ||
                             false;
@@ -833,7 +936,7 @@ const UsersRoles: React.FC = () => {
                     <div className="pt-2">
                       <h3 className="text-sm font-semibold text-primary mb-2">Page Access Permissions</h3>
                       <div className="space-y-2 max-h-48 overflow-y-auto border border-border rounded-lg p-3">
-                        {AVAILABLE_PAGES.map((page) => {
+                        {PERMISSION_PAGES.map((page) => {
                           const hasPermission = permissionsData.find(p => p.page === page.key)?.canAccess || false;
 
                           return (
@@ -916,7 +1019,7 @@ const UsersRoles: React.FC = () => {
               <div className="bg-background rounded-xl p-6 w-full max-w-md mx-4">
                 <h2 className="text-lg font-semibold text-text mb-4">Manage Permissions - {selectedUser.username}</h2>
                 <div className="space-y-3 mb-6">
-                  {AVAILABLE_PAGES.map((page) => {
+                  {PERMISSION_PAGES.map((page) => {
                     const hasPermission = permissionsData.find(p => p.page === page.key)?.canAccess || false;
 
                     return (
@@ -11,14 +11,7 @@ import { useRealtimeGuests } from '../hooks/useRealtimeGuests';
 import { apiUrl } from '../lib/api';
 import { usePhoto } from "../contexts/PhotoProvider";
 import { useAccount } from '../hooks/useAccount';
-
-const fetcher = (url: string) => {
-  return fetch(url, {
-    headers: {
-      'Content-Type': 'application/json'
-    }
-  }).then(res => res.json());
-};
+import { useAuth } from '../contexts/AuthContext';
 
 function getYoutubeEmbedUrl(raw?: string | null): string | null {
   if (!raw) return null;
@@ -56,10 +49,11 @@ function WelcomeDisplay(): JSX.Element {
   const [mutateKey, setMutateKey] = useState(0);
   const { photoUrl, dashboardUrl, welcomeUrl } = usePhoto();
   const { account } = useAccount();
+  const { apiRequest } = useAuth();
 
   const { data: recentCheckinsData, error: checkinsError, mutate: mutateCheckins } = useSWR(
     [apiUrl(`/api/welcome-display/guests/recent-checkins?timeframe=30`), mutateKey],
-    ([url]) => fetcher(url),
+    ([url]) => apiRequest(url).then(res => res.json()),
     { refreshInterval: 2000, revalidateOnFocus: true, revalidateOnReconnect: true }
   );
 
@@ -23,7 +23,7 @@ export function getApiUrl(path: string): string {
 /**
  * Get auth headers for API requests
  */
-export function getAuthHeaders(userId?: string): Record<string, string> {
+export function getAuthHeaders(): Record<string, string> {
   // Use unified localStorage for consistent auth across tabs
   const token = localStorage.getItem('auth_token');
   
@@ -34,12 +34,8 @@ export function getAuthHeaders(userId?: string): Record<string, string> {
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
-  
-  if (userId) {
-    headers['user-id'] = userId;
-  }
-  
-  console.log('Auth headers:', { hasToken: !!token, hasUserId: !!userId, userId });
+
+  console.log('Auth headers:', { hasToken: !!token });
   return headers;
 }
 
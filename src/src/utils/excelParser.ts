@@ -2,6 +2,8 @@
  * Excel file parsing utility for guest data import
  * Supports .xlsx and .xls file formats
  */
+import type { CustomFieldDef, CustomFieldValue } from '../../shared/types';
+import { parseCustomFieldInput } from '../../shared/custom-fields';
 
 export interface ExcelRow {
   [key: string]: string | number | undefined;
@@ -16,6 +18,7 @@ export interface ParsedGuestData {
   limit: number;
   notes?: string;
   tableNo?: string;
+  customFields?: Record<string, CustomFieldValue>;
   errors: string[];
   isValid: boolean;
 }
@@ -103,10 +106,20 @@ export const validateEmail = (email: string): { isValid: boolean; error?: string
   return { isValid: true };
 };
 
+/**
+ * Find the cell of a custom field; the column header may be the field label
+ * or its key, in any letter case
+ */
+const customFieldCell = (row: ExcelRow, def: CustomFieldDef): string | number | undefined => {
+  const names = [def.label.toLowerCase(), def.key];
+  const column = Object.keys(row).find((k) => names.includes(k.trim().toLowerCase()));
+  return column === undefined ? undefined : row[column];
+};
+
 /**
  * Parse and validate a single row of guest data
  */
-export const parseGuestRow = (row: ExcelRow, rowIndex: number): ParsedGuestData => {
+export const parseGuestRow = (row: ExcelRow, rowIndex: number, customFieldDefs: CustomFieldDef[] = []): ParsedGuestData => {
   const errors: string[] = [];
   
   // Extract and clean data
@@ -141,6 +154,18 @@ export const parseGuestRow = (row: ExcelRow, rowIndex: number): ParsedGuestData
     }
   }
   
+  const customFields: Record<string, CustomFieldValue> = {};
+  for (const def of customFieldDefs) {
+    const { value, error } = parseCustomFieldInput(def, customFieldCell(row, def));
+    if (error) {
+      errors.push(error);
+    } else if (value !== null) {
+      customFields[def.key] = value;
+    } else if (def.required) {
+      errors.push(`${def.label} is required`);
+    }
+  }
+  
   return {
     name,
     phone: phone ? formatIndonesianPhone(phone) : '',
@@ -150,6 +175,7 @@ export const parseGuestRow = (row: ExcelRow, rowIndex: number): ParsedGuestData
     limit: limit || undefined,
     notes: notes || undefined,
     tableNo: tableNo || undefined,
+    customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
     errors,
     isValid: errors.length === 0
   };
@@ -159,13 +185,13 @@ export const parseGuestRow = (row: ExcelRow, rowIndex: number): ParsedGuestData
  * Parse Excel file data
  * Expects an array of objects where each object represents a row
  */
-export const parseExcelData = (data: ExcelRow[]): { guests: ParsedGuestData[]; totalRows: number; validRows: number; invalidRows: number } => {
+export const parseExcelData = (data: ExcelRow[], customFieldDefs: CustomFieldDef[] = []): { guests: ParsedGuestData[]; totalRows: number; validRows: number; invalidRows: number } => {
   const guests: ParsedGuestData[] = [];
   let validRows = 0;
   let invalidRows = 0;
   
   data.forEach((row, index) => {
-    const parsedGuest = parseGuestRow(row, index + 2); // +2 because row 1 is header, and we want 1-based indexing for display
+    const parsedGuest = parseGuestRow(row, index + 2, customFieldDefs); // +2 because row 1 is header, and we want 1-based indexing for display
     guests.push(parsedGuest);
     
     if (parsedGuest.isValid) {
@@ -183,10 +209,30 @@ export const parseExcelData = (data: ExcelRow[]): { guests: ParsedGuestData[]; t
   };
 };
 
+const sampleCustomValue = (def: CustomFieldDef): string | number => {
+  switch (def.type) {
+    case 'number':
+      return 1;
+    case 'boolean':
+      return 'Ya';
+    case 'select':
+      return def.options?.[0] ?? '';
+    case 'date':
+      return '2026-01-31';
+    default:
+      return '';
+  }
+};
+
 /**
- * Generate sample Excel data for download
+ * Generate sample Excel data for download; custom fields of the account get
+ * their own column headed by the field label
  */
-export const generateSampleExcelData = (): ExcelRow[] => {
+export const generateSampleExcelData = (customFieldDefs: CustomFieldDef[] = []): ExcelRow[] => {
+  const custom = customFieldDefs.reduce<ExcelRow>((row, def) => {
+    row[def.label] = sampleCustomValue(def);
+    return row;
+  }, {});
   return [
     {
       Name: 'John Doe',
@@ -196,7 +242,8 @@ export const generateSampleExcelData = (): ExcelRow[] => {
       Session: 1,
       Limit: 2,
       'Table No': 'A1',
-      Notes: 'Vegetarian'
+      Notes: 'Vegetarian',
+      ...custom
     },
     {
       Name: 'Jane Smith',
@@ -206,7 +253,8 @@ export const generateSampleExcelData = (): ExcelRow[] => {
       Session: 2,
       Limit: 1,
       'Table No': 'B2',
-      Notes: 'Allergic to seafood'
+      Notes: 'Allergic to seafood',
+      ...custom
     },
     {
       Name: 'Bob Johnson',
@@ -216,7 +264,8 @@ export const generateSampleExcelData = (): ExcelRow[] => {
       Session: 1,
       Limit: 3,
       'Table No': 'C3',
-      Notes: 'Family of 3'
+      Notes: 'Family of 3',
+      ...custom
     }
   ];
 };
\ No newline at end of file